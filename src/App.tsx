@@ -14,6 +14,12 @@ import { TruePortfolioSetupManager } from "./components/TruePortfolioSetupManage
 import { ProfileSettingsModal } from "./components/ProfileSettingsModal";
 import { GlobalFilterProvider, useGlobalFilter } from "./context/GlobalFilterContext";
 import { AccountingMethodProvider } from "./context/AccountingMethodContext";
+import { ChargesSettingsProvider } from "./context/ChargesSettingsContext";
+import { MarketCalendarProvider } from "./context/MarketCalendarContext";
+import { RiskRulesProvider } from "./context/RiskRulesContext";
+import { TradeTagsProvider } from "./context/TradeTagsContext";
+import { AccountProvider } from "./context/AccountContext";
+import { AccountSwitcher } from "./components/AccountSwitcher";
 import { GlobalFilterBar } from "./components/GlobalFilterBar";
 import { TradeTrackerLogo } from './components/icons/TradeTrackerLogo';
 import { AnimatedBrandName } from './components/AnimatedBrandName';
@@ -136,8 +142,13 @@ export default function App() {
 
 
   return (
+    <AccountProvider>
     <TruePortfolioProvider>
       <AccountingMethodProvider>
+        <ChargesSettingsProvider>
+        <MarketCalendarProvider>
+        <RiskRulesProvider>
+        <TradeTagsProvider>
         <GlobalFilterProvider>
           <div className="min-h-screen bg-background font-sans antialiased">
           {/* Navigation */}
@@ -187,6 +198,7 @@ export default function App() {
 
                 {/* Right Side Actions */}
                 <div className="flex items-center gap-3">
+                  <AccountSwitcher className="hidden md:flex" />
                   <ThemeSwitcher />
                   <Button
                     variant="flat"
@@ -229,6 +241,7 @@ export default function App() {
                         </Link>
                       );
                     })}
+                    <AccountSwitcher className="w-full md:hidden" />
                     {/* Profile Button for Mobile */}
                     <Button
                       variant="light"
@@ -293,7 +306,12 @@ export default function App() {
           <Analytics />
           </div>
         </GlobalFilterProvider>
+        </TradeTagsProvider>
+        </RiskRulesProvider>
+        </MarketCalendarProvider>
+        </ChargesSettingsProvider>
       </AccountingMethodProvider>
     </TruePortfolioProvider>
+    </AccountProvider>
   );
 }
\ No newline at end of file
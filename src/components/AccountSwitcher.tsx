@@ -0,0 +1,39 @@
+import React from "react";
+import { Select, SelectItem } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { useAccount } from "../context/AccountContext";
+import { ALL_ACCOUNTS_ID } from "../utils/accounts";
+
+/**
+ * Header selector for the account whose journal is shown, or the consolidated view
+ */
+export const AccountSwitcher: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { accounts, activeAccountId, setActiveAccountId } = useAccount();
+
+  // Nothing to switch between until a second account is added
+  if (accounts.length < 2) return null;
+
+  const items = [
+    ...accounts.map(account => ({ id: account.id, label: account.name })),
+    { id: ALL_ACCOUNTS_ID, label: 'All accounts' }
+  ];
+
+  return (
+    <Select
+      aria-label="Select account"
+      size="sm"
+      variant="bordered"
+      className={`w-44 ${className}`}
+      selectedKeys={[activeAccountId]}
+      disallowEmptySelection
+      startContent={<Icon icon={activeAccountId === ALL_ACCOUNTS_ID ? "lucide:layers" : "lucide:wallet"} className="w-4 h-4 text-default-500" />}
+      onSelectionChange={(keys) => {
+        const id = Array.from(keys)[0] as string;
+        if (id) setActiveAccountId(id);
+      }}
+      items={items}
+    >
+      {(item) => <SelectItem key={item.id}>{item.label}</SelectItem>}
+    </Select>
+  );
+};
@@ -0,0 +1,187 @@
+import React from "react";
+import { Button, Chip, Input, Select, SelectItem } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { useAccount } from "../context/AccountContext";
+import { useTruePortfolio } from "../utils/TruePortfolioContext";
+import { ACCOUNT_TYPE_LABELS, AccountType, DEFAULT_ACCOUNT_ID } from "../utils/accounts";
+
+/**
+ * Add, rename and delete the demat / F&O accounts trades are recorded against
+ */
+export const AccountsPanel: React.FC = () => {
+  const { accounts, activeAccountId, setActiveAccountId, addAccount, updateAccount, deleteAccount } = useAccount();
+  const { removeAccountData } = useTruePortfolio();
+  const [name, setName] = React.useState('');
+  const [type, setType] = React.useState<AccountType>('equity');
+  const [broker, setBroker] = React.useState('');
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [editingName, setEditingName] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+
+  const handleAdd = async () => {
+    if (!name.trim()) return;
+    setError(null);
+    const account = await addAccount(name, type, broker);
+    if (!account) {
+      setError('Could not add the account. Check the console for details.');
+      return;
+    }
+    setName('');
+    setBroker('');
+    setType('equity');
+  };
+
+  const handleRename = async (id: string) => {
+    const account = accounts.find(item => item.id === id);
+    if (account && editingName.trim()) {
+      await updateAccount({ ...account, name: editingName.trim() });
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (id: string, accountName: string) => {
+    if (!window.confirm(`Delete "${accountName}" with all its trades, capital entries and tax data? This cannot be undone.`)) {
+      return;
+    }
+    const success = await deleteAccount(id);
+    if (success) {
+      // useTrades drops the loaded trades of an account once it leaves the account list
+      removeAccountData(id);
+    } else {
+      setError('Could not delete the account. Check the console for details.');
+    }
+  };
+
+  return (
+    <div className="py-3 space-y-3">
+      <p className="text-xs text-foreground-500 p-3 bg-content1/30 rounded-lg border border-divider/30">
+        Each account keeps its own trades, starting capital, capital changes and tax data.
+        Switch accounts from the header, or pick "All accounts" for a consolidated view.
+      </p>
+
+      <div className="space-y-2">
+        {accounts.map(account => (
+          <div
+            key={account.id}
+            className="flex items-center justify-between gap-3 p-3 border border-divider/50 rounded-lg bg-background/50"
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                <Icon icon={account.type === 'fno' ? "lucide:activity" : "lucide:wallet"} className="w-4 h-4 text-primary" />
+              </div>
+              {editingId === account.id ? (
+                <Input
+                  size="sm"
+                  variant="bordered"
+                  value={editingName}
+                  onValueChange={setEditingName}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleRename(account.id); }}
+                  aria-label="Account name"
+                  autoFocus
+                />
+              ) : (
+                <div className="min-w-0">
+                  <p className="font-semibold text-sm text-foreground truncate">{account.name}</p>
+                  <p className="text-xs text-default-500">
+                    {ACCOUNT_TYPE_LABELS[account.type] || account.type}{account.broker ? ` · ${account.broker}` : ''}
+                  </p>
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              {activeAccountId === account.id ? (
+                <Chip size="sm" variant="flat" color="primary">Active</Chip>
+              ) : (
+                <Button size="sm" variant="light" onPress={() => setActiveAccountId(account.id)}>
+                  Switch
+                </Button>
+              )}
+              {editingId === account.id ? (
+                <Button isIconOnly size="sm" variant="light" onPress={() => handleRename(account.id)} aria-label="Save name">
+                  <Icon icon="lucide:check" className="w-4 h-4" />
+                </Button>
+              ) : (
+                <Button
+                  isIconOnly
+                  size="sm"
+                  variant="light"
+                  onPress={() => { setEditingId(account.id); setEditingName(account.name); }}
+                  aria-label="Rename account"
+                >
+                  <Icon icon="lucide:pencil" className="w-4 h-4" />
+                </Button>
+              )}
+              <Button
+                isIconOnly
+                size="sm"
+                variant="light"
+                color="danger"
+                isDisabled={account.id === DEFAULT_ACCOUNT_ID}
+                onPress={() => handleDelete(account.id, account.name)}
+                aria-label="Delete account"
+              >
+                <Icon icon="lucide:trash-2" className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="border border-divider/50 rounded-lg p-3 bg-background/50 space-y-3">
+        <h4 className="font-medium text-sm flex items-center gap-2">
+          <Icon icon="lucide:plus-circle" className="w-4 h-4 text-primary" />
+          Add Account
+        </h4>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <Input
+            label="Name"
+            placeholder="e.g., Zerodha F&O"
+            size="sm"
+            variant="bordered"
+            value={name}
+            onValueChange={setName}
+          />
+          <Select
+            label="Type"
+            size="sm"
+            variant="bordered"
+            selectedKeys={[type]}
+            onSelectionChange={(keys) => {
+              const value = Array.from(keys)[0] as AccountType;
+              if (value) setType(value);
+            }}
+          >
+            {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(key => (
+              <SelectItem key={key}>{ACCOUNT_TYPE_LABELS[key]}</SelectItem>
+            ))}
+          </Select>
+          <Input
+            label="Broker (optional)"
+            size="sm"
+            variant="bordered"
+            value={broker}
+            onValueChange={setBroker}
+          />
+        </div>
+        {error && (
+          <div className="flex items-center gap-2 text-xs text-danger p-2 rounded-lg bg-danger-50 dark:bg-danger-900/20">
+            <Icon icon="lucide:alert-circle" className="w-4 h-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            color="primary"
+            variant="flat"
+            isDisabled={!name.trim()}
+            startContent={<Icon icon="lucide:plus" className="w-3 h-3" />}
+            onPress={handleAdd}
+          >
+            Add account
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
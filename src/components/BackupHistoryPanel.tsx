@@ -0,0 +1,254 @@
+import React from "react";
+import { Button, Chip, Input, Select, SelectItem, Tooltip } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import {
+  DatabaseService,
+  BackupRecord,
+  BackupRetention,
+  BackupTrigger,
+  BackupType,
+  DEFAULT_BACKUP_RETENTION
+} from "../db/database";
+import {
+  BackupHistoryService,
+  TradesDiff,
+  diffTrades,
+  getSnapshotTrades,
+  isRestorableSnapshot
+} from "../db/backupHistory";
+
+const TRIGGER_LABELS: Record<BackupTrigger, string> = {
+  save: 'Auto-save',
+  import: 'Before import',
+  clear: 'Before clear',
+  restore: 'Before restore',
+  manual: 'Manual'
+};
+
+const TRIGGER_COLORS: Record<BackupTrigger, "default" | "primary" | "warning" | "danger" | "secondary"> = {
+  save: 'default',
+  import: 'primary',
+  clear: 'danger',
+  restore: 'warning',
+  manual: 'secondary'
+};
+
+const TYPE_LABELS: Partial<Record<BackupType, string>> = {
+  trades: 'Trades',
+  database: 'Full database'
+};
+
+const DiffSummary: React.FC<{ diff: TradesDiff | null }> = ({ diff }) => {
+  if (!diff) return <span className="text-default-400">—</span>;
+  if (diff.added + diff.removed + diff.changed === 0) {
+    return <span className="text-default-500">Same as current</span>;
+  }
+  return (
+    <Tooltip content="Difference between the snapshot and your current trades">
+      <span className="flex gap-2">
+        {diff.added > 0 && <span className="text-success">+{diff.added} added</span>}
+        {diff.removed > 0 && <span className="text-danger">−{diff.removed} removed</span>}
+        {diff.changed > 0 && <span className="text-warning">~{diff.changed} changed</span>}
+      </span>
+    </Tooltip>
+  );
+};
+
+/**
+ * Snapshots kept in the backups table, with diff against current data and point-in-time restore
+ */
+export const BackupHistoryPanel: React.FC = () => {
+  const [backups, setBackups] = React.useState<BackupRecord[]>([]);
+  const [diffs, setDiffs] = React.useState<Record<number, TradesDiff | null>>({});
+  const [typeFilter, setTypeFilter] = React.useState<'all' | BackupType>('all');
+  const [retention, setRetention] = React.useState<BackupRetention>(DEFAULT_BACKUP_RETENTION);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [busyId, setBusyId] = React.useState<number | 'snapshot' | null>(null);
+
+  const loadBackups = React.useCallback(async () => {
+    setIsLoading(true);
+    const [records, currentTrades, storedRetention] = await Promise.all([
+      DatabaseService.getBackups(),
+      DatabaseService.getAllTrades(),
+      DatabaseService.getBackupRetention()
+    ]);
+
+    const nextDiffs: Record<number, TradesDiff | null> = {};
+    records.forEach(record => {
+      const snapshotTrades = getSnapshotTrades(record);
+      nextDiffs[record.id!] = snapshotTrades ? diffTrades(snapshotTrades, currentTrades) : null;
+    });
+
+    setBackups(records);
+    setDiffs(nextDiffs);
+    setRetention(storedRetention);
+    setIsLoading(false);
+  }, []);
+
+  React.useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  const types = React.useMemo(() => Array.from(new Set(backups.map(b => b.type))), [backups]);
+  const visibleBackups = typeFilter === 'all' ? backups : backups.filter(b => b.type === typeFilter);
+
+  const handleRestore = async (backup: BackupRecord) => {
+    if (!window.confirm(`Restore the snapshot from ${backup.createdAt.toLocaleString()}? Your current data is snapshotted first.`)) {
+      return;
+    }
+    setBusyId(backup.id!);
+    const success = await BackupHistoryService.restoreSnapshot(backup);
+    if (success) {
+      // Contexts and hooks load from IndexedDB on mount
+      window.location.reload();
+    } else {
+      setBusyId(null);
+      window.alert('Restore failed. Check the console for details.');
+    }
+  };
+
+  const handleDelete = async (backup: BackupRecord) => {
+    setBusyId(backup.id!);
+    await DatabaseService.deleteBackup(backup.id!);
+    setBusyId(null);
+    loadBackups();
+  };
+
+  const handleSnapshotNow = async () => {
+    setBusyId('snapshot');
+    await BackupHistoryService.snapshotDatabase('Manual snapshot', 'manual');
+    setBusyId(null);
+    loadBackups();
+  };
+
+  const handleSaveRetention = async () => {
+    await DatabaseService.saveBackupRetention(retention);
+    loadBackups();
+  };
+
+  const updateRetention = (key: keyof BackupRetention, value: string) => {
+    setRetention(prev => ({ ...prev, [key]: Math.max(0, parseInt(value, 10) || 0) }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Select
+          aria-label="Snapshot type"
+          size="sm"
+          variant="bordered"
+          className="max-w-[180px]"
+          selectedKeys={[typeFilter]}
+          onSelectionChange={(keys) => {
+            const type = Array.from(keys)[0] as 'all' | BackupType;
+            if (type) setTypeFilter(type);
+          }}
+        >
+          {[{ key: 'all', label: 'All snapshots' }, ...types.map(type => ({ key: type, label: TYPE_LABELS[type] || type }))].map(item => (
+            <SelectItem key={item.key}>{item.label}</SelectItem>
+          ))}
+        </Select>
+        <Button
+          size="sm"
+          variant="flat"
+          color="primary"
+          isLoading={busyId === 'snapshot'}
+          startContent={busyId !== 'snapshot' && <Icon icon="lucide:camera" className="w-3 h-3" />}
+          onPress={handleSnapshotNow}
+        >
+          Snapshot now
+        </Button>
+      </div>
+
+      <div className="rounded-lg border border-divider/50 overflow-hidden max-h-[320px] overflow-y-auto">
+        {isLoading ? (
+          <div className="text-center py-6 text-xs text-default-500">Loading snapshots...</div>
+        ) : visibleBackups.length === 0 ? (
+          <div className="text-center py-6 text-default-500">
+            <Icon icon="lucide:history" className="text-2xl mb-2 mx-auto opacity-50" />
+            <p className="text-sm">No snapshots yet</p>
+          </div>
+        ) : (
+          visibleBackups.map(backup => {
+            const trigger = backup.trigger || 'save';
+            return (
+              <div
+                key={backup.id}
+                className="flex items-center justify-between gap-3 px-3 py-2 border-b border-divider/30 last:border-b-0 text-xs"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{backup.createdAt.toLocaleString()}</span>
+                    <Chip size="sm" variant="flat">{TYPE_LABELS[backup.type] || backup.type}</Chip>
+                    <Chip size="sm" variant="flat" color={TRIGGER_COLORS[trigger]}>{TRIGGER_LABELS[trigger]}</Chip>
+                  </div>
+                  <div className="flex items-center gap-3 text-default-500">
+                    {backup.description && <span className="truncate">{backup.description}</span>}
+                    <DiffSummary diff={diffs[backup.id!] ?? null} />
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    isDisabled={!isRestorableSnapshot(backup) || busyId !== null}
+                    isLoading={busyId === backup.id}
+                    onPress={() => handleRestore(backup)}
+                  >
+                    Restore
+                  </Button>
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="light"
+                    color="danger"
+                    aria-label="Delete snapshot"
+                    isDisabled={busyId !== null}
+                    onPress={() => handleDelete(backup)}
+                  >
+                    <Icon icon="lucide:trash-2" className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="p-3 border border-divider/50 rounded-lg bg-background/50 space-y-2">
+        <h4 className="font-medium text-sm">Retention</h4>
+        <div className="grid grid-cols-3 gap-3">
+          <Input
+            label="Auto-saves kept"
+            size="sm"
+            type="number"
+            variant="bordered"
+            value={String(retention.maxSaveSnapshots)}
+            onValueChange={(value) => updateRetention('maxSaveSnapshots', value)}
+          />
+          <Input
+            label="Other snapshots kept"
+            size="sm"
+            type="number"
+            variant="bordered"
+            value={String(retention.maxSnapshots)}
+            onValueChange={(value) => updateRetention('maxSnapshots', value)}
+          />
+          <Input
+            label="Max age (days, 0 = ∞)"
+            size="sm"
+            type="number"
+            variant="bordered"
+            value={String(retention.maxAgeDays)}
+            onValueChange={(value) => updateRetention('maxAgeDays', value)}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button size="sm" variant="flat" onPress={handleSaveRetention}>
+            Save and prune
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
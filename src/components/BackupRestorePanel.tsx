@@ -0,0 +1,190 @@
+import React from "react";
+import { Button, Radio, RadioGroup } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import {
+  BackupArchive,
+  BackupArchivePreview,
+  BackupArchiveService,
+  RestoreMode
+} from "../db/backupArchive";
+import { BackupHistoryPanel } from "./BackupHistoryPanel";
+
+/**
+ * Download the whole journal as one JSON archive and restore it later
+ */
+export const BackupRestorePanel: React.FC = () => {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = React.useState(false);
+  const [isRestoring, setIsRestoring] = React.useState(false);
+  const [archive, setArchive] = React.useState<BackupArchive | null>(null);
+  const [preview, setPreview] = React.useState<BackupArchivePreview | null>(null);
+  const [mode, setMode] = React.useState<RestoreMode>('merge');
+  const [error, setError] = React.useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    const success = await BackupArchiveService.downloadArchive();
+    if (!success) setError('Export failed. Check the console for details.');
+    setIsExporting(false);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setArchive(null);
+    setPreview(null);
+    try {
+      const parsed = BackupArchiveService.parseArchive(await file.text());
+      setArchive(parsed);
+      setPreview(await BackupArchiveService.previewArchive(parsed));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the backup file.');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    if (mode === 'replace' && !window.confirm('Replace ALL current data with this backup? This cannot be undone.')) {
+      return;
+    }
+    setIsRestoring(true);
+    const success = await BackupArchiveService.restoreArchive(archive, mode);
+    if (success) {
+      // Contexts and hooks load from IndexedDB on mount
+      window.location.reload();
+    } else {
+      setError('Restore failed. Your existing data was not changed.');
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="py-3 space-y-3">
+      <p className="text-xs text-foreground-500 p-3 bg-content1/30 rounded-lg border border-divider/30">
+        The backup file contains every trade, chart image, capital entry, tax record and setting.
+        Keep it outside the browser, since clearing the browser profile deletes the journal.
+      </p>
+
+      <div className="flex items-center justify-between p-3 border border-divider/50 rounded-lg bg-background/50">
+        <div>
+          <h4 className="font-medium text-sm">Export backup</h4>
+          <p className="text-xs text-default-500">Downloads a single .json file</p>
+        </div>
+        <Button
+          size="sm"
+          color="primary"
+          variant="flat"
+          isLoading={isExporting}
+          startContent={!isExporting && <Icon icon="lucide:download" className="w-3 h-3" />}
+          onPress={handleExport}
+        >
+          Export
+        </Button>
+      </div>
+
+      <div className="p-3 border border-divider/50 rounded-lg bg-background/50 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="font-medium text-sm">Restore backup</h4>
+            <p className="text-xs text-default-500">Pick a file to preview what it contains</p>
+          </div>
+          <Button
+            size="sm"
+            variant="flat"
+            startContent={<Icon icon="lucide:upload" className="w-3 h-3" />}
+            onPress={() => fileInputRef.current?.click()}
+          >
+            Choose file
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 text-xs text-danger p-2 rounded-lg bg-danger-50 dark:bg-danger-900/20">
+            <Icon icon="lucide:alert-circle" className="w-4 h-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-3">
+            <p className="text-xs text-default-500">
+              Backup from {new Date(preview.exportedAt).toLocaleString()} (schema v{preview.dbVersion})
+            </p>
+            <div className="rounded-lg border border-divider/50 overflow-hidden">
+              <div className="grid grid-cols-3 text-xs font-medium bg-content1/50 px-3 py-2">
+                <span>Data</span>
+                <span className="text-right">In backup</span>
+                <span className="text-right">Current</span>
+              </div>
+              {preview.counts.map(row => (
+                <div key={row.name} className="grid grid-cols-3 text-xs px-3 py-1.5 border-t border-divider/30">
+                  <span>
+                    {row.label}
+                    {mode === 'merge' && row.replacedOnMerge && (
+                      <span className="ml-1 text-warning-600">(replaced)</span>
+                    )}
+                  </span>
+                  <span className="text-right font-medium">{row.archive}</span>
+                  <span className="text-right text-default-500">{row.current}</span>
+                </div>
+              ))}
+            </div>
+
+            <RadioGroup
+              size="sm"
+              orientation="horizontal"
+              value={mode}
+              onValueChange={(value) => setMode(value as RestoreMode)}
+              aria-label="Restore mode"
+            >
+              <Radio value="merge" description="Add and update records, keep the rest">Merge</Radio>
+              <Radio value="replace" description="Wipe current data first">Replace</Radio>
+            </RadioGroup>
+            {mode === 'merge' && preview.counts.some(row => row.replacedOnMerge) && (
+              <p className="text-xs text-default-500">
+                Capital entries and settings are saved as a whole, so those marked (replaced) take the backup's version.
+              </p>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                size="sm"
+                variant="light"
+                onPress={() => { setArchive(null); setPreview(null); }}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                color={mode === 'replace' ? 'danger' : 'primary'}
+                isLoading={isRestoring}
+                onPress={handleRestore}
+              >
+                {mode === 'replace' ? 'Replace and restore' : 'Merge and restore'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="p-3 border border-divider/50 rounded-lg bg-background/50 space-y-3">
+        <div>
+          <h4 className="font-medium text-sm">Snapshot history</h4>
+          <p className="text-xs text-default-500">Kept in this browser automatically before saves, imports, clears and restores</p>
+        </div>
+        <BackupHistoryPanel />
+      </div>
+    </div>
+  );
+};
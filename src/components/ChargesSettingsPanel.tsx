@@ -0,0 +1,162 @@
+import React from "react";
+import { Button, Input, Select, SelectItem, Switch } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { useChargesSettings } from "../context/ChargesSettingsContext";
+import { BROKERAGE_PLANS, BrokerageRule, ChargesSettings, EquitySegment } from "../utils/chargesCalculator";
+
+const describeRule = (rule: BrokerageRule): string => {
+  if (rule.flat !== undefined) return rule.flat === 0 ? 'Free' : `₹${rule.flat} per order`;
+  const parts = [`${rule.percent || 0}%`];
+  if (rule.max) parts.push(`max ₹${rule.max}`);
+  if (rule.min) parts.push(`min ₹${rule.min}`);
+  return parts.join(', ');
+};
+
+/**
+ * Brokerage plan and charges options used to compute per-leg charges and net P/L
+ */
+export const ChargesSettingsPanel: React.FC = () => {
+  const { chargesSettings, updateChargesSettings, resetChargesSettings } = useChargesSettings();
+  const isCustom = chargesSettings.planId === 'custom';
+  const selectedPlan = BROKERAGE_PLANS.find(plan => plan.id === chargesSettings.planId);
+
+  const updateCustomRule = (segment: EquitySegment, changes: Partial<BrokerageRule>) => {
+    updateChargesSettings({
+      customPlan: {
+        ...chargesSettings.customPlan,
+        [segment]: { ...chargesSettings.customPlan[segment], ...changes, flat: undefined }
+      }
+    });
+  };
+
+  return (
+    <div className="py-3 space-y-3">
+      <p className="text-xs text-foreground-500 p-3 bg-content1/30 rounded-lg border border-divider/30">
+        Brokerage, STT, exchange, SEBI, stamp duty, GST and IPFT are computed for every leg of a trade.
+        Net P/L is shown next to the realized P/L in the journal and feeds the monthly tax breakup.
+      </p>
+
+      <div className="flex items-center justify-between p-3 border border-divider/50 rounded-lg bg-background/50">
+        <div>
+          <h4 className="font-medium text-sm">Calculate charges</h4>
+          <p className="text-xs text-default-500">Leg fees entered manually are always included</p>
+        </div>
+        <Switch
+          size="sm"
+          isSelected={chargesSettings.enabled}
+          onValueChange={(enabled) => updateChargesSettings({ enabled })}
+          aria-label="Toggle charges calculation"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <Select
+          label="Brokerage plan"
+          size="sm"
+          variant="bordered"
+          selectedKeys={[chargesSettings.planId]}
+          isDisabled={!chargesSettings.enabled}
+          onSelectionChange={(keys) => {
+            const planId = Array.from(keys)[0] as string;
+            if (planId) updateChargesSettings({ planId });
+          }}
+        >
+          {[...BROKERAGE_PLANS.map(plan => ({ id: plan.id, label: plan.label })), { id: 'custom', label: 'Custom' }].map(plan => (
+            <SelectItem key={plan.id}>{plan.label}</SelectItem>
+          ))}
+        </Select>
+        <Select
+          label="Exchange"
+          size="sm"
+          variant="bordered"
+          selectedKeys={[chargesSettings.exchange]}
+          isDisabled={!chargesSettings.enabled}
+          onSelectionChange={(keys) => {
+            const exchange = Array.from(keys)[0] as ChargesSettings['exchange'];
+            if (exchange) updateChargesSettings({ exchange });
+          }}
+        >
+          <SelectItem key="NSE">NSE</SelectItem>
+          <SelectItem key="BSE">BSE</SelectItem>
+        </Select>
+        <Select
+          label="Segment"
+          size="sm"
+          variant="bordered"
+          selectedKeys={[chargesSettings.segment]}
+          isDisabled={!chargesSettings.enabled}
+          onSelectionChange={(keys) => {
+            const segment = Array.from(keys)[0] as ChargesSettings['segment'];
+            if (segment) updateChargesSettings({ segment });
+          }}
+        >
+          <SelectItem key="auto">Auto (same-day = intraday)</SelectItem>
+          <SelectItem key="delivery">Always delivery</SelectItem>
+          <SelectItem key="intraday">Always intraday</SelectItem>
+        </Select>
+      </div>
+
+      {selectedPlan && (
+        <div className="text-xs text-default-500 p-3 bg-content1/30 rounded-lg border border-divider/30 space-y-1">
+          <div>Delivery: {describeRule(selectedPlan.delivery)}</div>
+          <div>Intraday: {describeRule(selectedPlan.intraday)}</div>
+          <div>DP charges: ₹{selectedPlan.dpCharge} + GST per delivery sell</div>
+        </div>
+      )}
+
+      {isCustom && (
+        <div className="border border-divider/50 rounded-lg p-3 bg-background/50 space-y-3">
+          {(['delivery', 'intraday'] as EquitySegment[]).map(segment => (
+            <div key={segment} className="grid grid-cols-3 gap-3">
+              <Input
+                label={`${segment === 'delivery' ? 'Delivery' : 'Intraday'} %`}
+                size="sm"
+                type="number"
+                variant="bordered"
+                value={String(chargesSettings.customPlan[segment].percent ?? 0)}
+                onValueChange={(value) => updateCustomRule(segment, { percent: Number(value) || 0 })}
+              />
+              <Input
+                label="Max ₹ / order"
+                size="sm"
+                type="number"
+                variant="bordered"
+                value={String(chargesSettings.customPlan[segment].max ?? 0)}
+                onValueChange={(value) => updateCustomRule(segment, { max: Number(value) || 0 })}
+              />
+              <Input
+                label="Min ₹ / order"
+                size="sm"
+                type="number"
+                variant="bordered"
+                value={String(chargesSettings.customPlan[segment].min ?? 0)}
+                onValueChange={(value) => updateCustomRule(segment, { min: Number(value) || 0 })}
+              />
+            </div>
+          ))}
+          <Input
+            label="DP charge ₹ per delivery sell"
+            size="sm"
+            type="number"
+            variant="bordered"
+            value={String(chargesSettings.customPlan.dpCharge)}
+            onValueChange={(value) => updateChargesSettings({
+              customPlan: { ...chargesSettings.customPlan, dpCharge: Number(value) || 0 }
+            })}
+          />
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          variant="flat"
+          startContent={<Icon icon="lucide:rotate-ccw" className="w-3 h-3" />}
+          onPress={resetChargesSettings}
+        >
+          Reset to defaults
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,11 @@
 import React from "react";
-import { useGlobalFilter } from "../context/GlobalFilterContext";
-import { Button, Dropdown, DropdownTrigger, DropdownMenu, DropdownItem, Input, Tooltip } from "@heroui/react";
+import { GLOBAL_FILTER_DIMENSIONS, GlobalFilter, GlobalFilterDimension, countDimensionFilters, useGlobalFilter } from "../context/GlobalFilterContext";
+import { Button, Chip, Dropdown, DropdownTrigger, DropdownMenu, DropdownItem, Input, Popover, PopoverContent, PopoverTrigger, Select, SelectItem, Tooltip } from "@heroui/react";
 import { Icon } from "@iconify/react";
 import { useTrades } from "../hooks/use-trades";
 import { useAccountingMethod } from "../context/AccountingMethodContext";
+import { getTradeSectorInfo } from "../utils/dateFilterUtils";
+import { loadIndustrySectorMapping } from "../utils/industrySectorMap";
 
 const filterOptions = [
   { key: "all", label: "All Time" },
@@ -20,10 +22,53 @@ const months = [
 ];
 const years = Array.from({ length: 10 }, (_, i) => new Date().getFullYear() - i);
 
+const dimensionLabels: Record<GlobalFilterDimension, string> = {
+  symbols: "Symbol",
+  setups: "Setup",
+  sectors: "Sector",
+  industries: "Industry",
+  directions: "Direction",
+  statuses: "Status"
+};
+
+const sortedUnique = (values: string[]) =>
+  Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
 export const GlobalFilterBar: React.FC = () => {
   const { filter, setFilter } = useGlobalFilter();
-  const { clearAllTrades } = useTrades();
+  const { clearAllTrades, originalTrades } = useTrades();
   const { clearAccountingMethodData } = useAccountingMethod();
+  const [sectorsLoaded, setSectorsLoaded] = React.useState(false);
+  const dimensionCount = countDimensionFilters(filter);
+
+  // Values to slice by, from every trade of the account regardless of the current filter
+  const dimensionOptions = React.useMemo<Record<GlobalFilterDimension, string[]>>(() => {
+    const sectorInfo = originalTrades.map(trade => getTradeSectorInfo(trade));
+    return {
+      symbols: sortedUnique(originalTrades.map(trade => trade.name)),
+      setups: sortedUnique(originalTrades.map(trade => trade.setup)),
+      sectors: sortedUnique(sectorInfo.map(info => info.sector)),
+      industries: sortedUnique(sectorInfo.map(info => info.industry)),
+      directions: ["Buy", "Sell"],
+      statuses: ["Open", "Partial", "Closed"]
+    };
+  }, [originalTrades, sectorsLoaded]); // sectorsLoaded: sectors of the mapping are in once it resolves
+
+  const setDimension = React.useCallback((dimension: GlobalFilterDimension, values: string[]) => {
+    setFilter(f => ({ ...f, [dimension]: values.length > 0 ? values : undefined } as GlobalFilter));
+  }, [setFilter]);
+
+  const clearDimensions = React.useCallback(() => {
+    setFilter(f => ({
+      ...f,
+      symbols: undefined,
+      setups: undefined,
+      sectors: undefined,
+      industries: undefined,
+      directions: undefined,
+      statuses: undefined
+    }));
+  }, [setFilter]);
 
   // Comprehensive clear all data handler
   const handleClearAllData = React.useCallback(async () => {
@@ -135,12 +180,21 @@ export const GlobalFilterBar: React.FC = () => {
           selectedKeys={[filter.type === "month" ? "pick-month" : filter.type === "custom" ? "custom" : filter.type]}
           onSelectionChange={keys => {
             const selected = Array.from(keys)[0] as string;
+            // The date range changes; the trade dimensions stay
+            const dimensions = {
+              symbols: filter.symbols,
+              setups: filter.setups,
+              sectors: filter.sectors,
+              industries: filter.industries,
+              directions: filter.directions,
+              statuses: filter.statuses
+            };
             if (selected === "pick-month") {
-              setFilter({ type: "month", month: new Date().getMonth(), year: new Date().getFullYear() });
+              setFilter({ ...dimensions, type: "month", month: new Date().getMonth(), year: new Date().getFullYear() });
             } else if (selected === "custom") {
-              setFilter({ type: "custom", startDate: new Date(), endDate: new Date() });
+              setFilter({ ...dimensions, type: "custom", startDate: new Date(), endDate: new Date() });
             } else {
-              setFilter({ type: selected as any });
+              setFilter({ ...dimensions, type: selected as any });
             }
           }}
         >
@@ -220,6 +274,60 @@ export const GlobalFilterBar: React.FC = () => {
           />
         </div>
       )}
+      {/* Trade dimensions */}
+      <Popover
+        placement="bottom-start"
+        onOpenChange={(open) => {
+          if (open && !sectorsLoaded) {
+            loadIndustrySectorMapping().then(() => setSectorsLoaded(true)).catch(() => {});
+          }
+        }}
+      >
+        <PopoverTrigger>
+          <Button
+            variant="flat"
+            startContent={<Icon icon="lucide:sliders-horizontal" />}
+            endContent={dimensionCount > 0 ? <Chip size="sm" color="primary" className="h-4 min-w-4 px-1 text-[10px]">{dimensionCount}</Chip> : null}
+          >
+            Slice
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="p-3 w-[420px]">
+          <div className="w-full space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-semibold">Slice every page by</p>
+              {dimensionCount > 0 && (
+                <Button size="sm" variant="light" onPress={clearDimensions}>Reset</Button>
+              )}
+            </div>
+            {GLOBAL_FILTER_DIMENSIONS.map(dimension => (
+              <Select
+                key={dimension}
+                label={dimensionLabels[dimension]}
+                size="sm"
+                variant="bordered"
+                selectionMode="multiple"
+                placeholder="All"
+                selectedKeys={new Set(filter[dimension] || [])}
+                onSelectionChange={(keys) => setDimension(dimension, Array.from(keys as Set<string>))}
+              >
+                {dimensionOptions[dimension].map(option => (
+                  <SelectItem key={option}>{option}</SelectItem>
+                ))}
+              </Select>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+      {GLOBAL_FILTER_DIMENSIONS
+        .filter(dimension => (filter[dimension]?.length ?? 0) > 0)
+        .map(dimension => (
+          <Tooltip key={dimension} content={filter[dimension]!.join(", ")}>
+            <Chip size="sm" variant="flat" onClose={() => setDimension(dimension, [])}>
+              {dimensionLabels[dimension]}: {filter[dimension]!.length === 1 ? filter[dimension]![0] : `${filter[dimension]!.length} selected`}
+            </Chip>
+          </Tooltip>
+        ))}
       <div className="flex-1" />
       <Dropdown>
         <DropdownTrigger>
@@ -0,0 +1,230 @@
+import React from "react";
+import { Button, ButtonGroup, Input, Select, SelectItem, SelectSection } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { useTradeTags } from "../context/TradeTagsContext";
+import { TRADE_TAG_CATEGORIES } from "../utils/tradeTags";
+import {
+  QUERY_FIELDS,
+  QUERY_OPERATORS,
+  QueryCondition,
+  QueryGroup,
+  VALUELESS_OPERATORS,
+  createQueryCondition,
+  createQueryGroup,
+  getQueryField,
+  isQueryGroup
+} from "../utils/journalQuery";
+
+interface JournalQueryBuilderProps {
+  value: QueryGroup;
+  onChange: (query: QueryGroup) => void;
+}
+
+// Groups nest one level deep: conditions, or (groups of conditions)
+const MAX_DEPTH = 1;
+
+const ConditionEditor: React.FC<{
+  condition: QueryCondition;
+  onChange: (condition: QueryCondition) => void;
+  onRemove: () => void;
+}> = ({ condition, onChange, onRemove }) => {
+  const { tags } = useTradeTags();
+  const field = getQueryField(condition.field);
+  const type = field?.type || 'string';
+  const operators = QUERY_OPERATORS[type];
+
+  const renderValue = () => {
+    if (VALUELESS_OPERATORS.includes(condition.operator)) return <div className="flex-1" />;
+
+    if (type === 'boolean') {
+      return (
+        <Select
+          aria-label="Value"
+          size="sm"
+          variant="bordered"
+          className="flex-1"
+          selectedKeys={[condition.value || 'true']}
+          onSelectionChange={(keys) => onChange({ ...condition, value: Array.from(keys)[0] as string })}
+        >
+          <SelectItem key="true">Yes</SelectItem>
+          <SelectItem key="false">No</SelectItem>
+        </Select>
+      );
+    }
+
+    if (type === 'tags') {
+      return (
+        <Select
+          aria-label="Tag"
+          size="sm"
+          variant="bordered"
+          className="flex-1"
+          placeholder="Tag"
+          selectedKeys={condition.value ? [condition.value] : []}
+          onSelectionChange={(keys) => onChange({ ...condition, value: (Array.from(keys)[0] as string) || '' })}
+        >
+          {TRADE_TAG_CATEGORIES.map(category => (
+            <SelectSection key={category.id} title={category.label}>
+              {tags.filter(tag => tag.category === category.id).map(tag => (
+                <SelectItem key={tag.id}>{tag.name}</SelectItem>
+              ))}
+            </SelectSection>
+          ))}
+        </Select>
+      );
+    }
+
+    if (field?.options && (condition.operator === 'eq' || condition.operator === 'neq')) {
+      return (
+        <Select
+          aria-label="Value"
+          size="sm"
+          variant="bordered"
+          className="flex-1"
+          placeholder="Value"
+          selectedKeys={condition.value ? [condition.value] : []}
+          onSelectionChange={(keys) => onChange({ ...condition, value: (Array.from(keys)[0] as string) || '' })}
+        >
+          {field.options.map(option => <SelectItem key={option}>{option}</SelectItem>)}
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        aria-label="Value"
+        size="sm"
+        variant="bordered"
+        className="flex-1"
+        type={type === 'number' ? 'number' : type === 'date' ? 'date' : 'text'}
+        placeholder="Value"
+        value={condition.value}
+        onValueChange={(value) => onChange({ ...condition, value })}
+      />
+    );
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        aria-label="Field"
+        size="sm"
+        variant="bordered"
+        className="w-44 shrink-0"
+        selectedKeys={[condition.field]}
+        onSelectionChange={(keys) => {
+          const fieldKey = Array.from(keys)[0] as string;
+          // Operators and values depend on the field type
+          if (fieldKey) onChange({ ...createQueryCondition(fieldKey), id: condition.id });
+        }}
+      >
+        {QUERY_FIELDS.map(item => <SelectItem key={item.key}>{item.label}</SelectItem>)}
+      </Select>
+      <Select
+        aria-label="Operator"
+        size="sm"
+        variant="bordered"
+        className="w-40 shrink-0"
+        selectedKeys={[condition.operator]}
+        onSelectionChange={(keys) => {
+          const operator = Array.from(keys)[0] as QueryCondition['operator'];
+          if (operator) onChange({ ...condition, operator });
+        }}
+      >
+        {operators.map(operator => <SelectItem key={operator.id}>{operator.label}</SelectItem>)}
+      </Select>
+      {renderValue()}
+      <Button isIconOnly size="sm" variant="light" aria-label="Remove condition" onPress={onRemove}>
+        <Icon icon="lucide:x" className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+};
+
+const GroupEditor: React.FC<{
+  group: QueryGroup;
+  depth: number;
+  onChange: (group: QueryGroup) => void;
+  onRemove?: () => void;
+}> = ({ group, depth, onChange, onRemove }) => {
+  const updateRule = (index: number, rule: QueryCondition | QueryGroup) =>
+    onChange({ ...group, rules: group.rules.map((item, i) => i === index ? rule : item) });
+  const removeRule = (index: number) =>
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+
+  return (
+    <div className={`space-y-2 ${depth > 0 ? 'p-3 rounded-lg border border-divider bg-content2/40' : ''}`}>
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-default-500">Match</span>
+        <ButtonGroup size="sm" variant="flat">
+          <Button
+            color={group.combinator === 'and' ? 'primary' : 'default'}
+            onPress={() => onChange({ ...group, combinator: 'and' })}
+          >
+            All (AND)
+          </Button>
+          <Button
+            color={group.combinator === 'or' ? 'primary' : 'default'}
+            onPress={() => onChange({ ...group, combinator: 'or' })}
+          >
+            Any (OR)
+          </Button>
+        </ButtonGroup>
+        <span className="text-xs text-default-500">of these conditions</span>
+        {onRemove && (
+          <Button isIconOnly size="sm" variant="light" className="ml-auto" aria-label="Remove group" onPress={onRemove}>
+            <Icon icon="lucide:trash-2" className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.rules.map((rule, index) => isQueryGroup(rule) ? (
+        <GroupEditor
+          key={rule.id}
+          group={rule}
+          depth={depth + 1}
+          onChange={(updated) => updateRule(index, updated)}
+          onRemove={() => removeRule(index)}
+        />
+      ) : (
+        <ConditionEditor
+          key={rule.id}
+          condition={rule}
+          onChange={(updated) => updateRule(index, updated)}
+          onRemove={() => removeRule(index)}
+        />
+      ))}
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="flat"
+          startContent={<Icon icon="lucide:plus" className="w-3 h-3" />}
+          onPress={() => onChange({ ...group, rules: [...group.rules, createQueryCondition()] })}
+        >
+          Condition
+        </Button>
+        {depth < MAX_DEPTH && (
+          <Button
+            size="sm"
+            variant="flat"
+            startContent={<Icon icon="lucide:brackets" className="w-3 h-3" />}
+            onPress={() => onChange({
+              ...group,
+              rules: [...group.rules, createQueryGroup(group.combinator === 'and' ? 'or' : 'and', [createQueryCondition()])]
+            })}
+          >
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Filter builder of the journal: conditions on trade fields combined with AND / OR
+ */
+export const JournalQueryBuilder: React.FC<JournalQueryBuilderProps> = ({ value, onChange }) => (
+  <GroupEditor group={value} depth={0} onChange={onChange} />
+);
@@ -0,0 +1,246 @@
+import React from "react";
+import {
+  Button,
+  Chip,
+  Dropdown,
+  DropdownItem,
+  DropdownMenu,
+  DropdownSection,
+  DropdownTrigger,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Tab,
+  Tabs
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { JournalQueryBuilder } from "./JournalQueryBuilder";
+import { useJournalViews } from "../hooks/use-journal-views";
+import { SortDescriptor } from "../hooks/use-trades";
+import { JournalView, QueryGroup, countQueryConditions, createJournalView, createQueryGroup } from "../utils/journalQuery";
+
+interface JournalViewsBarProps {
+  query: QueryGroup | null;
+  onQueryChange: (query: QueryGroup | null) => void;
+  activeViewId: string | null;
+  onActiveViewChange: (id: string | null) => void;
+  visibleColumns: string[];
+  sortDescriptor: SortDescriptor;
+  /** Applies the column set and sort of a view; the query goes through `onQueryChange` */
+  onApplyView: (view: JournalView) => void;
+}
+
+const ALL_TRADES_KEY = "__all";
+
+/**
+ * Pinned views as tabs, the filter builder and the saved view actions of the journal
+ */
+export const JournalViewsBar: React.FC<JournalViewsBarProps> = ({
+  query,
+  onQueryChange,
+  activeViewId,
+  onActiveViewChange,
+  visibleColumns,
+  sortDescriptor,
+  onApplyView
+}) => {
+  const { views, addView, updateView, deleteView } = useJournalViews();
+  const [isBuilderOpen, setIsBuilderOpen] = React.useState(false);
+  const [draft, setDraft] = React.useState<QueryGroup>(() => createQueryGroup());
+  const [viewName, setViewName] = React.useState("");
+
+  const activeView = views.find(view => view.id === activeViewId) || null;
+  const pinnedViews = views.filter(view => view.pinned);
+  const conditionCount = countQueryConditions(query);
+
+  const applyView = (view: JournalView | null) => {
+    onActiveViewChange(view?.id || null);
+    onQueryChange(view ? view.query : null);
+    if (view) onApplyView(view);
+  };
+
+  const openBuilder = (name = "") => {
+    setDraft(query || createQueryGroup());
+    setViewName(name);
+    setIsBuilderOpen(true);
+  };
+
+  const handleApply = () => {
+    onQueryChange(countQueryConditions(draft) > 0 ? draft : null);
+    setIsBuilderOpen(false);
+  };
+
+  const handleSaveAsView = () => {
+    const view = createJournalView(viewName, draft, visibleColumns, sortDescriptor);
+    addView(view);
+    onQueryChange(draft);
+    onActiveViewChange(view.id);
+    setIsBuilderOpen(false);
+  };
+
+  const handleViewAction = (key: string) => {
+    if (key === "save") {
+      openBuilder();
+    } else if (key === "update" && activeView) {
+      updateView(activeView.id, { query: query || createQueryGroup(), visibleColumns, sortDescriptor });
+    } else if (key === "pin" && activeView) {
+      updateView(activeView.id, { pinned: !activeView.pinned });
+    } else if (key === "delete" && activeView) {
+      deleteView(activeView.id);
+      onActiveViewChange(null);
+    } else {
+      const view = views.find(item => item.id === key);
+      if (view) applyView(view);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-3 w-full">
+      <Tabs
+        aria-label="Journal views"
+        size="sm"
+        variant="underlined"
+        selectedKey={activeView?.pinned ? activeView.id : ALL_TRADES_KEY}
+        onSelectionChange={(key) => {
+          if (key === ALL_TRADES_KEY) {
+            // Leaving a pinned view drops its query; filters built by hand stay
+            if (activeView) applyView(null);
+          } else if (key !== activeViewId) {
+            applyView(views.find(view => view.id === key) || null);
+          }
+        }}
+        classNames={{ tabList: "gap-4 overflow-x-auto", tab: "px-0 h-8" }}
+      >
+        <Tab key={ALL_TRADES_KEY} title="All Trades" />
+        {pinnedViews.map(view => (
+          <Tab key={view.id} title={view.name} />
+        ))}
+      </Tabs>
+
+      <div className="flex items-center gap-2 shrink-0">
+        <Button
+          size="sm"
+          variant="flat"
+          className="h-8"
+          startContent={<Icon icon="lucide:list-filter" className="text-sm" />}
+          endContent={conditionCount > 0 ? <Chip size="sm" color="primary" variant="solid" className="h-4 min-w-4 px-1 text-[10px]">{conditionCount}</Chip> : null}
+          onPress={() => openBuilder()}
+        >
+          Filters
+        </Button>
+        {conditionCount > 0 && (
+          <Button
+            isIconOnly
+            size="sm"
+            variant="light"
+            aria-label="Clear advanced filters"
+            onPress={() => {
+              onQueryChange(null);
+              onActiveViewChange(null);
+            }}
+          >
+            <Icon icon="lucide:x" className="w-4 h-4" />
+          </Button>
+        )}
+
+        <Dropdown>
+          <DropdownTrigger>
+            <Button
+              size="sm"
+              variant="flat"
+              className="h-8"
+              startContent={<Icon icon="lucide:bookmark" className="text-sm" />}
+              endContent={<Icon icon="lucide:chevron-down" className="text-sm" />}
+            >
+              {activeView ? activeView.name : "Views"}
+            </Button>
+          </DropdownTrigger>
+          <DropdownMenu aria-label="Saved views" onAction={(key) => handleViewAction(key as string)}>
+            <DropdownSection title="Saved views" showDivider>
+              {views.length > 0 ? views.map(view => (
+                <DropdownItem
+                  key={view.id}
+                  startContent={<Icon icon={view.pinned ? "lucide:pin" : "lucide:bookmark"} className="w-3.5 h-3.5" />}
+                  description={`${countQueryConditions(view.query)} conditions`}
+                >
+                  {view.name}
+                </DropdownItem>
+              )) : (
+                <DropdownItem key="none" isReadOnly className="text-default-400">No saved views</DropdownItem>
+              )}
+            </DropdownSection>
+            <DropdownSection title="Actions">
+              <DropdownItem key="save" startContent={<Icon icon="lucide:save" className="w-3.5 h-3.5" />}>
+                Save current as view…
+              </DropdownItem>
+              {activeView ? (
+                <DropdownItem key="update" startContent={<Icon icon="lucide:refresh-cw" className="w-3.5 h-3.5" />} description="Filters, columns and sort">
+                  Update “{activeView.name}”
+                </DropdownItem>
+              ) : null}
+              {activeView ? (
+                <DropdownItem key="pin" startContent={<Icon icon={activeView.pinned ? "lucide:pin-off" : "lucide:pin"} className="w-3.5 h-3.5" />}>
+                  {activeView.pinned ? "Unpin from tabs" : "Pin as tab"}
+                </DropdownItem>
+              ) : null}
+              {activeView ? (
+                <DropdownItem key="delete" color="danger" className="text-danger" startContent={<Icon icon="lucide:trash-2" className="w-3.5 h-3.5" />}>
+                  Delete “{activeView.name}”
+                </DropdownItem>
+              ) : null}
+            </DropdownSection>
+          </DropdownMenu>
+        </Dropdown>
+      </div>
+
+      <Modal isOpen={isBuilderOpen} onOpenChange={setIsBuilderOpen} size="3xl" scrollBehavior="inside">
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader className="flex items-center gap-2">
+                <Icon icon="lucide:list-filter" />
+                Filter trades
+              </ModalHeader>
+              <ModalBody>
+                <JournalQueryBuilder value={draft} onChange={setDraft} />
+              </ModalBody>
+              <ModalFooter className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    aria-label="View name"
+                    size="sm"
+                    variant="bordered"
+                    placeholder="View name"
+                    className="w-48"
+                    value={viewName}
+                    onValueChange={setViewName}
+                  />
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    isDisabled={!viewName.trim()}
+                    startContent={<Icon icon="lucide:save" className="w-3.5 h-3.5" />}
+                    onPress={handleSaveAsView}
+                  >
+                    Save as view
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button size="sm" variant="light" onPress={onClose}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" color="primary" onPress={handleApply}>
+                    Apply
+                  </Button>
+                </div>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+};
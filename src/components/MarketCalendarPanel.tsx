@@ -0,0 +1,182 @@
+import React from "react";
+import { Button, Chip, Input, Select, SelectItem, Tooltip } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { useMarketCalendar } from "../context/MarketCalendarContext";
+import { HoldingDaysBasis, MarketCalendarOverride, getCalendarYears, getMarketHolidays } from "../utils/marketCalendar";
+
+const formatDay = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', {
+  weekday: 'short',
+  day: '2-digit',
+  month: 'short'
+});
+
+/**
+ * Exchange holidays used by market hours, holding days and the P/L heatmap, with user corrections
+ */
+export const MarketCalendarPanel: React.FC = () => {
+  const { calendarSettings, updateCalendarSettings, setOverride, removeOverride } = useMarketCalendar();
+  const currentYear = new Date().getFullYear();
+  const years = React.useMemo(() => Array.from(new Set([
+    ...getCalendarYears(),
+    currentYear,
+    ...calendarSettings.overrides.map(override => Number(override.date.slice(0, 4)))
+  ])).sort((a, b) => b - a), [calendarSettings.overrides, currentYear]);
+
+  const [year, setYear] = React.useState(currentYear);
+  const [newDate, setNewDate] = React.useState('');
+  const [newName, setNewName] = React.useState('');
+  const [newType, setNewType] = React.useState<MarketCalendarOverride['type']>('holiday');
+
+  // The holiday list reads the saved overrides, so it follows the context settings
+  const holidays = React.useMemo(() => getMarketHolidays(year), [year, calendarSettings]);
+  const sessions = calendarSettings.overrides.filter(override => override.type === 'trading' && override.date.startsWith(`${year}-`));
+
+  const handleAdd = () => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(newDate)) return;
+    setOverride({ date: newDate, type: newType, name: newName.trim() || undefined });
+    setYear(Number(newDate.slice(0, 4)));
+    setNewDate('');
+    setNewName('');
+  };
+
+  return (
+    <div className="py-3 space-y-3">
+      <p className="text-xs text-foreground-500 p-3 bg-content1/30 rounded-lg border border-divider/30">
+        NSE/BSE equity holidays decide when the ticker polls for live prices, which trading day's candles
+        are shown when the market is closed, and which heatmap days are non-trading days. Add holidays
+        announced later or special sessions such as budget-day Saturdays.
+      </p>
+
+      <div className="flex items-center justify-between p-3 border border-divider/50 rounded-lg bg-background/50">
+        <div>
+          <h4 className="font-medium text-sm">Count holding days in</h4>
+          <p className="text-xs text-default-500">Trading days skip weekends and exchange holidays</p>
+        </div>
+        <Select
+          aria-label="Holding days basis"
+          size="sm"
+          variant="bordered"
+          className="max-w-[180px]"
+          selectedKeys={[calendarSettings.holdingDaysBasis]}
+          onSelectionChange={(keys) => {
+            const holdingDaysBasis = Array.from(keys)[0] as HoldingDaysBasis;
+            if (holdingDaysBasis) updateCalendarSettings({ holdingDaysBasis });
+          }}
+        >
+          <SelectItem key="trading">Trading days</SelectItem>
+          <SelectItem key="calendar">Calendar days</SelectItem>
+        </Select>
+      </div>
+
+      <div className="p-3 border border-divider/50 rounded-lg bg-background/50 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-sm">Market holidays</h4>
+          <Select
+            aria-label="Year"
+            size="sm"
+            variant="bordered"
+            className="max-w-[120px]"
+            selectedKeys={[String(year)]}
+            onSelectionChange={(keys) => {
+              const selected = Array.from(keys)[0] as string;
+              if (selected) setYear(Number(selected));
+            }}
+          >
+            {years.map(y => (
+              <SelectItem key={String(y)}>{String(y)}</SelectItem>
+            ))}
+          </Select>
+        </div>
+
+        {holidays.length === 0 && sessions.length === 0 ? (
+          <p className="text-xs text-default-500">No holidays listed for {year}. Add them below.</p>
+        ) : (
+          <div className="rounded-lg border border-divider/50 overflow-hidden max-h-[260px] overflow-y-auto">
+            {holidays.map(holiday => (
+              <div key={holiday.date} className="flex items-center justify-between gap-3 text-xs px-3 py-1.5 border-t border-divider/30 first:border-t-0">
+                <span className="w-28 shrink-0 text-default-500">{formatDay(holiday.date)}</span>
+                <span className="flex-1">{holiday.name}</span>
+                <Chip size="sm" variant="flat" color={holiday.source === 'user' ? 'secondary' : 'default'}>
+                  {holiday.source === 'user' ? 'Custom' : 'NSE'}
+                </Chip>
+                <Tooltip content={holiday.source === 'user' ? 'Remove' : 'Mark as a trading day'}>
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="light"
+                    aria-label={holiday.source === 'user' ? `Remove ${holiday.name}` : `Mark ${holiday.date} as a trading day`}
+                    onPress={() => holiday.source === 'user'
+                      ? removeOverride(holiday.date)
+                      : setOverride({ date: holiday.date, type: 'trading', name: `Trading on ${holiday.name}` })}
+                  >
+                    <Icon icon={holiday.source === 'user' ? 'lucide:trash-2' : 'lucide:calendar-check'} className="w-3 h-3" />
+                  </Button>
+                </Tooltip>
+              </div>
+            ))}
+            {sessions.map(session => (
+              <div key={session.date} className="flex items-center justify-between gap-3 text-xs px-3 py-1.5 border-t border-divider/30 first:border-t-0">
+                <span className="w-28 shrink-0 text-default-500">{formatDay(session.date)}</span>
+                <span className="flex-1">{session.name || 'Trading session'}</span>
+                <Chip size="sm" variant="flat" color="success">Open</Chip>
+                <Tooltip content="Remove">
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="light"
+                    aria-label={`Remove trading session on ${session.date}`}
+                    onPress={() => removeOverride(session.date)}
+                  >
+                    <Icon icon="lucide:trash-2" className="w-3 h-3" />
+                  </Button>
+                </Tooltip>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_1.5fr_1fr_auto] gap-3 items-center">
+          <Input
+            aria-label="Date"
+            size="sm"
+            type="date"
+            variant="bordered"
+            value={newDate}
+            onValueChange={setNewDate}
+          />
+          <Input
+            aria-label="Name"
+            size="sm"
+            variant="bordered"
+            placeholder="e.g. Municipal elections"
+            value={newName}
+            onValueChange={setNewName}
+          />
+          <Select
+            aria-label="Type"
+            size="sm"
+            variant="bordered"
+            selectedKeys={[newType]}
+            onSelectionChange={(keys) => {
+              const type = Array.from(keys)[0] as MarketCalendarOverride['type'];
+              if (type) setNewType(type);
+            }}
+          >
+            <SelectItem key="holiday">Holiday</SelectItem>
+            <SelectItem key="trading">Trading session</SelectItem>
+          </Select>
+          <Button
+            size="sm"
+            color="primary"
+            variant="flat"
+            isDisabled={!newDate}
+            startContent={<Icon icon="lucide:plus" className="w-3 h-3" />}
+            onPress={handleAdd}
+          >
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
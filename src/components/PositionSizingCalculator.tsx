@@ -0,0 +1,174 @@
+import React from "react";
+import { Button, Input, Tooltip } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import {
+  PositionSizingSettings,
+  calcPositionSizing,
+  loadPositionSizingSettings,
+  savePositionSizingSettings
+} from "../utils/positionSizing";
+
+interface PositionSizingCalculatorProps {
+  entry: number;
+  sl: number;
+  buySell: 'Buy' | 'Sell';
+  /** Lot size for F&O trades, 1 for equity */
+  multiplier: number;
+  portfolioSize: number;
+  /** Open heat of the other open positions, % of portfolio */
+  currentOpenHeat: number;
+  /** Quantity currently entered in the form */
+  enteredQty: number;
+  onApplyQuantity: (qty: number) => void;
+}
+
+const formatCurrency = (value: number) => `₹${Math.round(value).toLocaleString('en-IN')}`;
+
+/**
+ * Proposes the initial quantity from a risk % budget, the entry and the SL, and shows the
+ * allocation and portfolio open heat it leads to
+ */
+export const PositionSizingCalculator: React.FC<PositionSizingCalculatorProps> = ({
+  entry,
+  sl,
+  buySell,
+  multiplier,
+  portfolioSize,
+  currentOpenHeat,
+  enteredQty,
+  onApplyQuantity
+}) => {
+  const [settings, setSettings] = React.useState<PositionSizingSettings>(loadPositionSizingSettings);
+  const [showLimits, setShowLimits] = React.useState(false);
+  const unitLabel = multiplier > 1 ? 'lots' : 'qty';
+
+  const updateSettings = (changes: Partial<PositionSizingSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      savePositionSizingSettings(next);
+      return next;
+    });
+  };
+
+  const baseInput = {
+    portfolioSize,
+    riskPercent: settings.riskPercent,
+    entry: Number(entry) || 0,
+    sl: Number(sl) || 0,
+    buySell,
+    multiplier,
+    currentOpenHeat,
+    limits: settings
+  };
+  const proposal = calcPositionSizing(baseInput);
+  const entered = enteredQty > 0 && proposal && enteredQty !== proposal.quantity
+    ? calcPositionSizing({ ...baseInput, quantity: enteredQty })
+    : null;
+
+  const limitInput = (label: string, key: keyof PositionSizingSettings) => (
+    <Input
+      aria-label={label}
+      label={label}
+      size="sm"
+      type="number"
+      variant="bordered"
+      min={0}
+      step={key === 'riskPercent' ? 0.25 : 1}
+      value={String(settings[key])}
+      onValueChange={(value) => updateSettings({ [key]: Math.max(0, Number(value) || 0) })}
+      endContent={<span className="text-xs text-default-400">%</span>}
+    />
+  );
+
+  return (
+    <div className="mb-3 p-3 rounded-lg border border-divider/50 bg-content1/30 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Icon icon="lucide:calculator" className="w-4 h-4 text-primary-500" />
+          <span className="text-sm font-medium">Position sizing</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-28">
+            {limitInput('Risk', 'riskPercent')}
+          </div>
+          <Tooltip content="Allocation and open heat limits">
+            <Button
+              isIconOnly
+              size="sm"
+              variant={showLimits ? 'flat' : 'light'}
+              aria-label="Sizing limits"
+              onPress={() => setShowLimits(prev => !prev)}
+            >
+              <Icon icon="lucide:sliders-horizontal" className="w-4 h-4" />
+            </Button>
+          </Tooltip>
+        </div>
+      </div>
+
+      {showLimits && (
+        <div className="grid grid-cols-2 gap-2">
+          {limitInput('Max allocation', 'maxAllocation')}
+          {limitInput('Max open heat', 'maxOpenHeat')}
+        </div>
+      )}
+
+      {!proposal ? (
+        <p className="text-xs text-default-500">
+          {portfolioSize > 0
+            ? `Enter the entry and a stop loss ${buySell === 'Sell' ? 'above' : 'below'} it to size the position.`
+            : 'Set up the portfolio size to size positions by risk.'}
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+            <div>
+              <div className="text-default-400">Risk budget</div>
+              <div className="font-semibold">{formatCurrency(proposal.riskBudget)}</div>
+            </div>
+            <div>
+              <div className="text-default-400">Proposed {unitLabel}</div>
+              <div className="font-semibold">{proposal.quantity}</div>
+            </div>
+            <div>
+              <div className="text-default-400">Allocation</div>
+              <div className="font-semibold">{proposal.allocation.toFixed(1)}%</div>
+            </div>
+            <div>
+              <div className="text-default-400">Open heat after entry</div>
+              <div className="font-semibold">{proposal.totalOpenHeat.toFixed(2)}%</div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              size="sm"
+              color="primary"
+              variant="flat"
+              isDisabled={proposal.quantity <= 0 || proposal.quantity === enteredQty}
+              onPress={() => onApplyQuantity(proposal.quantity)}
+            >
+              Use {proposal.quantity} {unitLabel}
+            </Button>
+            {proposal.maxQuantityWithinLimits !== null && proposal.maxQuantityWithinLimits < proposal.quantity && (
+              <Button
+                size="sm"
+                variant="light"
+                isDisabled={proposal.maxQuantityWithinLimits <= 0}
+                onPress={() => onApplyQuantity(proposal.maxQuantityWithinLimits!)}
+              >
+                Use {proposal.maxQuantityWithinLimits} within limits
+              </Button>
+            )}
+          </div>
+
+          {[...proposal.warnings, ...(entered?.warnings.map(warning => `Entered ${enteredQty} ${unitLabel}: ${warning}`) || [])].map(warning => (
+            <div key={warning} className="flex items-center gap-2 text-xs text-warning-600">
+              <Icon icon="lucide:alert-triangle" className="w-3.5 h-3.5 shrink-0" />
+              <span>{warning}</span>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,268 @@
+import React from "react";
+import { Button, Input, Select, SelectItem, Switch } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { DatabaseService } from "../db/database";
+import {
+  PRICE_PROVIDER_LABELS,
+  PriceProviderId,
+  PriceProviderSettings,
+  importLocalCandles,
+  loadPriceProviderSettings,
+  parseCandlesCsv,
+  savePriceProviderSettings
+} from "../utils/priceProviders";
+import { CANDLE_CACHE_MAX_CANDLES } from "../utils/candleCache";
+
+type CandleSummary = Awaited<ReturnType<typeof DatabaseService.getLocalCandleSummary>>[number];
+
+/**
+ * Source of CMP and intraday candles, and the store of imported candles used offline
+ */
+export const PriceProviderSettingsPanel: React.FC = () => {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [settings, setSettings] = React.useState<PriceProviderSettings>(loadPriceProviderSettings);
+  const [importSymbol, setImportSymbol] = React.useState('');
+  const [importInterval, setImportInterval] = React.useState('1d');
+  const [summary, setSummary] = React.useState<CandleSummary[]>([]);
+  const [message, setMessage] = React.useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [cachedCandles, setCachedCandles] = React.useState(0);
+  const [isClearingCache, setIsClearingCache] = React.useState(false);
+
+  const loadSummary = React.useCallback(async () => {
+    setSummary(await DatabaseService.getLocalCandleSummary());
+    setCachedCandles((await DatabaseService.getDatabaseSize()).candleCache);
+  }, []);
+
+  React.useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  const updateSettings = (changes: Partial<PriceProviderSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      savePriceProviderSettings(next);
+      return next;
+    });
+  };
+
+  const updateOhlc = (changes: Partial<PriceProviderSettings['ohlc']>) => {
+    updateSettings({ ohlc: { ...settings.ohlc, ...changes } });
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    // Files are usually named after the symbol, e.g. RELIANCE.csv
+    const symbol = (importSymbol || file.name.replace(/\.[^.]+$/, '')).trim().toUpperCase();
+    setMessage(null);
+    try {
+      const candles = parseCandlesCsv(await file.text());
+      if (candles.length === 0) {
+        setMessage({ type: 'error', text: 'No candles found. The file needs Date, Open, High, Low and Close columns.' });
+        return;
+      }
+      const stored = await importLocalCandles(symbol, importInterval, candles);
+      if (stored === 0) {
+        setMessage({ type: 'error', text: 'Could not save the candles. Check the console for details.' });
+        return;
+      }
+      setMessage({ type: 'success', text: `Imported ${stored} ${importInterval} candles for ${symbol}` });
+      setImportSymbol('');
+      loadSummary();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Could not read the CSV file.' });
+    }
+  };
+
+  const handleDelete = async (row: CandleSummary) => {
+    await DatabaseService.deleteLocalCandles(row.symbol, row.interval);
+    loadSummary();
+  };
+
+  const handleClearCache = async () => {
+    setIsClearingCache(true);
+    await DatabaseService.clearCandleCache();
+    await loadSummary();
+    setIsClearingCache(false);
+  };
+
+  return (
+    <div className="py-3 space-y-3">
+      <p className="text-xs text-foreground-500 p-3 bg-content1/30 rounded-lg border border-divider/30">
+        CMP refresh and price charts read candles from the selected provider. Behind a proxy that blocks
+        the Strike API, point a custom endpoint at your own service, or import CSV candles to work offline.
+      </p>
+
+      <Select
+        label="Price provider"
+        size="sm"
+        variant="bordered"
+        selectedKeys={[settings.providerId]}
+        onSelectionChange={(keys) => {
+          const providerId = Array.from(keys)[0] as PriceProviderId;
+          if (providerId) updateSettings({ providerId });
+        }}
+      >
+        {(Object.keys(PRICE_PROVIDER_LABELS) as PriceProviderId[]).map(id => (
+          <SelectItem key={id}>{PRICE_PROVIDER_LABELS[id]}</SelectItem>
+        ))}
+      </Select>
+
+      {settings.providerId === 'ohlc' && (
+        <div className="border border-divider/50 rounded-lg p-3 bg-background/50 space-y-3">
+          <Input
+            label="Endpoint URL"
+            size="sm"
+            variant="bordered"
+            placeholder="https://prices.example.com/candles?symbol={symbol}&from={from}&to={to}&interval={interval}"
+            description="Placeholders {symbol}, {from}, {to} and {interval}. The response is a JSON array of candles."
+            value={settings.ohlc.urlTemplate}
+            onValueChange={(urlTemplate) => updateOhlc({ urlTemplate })}
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Input
+              label="API key header"
+              size="sm"
+              variant="bordered"
+              placeholder="X-API-Key"
+              value={settings.ohlc.apiKeyHeader}
+              onValueChange={(apiKeyHeader) => updateOhlc({ apiKeyHeader })}
+            />
+            <Input
+              label="API key"
+              size="sm"
+              type="password"
+              variant="bordered"
+              value={settings.ohlc.apiKey}
+              onValueChange={(apiKey) => updateOhlc({ apiKey })}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between p-3 border border-divider/50 rounded-lg bg-background/50">
+        <div>
+          <h4 className="font-medium text-sm">Fall back to imported candles</h4>
+          <p className="text-xs text-default-500">Used when the online provider cannot be reached</p>
+        </div>
+        <Switch
+          size="sm"
+          isSelected={settings.localFallback}
+          isDisabled={settings.providerId === 'local'}
+          onValueChange={(localFallback) => updateSettings({ localFallback })}
+          aria-label="Toggle imported candles fallback"
+        />
+      </div>
+
+      <div className="flex items-center justify-between p-3 border border-divider/50 rounded-lg bg-background/50">
+        <div>
+          <h4 className="font-medium text-sm">Candle cache</h4>
+          <p className="text-xs text-default-500">
+            {cachedCandles.toLocaleString()} downloaded candles kept to avoid downloading them again;
+            the oldest are evicted above {CANDLE_CACHE_MAX_CANDLES.toLocaleString()}
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="flat"
+          color="danger"
+          isLoading={isClearingCache}
+          isDisabled={cachedCandles === 0}
+          startContent={!isClearingCache && <Icon icon="lucide:trash-2" className="w-3 h-3" />}
+          onPress={handleClearCache}
+        >
+          Clear
+        </Button>
+      </div>
+
+      <div className="p-3 border border-divider/50 rounded-lg bg-background/50 space-y-3">
+        <div>
+          <h4 className="font-medium text-sm">Imported candles</h4>
+          <p className="text-xs text-default-500">CSV with Date, Open, High, Low, Close and Volume columns</p>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-center">
+          <Input
+            label="Symbol"
+            size="sm"
+            variant="bordered"
+            placeholder="From file name"
+            value={importSymbol}
+            onValueChange={setImportSymbol}
+          />
+          <Select
+            label="Interval"
+            size="sm"
+            variant="bordered"
+            selectedKeys={[importInterval]}
+            onSelectionChange={(keys) => {
+              const interval = Array.from(keys)[0] as string;
+              if (interval) setImportInterval(interval);
+            }}
+          >
+            <SelectItem key="1d">Daily</SelectItem>
+            <SelectItem key="1h">Hourly</SelectItem>
+            <SelectItem key="15m">15 minutes</SelectItem>
+            <SelectItem key="5m">5 minutes</SelectItem>
+            <SelectItem key="1m">1 minute</SelectItem>
+          </Select>
+          <Button
+            size="sm"
+            variant="flat"
+            startContent={<Icon icon="lucide:upload" className="w-3 h-3" />}
+            onPress={() => fileInputRef.current?.click()}
+          >
+            Import CSV
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+
+        {message && (
+          <div className={`flex items-center gap-2 text-xs p-2 rounded-lg ${message.type === 'error' ? 'text-danger bg-danger-50 dark:bg-danger-900/20' : 'text-success bg-success-50 dark:bg-success-900/20'}`}>
+            <Icon icon={message.type === 'error' ? 'lucide:alert-circle' : 'lucide:check-circle'} className="w-4 h-4 flex-shrink-0" />
+            <span>{message.text}</span>
+          </div>
+        )}
+
+        {summary.length > 0 && (
+          <div className="rounded-lg border border-divider/50 overflow-hidden">
+            <div className="grid grid-cols-[1fr_auto_auto_2fr_auto] gap-3 text-xs font-medium bg-content1/50 px-3 py-2">
+              <span>Symbol</span>
+              <span>Interval</span>
+              <span className="text-right">Candles</span>
+              <span>Range</span>
+              <span />
+            </div>
+            {summary.map(row => (
+              <div key={`${row.symbol}-${row.interval}`} className="grid grid-cols-[1fr_auto_auto_2fr_auto] gap-3 items-center text-xs px-3 py-1.5 border-t border-divider/30">
+                <span className="font-medium">{row.symbol}</span>
+                <span>{row.interval}</span>
+                <span className="text-right">{row.count}</span>
+                <span className="text-default-500">
+                  {new Date(row.from).toLocaleDateString()} – {new Date(row.to).toLocaleDateString()}
+                </span>
+                <Button
+                  isIconOnly
+                  size="sm"
+                  variant="light"
+                  color="danger"
+                  aria-label={`Delete ${row.symbol} candles`}
+                  onPress={() => handleDelete(row)}
+                >
+                  <Icon icon="lucide:trash-2" className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
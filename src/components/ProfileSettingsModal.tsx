@@ -27,6 +27,14 @@ import { Icon } from "@iconify/react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useTruePortfolio } from "../utils/TruePortfolioContext";
 import { YearlyStartingCapitalModal } from "./YearlyStartingCapitalModal";
+import { ChargesSettingsPanel } from "./ChargesSettingsPanel";
+import { BackupRestorePanel } from "./BackupRestorePanel";
+import { PriceProviderSettingsPanel } from "./PriceProviderSettingsPanel";
+import { MarketCalendarPanel } from "./MarketCalendarPanel";
+import { RiskRulesPanel } from "./RiskRulesPanel";
+import { TradeTagManager } from "./TradeTagManager";
+import { AccountsPanel } from "./AccountsPanel";
+import { useAccount } from "../context/AccountContext";
 import { generateId } from "../utils/helpers";
 import { useTrades } from "../hooks/use-trades";
 import { useMilestones } from "../hooks/use-milestones";
@@ -71,6 +79,7 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
   const { trades } = useTrades();
   const { achievedMilestones, ALL_MILESTONES } = useMilestones();
   const { accountingMethod, setAccountingMethod } = useAccountingMethod();
+  const { activeAccount, isAllAccounts } = useAccount();
   
   const [selectedTab, setSelectedTab] = useState('yearly');
   const [isYearlyCapitalModalOpen, setIsYearlyCapitalModalOpen] = useState(false);
@@ -407,8 +416,8 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
               <Tabs
                 selectedKey={selectedTab}
                 onSelectionChange={(key) => {
-                  // Only allow selection of "yearly" tab, disable others
-                  if (key === "yearly") {
+                  // Only allow selection of "yearly", "accounts", "charges", "rules", "tags", "prices", "holidays" and "backup" tabs, disable others
+                  if (key === "yearly" || key === "accounts" || key === "charges" || key === "rules" || key === "tags" || key === "prices" || key === "holidays" || key === "backup") {
                     setSelectedTab(key as string);
                   }
                 }}
@@ -436,11 +445,14 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
                           <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-content1/30 rounded-lg border border-divider/30">
                             <div className="flex-1">
                               <p className="text-xs text-foreground-500">
-                                Set starting capital for January of each year
+                                {isAllAccounts
+                                  ? 'Total starting capital of all accounts. Switch to an account to edit it.'
+                                  : `Set starting capital for January of each year (${activeAccount?.name || 'this account'})`}
                               </p>
                             </div>
                             <Button
                               color="primary"
+                              isDisabled={isAllAccounts}
                               onPress={() => setIsYearlyCapitalModalOpen(true)}
                               startContent={<Icon icon="lucide:plus" className="w-3 h-3" />}
                               size="sm"
@@ -486,6 +498,111 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
                     )}
                   </AnimatePresence>
                 </Tab>
+                <Tab key="accounts" title="Accounts">
+                  <AnimatePresence mode="wait">
+                    {selectedTab === "accounts" && (
+                      <motion.div
+                        key="accounts-content"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 10 }}
+                        transition={{ duration: 0.2 }}
+                      >
+                        <AccountsPanel />
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </Tab>
+                <Tab key="charges" title="Charges">
+                  <AnimatePresence mode="wait">
+                    {selectedTab === "charges" && (
+                      <motion.div
+                        key="charges-content"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 10 }}
+                        transition={{ duration: 0.2 }}
+                      >
+                        <ChargesSettingsPanel />
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </Tab>
+                <Tab key="rules" title="Rules">
+                  <AnimatePresence mode="wait">
+                    {selectedTab === "rules" && (
+                      <motion.div
+                        key="rules-content"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 10 }}
+                        transition={{ duration: 0.2 }}
+                      >
+                        <RiskRulesPanel />
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </Tab>
+                <Tab key="tags" title="Tags">
+                  <AnimatePresence mode="wait">
+                    {selectedTab === "tags" && (
+                      <motion.div
+                        key="tags-content"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 10 }}
+                        transition={{ duration: 0.2 }}
+                      >
+                        <TradeTagManager />
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </Tab>
+                <Tab key="prices" title="Prices">
+                  <AnimatePresence mode="wait">
+                    {selectedTab === "prices" && (
+                      <motion.div
+                        key="prices-content"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 10 }}
+                        transition={{ duration: 0.2 }}
+                      >
+                        <PriceProviderSettingsPanel />
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </Tab>
+                <Tab key="holidays" title="Holidays">
+                  <AnimatePresence mode="wait">
+                    {selectedTab === "holidays" && (
+                      <motion.div
+                        key="holidays-content"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 10 }}
+                        transition={{ duration: 0.2 }}
+                      >
+                        <MarketCalendarPanel />
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </Tab>
+                <Tab key="backup" title="Backup">
+                  <AnimatePresence mode="wait">
+                    {selectedTab === "backup" && (
+                      <motion.div
+                        key="backup-content"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 10 }}
+                        transition={{ duration: 0.2 }}
+                      >
+                        <BackupRestorePanel />
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </Tab>
                 <Tab
                   key="capital"
                   title={
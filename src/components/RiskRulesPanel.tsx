@@ -0,0 +1,67 @@
+import React from "react";
+import { Button, Input, Switch } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { useRiskRules } from "../context/RiskRulesContext";
+import { RISK_RULE_DEFINITIONS } from "../utils/tradeRules";
+
+/**
+ * Trading rules checked against every trade at entry, flagged in the journal and compared
+ * by P/L in Deep Analytics
+ */
+export const RiskRulesPanel: React.FC = () => {
+  const { riskRules, updateRule, resetRiskRules } = useRiskRules();
+
+  return (
+    <div className="py-3 space-y-3">
+      <p className="text-xs text-foreground-500 p-3 bg-content1/30 rounded-lg border border-divider/30">
+        Each trade is checked against these rules as the book stood on its entry day. Trades that broke a
+        rule are flagged next to their name in the journal, and Deep Analytics → Rule Compliance shows what
+        breaking each rule has cost.
+      </p>
+
+      {RISK_RULE_DEFINITIONS.map(rule => {
+        const config = riskRules[rule.id];
+        return (
+          <div key={rule.id} className="flex items-center justify-between gap-3 p-3 border border-divider/50 rounded-lg bg-background/50">
+            <div className="flex-1">
+              <h4 className="font-medium text-sm">{rule.label}</h4>
+              <p className="text-xs text-default-500">{rule.description}</p>
+            </div>
+            {rule.unit && (
+              <Input
+                aria-label={`${rule.label} limit`}
+                size="sm"
+                type="number"
+                variant="bordered"
+                className="max-w-[130px]"
+                min={0}
+                step={rule.unit === '%' ? 0.25 : 1}
+                value={String(config.value)}
+                isDisabled={!config.enabled}
+                onValueChange={(value) => updateRule(rule.id, { value: Math.max(0, Number(value) || 0) })}
+                endContent={<span className="text-xs text-default-400">{rule.unit}</span>}
+              />
+            )}
+            <Switch
+              size="sm"
+              isSelected={config.enabled}
+              onValueChange={(enabled) => updateRule(rule.id, { enabled })}
+              aria-label={`Toggle ${rule.label}`}
+            />
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          variant="flat"
+          startContent={<Icon icon="lucide:rotate-ccw" className="w-3 h-3" />}
+          onPress={resetRiskRules}
+        >
+          Reset to defaults
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,300 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Button, Chip, Select, SelectItem, Spinner } from '@heroui/react';
+import { Icon } from '@iconify/react';
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Trade } from '../types/trade';
+import { fetchPriceTicksFromProvider } from '../utils/priceProviders';
+import { ticksToCandles } from '../utils/candleCache';
+import { formatContractLabel, isDerivative } from '../utils/derivatives';
+import {
+  TRADE_CHART_INTERVAL_LABELS,
+  TradeChartCandle,
+  TradeChartInterval,
+  TradeChartMarker,
+  buildTradeLevels,
+  buildTradeMarkers,
+  getTradeChartDomain,
+  getTradeChartRange,
+  toTradeChartCandles
+} from '../utils/tradeChartData';
+
+interface TradeCandlestickChartProps {
+  trade: Trade;
+}
+
+const UP_COLOR = '#10b981';
+const DOWN_COLOR = '#ef4444';
+
+const MARKER_COLORS: Record<TradeChartMarker['kind'], string> = {
+  entry: '#3b82f6',
+  pyramid: '#8b5cf6',
+  exit: '#f59e0b'
+};
+
+const formatPrice = (value: number) => `₹${Number(value).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const formatCandleTime = (key: string, interval: TradeChartInterval) => {
+  const date = new Date(key);
+  return interval === '1d'
+    ? date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: '2-digit' })
+    : date.toLocaleString('en-IN', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit', hour12: false });
+};
+
+// Wick from high to low and a body from open to close, drawn over the [low, high] range bar
+const CandleShape = (props: any) => {
+  const { x, y, width, height, payload } = props;
+  if (!payload || x === undefined || y === undefined) return null;
+
+  const { open, high, low, close } = payload as TradeChartCandle;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const pxPerPrice = high > low ? height / (high - low) : 0;
+  const toY = (price: number) => y + (high - price) * pxPerPrice;
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, Math.abs(open - close) * pxPerPrice);
+  const centerX = x + width / 2;
+  const bodyWidth = Math.max(1, width * 0.7);
+
+  return (
+    <g>
+      <line x1={centerX} x2={centerX} y1={y} y2={y + Math.max(height, 1)} stroke={color} strokeWidth={1} />
+      <rect x={centerX - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} stroke={color} />
+    </g>
+  );
+};
+
+// Up-pointing triangle below entries, down-pointing triangle above exits
+const MarkerShape = (kind: TradeChartMarker['kind']) => (props: any) => {
+  const { cx, cy } = props;
+  if (cx === undefined || cy === undefined) return null;
+  const size = 7;
+  const points = kind === 'exit'
+    ? `${cx - size},${cy - size - 2} ${cx + size},${cy - size - 2} ${cx},${cy - 2}`
+    : `${cx - size},${cy + size + 2} ${cx + size},${cy + size + 2} ${cx},${cy + 2}`;
+  return (
+    <g>
+      <polygon points={points} fill={MARKER_COLORS[kind]} stroke="#fff" strokeWidth={1} />
+      <circle cx={cx} cy={cy} r={2} fill={MARKER_COLORS[kind]} />
+    </g>
+  );
+};
+
+/**
+ * Candlestick chart of a trade from the configured price provider, with its executions,
+ * stop loss and trailing stop drawn over the candles
+ */
+export const TradeCandlestickChart: React.FC<TradeCandlestickChartProps> = ({ trade }) => {
+  const [interval, setChartInterval] = useState<TradeChartInterval>('1d');
+  const [candles, setCandles] = useState<TradeChartCandle[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // F&O legs are contract prices; the provider only has the underlying
+  const derivative = isDerivative(trade);
+  const range = useMemo(() => getTradeChartRange(trade, interval), [trade, interval]);
+  // Id of the latest request; responses of earlier ones are dropped
+  const requestIdRef = useRef(0);
+
+  const loadCandles = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    if (!trade.name || !range) {
+      setCandles([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetchPriceTicksFromProvider(trade.name, range.from, range.to, interval);
+      if (requestId !== requestIdRef.current) return;
+      const loaded = toTradeChartCandles(ticksToCandles(trade.name, response))
+        .filter(candle => {
+          const time = new Date(candle.key).getTime();
+          return time >= range.from.getTime() && time <= range.to.getTime();
+        });
+      setCandles(loaded);
+      if (loaded.length === 0) {
+        setError(`No ${TRADE_CHART_INTERVAL_LABELS[interval].toLowerCase()} candles found for ${trade.name}`);
+      }
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error(`❌ Failed to load candles for ${trade.name}:`, err);
+      setCandles([]);
+      setError(`Could not load prices for ${trade.name}`);
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  }, [trade.name, range, interval]);
+
+  useEffect(() => {
+    loadCandles();
+    // A response arriving after the trade or interval changed, or after unmount, is ignored
+    return () => { requestIdRef.current++; };
+  }, [loadCandles]);
+
+  const markers = useMemo(() => derivative ? [] : buildTradeMarkers(trade, candles), [trade, candles, derivative]);
+  const levels = useMemo(() => derivative ? [] : buildTradeLevels(trade), [trade, derivative]);
+  const domain = useMemo(() => getTradeChartDomain(candles, markers, levels), [candles, markers, levels]);
+
+  const CandleTooltip = ({ active, payload }: any) => {
+    if (!active || !payload || !payload.length) return null;
+    const candle = payload[0].payload as TradeChartCandle;
+    const executions = markers.filter(marker => marker.candleKey === candle.key);
+    return (
+      <div className="bg-background border border-divider p-3 rounded-lg shadow-lg text-xs space-y-1">
+        <p className="font-medium text-foreground">{formatCandleTime(candle.key, interval)}</p>
+        <div className="grid grid-cols-2 gap-x-3 text-default-600">
+          <span>O {formatPrice(candle.open)}</span>
+          <span>H {formatPrice(candle.high)}</span>
+          <span>L {formatPrice(candle.low)}</span>
+          <span>C {formatPrice(candle.close)}</span>
+        </div>
+        {executions.map(marker => (
+          <p key={marker.id} style={{ color: MARKER_COLORS[marker.kind] }} className="font-medium">
+            {marker.label}: {marker.qty} @ {formatPrice(marker.price)}
+          </p>
+        ))}
+      </div>
+    );
+  };
+
+  if (!range) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-default-500">
+        <Icon icon="lucide:calendar-x" className="w-10 h-10 mb-3" />
+        <p className="text-sm">Add an entry date to chart this trade</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-semibold">{trade.name}</span>
+          {derivative && (
+            <Chip size="sm" variant="flat" color="warning">
+              Underlying of {formatContractLabel(trade)}
+            </Chip>
+          )}
+          {!derivative && (Object.keys(MARKER_COLORS) as TradeChartMarker['kind'][]).map(kind => (
+            <span key={kind} className="flex items-center gap-1 text-xs text-default-500">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: MARKER_COLORS[kind] }} />
+              {kind === 'entry' ? 'Entry' : kind === 'pyramid' ? 'Pyramid' : 'Exit'}
+            </span>
+          ))}
+          {levels.map(level => (
+            <span key={level.kind} className="text-xs text-default-500">
+              {level.label} {formatPrice(level.price)}
+            </span>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            aria-label="Candle interval"
+            size="sm"
+            variant="bordered"
+            className="w-28"
+            selectedKeys={[interval]}
+            onSelectionChange={(keys) => {
+              const selected = Array.from(keys)[0] as TradeChartInterval;
+              if (selected) setChartInterval(selected);
+            }}
+          >
+            {(Object.keys(TRADE_CHART_INTERVAL_LABELS) as TradeChartInterval[]).map(key => (
+              <SelectItem key={key}>{TRADE_CHART_INTERVAL_LABELS[key]}</SelectItem>
+            ))}
+          </Select>
+          <Button
+            isIconOnly
+            size="sm"
+            variant="light"
+            onPress={loadCandles}
+            isDisabled={isLoading}
+            aria-label="Reload candles"
+          >
+            <Icon icon="lucide:refresh-cw" className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {derivative && (
+        <p className="text-xs text-default-500">
+          Contract prices are not available from the price provider, so executions and stops are not drawn on the underlying.
+        </p>
+      )}
+
+      <div className="flex-1 min-h-[320px]">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-full">
+            <Spinner size="lg" label="Loading candles..." />
+          </div>
+        ) : error || candles.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-default-500">
+            <Icon icon="lucide:candlestick-chart" className="w-10 h-10 mb-3" />
+            <p className="text-sm">{error || 'No candles to show'}</p>
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={candles} margin={{ top: 20, right: 60, left: 10, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--heroui-divider))" opacity={0.5} />
+              <XAxis
+                dataKey="key"
+                tickFormatter={(key) => formatCandleTime(key, interval)}
+                minTickGap={30}
+                tick={{ fill: 'hsl(var(--heroui-foreground))', fontSize: 11 }}
+                axisLine={{ stroke: 'hsl(var(--heroui-divider))' }}
+              />
+              <YAxis
+                orientation="right"
+                domain={domain || ['auto', 'auto']}
+                tickFormatter={(value) => Number(value).toLocaleString('en-IN', { maximumFractionDigits: 0 })}
+                tick={{ fill: 'hsl(var(--heroui-foreground))', fontSize: 11 }}
+                axisLine={{ stroke: 'hsl(var(--heroui-divider))' }}
+                allowDataOverflow
+              />
+              <Tooltip content={<CandleTooltip />} cursor={{ fill: 'hsl(var(--heroui-content2))', opacity: 0.2 }} />
+              <Bar dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+
+              {levels.map(level => (
+                <ReferenceLine
+                  key={level.kind}
+                  y={level.price}
+                  stroke={level.kind === 'sl' ? DOWN_COLOR : '#f97316'}
+                  strokeDasharray={level.kind === 'sl' ? '6 3' : '2 3'}
+                  label={{ value: `${level.label} ${level.price}`, position: 'insideTopLeft', fontSize: 11, fill: level.kind === 'sl' ? DOWN_COLOR : '#f97316' }}
+                />
+              ))}
+
+              {markers.filter(marker => marker.candleKey).map(marker => (
+                <ReferenceDot
+                  key={marker.id}
+                  x={marker.candleKey}
+                  y={marker.price}
+                  r={6}
+                  ifOverflow="extendDomain"
+                  shape={MarkerShape(marker.kind)}
+                />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      {markers.some(marker => !marker.candleKey) && (
+        <p className="text-xs text-default-400">
+          Executions outside the loaded candles are not drawn: {markers.filter(marker => !marker.candleKey).map(marker => marker.label).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React from "react";
+import { Button, Input, Select, SelectItem } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { TradeLeg } from "../types/trade";
+import { generateId } from "../utils/helpers";
+
+interface TradeLegsEditorProps {
+  legs: TradeLeg[];
+  buySell: "Buy" | "Sell";
+  defaultDate?: string;
+  onChange: (legs: TradeLeg[]) => void;
+}
+
+/**
+ * Editable list of every entry and exit execution of a trade.
+ * Unlike the fixed pyramid/exit fields, any number of legs can be added.
+ */
+export const TradeLegsEditor: React.FC<TradeLegsEditorProps> = ({
+  legs,
+  buySell,
+  defaultDate,
+  onChange
+}) => {
+  const entryLabel = buySell === "Buy" ? "Buy" : "Sell";
+  const exitLabel = buySell === "Buy" ? "Sell" : "Cover";
+
+  const totals = React.useMemo(() => {
+    const entered = legs.filter(l => l.side === "entry").reduce((sum, l) => sum + (Number(l.qty) || 0), 0);
+    const exited = legs.filter(l => l.side === "exit").reduce((sum, l) => sum + (Number(l.qty) || 0), 0);
+    return { entered, exited, open: entered - exited };
+  }, [legs]);
+
+  const updateLeg = (id: string, changes: Partial<TradeLeg>) => {
+    onChange(legs.map(leg => (leg.id === id ? { ...leg, ...changes } : leg)));
+  };
+
+  const addLeg = (side: TradeLeg["side"]) => {
+    onChange([
+      ...legs,
+      {
+        id: generateId(),
+        side,
+        date: defaultDate || new Date().toISOString().split("T")[0],
+        price: 0,
+        qty: side === "exit" ? Math.max(0, totals.open) : 0
+      }
+    ]);
+  };
+
+  const removeLeg = (id: string) => {
+    onChange(legs.filter(leg => leg.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-foreground-500">
+        <span>
+          Entered {totals.entered} · Exited {totals.exited} · Open {totals.open}
+        </span>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="flat"
+            color="success"
+            startContent={<Icon icon="lucide:plus" className="w-3 h-3" />}
+            onPress={() => addLeg("entry")}
+          >
+            Entry
+          </Button>
+          <Button
+            size="sm"
+            variant="flat"
+            color="danger"
+            startContent={<Icon icon="lucide:minus" className="w-3 h-3" />}
+            onPress={() => addLeg("exit")}
+          >
+            Exit
+          </Button>
+        </div>
+      </div>
+
+      {totals.open < 0 && (
+        <div className="p-2 text-xs rounded-lg bg-danger-500/10 border border-danger-500/20 text-danger-500">
+          Exit quantity ({totals.exited}) is greater than entered quantity ({totals.entered})
+        </div>
+      )}
+
+      {legs.length === 0 ? (
+        <div className="text-center text-sm text-foreground-400 py-6">
+          No executions yet. Add an entry to get started.
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-[50vh] overflow-auto">
+          {legs.map((leg, index) => (
+            <div
+              key={leg.id}
+              className="grid grid-cols-12 gap-2 items-center p-2 rounded-lg border border-default-200 bg-default-50/50"
+            >
+              <Select
+                aria-label={`Leg ${index + 1} side`}
+                size="sm"
+                className="col-span-3"
+                selectedKeys={[leg.side]}
+                onSelectionChange={(keys) => {
+                  const side = Array.from(keys)[0] as TradeLeg["side"];
+                  if (side) updateLeg(leg.id, { side });
+                }}
+              >
+                <SelectItem key="entry">{entryLabel}</SelectItem>
+                <SelectItem key="exit">{exitLabel}</SelectItem>
+              </Select>
+              <Input
+                aria-label={`Leg ${index + 1} date`}
+                size="sm"
+                type="date"
+                className="col-span-4"
+                value={leg.date || ""}
+                onValueChange={(value) => updateLeg(leg.id, { date: value })}
+              />
+              <Input
+                aria-label={`Leg ${index + 1} price`}
+                size="sm"
+                type="number"
+                className="col-span-2"
+                placeholder="Price"
+                value={leg.price ? String(leg.price) : ""}
+                onValueChange={(value) => updateLeg(leg.id, { price: Number(value) || 0 })}
+              />
+              <Input
+                aria-label={`Leg ${index + 1} quantity`}
+                size="sm"
+                type="number"
+                className="col-span-2"
+                placeholder="Qty"
+                value={leg.qty ? String(leg.qty) : ""}
+                onValueChange={(value) => updateLeg(leg.id, { qty: Number(value) || 0 })}
+              />
+              <Button
+                isIconOnly
+                size="sm"
+                variant="light"
+                className="col-span-1"
+                aria-label={`Remove leg ${index + 1}`}
+                onPress={() => removeLeg(leg.id)}
+              >
+                <Icon icon="lucide:trash-2" className="w-4 h-4 text-danger-500" />
+              </Button>
+              <Input
+                aria-label={`Leg ${index + 1} fees`}
+                size="sm"
+                type="number"
+                className="col-span-3"
+                placeholder="Fees (₹)"
+                value={leg.fees ? String(leg.fees) : ""}
+                onValueChange={(value) => updateLeg(leg.id, { fees: Number(value) || 0 })}
+              />
+              <Input
+                aria-label={`Leg ${index + 1} note`}
+                size="sm"
+                className="col-span-9"
+                placeholder="Note"
+                value={leg.note || ""}
+                onValueChange={(value) => updateLeg(leg.id, { note: value })}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
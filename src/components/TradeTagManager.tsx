@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import { Button, Chip, Input } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { useTradeTags } from "../context/TradeTagsContext";
+import { TRADE_TAG_CATEGORIES, TradeTag, TradeTagCategory } from "../utils/tradeTags";
+
+const ICON_CLASSES: Record<TradeTagCategory, string> = {
+  mistake: "text-danger-500",
+  market: "text-primary-500",
+  emotion: "text-warning-500",
+  catalyst: "text-success-500"
+};
+
+/**
+ * Tag lists per category; tags are picked in the trade form and filtered on in the journal
+ */
+export const TradeTagManager: React.FC = () => {
+  const { tags, addTag, renameTag, deleteTag } = useTradeTags();
+  const [newNames, setNewNames] = useState<Partial<Record<TradeTagCategory, string>>>({});
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const handleAdd = (category: TradeTagCategory) => {
+    if (addTag(newNames[category] || '', category)) {
+      setNewNames(prev => ({ ...prev, [category]: '' }));
+    }
+  };
+
+  const handleRename = () => {
+    if (editing) renameTag(editing.id, editing.name);
+    setEditing(null);
+  };
+
+  const renderTag = (tag: TradeTag, color: typeof TRADE_TAG_CATEGORIES[number]['color']) => {
+    if (editing?.id === tag.id) {
+      return (
+        <Input
+          key={tag.id}
+          aria-label="Tag name"
+          size="sm"
+          variant="bordered"
+          autoFocus
+          className="max-w-[160px]"
+          value={editing.name}
+          onValueChange={(name) => setEditing({ id: tag.id, name })}
+          onBlur={handleRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleRename();
+            if (e.key === 'Escape') setEditing(null);
+          }}
+        />
+      );
+    }
+    return (
+      <Chip
+        key={tag.id}
+        size="sm"
+        variant="flat"
+        color={color}
+        onClose={() => deleteTag(tag.id)}
+        className="cursor-pointer"
+        onClick={() => setEditing({ id: tag.id, name: tag.name })}
+      >
+        {tag.name}
+      </Chip>
+    );
+  };
+
+  return (
+    <div className="py-3 space-y-3">
+      <p className="text-xs text-foreground-500 p-3 bg-content1/30 rounded-lg border border-divider/30">
+        Tag trades in the trade form, filter the journal by tags and compare their results in
+        Deep Analytics → Setup Performance. Click a tag to rename it. Deleting a tag hides it from the
+        trades that carry it.
+      </p>
+
+      {TRADE_TAG_CATEGORIES.map(category => (
+        <div key={category.id} className="p-3 border border-divider/50 rounded-lg bg-background/50 space-y-2">
+          <h4 className="font-medium text-sm flex items-center gap-2">
+            <Icon icon={category.icon} className={ICON_CLASSES[category.id]} />
+            {category.label}
+          </h4>
+          <div className="flex flex-wrap gap-1.5">
+            {tags.filter(tag => tag.category === category.id).map(tag => renderTag(tag, category.color))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label={`New ${category.label} tag`}
+              size="sm"
+              variant="bordered"
+              placeholder="New tag"
+              className="max-w-[220px]"
+              value={newNames[category.id] || ''}
+              onValueChange={(value) => setNewNames(prev => ({ ...prev, [category.id]: value }))}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAdd(category.id);
+              }}
+            />
+            <Button
+              size="sm"
+              variant="flat"
+              isDisabled={!newNames[category.id]?.trim()}
+              startContent={<Icon icon="lucide:plus" className="w-3 h-3" />}
+              onPress={() => handleAdd(category.id)}
+            >
+              Add
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from "react";
+import { Chip } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { useTradeTags } from "../context/TradeTagsContext";
+import { TRADE_TAG_CATEGORIES } from "../utils/tradeTags";
+
+interface TradeTagPickerProps {
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+}
+
+/**
+ * Toggleable tag chips grouped by category. Tags are managed in Settings → Tags.
+ */
+export const TradeTagPicker: React.FC<TradeTagPickerProps> = ({ value, onChange }) => {
+  const { tags } = useTradeTags();
+  const selected = new Set(value);
+
+  const toggle = (id: string) => {
+    onChange(selected.has(id) ? value.filter(tagId => tagId !== id) : [...value, id]);
+  };
+
+  return (
+    <div className="mx-2 mb-3 p-3 rounded-lg border border-divider/50 space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Icon icon="lucide:tags" className="w-4 h-4 text-default-500" />
+        Tags
+        {value.length > 0 && <span className="text-xs text-default-400">({value.length})</span>}
+      </div>
+      {TRADE_TAG_CATEGORIES.map(category => {
+        const categoryTags = tags.filter(tag => tag.category === category.id);
+        if (categoryTags.length === 0) return null;
+        return (
+          <div key={category.id} className="flex flex-wrap items-center gap-1.5">
+            <span className="text-xs text-default-500 w-28 shrink-0">{category.label}</span>
+            {categoryTags.map(tag => (
+              <Chip
+                key={tag.id}
+                size="sm"
+                color={category.color}
+                variant={selected.has(tag.id) ? "solid" : "bordered"}
+                className="cursor-pointer"
+                onClick={() => toggle(tag.id)}
+              >
+                {tag.name}
+              </Chip>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -43,6 +43,9 @@ import {
   calcPFImpact,
   calcRealizedPL_FIFO
 } from "../utils/tradeCalculations";
+import { mergeLegacyFieldsIntoLegs, getEntryLegs, getExitLegs } from "../utils/tradeLegs";
+import { importBrokerTradebook } from "../utils/brokerImporters";
+import { getContractMultiplier } from "../utils/derivatives";
 
 
 interface TradeUploadModalProps {
@@ -116,6 +119,7 @@ const AUTO_POPULATED_FIELDS = [
   'positionStatus', // Calculated from open/exited quantities
   'realisedAmount', // Calculated from exits
   'plRs',          // Calculated using FIFO/accounting method
+  'netPlRs',       // Calculated from P/L less brokerage and statutory charges
   'pfImpact',      // Calculated from P/L vs portfolio
   'cummPf',        // Calculated cumulatively across trades
   'unrealizedPL'   // Calculated for open positions
@@ -218,6 +222,8 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedDateFormat, setSelectedDateFormat] = useState<string>('auto');
+  // Positions built from a recognised broker tradebook (skips column mapping)
+  const [brokerImport, setBrokerImport] = useState<{ broker: string; fillCount: number; skippedSells: number; trades: Trade[] } | null>(null);
 
   // Date format options
   const dateFormatOptions = [
@@ -507,42 +513,25 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
     const year = tradeDate.getFullYear();
     const tradePortfolioSize = getPortfolioSize ? getPortfolioSize(month, year) : portfolioSize;
 
-    // Gather all entry lots (initial + pyramids)
-    const allEntries = [
-      { price: trade.entry, qty: trade.initialQty },
-      ...(trade.pyramid1Price && trade.pyramid1Qty ? [{ price: trade.pyramid1Price, qty: trade.pyramid1Qty }] : []),
-      ...(trade.pyramid2Price && trade.pyramid2Qty ? [{ price: trade.pyramid2Price, qty: trade.pyramid2Qty }] : [])
-    ].filter(e => e.price > 0 && e.qty > 0);
-
-    // Gather all exit lots with dates
-    const allExits = [
-      ...(trade.exit1Price && trade.exit1Qty ? [{
-        price: trade.exit1Price,
-        qty: trade.exit1Qty,
-        date: trade.exit1Date || trade.date
-      }] : []),
-      ...(trade.exit2Price && trade.exit2Qty ? [{
-        price: trade.exit2Price,
-        qty: trade.exit2Qty,
-        date: trade.exit2Date || trade.date
-      }] : []),
-      ...(trade.exit3Price && trade.exit3Qty ? [{
-        price: trade.exit3Price,
-        qty: trade.exit3Qty,
-        date: trade.exit3Date || trade.date
-      }] : [])
-    ].filter(e => e.price > 0 && e.qty > 0);
+    // Build the leg list from the imported slot columns; undated exits fall back to the trade date
+    const legs = mergeLegacyFieldsIntoLegs(trade).map(leg =>
+      leg.side === 'exit' && !leg.date ? { ...leg, date: trade.date } : leg
+    );
+    const allEntries = getEntryLegs(legs).filter(e => e.price > 0);
+    const allExits = getExitLegs(legs).filter(e => e.price > 0);
 
     // Calculate derived values
     const totalInitialQty = allEntries.reduce((sum, e) => sum + e.qty, 0);
-    const avgEntry = calcAvgEntry(allEntries);
-    const positionSize = calcPositionSize(avgEntry, totalInitialQty);
+    const avgEntry = calcAvgEntry(legs);
+    // F&O quantities are in lots
+    const multiplier = getContractMultiplier(trade);
+    const positionSize = calcPositionSize(avgEntry, totalInitialQty, multiplier);
     const allocation = calcAllocation(positionSize, tradePortfolioSize);
     const slPercent = calcSLPercent(trade.sl, trade.entry);
 
     const exitedQty = allExits.reduce((sum, e) => sum + e.qty, 0);
     const openQty = Math.max(0, totalInitialQty - exitedQty);
-    const avgExitPrice = calcAvgExitPrice(allExits);
+    const avgExitPrice = calcAvgExitPrice(legs);
 
     // Determine position status
     let positionStatus: 'Open' | 'Closed' | 'Partial' = trade.positionStatus || 'Open';
@@ -575,17 +564,12 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
       trade.buySell
     );
 
-    const holdingDays = calcHoldingDays(
-      trade.date,
-      allExits.length > 0 ? allExits[allExits.length - 1].date : trade.date
-    );
+    const holdingDays = calcHoldingDays(legs);
 
-    const realisedAmount = calcRealisedAmount(exitedQty, avgExitPrice);
+    const realisedAmount = calcRealisedAmount(exitedQty, avgExitPrice, multiplier);
 
     // Calculate P/L using FIFO method
-    const entryLotsForFifo = allEntries.map(e => ({ price: e.price, qty: e.qty }));
-    const exitLotsForFifo = allExits.map(e => ({ price: e.price, qty: e.qty }));
-    const plRs = exitedQty > 0 ? calcRealizedPL_FIFO(entryLotsForFifo, exitLotsForFifo, trade.buySell as 'Buy' | 'Sell') : 0;
+    const plRs = exitedQty > 0 ? calcRealizedPL_FIFO(legs, trade.buySell as 'Buy' | 'Sell', multiplier) : 0;
 
     // Note: PF Impact calculation in upload modal uses entry date portfolio size
     // This is acceptable for initial calculation as accounting method-specific
@@ -594,6 +578,7 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
 
     return {
       ...trade,
+      legs,
       avgEntry,
       positionSize,
       allocation,
@@ -803,8 +788,28 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
     return { mapping, confidence };
   }, [parsedData]);
 
+  // Recognise broker tradebooks and go straight to preview with the grouped positions
+  const loadBrokerTradebook = useCallback((rows: any[][], fileName: string): boolean => {
+    const result = importBrokerTradebook(rows);
+    if (!result) return false;
+
+    if (result.trades.length === 0) {
+      setError(`Recognised a ${result.importer.label} tradebook but found no executed trades in it.`);
+      return true;
+    }
+
+    const trades = result.trades.map(trade => recalculateTradeFields(trade));
+    console.log(`📥 ${fileName}: ${result.fills.length} ${result.importer.label} fills grouped into ${trades.length} trades`);
+
+    setBrokerImport({ broker: result.importer.label, fillCount: result.fills.length, skippedSells: result.skippedFills.length, trades });
+    setPreviewTrades(trades.slice(0, 5));
+    setStep('preview');
+    return true;
+  }, [recalculateTradeFields]);
+
   const handleFileUpload = useCallback((file: File) => {
     setError(null); // Clear any previous errors
+    setBrokerImport(null);
     const fileExtension = file.name.split('.').pop()?.toLowerCase();
 
     if (fileExtension === 'csv') {
@@ -816,6 +821,8 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
             }
 
             if (results.data && results.data.length > 0) {
+              if (loadBrokerTradebook(results.data as any[][], file.name)) return;
+
               const headers = results.data[0] as string[];
               const rows = results.data.slice(1) as any[][];
 
@@ -903,6 +910,8 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
           const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
           
           if (jsonData.length > 0) {
+            if (loadBrokerTradebook(jsonData, file.name)) return;
+
             const headers = jsonData[0] as string[];
             const rows = jsonData.slice(1);
 
@@ -952,7 +961,7 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
       };
       reader.readAsArrayBuffer(file);
     }
-  }, [generateSmartMapping]);
+  }, [generateSmartMapping, loadBrokerTradebook]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -1118,6 +1127,26 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
   }, [parsedData, columnMapping, recalculateTradeFields, isTradeCompletelyBlank]);
 
   const handleImport = useCallback(async () => {
+    if (brokerImport) {
+      setStep('importing');
+      setError(null);
+
+      const trades = brokerImport.trades.map((trade, index) => ({ ...trade, tradeNo: String(index + 1) }));
+      onImport(trades);
+
+      console.log(`✅ Imported ${trades.length} trades from ${brokerImport.broker} tradebook`);
+      setImportProgress(100);
+
+      setTimeout(() => {
+        onOpenChange(false);
+        setStep('upload');
+        setBrokerImport(null);
+        setPreviewTrades([]);
+        setImportProgress(0);
+      }, 1000);
+      return;
+    }
+
     if (!parsedData) return;
 
     setStep('importing');
@@ -1312,7 +1341,7 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
       setPreviewTrades([]);
       setImportProgress(0);
     }, 1000);
-  }, [parsedData, columnMapping, onImport, onOpenChange, recalculateTradeFields, isTradeCompletelyBlank]);
+  }, [brokerImport, parsedData, columnMapping, onImport, onOpenChange, recalculateTradeFields, isTradeCompletelyBlank]);
 
 
 
@@ -1325,6 +1354,7 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
     setImportProgress(0);
     setError(null);
     setSelectedDateFormat('auto');
+    setBrokerImport(null);
   }, []);
 
 
@@ -1601,6 +1631,12 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
                               Upload comma-separated values file with trade data. Supports standard CSV format with headers.
                             </p>
                           </div>
+                          <div className="md:col-span-2">
+                            <h4 className="font-medium mb-2">Broker Tradebooks</h4>
+                            <p className="text-sm text-foreground-500">
+                              Zerodha, Upstox, Groww and Angel One tradebook exports are recognised automatically. Executions are grouped by symbol into trades with pyramids and partial exits.
+                            </p>
+                          </div>
                         </div>
 
                         <Divider className="my-4" />
@@ -1914,6 +1950,22 @@ MARUTI,12 Sep,2800,3,Buy,Open,,,Pullback,Current year assumed,`;
                         </div>
                       </CardHeader>
                       <CardBody className="pt-0">
+                        {brokerImport && (
+                          <div className="flex items-center gap-2 p-2 mb-4 bg-success/10 rounded-lg">
+                            <Icon icon="lucide:building-2" className="text-success" />
+                            <span className="text-sm text-success font-medium">
+                              {brokerImport.broker} tradebook detected: {brokerImport.fillCount} executions grouped into {brokerImport.trades.length} trades
+                            </span>
+                          </div>
+                        )}
+                        {brokerImport && brokerImport.skippedSells > 0 && (
+                          <div className="flex items-center gap-2 p-2 mb-4 bg-warning/10 rounded-lg">
+                            <Icon icon="lucide:alert-triangle" className="text-warning" />
+                            <span className="text-sm text-warning font-medium">
+                              Skipped {brokerImport.skippedSells} delivery sells with no matching buy in this tradebook, usually holdings bought before it starts
+                            </span>
+                          </div>
+                        )}
                         <div className="mb-4">
                           <p className="text-sm text-foreground-500 mb-2">
                             Review the mapped data before importing. Check if the values look correct.
@@ -2044,7 +2096,7 @@ MARUTI,12 Sep,2800,3,Buy,Open,,,Pullback,Current year assumed,`;
                       onPress={() => {
                         if (step === 'dateFormat') setStep('upload');
                         else if (step === 'mapping') setStep('dateFormat');
-                        else if (step === 'preview') setStep('mapping');
+                        else if (step === 'preview') setStep(brokerImport ? 'upload' : 'mapping');
                       }}
                       startContent={<Icon icon="lucide:arrow-left" />}
                     >
@@ -2085,7 +2137,7 @@ MARUTI,12 Sep,2800,3,Buy,Open,,,Pullback,Current year assumed,`;
                       onPress={handleImport}
                       endContent={<Icon icon="lucide:upload" />}
                     >
-                      Import {parsedData?.rows.length} Trades
+                      Import {brokerImport ? brokerImport.trades.length : parsedData?.rows.length} Trades
                     </Button>
                   )}
                 </div>
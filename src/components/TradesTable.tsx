@@ -5,6 +5,7 @@ import { Trade } from "../types/trade";
 import { validateTrade, TradeIssue } from "../utils/tradeValidations";
 import { useTrades } from "../hooks/use-trades";
 import { calcIndividualMoves } from "../utils/tradeCalculations";
+import { getTradeLegs, getEntryLegs, entryLegLabel } from "../utils/tradeLegs";
 
 export const TradesTable = () => {
   const { trades, updateTrade } = useTrades();
@@ -44,11 +45,9 @@ export const TradesTable = () => {
     const hasWarning = issues.some(i => i.type === 'warning');
 
     if (columnKey === "stockMove") {
-      const entries = [
-        { price: trade.entry, qty: trade.initialQty, description: "Initial Entry" },
-        { price: trade.pyramid1Price, qty: trade.pyramid1Qty, description: "Pyramid 1" },
-        { price: trade.pyramid2Price, qty: trade.pyramid2Qty, description: "Pyramid 2" }
-      ].filter(e => e.price > 0 && e.qty > 0);
+      const entries = getEntryLegs(getTradeLegs(trade))
+        .map((leg, i) => ({ price: leg.price, qty: leg.qty, description: entryLegLabel(i) }))
+        .filter(e => e.price > 0 && e.qty > 0);
 
       const individualMoves = calcIndividualMoves(
         entries,
@@ -2,15 +2,20 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, Button, Tooltip, Select, SelectItem, Chip, Progress, Input } from '@heroui/react';
 import { Icon } from '@iconify/react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ChartImage } from '../types/trade';
+import { ChartImage, Trade } from '../types/trade';
 import { DatabaseService, ChartImageBlob } from '../db/database';
 import { formatFileSize } from '../utils/chartImageUtils';
+import { TradeCandlestickChart } from './TradeCandlestickChart';
+
+// Uploaded screenshots, or the built-in candlestick chart of the selected trade
+type ViewMode = 'images' | 'price';
 
 interface UniversalChartViewerProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
   initialChartImage?: ChartImage | null;
   initialTradeId?: string;
+  initialView?: ViewMode;
   refreshTrigger?: number; // Add refresh trigger prop
 }
 
@@ -28,6 +33,7 @@ export const UniversalChartViewer: React.FC<UniversalChartViewerProps> = ({
   onOpenChange,
   initialChartImage,
   initialTradeId,
+  initialView = 'images',
   refreshTrigger,
 }) => {
   const [allImages, setAllImages] = useState<ChartImageWithContext[]>([]);
@@ -43,6 +49,9 @@ export const UniversalChartViewer: React.FC<UniversalChartViewerProps> = ({
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [symbolSearch, setSymbolSearch] = useState('');
   const [showSymbolDropdown, setShowSymbolDropdown] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>('images');
+  const [tradesById, setTradesById] = useState<Map<string, Trade>>(new Map());
+  const [chartTradeId, setChartTradeId] = useState<string | null>(null);
 
   // Get unique symbols for search
   const uniqueSymbols = useMemo(() => {
@@ -79,9 +88,17 @@ export const UniversalChartViewer: React.FC<UniversalChartViewerProps> = ({
 
   const currentImage = filteredImages[currentIndex];
 
+  // The price chart shows the trade the viewer was opened from, then follows image navigation
+  const chartTrade = useMemo(() => {
+    const tradeId = chartTradeId || currentImage?.tradeId;
+    return tradeId ? tradesById.get(tradeId) || null : null;
+  }, [chartTradeId, currentImage, tradesById]);
+
   // Load all chart images when modal opens or when refresh is triggered
   useEffect(() => {
     if (isOpen) {
+      setViewMode(initialView);
+      setChartTradeId(initialTradeId || null);
       loadAllImages();
     } else {
       // Cleanup when modal closes
@@ -96,15 +113,16 @@ export const UniversalChartViewer: React.FC<UniversalChartViewerProps> = ({
     }
   }, [isOpen, refreshTrigger]); // Add refreshTrigger to dependencies
 
-  // Set initial image when provided
+  // Set initial image when provided, else the first image of the initial trade
   useEffect(() => {
-    if (initialChartImage && filteredImages.length > 0) {
-      const index = filteredImages.findIndex(img => img.id === initialChartImage.id);
-      if (index >= 0) {
-        setCurrentIndex(index);
-      }
+    if (filteredImages.length === 0) return;
+    const index = initialChartImage
+      ? filteredImages.findIndex(img => img.id === initialChartImage.id)
+      : filteredImages.findIndex(img => img.tradeId === initialTradeId);
+    if (index >= 0) {
+      setCurrentIndex(index);
     }
-  }, [initialChartImage, filteredImages]);
+  }, [initialChartImage, initialTradeId, filteredImages]);
 
   // Reset current index when filter or symbol search changes
   useEffect(() => {
@@ -119,6 +137,7 @@ export const UniversalChartViewer: React.FC<UniversalChartViewerProps> = ({
     const symbolIndex = filteredImages.findIndex(img => img.tradeName === symbol);
     if (symbolIndex >= 0) {
       setCurrentIndex(symbolIndex);
+      setChartTradeId(filteredImages[symbolIndex].tradeId);
     }
   };
 
@@ -318,6 +337,7 @@ export const UniversalChartViewer: React.FC<UniversalChartViewerProps> = ({
       });
 
       setAllImages(sortedImages);
+      setTradesById(new Map(allTrades.map(trade => [trade.id, trade as Trade])));
       setLoadingProgress(100);
 
       // Preload first few images
@@ -349,6 +369,7 @@ export const UniversalChartViewer: React.FC<UniversalChartViewerProps> = ({
     if (currentIndex < filteredImages.length - 1) {
       const newIndex = currentIndex + 1;
       setCurrentIndex(newIndex);
+      setChartTradeId(filteredImages[newIndex].tradeId);
       preloadAdjacentImages(newIndex, filteredImages);
       resetZoom();
     }
@@ -358,6 +379,7 @@ export const UniversalChartViewer: React.FC<UniversalChartViewerProps> = ({
     if (currentIndex > 0) {
       const newIndex = currentIndex - 1;
       setCurrentIndex(newIndex);
+      setChartTradeId(filteredImages[newIndex].tradeId);
       preloadAdjacentImages(newIndex, filteredImages);
       resetZoom();
     }
@@ -506,6 +528,35 @@ export const UniversalChartViewer: React.FC<UniversalChartViewerProps> = ({
               </div>
 
               <div className="flex items-center gap-3">
+                {/* View Toggle */}
+                <div className="flex items-center bg-gray-100 dark:bg-gray-800 rounded p-0.5">
+                  <Button
+                    size="sm"
+                    variant={viewMode === 'images' ? 'solid' : 'light'}
+                    color={viewMode === 'images' ? 'primary' : 'default'}
+                    onPress={() => setViewMode('images')}
+                    className="h-7 text-xs"
+                    startContent={<Icon icon="lucide:image" className="w-3.5 h-3.5" />}
+                  >
+                    Screenshots
+                  </Button>
+                  <Tooltip content={chartTrade ? `Candles of ${chartTrade.name}` : 'Select a trade with a chart image'}>
+                    <div>
+                      <Button
+                        size="sm"
+                        variant={viewMode === 'price' ? 'solid' : 'light'}
+                        color={viewMode === 'price' ? 'primary' : 'default'}
+                        onPress={() => setViewMode('price')}
+                        isDisabled={!chartTrade}
+                        className="h-7 text-xs"
+                        startContent={<Icon icon="lucide:candlestick-chart" className="w-3.5 h-3.5" />}
+                      >
+                        Price chart
+                      </Button>
+                    </div>
+                  </Tooltip>
+                </div>
+
                 {/* Filter Controls */}
                 <Select
                   size="md"
@@ -625,7 +676,11 @@ export const UniversalChartViewer: React.FC<UniversalChartViewerProps> = ({
             </ModalHeader>
 
             <ModalBody className="p-0 overflow-hidden">
-              {isLoading ? (
+              {viewMode === 'price' && chartTrade ? (
+                <div className="w-full h-[80vh] p-4">
+                  <TradeCandlestickChart trade={chartTrade} />
+                </div>
+              ) : isLoading ? (
                 <div className="flex flex-col items-center justify-center h-[80vh]">
                   <Icon icon="lucide:loader-2" className="w-12 h-12 animate-spin text-primary-500 mb-4" />
                   <p className="text-lg text-gray-600 dark:text-gray-400 mb-2">Loading chart images...</p>
@@ -651,6 +706,17 @@ export const UniversalChartViewer: React.FC<UniversalChartViewerProps> = ({
                   <Icon icon="lucide:image-off" className="w-12 h-12 text-gray-400 mb-4" />
                   <p className="text-lg text-gray-600 dark:text-gray-400">No chart images found</p>
                   <p className="text-sm text-gray-500">Upload some chart images to get started</p>
+                  {chartTrade && (
+                    <Button
+                      color="primary"
+                      variant="light"
+                      onPress={() => setViewMode('price')}
+                      className="mt-4"
+                      startContent={<Icon icon="lucide:candlestick-chart" className="w-4 h-4" />}
+                    >
+                      View price chart of {chartTrade.name}
+                    </Button>
+                  )}
                 </div>
               ) : currentImage ? (
                 <div className="relative w-full h-[80vh] bg-gray-50 dark:bg-gray-900 overflow-hidden">
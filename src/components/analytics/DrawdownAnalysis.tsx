@@ -0,0 +1,186 @@
+import React, { useMemo } from 'react';
+import { Card, CardBody, CardHeader, Chip, Divider, Table, TableBody, TableCell, TableColumn, TableHeader, TableRow } from '@heroui/react';
+import { Icon } from '@iconify/react';
+import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Trade } from '../../types/trade';
+import { useTruePortfolioWithTrades } from '../../hooks/use-true-portfolio-with-trades';
+import { useAccountingMethod } from '../../context/AccountingMethodContext';
+import { useAccountingMethodDisplay } from '../../hooks/use-accounting-calculations';
+import { calculateDailyPortfolioValues, getRealizedPLEvents } from '../../utils/tradeCalculations';
+import { getCapitalFlowsByDate } from '../../utils/returns';
+import { analyseDrawdowns } from '../../utils/drawdowns';
+
+interface DrawdownAnalysisProps {
+  trades: Trade[];
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 0
+}).format(value);
+
+const formatDate = (date: number) => new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: '2-digit' });
+
+const StatItem: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = '' }) => (
+  <div>
+    <p className="text-xs text-default-500">{label}</p>
+    <p className={`text-lg font-semibold ${className}`}>{value}</p>
+  </div>
+);
+
+/**
+ * Underwater curve, time-under-water stats and every drawdown episode with its worst trades
+ */
+const DrawdownAnalysis: React.FC<DrawdownAnalysisProps> = ({ trades }) => {
+  const { accountingMethod } = useAccountingMethod();
+  const useCashBasis = accountingMethod === 'cash';
+  const { displayName } = useAccountingMethodDisplay();
+  const { capitalChanges } = useTruePortfolioWithTrades(trades);
+
+  const analysis = useMemo(() => analyseDrawdowns(
+    calculateDailyPortfolioValues(trades, capitalChanges || [], useCashBasis),
+    getCapitalFlowsByDate(capitalChanges || []),
+    getRealizedPLEvents(trades, useCashBasis)
+  ), [trades, capitalChanges, useCashBasis]);
+
+  const underwaterData = useMemo(() => analysis.underwater.map(point => ({
+    ...point,
+    label: formatDate(point.date)
+  })), [analysis.underwater]);
+
+  return (
+    <Card className="border-divider">
+      <CardHeader className="flex flex-col items-start">
+        <p className="text-md font-semibold">Drawdowns</p>
+        <p className="text-sm text-default-500">
+          Falls from a previous equity peak, with deposits and withdrawals taken out ({displayName} P/L).
+        </p>
+      </CardHeader>
+      <Divider/>
+      <CardBody className="space-y-6">
+        {analysis.underwater.length < 2 ? (
+          <div className="text-foreground-400 text-lg font-medium text-center w-full py-12">No data in this period.</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+              <StatItem label="Max Drawdown" value={`${analysis.maxDepth.toFixed(2)}%`} className="text-danger-600" />
+              <StatItem
+                label="Current Drawdown"
+                value={`${analysis.currentDrawdown.toFixed(2)}%`}
+                className={analysis.currentDrawdown > 0 ? 'text-warning-600' : 'text-success-600'}
+              />
+              <StatItem label="Episodes" value={String(analysis.episodes.length)} />
+              <StatItem label="Time Under Water" value={`${analysis.timeUnderWater.toFixed(0)}%`} />
+              <StatItem label="Longest Drawdown" value={`${analysis.longestDuration} days`} />
+              <StatItem label="Avg Recovery" value={`${Math.round(analysis.avgRecoveryDays)} days`} />
+            </div>
+
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={underwaterData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                  <defs>
+                    <linearGradient id="colorUnderwater" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="hsl(var(--heroui-danger-500))" stopOpacity={0} />
+                      <stop offset="95%" stopColor="hsl(var(--heroui-danger-500))" stopOpacity={0.4} />
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--heroui-divider))" />
+                  <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 11 }} minTickGap={24} />
+                  <YAxis
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 11 }}
+                    tickFormatter={(value) => `${value.toFixed(0)}%`}
+                    domain={['dataMin', 0]}
+                  />
+                  <Tooltip
+                    formatter={(value: number, _name: string, props: any) => [
+                      `${value.toFixed(2)}% (${formatCurrency(props.payload.value)})`,
+                      'Drawdown'
+                    ]}
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--heroui-content1))',
+                      border: '1px solid hsl(var(--heroui-divider))',
+                      borderRadius: '8px',
+                      padding: '8px 12px'
+                    }}
+                  />
+                  <Area
+                    type="stepAfter"
+                    dataKey="drawdown"
+                    stroke="hsl(var(--heroui-danger))"
+                    fill="url(#colorUnderwater)"
+                    strokeWidth={1.5}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+
+            <Table
+              aria-label="Drawdown episodes"
+              classNames={{
+                th: "bg-transparent border-b border-divider text-xs font-medium text-default-500 uppercase tracking-wider",
+                td: "py-2.5 text-sm align-top",
+                wrapper: "p-0"
+              }}
+            >
+              <TableHeader>
+                <TableColumn>Peak</TableColumn>
+                <TableColumn>Trough</TableColumn>
+                <TableColumn>Recovered</TableColumn>
+                <TableColumn className="text-right">Depth</TableColumn>
+                <TableColumn className="text-right">P/L to Trough</TableColumn>
+                <TableColumn className="text-right">Duration</TableColumn>
+                <TableColumn>Worst Trades</TableColumn>
+              </TableHeader>
+              <TableBody items={analysis.episodes} emptyContent="No drawdowns in this period.">
+                {(episode) => (
+                  <TableRow key={episode.peakDate}>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDate(episode.peakDate)}
+                      <p className="text-xs text-default-400">{formatCurrency(episode.peakValue)}</p>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDate(episode.troughDate)}
+                      <p className="text-xs text-default-400">{episode.daysToTrough} days down</p>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {episode.recoveryDate !== null ? (
+                        <>
+                          {formatDate(episode.recoveryDate)}
+                          <p className="text-xs text-default-400">{episode.daysToRecover} days to recover</p>
+                        </>
+                      ) : (
+                        <Chip size="sm" variant="flat" color="warning" startContent={<Icon icon="lucide:hourglass" className="w-3 h-3" />}>
+                          Not yet
+                        </Chip>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold text-danger-600">-{episode.depth.toFixed(2)}%</TableCell>
+                    <TableCell className={`text-right ${episode.plToTrough < 0 ? 'text-danger-600' : 'text-success-600'}`}>
+                      {formatCurrency(episode.plToTrough)}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{episode.duration} days</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {episode.contributors.length > 0 ? episode.contributors.map(contributor => (
+                          <Chip key={contributor.tradeId} size="sm" variant="flat" color="danger">
+                            {contributor.name} {formatCurrency(contributor.pl)}
+                          </Chip>
+                        )) : <span className="text-default-400">-</span>}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardBody>
+    </Card>
+  );
+};
+
+export default DrawdownAnalysis;
@@ -0,0 +1,342 @@
+import React, { useMemo, useState } from 'react';
+import { Button, Card, CardBody, CardHeader, Divider, Progress, Select, SelectItem, Table, TableBody, TableCell, TableColumn, TableHeader, TableRow } from '@heroui/react';
+import { Icon } from '@iconify/react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Trade } from '../../types/trade';
+import { fetchTradeExcursions, getExcursionWindow, needsExcursions, summariseExcursionsBySetup } from '../../utils/tradeExcursions';
+
+interface ExcursionAnalysisProps {
+  /** Trades of the current filter, as displayed */
+  trades: Trade[];
+  /** Stored trades, which measured excursions are saved onto */
+  originalTrades: Trade[];
+  onSaveTrade: (trade: Trade) => void;
+}
+
+type ExcursionUnit = 'r' | 'percent';
+
+const ALL_SETUPS = '__all__';
+
+const EFFICIENCY_BUCKETS = [
+  { label: '< 0%', min: -Infinity, max: 0 },
+  { label: '0-25%', min: 0, max: 25 },
+  { label: '25-50%', min: 25, max: 50 },
+  { label: '50-75%', min: 50, max: 75 },
+  { label: '75-100%', min: 75, max: Infinity }
+];
+
+const formatR = (value: number | null) => value === null ? '-' : `${value.toFixed(2)}R`;
+const formatPercent = (value: number | null, digits = 1) => value === null ? '-' : `${value.toFixed(digits)}%`;
+
+const ExcursionTooltip = ({ active, payload }: any) => {
+  if (!active || !payload || !payload.length) return null;
+  const point = payload[0].payload;
+  return (
+    <div className="p-2.5 bg-background border border-divider shadow-lg rounded-lg text-xs space-y-0.5">
+      <p className="text-sm font-bold text-foreground">{point.name}</p>
+      <p className="text-foreground-500">{point.setup} · {new Date(point.date).toLocaleDateString('en-IN')}</p>
+      <p className="text-danger-600">MAE {point.maeLabel}</p>
+      <p className="text-success-600">MFE {point.mfeLabel}</p>
+      <p className="text-foreground-600">Exit efficiency {formatPercent(point.exitEfficiency)}</p>
+    </div>
+  );
+};
+
+/**
+ * MAE / MFE of closed trades: how much heat each trade took and how much of its best move
+ * the exits captured, per setup
+ */
+const ExcursionAnalysis: React.FC<ExcursionAnalysisProps> = ({ trades, originalTrades, onSaveTrade }) => {
+  const [unit, setUnit] = useState<ExcursionUnit>('r');
+  const [setupFilter, setSetupFilter] = useState<string>(ALL_SETUPS);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failedCount, setFailedCount] = useState(0);
+
+  // Cash basis lists a trade once per exit; excursions belong to the trade
+  const uniqueTrades = useMemo(() => {
+    const seen = new Set<string>();
+    return trades.filter(trade => {
+      const originalId = trade.id.split('_exit_')[0];
+      if (seen.has(originalId)) return false;
+      seen.add(originalId);
+      return true;
+    });
+  }, [trades]);
+
+  const originalsById = useMemo(() => new Map(originalTrades.map(trade => [trade.id, trade])), [originalTrades]);
+
+  const eligibleTrades = useMemo(() => uniqueTrades
+    .map(trade => originalsById.get(trade.id.split('_exit_')[0]))
+    .filter((trade): trade is Trade => !!trade && !!getExcursionWindow(trade)), [uniqueTrades, originalsById]);
+
+  const measuredTrades = useMemo(() => eligibleTrades.filter(trade => trade.excursions), [eligibleTrades]);
+  const pendingTrades = useMemo(() => eligibleTrades.filter(trade => needsExcursions(trade)), [eligibleTrades]);
+
+  const setups = useMemo(() => Array.from(new Set(measuredTrades.map(trade => trade.setup?.trim() || 'No setup'))).sort(), [measuredTrades]);
+  const setupSummary = useMemo(() => summariseExcursionsBySetup(measuredTrades), [measuredTrades]);
+
+  const visibleTrades = useMemo(() => setupFilter === ALL_SETUPS
+    ? measuredTrades
+    : measuredTrades.filter(trade => (trade.setup?.trim() || 'No setup') === setupFilter), [measuredTrades, setupFilter]);
+
+  const scatterData = useMemo(() => visibleTrades
+    .map(trade => {
+      const excursions = trade.excursions!;
+      const mae = unit === 'r' ? excursions.maeR : excursions.maePercent;
+      const mfe = unit === 'r' ? excursions.mfeR : excursions.mfePercent;
+      if (mae === null || mfe === null) return null;
+      return {
+        id: trade.id,
+        name: trade.name,
+        setup: trade.setup?.trim() || 'No setup',
+        date: trade.date,
+        mae,
+        mfe,
+        maeLabel: unit === 'r' ? formatR(excursions.maeR) : formatPercent(excursions.maePercent, 2),
+        mfeLabel: unit === 'r' ? formatR(excursions.mfeR) : formatPercent(excursions.mfePercent, 2),
+        exitEfficiency: excursions.exitEfficiency,
+        isWinner: (Number(trade.plRs) || 0) > 0
+      };
+    })
+    .filter(Boolean), [visibleTrades, unit]);
+
+  const efficiencyData = useMemo(() => EFFICIENCY_BUCKETS.map(bucket => ({
+    label: bucket.label,
+    count: visibleTrades.filter(trade => {
+      const efficiency = trade.excursions!.exitEfficiency;
+      return efficiency !== null && efficiency >= bucket.min && efficiency < bucket.max;
+    }).length
+  })), [visibleTrades]);
+
+  const measure = async (tradesToMeasure: Trade[]) => {
+    if (tradesToMeasure.length === 0) return;
+    setProgress({ done: 0, total: tradesToMeasure.length });
+    setFailedCount(0);
+    let failed = 0;
+
+    // One symbol at a time keeps the price provider within its rate limits
+    for (let i = 0; i < tradesToMeasure.length; i++) {
+      const trade = tradesToMeasure[i];
+      try {
+        const excursions = await fetchTradeExcursions(trade);
+        if (excursions) {
+          onSaveTrade({ ...trade, excursions });
+        } else {
+          failed++;
+        }
+      } catch (error) {
+        console.error(`❌ Failed to measure MAE/MFE of ${trade.name}:`, error);
+        failed++;
+      }
+      setProgress({ done: i + 1, total: tradesToMeasure.length });
+    }
+
+    console.log(`📐 Measured MAE/MFE of ${tradesToMeasure.length - failed}/${tradesToMeasure.length} trades`);
+    setFailedCount(failed);
+    setProgress(null);
+  };
+
+  const axisUnit = unit === 'r' ? 'R' : '%';
+
+  return (
+    <Card className="border-divider">
+      <CardHeader className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex flex-col">
+          <p className="text-md font-semibold">MAE / MFE</p>
+          <p className="text-sm text-default-500">
+            How far closed trades went against you and how much of their best move the exits kept.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            color="primary"
+            variant="flat"
+            isDisabled={!!progress || pendingTrades.length === 0}
+            onPress={() => measure(pendingTrades)}
+            startContent={<Icon icon="lucide:ruler" className="w-4 h-4" />}
+          >
+            {pendingTrades.length > 0 ? `Measure ${pendingTrades.length} trade${pendingTrades.length === 1 ? '' : 's'}` : 'All measured'}
+          </Button>
+          <Button
+            size="sm"
+            variant="light"
+            isDisabled={!!progress || measuredTrades.length === 0}
+            onPress={() => measure(eligibleTrades)}
+            startContent={<Icon icon="lucide:refresh-cw" className="w-4 h-4" />}
+          >
+            Re-measure all
+          </Button>
+        </div>
+      </CardHeader>
+      <Divider/>
+      <CardBody className="space-y-6">
+        {progress && (
+          <Progress
+            size="sm"
+            aria-label="Measuring trades"
+            label={`Loading candles ${progress.done}/${progress.total}`}
+            value={(progress.done / progress.total) * 100}
+            showValueLabel
+          />
+        )}
+        {failedCount > 0 && !progress && (
+          <p className="text-xs text-warning-600">
+            No candles were found for {failedCount} trade{failedCount === 1 ? '' : 's'}. Check the price provider in Settings → Prices.
+          </p>
+        )}
+
+        {measuredTrades.length === 0 ? (
+          <div className="text-foreground-400 text-sm text-center w-full py-8">
+            {eligibleTrades.length === 0
+              ? 'No closed equity trades in this period.'
+              : 'Measure the closed trades to load their daily candles and compute MAE / MFE.'}
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <Select
+                aria-label="Setup"
+                size="sm"
+                variant="bordered"
+                className="max-w-[220px]"
+                selectedKeys={[setupFilter]}
+                onSelectionChange={(keys) => {
+                  const selected = Array.from(keys)[0] as string;
+                  if (selected) setSetupFilter(selected);
+                }}
+              >
+                {[ALL_SETUPS, ...setups].map(setup => (
+                  <SelectItem key={setup}>{setup === ALL_SETUPS ? 'All setups' : setup}</SelectItem>
+                ))}
+              </Select>
+              <Select
+                aria-label="Unit"
+                size="sm"
+                variant="bordered"
+                className="max-w-[160px]"
+                selectedKeys={[unit]}
+                onSelectionChange={(keys) => {
+                  const selected = Array.from(keys)[0] as ExcursionUnit;
+                  if (selected) setUnit(selected);
+                }}
+              >
+                <SelectItem key="r">In R</SelectItem>
+                <SelectItem key="percent">In % of entry</SelectItem>
+              </Select>
+              <span className="text-xs text-default-500">
+                {measuredTrades.length} of {eligibleTrades.length} closed trades measured
+              </span>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <p className="text-sm font-medium mb-2">MAE vs MFE</p>
+                <div className="h-[300px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ScatterChart margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--heroui-divider))" opacity={0.5} />
+                      <XAxis
+                        type="number"
+                        dataKey="mae"
+                        name="MAE"
+                        unit={axisUnit}
+                        tick={{ fill: 'hsl(var(--heroui-foreground))', fontSize: 11 }}
+                        label={{ value: `MAE (${axisUnit})`, position: 'insideBottom', offset: -10, fontSize: 11 }}
+                      />
+                      <YAxis
+                        type="number"
+                        dataKey="mfe"
+                        name="MFE"
+                        unit={axisUnit}
+                        tick={{ fill: 'hsl(var(--heroui-foreground))', fontSize: 11 }}
+                      />
+                      <RechartsTooltip content={<ExcursionTooltip />} />
+                      {unit === 'r' && (
+                        <ReferenceLine x={1} stroke="#ef4444" strokeDasharray="4 4" label={{ value: 'Stop', fontSize: 11, fill: '#ef4444' }} />
+                      )}
+                      <Scatter data={scatterData}>
+                        {scatterData.map((point: any) => (
+                          <Cell key={point.id} fill={point.isWinner ? '#10b981' : '#ef4444'} fillOpacity={0.75} />
+                        ))}
+                      </Scatter>
+                    </ScatterChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium mb-2">Exit efficiency (share of MFE captured)</p>
+                <div className="h-[300px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={efficiencyData} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--heroui-divider))" opacity={0.5} />
+                      <XAxis dataKey="label" tick={{ fill: 'hsl(var(--heroui-foreground))', fontSize: 11 }} />
+                      <YAxis allowDecimals={false} tick={{ fill: 'hsl(var(--heroui-foreground))', fontSize: 11 }} />
+                      <RechartsTooltip formatter={(value: number) => [value, 'Trades']} />
+                      <Bar dataKey="count" radius={[4, 4, 0, 0]}>
+                        {efficiencyData.map((bucket, index) => (
+                          <Cell key={bucket.label} fill={index === 0 ? '#ef4444' : '#4A8DFF'} fillOpacity={0.85} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </div>
+
+            <Table
+              aria-label="MAE / MFE by setup"
+              classNames={{
+                th: "bg-transparent border-b border-divider text-xs font-medium text-default-500 uppercase tracking-wider text-right",
+                td: "py-2.5 text-sm text-right",
+                wrapper: "p-0"
+              }}
+            >
+              <TableHeader>
+                <TableColumn className="text-left">Setup</TableColumn>
+                <TableColumn>Trades</TableColumn>
+                <TableColumn>Avg MAE</TableColumn>
+                <TableColumn>Avg MFE</TableColumn>
+                <TableColumn>Exit Efficiency</TableColumn>
+                <TableColumn>Winners' MAE</TableColumn>
+                <TableColumn>Losers Past Stop</TableColumn>
+              </TableHeader>
+              <TableBody items={setupSummary} emptyContent="No measured trades.">
+                {(item) => (
+                  <TableRow key={item.setup}>
+                    <TableCell className="text-left font-medium">{item.setup}</TableCell>
+                    <TableCell>{item.trades}</TableCell>
+                    <TableCell className="text-danger-600">{formatR(item.avgMaeR)}</TableCell>
+                    <TableCell className="text-success-600">{formatR(item.avgMfeR)}</TableCell>
+                    <TableCell>{formatPercent(item.avgExitEfficiency)}</TableCell>
+                    <TableCell>{formatR(item.winnersAvgMaeR)}</TableCell>
+                    <TableCell className={item.losersBeyondStop ? 'text-warning-600' : ''}>{formatPercent(item.losersBeyondStop, 0)}</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-default-500">
+              Winners' MAE well below 1R suggests stops could be tighter; losers past the stop point at stops that
+              were not honoured or gaps through them. Excursions use daily candles from the entry to the exit day.
+            </p>
+          </>
+        )}
+      </CardBody>
+    </Card>
+  );
+};
+
+export default ExcursionAnalysis;
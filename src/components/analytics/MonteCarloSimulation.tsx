@@ -0,0 +1,256 @@
+import React, { useMemo } from 'react';
+import { Button, ButtonGroup, Card, CardBody, CardHeader, Divider, Input, Select, SelectItem, Table, TableBody, TableCell, TableColumn, TableHeader, TableRow } from '@heroui/react';
+import { Icon } from '@iconify/react';
+import { Area, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Trade } from '../../types/trade';
+import { useTruePortfolioWithTrades } from '../../hooks/use-true-portfolio-with-trades';
+import { DEFAULT_MONTE_CARLO_OPTIONS, MonteCarloMethod, getTradesPerMonth, runMonteCarlo } from '../../utils/monteCarlo';
+
+interface MonteCarloSimulationProps {
+  trades: Trade[];
+}
+
+const ALL_SETUPS = '__all';
+const PATH_COUNTS = [500, 1000, 2000, 5000];
+const MAX_TRADES_PER_PATH = 1000;
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 0
+}).format(value);
+
+const StatItem: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = '' }) => (
+  <div>
+    <p className="text-xs text-default-500">{label}</p>
+    <p className={`text-lg font-semibold ${className}`}>{value}</p>
+  </div>
+);
+
+/**
+ * Fan chart of simulated equity paths from the closed trades' pfImpact, with risk of ruin,
+ * drawdown probability and time to milestones
+ */
+const MonteCarloSimulation: React.FC<MonteCarloSimulationProps> = ({ trades }) => {
+  const { portfolioSize } = useTruePortfolioWithTrades(trades);
+  const [setup, setSetup] = React.useState(ALL_SETUPS);
+  const [method, setMethod] = React.useState<MonteCarloMethod>(DEFAULT_MONTE_CARLO_OPTIONS.method);
+  const [paths, setPaths] = React.useState(DEFAULT_MONTE_CARLO_OPTIONS.paths);
+  const [tradesPerPath, setTradesPerPath] = React.useState(String(DEFAULT_MONTE_CARLO_OPTIONS.tradesPerPath));
+  const [drawdownThreshold, setDrawdownThreshold] = React.useState(String(DEFAULT_MONTE_CARLO_OPTIONS.drawdownThreshold));
+  const [ruinThreshold, setRuinThreshold] = React.useState(String(DEFAULT_MONTE_CARLO_OPTIONS.ruinThreshold));
+  const [seed, setSeed] = React.useState(String(DEFAULT_MONTE_CARLO_OPTIONS.seed));
+
+  // One outcome per closed trade; cash basis rows repeat the trade once per exit
+  const closedTrades = useMemo(() => {
+    const seen = new Set<string>();
+    return trades.filter(trade => {
+      const originalId = trade.id.split('_exit_')[0];
+      if (trade.positionStatus !== 'Closed' || seen.has(originalId)) return false;
+      seen.add(originalId);
+      return true;
+    });
+  }, [trades]);
+
+  const setupOptions = useMemo(() => {
+    const counts = new Map<string, number>();
+    closedTrades.forEach(trade => {
+      if (trade.setup) counts.set(trade.setup, (counts.get(trade.setup) || 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [closedTrades]);
+
+  const sample = useMemo(
+    () => setup === ALL_SETUPS ? closedTrades : closedTrades.filter(trade => trade.setup === setup),
+    [closedTrades, setup]
+  );
+  const tradesPerMonth = useMemo(() => getTradesPerMonth(sample.map(trade => trade.date)), [sample]);
+
+  const result = useMemo(() => runMonteCarlo(sample.map(trade => trade.pfImpact || 0), {
+    method,
+    paths,
+    tradesPerPath: Math.min(MAX_TRADES_PER_PATH, Math.max(1, Math.round(Number(tradesPerPath) || 0))),
+    seed: Math.round(Number(seed) || 0),
+    startingEquity: portfolioSize > 0 ? portfolioSize : DEFAULT_MONTE_CARLO_OPTIONS.startingEquity,
+    ruinThreshold: Number(ruinThreshold) || DEFAULT_MONTE_CARLO_OPTIONS.ruinThreshold,
+    drawdownThreshold: Number(drawdownThreshold) || DEFAULT_MONTE_CARLO_OPTIONS.drawdownThreshold
+  }), [sample, method, paths, tradesPerPath, seed, portfolioSize, ruinThreshold, drawdownThreshold]);
+
+  const chartData = useMemo(() => (result?.bands || []).map(band => ({
+    trade: band.trade,
+    outer: [band.p5, band.p95],
+    inner: [band.p25, band.p75],
+    median: band.p50
+  })), [result]);
+
+  const toTime = (medianTrades: number | null) => {
+    if (medianTrades === null) return '-';
+    if (tradesPerMonth <= 0) return `${medianTrades} trades`;
+    const months = medianTrades / tradesPerMonth;
+    return `${medianTrades} trades (~${months < 1 ? '<1' : months.toFixed(1)} months)`;
+  };
+
+  return (
+    <Card className="border-divider">
+      <CardHeader className="flex flex-col items-start gap-3">
+        <div>
+          <p className="text-md font-semibold">Monte Carlo Projection</p>
+          <p className="text-sm text-default-500">
+            Future equity from {sample.length} closed trades' portfolio impact, replayed in random order. The same seed gives the same result.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <Select
+            label="Setup"
+            size="sm"
+            className="w-44"
+            selectedKeys={[setup]}
+            onSelectionChange={(keys) => setSetup((Array.from(keys)[0] as string) || ALL_SETUPS)}
+          >
+            {[{ key: ALL_SETUPS, label: `All setups (${closedTrades.length})` }, ...setupOptions.map(([name, count]) => ({ key: name, label: `${name} (${count})` }))].map(option => (
+              <SelectItem key={option.key}>{option.label}</SelectItem>
+            ))}
+          </Select>
+          <ButtonGroup size="sm" variant="flat">
+            <Button color={method === 'bootstrap' ? 'primary' : 'default'} onPress={() => setMethod('bootstrap')}>
+              Bootstrap
+            </Button>
+            <Button color={method === 'reshuffle' ? 'primary' : 'default'} onPress={() => setMethod('reshuffle')}>
+              Reshuffle
+            </Button>
+          </ButtonGroup>
+          <Input label="Trades" size="sm" type="number" className="w-24" value={tradesPerPath} onValueChange={setTradesPerPath} />
+          <Select
+            label="Paths"
+            size="sm"
+            className="w-28"
+            selectedKeys={[String(paths)]}
+            onSelectionChange={(keys) => {
+              const value = Number(Array.from(keys)[0]);
+              if (value) setPaths(value);
+            }}
+          >
+            {PATH_COUNTS.map(count => <SelectItem key={String(count)}>{String(count)}</SelectItem>)}
+          </Select>
+          <Input label="Drawdown %" size="sm" type="number" className="w-28" value={drawdownThreshold} onValueChange={setDrawdownThreshold} />
+          <Input label="Ruin at loss %" size="sm" type="number" className="w-28" value={ruinThreshold} onValueChange={setRuinThreshold} />
+          <Input
+            label="Seed"
+            size="sm"
+            type="number"
+            className="w-32"
+            value={seed}
+            onValueChange={setSeed}
+            endContent={
+              <button
+                type="button"
+                aria-label="New seed"
+                className="text-default-400 hover:text-foreground"
+                onClick={() => setSeed(String(Math.floor(Math.random() * 1000000)))}
+              >
+                <Icon icon="lucide:dices" className="w-4 h-4" />
+              </button>
+            }
+          />
+        </div>
+      </CardHeader>
+      <Divider/>
+      <CardBody className="space-y-6">
+        {!result ? (
+          <div className="text-foreground-400 text-lg font-medium text-center w-full py-12">No closed trades to simulate.</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+              <StatItem label="Median Final Equity" value={formatCurrency(result.medianFinalEquity)} />
+              <StatItem
+                label="Chance of Profit"
+                value={`${result.probabilityOfProfit.toFixed(1)}%`}
+                className={result.probabilityOfProfit >= 50 ? 'text-success-600' : 'text-danger-600'}
+              />
+              <StatItem
+                label={`Risk of Ruin (-${Number(ruinThreshold) || DEFAULT_MONTE_CARLO_OPTIONS.ruinThreshold}%)`}
+                value={`${result.riskOfRuin.toFixed(1)}%`}
+                className={result.riskOfRuin > 0 ? 'text-danger-600' : 'text-success-600'}
+              />
+              <StatItem
+                label={`Drawdown ≥ ${Number(drawdownThreshold) || DEFAULT_MONTE_CARLO_OPTIONS.drawdownThreshold}%`}
+                value={`${result.drawdownProbability.toFixed(1)}%`}
+                className={result.drawdownProbability >= 50 ? 'text-warning-600' : ''}
+              />
+              <StatItem label="Median Max Drawdown" value={`${result.medianMaxDrawdown.toFixed(2)}%`} />
+            </div>
+
+            <div className="h-[320px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--heroui-divider))" />
+                  <XAxis
+                    dataKey="trade"
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 11 }}
+                    label={{ value: 'Trades', position: 'insideBottomRight', offset: -5, fontSize: 11 }}
+                  />
+                  <YAxis
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 11 }}
+                    width={90}
+                    tickFormatter={(value) => formatCurrency(value)}
+                  />
+                  <Tooltip
+                    formatter={(value: number | number[], name: string) => [
+                      Array.isArray(value) ? `${formatCurrency(value[0])} – ${formatCurrency(value[1])}` : formatCurrency(value),
+                      name
+                    ]}
+                    labelFormatter={(label) => `After ${label} trades`}
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--heroui-content1))',
+                      border: '1px solid hsl(var(--heroui-divider))',
+                      borderRadius: '8px',
+                      padding: '8px 12px'
+                    }}
+                  />
+                  <Area type="monotone" dataKey="outer" name="5th–95th percentile" stroke="none" fill="hsl(var(--heroui-primary-500))" fillOpacity={0.15} />
+                  <Area type="monotone" dataKey="inner" name="25th–75th percentile" stroke="none" fill="hsl(var(--heroui-primary-500))" fillOpacity={0.3} />
+                  <Line type="monotone" dataKey="median" name="Median" stroke="hsl(var(--heroui-primary))" strokeWidth={2} dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+
+            <Table
+              aria-label="Milestones"
+              classNames={{
+                th: "bg-transparent border-b border-divider text-xs font-medium text-default-500 uppercase tracking-wider",
+                td: "py-2.5 text-sm",
+                wrapper: "p-0"
+              }}
+            >
+              <TableHeader>
+                <TableColumn>Milestone</TableColumn>
+                <TableColumn>Equity</TableColumn>
+                <TableColumn>Chance within {result.bands.length - 1} trades</TableColumn>
+                <TableColumn>Median time to reach</TableColumn>
+              </TableHeader>
+              <TableBody items={result.milestones}>
+                {(milestone) => (
+                  <TableRow key={milestone.target}>
+                    <TableCell className="font-medium">+{milestone.target}%</TableCell>
+                    <TableCell>{formatCurrency(result.bands[0].p50 * (1 + milestone.target / 100))}</TableCell>
+                    <TableCell className={milestone.probability >= 50 ? 'text-success-600' : 'text-default-600'}>
+                      {milestone.probability.toFixed(1)}%
+                    </TableCell>
+                    <TableCell>{toTime(milestone.medianTrades)}</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardBody>
+    </Card>
+  );
+};
+
+export default MonteCarloSimulation;
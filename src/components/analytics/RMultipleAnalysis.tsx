@@ -0,0 +1,201 @@
+import React, { useMemo } from 'react';
+import { Card, CardBody, CardHeader, Divider, Input, Select, SelectItem, Table, TableBody, TableCell, TableColumn, TableHeader, TableRow } from '@heroui/react';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Trade } from '../../types/trade';
+import {
+  buildRHistogram,
+  calcRMultipleStats,
+  calcRollingExpectancy,
+  getRMultipleTrades,
+  summariseRMultiplesBySetup
+} from '../../utils/rMultiples';
+
+interface RMultipleAnalysisProps {
+  trades: Trade[];
+}
+
+const ALL_SETUPS = '__all';
+const DEFAULT_WINDOW = 20;
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 0
+}).format(value);
+
+const formatR = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}R`;
+
+const signClass = (value: number) => value >= 0 ? 'text-success-600' : 'text-danger-600';
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--heroui-content1))',
+  border: '1px solid hsl(var(--heroui-divider))',
+  borderRadius: '8px',
+  padding: '8px 12px'
+};
+
+const StatItem: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = '' }) => (
+  <div>
+    <p className="text-xs text-default-500">{label}</p>
+    <p className={`text-lg font-semibold ${className}`}>{value}</p>
+  </div>
+);
+
+/**
+ * Distribution of realised R-multiples, expectancy, SQN and rolling expectancy, overall or for one setup
+ */
+const RMultipleAnalysis: React.FC<RMultipleAnalysisProps> = ({ trades }) => {
+  const [setup, setSetup] = React.useState(ALL_SETUPS);
+  const [rollingWindow, setRollingWindow] = React.useState(String(DEFAULT_WINDOW));
+
+  const rTrades = useMemo(() => getRMultipleTrades(trades), [trades]);
+  const setupRows = useMemo(() => summariseRMultiplesBySetup(rTrades), [rTrades]);
+  const closedCount = useMemo(
+    () => new Set(trades.filter(trade => trade.positionStatus === 'Closed').map(trade => trade.id.split('_exit_')[0])).size,
+    [trades]
+  );
+
+  const selected = useMemo(
+    () => setup === ALL_SETUPS ? rTrades : rTrades.filter(trade => trade.setup === setup),
+    [rTrades, setup]
+  );
+  const stats = useMemo(() => calcRMultipleStats(selected), [selected]);
+  const histogram = useMemo(() => buildRHistogram(selected.map(trade => trade.r)), [selected]);
+  const windowSize = Math.max(2, Math.round(Number(rollingWindow) || DEFAULT_WINDOW));
+  const rolling = useMemo(() => calcRollingExpectancy(selected, windowSize), [selected, windowSize]);
+
+  return (
+    <Card className="border border-divider">
+      <CardHeader className="flex flex-col items-start gap-3">
+        <div>
+          <p className="text-md font-semibold">R-Multiple Distribution</p>
+          <p className="text-sm text-default-500">
+            Realised P/L of closed trades in units of their initial SL risk.
+            {closedCount > rTrades.length && ` ${closedCount - rTrades.length} closed trades without a stop loss are left out.`}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <Select
+            label="Setup"
+            size="sm"
+            className="w-44"
+            selectedKeys={[setup]}
+            onSelectionChange={(keys) => setSetup((Array.from(keys)[0] as string) || ALL_SETUPS)}
+          >
+            {[{ key: ALL_SETUPS, label: `All setups (${rTrades.length})` }, ...setupRows.map(row => ({ key: row.setup, label: `${row.setup} (${row.trades})` }))].map(option => (
+              <SelectItem key={option.key}>{option.label}</SelectItem>
+            ))}
+          </Select>
+          <Input label="Rolling window" size="sm" type="number" className="w-32" value={rollingWindow} onValueChange={setRollingWindow} endContent={<span className="text-xs text-default-400">trades</span>} />
+        </div>
+      </CardHeader>
+      <Divider/>
+      <CardBody className="space-y-6">
+        {selected.length === 0 ? (
+          <div className="text-foreground-400 text-lg font-medium text-center w-full py-12">No closed trades with a stop loss.</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+              <StatItem label="Expectancy" value={formatR(stats.expectancyR)} className={signClass(stats.expectancyR)} />
+              <StatItem label="Expectancy (₹)" value={formatCurrency(stats.expectancyRs)} className={signClass(stats.expectancyRs)} />
+              <StatItem label="SQN" value={stats.sqn !== null ? stats.sqn.toFixed(2) : '-'} className={stats.sqn !== null ? signClass(stats.sqn) : ''} />
+              <StatItem label="Win Rate" value={`${stats.winRate.toFixed(1)}%`} />
+              <StatItem label="Avg Win / Loss" value={`${formatR(stats.avgWinR)} / ${formatR(stats.avgLossR)}`} />
+              <StatItem label="Total" value={formatR(stats.totalR)} className={signClass(stats.totalR)} />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <p className="text-sm font-medium text-foreground mb-2">Trades per R</p>
+                <div className="h-[260px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={histogram} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--heroui-divider))" />
+                      <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 11 }} />
+                      <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 11 }} allowDecimals={false} width={30} />
+                      <Tooltip
+                        formatter={(value: number) => [value, 'Trades']}
+                        labelFormatter={(_label, payload: any[]) => payload?.[0]
+                          ? `${payload[0].payload.from}R to ${payload[0].payload.to}R`
+                          : ''}
+                        contentStyle={tooltipStyle}
+                      />
+                      <Bar dataKey="count" radius={[4, 4, 0, 0]}>
+                        {histogram.map(bin => (
+                          <Cell key={bin.from} fill={bin.from >= 0 ? '#10b981' : '#ef4444'} fillOpacity={0.9} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-foreground mb-2">Expectancy over the last {windowSize} trades</p>
+                <div className="h-[260px]">
+                  {rolling.length === 0 ? (
+                    <div className="text-foreground-400 text-sm text-center w-full py-24">
+                      Needs at least {windowSize} trades.
+                    </div>
+                  ) : (
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={rolling} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--heroui-divider))" />
+                        <XAxis dataKey="index" axisLine={false} tickLine={false} tick={{ fontSize: 11 }} />
+                        <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 11 }} width={45} tickFormatter={(value) => `${value.toFixed(1)}R`} />
+                        <ReferenceLine y={0} stroke="hsl(var(--heroui-default-400))" strokeDasharray="3 3" />
+                        <Tooltip
+                          formatter={(value: number) => [formatR(value), 'Expectancy']}
+                          labelFormatter={(label, payload: any[]) => payload?.[0]
+                            ? `Trade ${label} (${new Date(payload[0].payload.exitDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: '2-digit' })})`
+                            : `Trade ${label}`}
+                          contentStyle={tooltipStyle}
+                        />
+                        <Line type="monotone" dataKey="expectancyR" stroke="hsl(var(--heroui-primary))" strokeWidth={2} dot={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <Table
+              aria-label="R-multiples by setup"
+              classNames={{
+                th: "bg-transparent border-b border-divider text-xs font-medium text-default-500 uppercase tracking-wider",
+                td: "py-2.5 text-sm",
+                wrapper: "p-0"
+              }}
+            >
+              <TableHeader>
+                <TableColumn>Setup</TableColumn>
+                <TableColumn className="text-right">Trades</TableColumn>
+                <TableColumn className="text-right">Win Rate</TableColumn>
+                <TableColumn className="text-right">Avg Win / Loss</TableColumn>
+                <TableColumn className="text-right">Expectancy</TableColumn>
+                <TableColumn className="text-right">Expectancy (₹)</TableColumn>
+                <TableColumn className="text-right">SQN</TableColumn>
+              </TableHeader>
+              <TableBody items={setupRows}>
+                {(row) => (
+                  <TableRow key={row.setup} className={row.setup === setup ? 'bg-primary-50/50' : ''}>
+                    <TableCell className="font-medium">{row.setup}</TableCell>
+                    <TableCell className="text-right">{row.trades}</TableCell>
+                    <TableCell className="text-right">{row.winRate.toFixed(1)}%</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatR(row.avgWinR)} / {formatR(row.avgLossR)}</TableCell>
+                    <TableCell className={`text-right font-semibold ${signClass(row.expectancyR)}`}>{formatR(row.expectancyR)}</TableCell>
+                    <TableCell className={`text-right ${signClass(row.expectancyRs)}`}>{formatCurrency(row.expectancyRs)}</TableCell>
+                    <TableCell className="text-right">{row.sqn !== null ? row.sqn.toFixed(2) : '-'}</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardBody>
+    </Card>
+  );
+};
+
+export default RMultipleAnalysis;
@@ -0,0 +1,142 @@
+import React, { useMemo } from 'react';
+import { Card, CardBody, CardHeader, Divider, Tab, Table, TableBody, TableCell, TableColumn, TableHeader, TableRow, Tabs } from '@heroui/react';
+import { Icon } from '@iconify/react';
+import { Trade } from '../../types/trade';
+import { useTruePortfolioWithTrades } from '../../hooks/use-true-portfolio-with-trades';
+import { useAccountingMethod } from '../../context/AccountingMethodContext';
+import { useAccountingMethodDisplay } from '../../hooks/use-accounting-calculations';
+import MobileTooltip from '../ui/MobileTooltip';
+import {
+  PeriodReturn,
+  buildReturnsTimeline,
+  calcReturnsReport,
+  getCapitalFlowsByDate,
+  getRealisedPLByDate
+} from '../../utils/returns';
+
+interface ReturnsTableProps {
+  trades: Trade[];
+}
+
+type PeriodView = 'months' | 'quarters' | 'financialYears';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 0
+}).format(value);
+
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const signClass = (value: number) => value > 0 ? 'text-success-600' : value < 0 ? 'text-danger-600' : 'text-default-500';
+
+const ColumnHeader: React.FC<{ label: string; tooltip: string }> = ({ label, tooltip }) => (
+  <span className="inline-flex items-center gap-1">
+    {label}
+    <MobileTooltip content={<div className="max-w-xs text-xs p-1">{tooltip}</div>}>
+      <Icon icon="lucide:info" className="w-3 h-3 text-default-400" />
+    </MobileTooltip>
+  </span>
+);
+
+/**
+ * Time-weighted and money-weighted returns per month, FY quarter, financial year and since inception
+ */
+const ReturnsTable: React.FC<ReturnsTableProps> = ({ trades }) => {
+  const { accountingMethod } = useAccountingMethod();
+  const useCashBasis = accountingMethod === 'cash';
+  const { displayName } = useAccountingMethodDisplay();
+  const { getAllMonthlyTruePortfolios, capitalChanges } = useTruePortfolioWithTrades(trades);
+  const [view, setView] = React.useState<PeriodView>('months');
+
+  const report = useMemo(() => {
+    // The timeline starts from the capital of the first month before its deposits/withdrawals
+    const first = getAllMonthlyTruePortfolios()
+      .find(month => month.startingCapital !== 0 || month.capitalChanges !== 0 || month.pl !== 0);
+    if (!first) return null;
+    const timeline = buildReturnsTimeline(
+      first.startingCapital - first.capitalChanges,
+      new Date(first.year, MONTH_NAMES.indexOf(first.month), 1),
+      getRealisedPLByDate(trades, useCashBasis),
+      getCapitalFlowsByDate(capitalChanges || [])
+    );
+    return calcReturnsReport(timeline);
+  }, [getAllMonthlyTruePortfolios, trades, useCashBasis, capitalChanges]);
+
+  const rows: PeriodReturn[] = report ? [
+    ...(report.inception ? [report.inception] : []),
+    ...report[view]
+  ] : [];
+
+  return (
+    <Card className="border-divider">
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <p className="text-md font-semibold">Time-weighted vs Money-weighted Returns</p>
+          <p className="text-sm text-default-500">
+            TWR removes the effect of deposits and withdrawals and compares with fund returns; MWR is what your money earned including their timing ({displayName} P/L).
+          </p>
+        </div>
+        <Tabs
+          aria-label="Return periods"
+          size="sm"
+          selectedKey={view}
+          onSelectionChange={(key) => setView(key as PeriodView)}
+        >
+          <Tab key="months" title="Monthly" />
+          <Tab key="quarters" title="Quarterly" />
+          <Tab key="financialYears" title="Financial Year" />
+        </Tabs>
+      </CardHeader>
+      <Divider/>
+      <CardBody>
+        <div className="overflow-auto max-h-[480px]">
+          <Table
+            aria-label="Time-weighted vs money-weighted returns"
+            removeWrapper
+            classNames={{
+              th: "bg-default-100 dark:bg-gray-950 text-xs font-medium text-default-500 uppercase tracking-wider text-right sticky top-0 z-10",
+              td: "py-2.5 text-sm text-right border-b border-divider"
+            }}
+          >
+            <TableHeader>
+              <TableColumn className="text-left">Period</TableColumn>
+              <TableColumn>Opening</TableColumn>
+              <TableColumn>Added / Withdrawn</TableColumn>
+              <TableColumn>P/L</TableColumn>
+              <TableColumn>Closing</TableColumn>
+              <TableColumn>
+                <ColumnHeader label="TWR" tooltip="Time-weighted return: daily returns chain-linked across deposits and withdrawals" />
+              </TableColumn>
+              <TableColumn>
+                <ColumnHeader label="MWR" tooltip="Money-weighted return over the period: the XIRR of opening value, deposits, withdrawals and closing value, not annualised" />
+              </TableColumn>
+              <TableColumn>
+                <ColumnHeader label="XIRR" tooltip="Money-weighted return annualised" />
+              </TableColumn>
+            </TableHeader>
+            <TableBody items={rows} emptyContent="Add starting capital or trades to see returns.">
+              {(row) => (
+                <TableRow key={row.key} className={row.type === 'inception' ? 'bg-primary-50/50 dark:bg-primary-900/20 font-semibold' : ''}>
+                  <TableCell className="text-left font-medium whitespace-nowrap">{row.label}</TableCell>
+                  <TableCell>{formatCurrency(row.startValue)}</TableCell>
+                  <TableCell className={signClass(row.netFlows)}>{row.netFlows === 0 ? '-' : formatCurrency(row.netFlows)}</TableCell>
+                  <TableCell className={signClass(row.pl)}>{formatCurrency(row.pl)}</TableCell>
+                  <TableCell>{formatCurrency(row.endValue)}</TableCell>
+                  <TableCell className={`font-semibold ${signClass(row.twr)}`}>{formatPercent(row.twr)}</TableCell>
+                  <TableCell className={signClass(row.mwr)}>{formatPercent(row.mwr)}</TableCell>
+                  <TableCell className={signClass(row.xirr)}>{formatPercent(row.xirr)}</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
+
+export default ReturnsTable;
@@ -0,0 +1,122 @@
+import React, { useMemo } from 'react';
+import { Card, CardBody, CardHeader, Divider, Table, TableBody, TableCell, TableColumn, TableHeader, TableRow } from '@heroui/react';
+import { Icon } from '@iconify/react';
+import { Trade } from '../../types/trade';
+import { useAccountingCalculations, useAccountingMethodDisplay } from '../../hooks/use-accounting-calculations';
+import { useRuleViolations } from '../../hooks/use-rule-violations';
+import { summariseRuleViolations } from '../../utils/tradeRules';
+
+interface RuleViolationsReportProps {
+  /** Trades of the current filter, as displayed */
+  trades: Trade[];
+  /** Every stored trade: open heat and sector rules look at the whole book */
+  originalTrades: Trade[];
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 0
+}).format(value);
+
+/**
+ * Win rate and P/L of the trades that broke each risk rule, against the trades that broke none
+ */
+const RuleViolationsReport: React.FC<RuleViolationsReportProps> = ({ trades, originalTrades }) => {
+  const { tradesWithAccountingPL } = useAccountingCalculations(trades);
+  const { displayName } = useAccountingMethodDisplay();
+  const { violationsById } = useRuleViolations(originalTrades);
+
+  const realizedTrades = useMemo(() => tradesWithAccountingPL
+    .filter(trade => trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial')
+    .map(trade => ({ ...trade, id: trade.id.split('_exit_')[0] })), [tradesWithAccountingPL]);
+
+  const rows = useMemo(() => summariseRuleViolations(
+    realizedTrades,
+    violationsById,
+    trade => (trade as Trade & { accountingPL: number }).accountingPL || 0
+  ), [realizedTrades, violationsById]);
+
+  const clean = rows.find(row => row.key === 'clean');
+  const broken = realizedTrades.filter(trade => violationsById.has(trade.id));
+  const brokenPl = broken.reduce((sum, trade) => sum + ((trade as Trade & { accountingPL: number }).accountingPL || 0), 0);
+
+  return (
+    <Card className="border-divider">
+      <CardHeader className="flex flex-col items-start">
+        <p className="text-md font-semibold">Rule Violations vs P/L</p>
+        <p className="text-sm text-default-500">
+          Realized trades grouped by the rules they broke at entry ({displayName} P/L). A trade breaking several rules counts under each.
+        </p>
+      </CardHeader>
+      <Divider/>
+      <CardBody className="space-y-4">
+        {realizedTrades.length === 0 ? (
+          <div className="text-foreground-400 text-lg font-medium text-center w-full py-12">No data in this period.</div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-6 text-sm">
+              <div>
+                <div className="text-xs text-default-500">Trades breaking a rule</div>
+                <div className="font-semibold">{broken.length} of {realizedTrades.length}</div>
+              </div>
+              <div>
+                <div className="text-xs text-default-500">Their P/L</div>
+                <div className={`font-semibold ${brokenPl >= 0 ? 'text-success-600' : 'text-danger-600'}`}>{formatCurrency(brokenPl)}</div>
+              </div>
+              {clean && clean.trades > 0 && broken.length > 0 && (
+                <div>
+                  <div className="text-xs text-default-500">Avg P/L vs rule-following trades</div>
+                  <div className={`font-semibold ${brokenPl / broken.length - clean.avgPl >= 0 ? 'text-success-600' : 'text-danger-600'}`}>
+                    {formatCurrency(brokenPl / broken.length - clean.avgPl)} per trade
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <Table
+              aria-label="Rule violations vs P/L"
+              classNames={{
+                th: "bg-transparent border-b border-divider text-xs font-medium text-default-500 uppercase tracking-wider text-right",
+                td: "py-2.5 text-sm text-right",
+                wrapper: "p-0"
+              }}
+            >
+              <TableHeader>
+                <TableColumn className="text-left">Rule</TableColumn>
+                <TableColumn>Trades</TableColumn>
+                <TableColumn>Win Rate</TableColumn>
+                <TableColumn>Avg P/L</TableColumn>
+                <TableColumn>Total P/L</TableColumn>
+                <TableColumn>PF Impact</TableColumn>
+              </TableHeader>
+              <TableBody items={rows} emptyContent="No realized trades.">
+                {(row) => (
+                  <TableRow key={row.key}>
+                    <TableCell className="text-left font-medium">
+                      <span className="flex items-center gap-2">
+                        <Icon
+                          icon={row.key === 'clean' ? 'lucide:shield-check' : 'lucide:shield-alert'}
+                          className={row.key === 'clean' ? 'text-success-500' : 'text-warning-500'}
+                        />
+                        {row.label}
+                      </span>
+                    </TableCell>
+                    <TableCell>{row.trades}</TableCell>
+                    <TableCell className={`font-semibold ${row.winRate >= 50 ? 'text-success-600' : 'text-danger-600'}`}>{row.winRate.toFixed(1)}%</TableCell>
+                    <TableCell className={row.avgPl >= 0 ? 'text-success-600' : 'text-danger-600'}>{formatCurrency(row.avgPl)}</TableCell>
+                    <TableCell className={`font-semibold ${row.totalPl >= 0 ? 'text-success-600' : 'text-danger-600'}`}>{formatCurrency(row.totalPl)}</TableCell>
+                    <TableCell>{row.totalPfImpact > 0 ? '+' : ''}{row.totalPfImpact.toFixed(2)}%</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardBody>
+    </Card>
+  );
+};
+
+export default RuleViolationsReport;
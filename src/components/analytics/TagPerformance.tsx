@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardBody, CardHeader, Chip, Divider, Tab, Table, TableBody, TableCell, TableColumn, TableHeader, TableRow, Tabs } from '@heroui/react';
+import { Trade } from '../../types/trade';
+import { useAccountingCalculations, useAccountingMethodDisplay } from '../../hooks/use-accounting-calculations';
+import { useTradeTags } from '../../context/TradeTagsContext';
+import { TRADE_TAG_CATEGORIES, TradeTagCategory, summariseTradeTags } from '../../utils/tradeTags';
+
+interface TagPerformanceProps {
+  trades: Trade[];
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 0
+}).format(value);
+
+/**
+ * Win rate, expectancy and PF impact of the realized trades carrying each tag
+ */
+const TagPerformance: React.FC<TagPerformanceProps> = ({ trades }) => {
+  const { tradesWithAccountingPL } = useAccountingCalculations(trades);
+  const { displayName } = useAccountingMethodDisplay();
+  const { tags } = useTradeTags();
+  const [category, setCategory] = useState<TradeTagCategory | 'all'>('all');
+
+  const rows = useMemo(() => {
+    const realizedTrades = tradesWithAccountingPL.filter(trade => trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial');
+    const categoryTags = category === 'all' ? tags : tags.filter(tag => tag.category === category);
+    return summariseTradeTags(realizedTrades, categoryTags, trade => (trade as Trade & { accountingPL: number }).accountingPL || 0)
+      .sort((a, b) => b.totalPfImpact - a.totalPfImpact);
+  }, [tradesWithAccountingPL, tags, category]);
+
+  const getCategory = (id: TradeTagCategory) => TRADE_TAG_CATEGORIES.find(item => item.id === id);
+
+  return (
+    <Card className="border-divider">
+      <CardHeader className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex flex-col">
+          <p className="text-md font-semibold">Performance by Tag</p>
+          <p className="text-sm text-default-500">
+            Realized trades per tag ({displayName} P/L). A trade with several tags counts under each.
+          </p>
+        </div>
+        <Tabs
+          size="sm"
+          aria-label="Tag category"
+          selectedKey={category}
+          onSelectionChange={(key) => setCategory(key as TradeTagCategory | 'all')}
+        >
+          <Tab key="all" title="All" />
+          {TRADE_TAG_CATEGORIES.map(item => <Tab key={item.id} title={item.label} />)}
+        </Tabs>
+      </CardHeader>
+      <Divider/>
+      <CardBody className="p-0">
+        <Table
+          aria-label="Tag Performance Table"
+          classNames={{
+            th: "bg-transparent border-b border-divider text-xs font-medium text-default-500 uppercase tracking-wider text-right",
+            td: "py-2.5 text-sm text-right",
+            wrapper: "p-0"
+          }}
+        >
+          <TableHeader>
+            <TableColumn className="text-left">Tag</TableColumn>
+            <TableColumn>Trades</TableColumn>
+            <TableColumn>Win Rate</TableColumn>
+            <TableColumn>Avg Win</TableColumn>
+            <TableColumn>Avg Loss</TableColumn>
+            <TableColumn>Expectancy</TableColumn>
+            <TableColumn>Total PF Impact</TableColumn>
+          </TableHeader>
+          <TableBody items={rows} emptyContent="No tagged trades in this period. Tag trades in the trade form.">
+            {(row) => (
+              <TableRow key={row.tag.id}>
+                <TableCell className="text-left">
+                  <Chip size="sm" variant="flat" color={getCategory(row.tag.category)?.color}>{row.tag.name}</Chip>
+                </TableCell>
+                <TableCell>{row.trades}</TableCell>
+                <TableCell className={`font-semibold ${row.winRate >= 50 ? 'text-success-600' : 'text-danger-600'}`}>{row.winRate.toFixed(1)}%</TableCell>
+                <TableCell className="text-success-600">{formatCurrency(row.avgWin)}</TableCell>
+                <TableCell className="text-danger-600">{formatCurrency(row.avgLoss)}</TableCell>
+                <TableCell className={`font-semibold ${row.expectancy >= 0 ? 'text-success-600' : 'text-danger-600'}`}>{formatCurrency(row.expectancy)}</TableCell>
+                <TableCell className={`font-semibold ${row.totalPfImpact >= 0 ? 'text-success-600' : 'text-danger-600'}`}>{row.totalPfImpact > 0 ? '+' : ''}{row.totalPfImpact.toFixed(2)}%</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardBody>
+    </Card>
+  );
+};
+
+export default TagPerformance;
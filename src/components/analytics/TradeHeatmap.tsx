@@ -7,6 +7,7 @@ import { formatCurrency } from "../../utils/formatters";
 import { useAccountingMethod } from "../../context/AccountingMethodContext";
 import { calculateTradePL, getTradeDateForAccounting } from "../../utils/accountingUtils";
 import MobileTooltip from "../ui/MobileTooltip";
+import { getNonTradingReason } from "../../utils/marketCalendar";
 
 interface TradeHeatmapProps {
   trades: any[];
@@ -69,13 +70,12 @@ const TradeHeatmap: React.FC<TradeHeatmapProps> = ({ trades, startDate, endDate,
   }, {} as Record<string, number>);
 
   // Convert to heatmap format
-  const values = Object.keys(data).map(date => ({
+  const values: Array<{ date: string; count: number; closed?: string | null }> = Object.keys(data).map(date => ({
     date,
     count: data[date],
+    closed: getNonTradingReason(date),
   }));
 
-
-
   // Convert string dates to Date objects for CalendarHeatmap
   // Handle invalid date formats and provide fallbacks
   let startDateObj: Date;
@@ -116,6 +116,20 @@ const TradeHeatmap: React.FC<TradeHeatmapProps> = ({ trades, startDate, endDate,
     endDateObj = new Date('2024-12-31T23:59:59.999Z');
   }
 
+  // Weekends and exchange holidays without P/L are shown as non-trading days
+  let tradingDays = 0;
+  let calendarDays = 0;
+  for (const cursor = new Date(startDateObj); cursor <= endDateObj; cursor.setDate(cursor.getDate() + 1)) {
+    const date = cursor.toISOString().split('T')[0];
+    const closed = getNonTradingReason(date);
+    calendarDays++;
+    if (!closed) {
+      tradingDays++;
+    } else if (data[date] === undefined) {
+      values.push({ date, count: 0, closed });
+    }
+  }
+
   // Custom transformDayElement to add hover effects and better styling
   const transformDayElement = (element: React.ReactElement, value: any) => {
     if (!value) return element;
@@ -133,9 +147,14 @@ const TradeHeatmap: React.FC<TradeHeatmapProps> = ({ trades, startDate, endDate,
         content={
           <div className="p-2 text-sm">
             <p className="font-medium">{formattedDate}</p>
-            <p className={`mt-1 ${value.count >= 0 ? 'text-success-500' : 'text-danger-500'}`}>
-              {formatCurrency(value.count)}
-            </p>
+            {value.closed && (
+              <p className="text-xs text-default-500">Market closed · {value.closed}</p>
+            )}
+            {(!value.closed || data[value.date] !== undefined) && (
+              <p className={`mt-1 ${value.count >= 0 ? 'text-success-500' : 'text-danger-500'}`}>
+                {formatCurrency(value.count)}
+              </p>
+            )}
           </div>
         }
         delay={0}
@@ -180,6 +199,10 @@ const TradeHeatmap: React.FC<TradeHeatmapProps> = ({ trades, startDate, endDate,
         .react-calendar-heatmap .color-empty {
           fill: #f3f4f6;
         }
+        .react-calendar-heatmap .color-closed {
+          fill: #e5e7eb;
+          opacity: 0.45;
+        }
         /* Loss colors - from light to dark red */
         .color-scale-1 { fill: #fecaca; }
         .color-scale-2 { fill: #ef4444; }
@@ -213,6 +236,7 @@ const TradeHeatmap: React.FC<TradeHeatmapProps> = ({ trades, startDate, endDate,
           values={values}
           classForValue={value => {
             if (!value) return "color-empty";
+            if (value.closed && data[value.date] === undefined) return "color-closed";
             const count = value.count;
             if (count > 0) {
               return count > 5000 ? "color-scale-4" : "color-scale-3";
@@ -230,6 +254,9 @@ const TradeHeatmap: React.FC<TradeHeatmapProps> = ({ trades, startDate, endDate,
           ]}
         />
       </div>
+      <p className="text-xs text-default-500 text-right">
+        {tradingDays} trading days of {calendarDays} calendar days · faded cells are weekends and exchange holidays
+      </p>
     </div>
   );
 };
@@ -19,6 +19,8 @@ import { useTrades } from '../../hooks/use-trades';
 import { useTruePortfolioWithTrades } from '../../hooks/use-true-portfolio-with-trades';
 import { useAccountingMethod } from '../../context/AccountingMethodContext';
 import { calculateTradePL } from '../../utils/accountingUtils';
+import { useBenchmarkComparison } from '../../hooks/use-benchmark-comparison';
+import { BENCHMARK_INDICES, getBenchmarkLabel, loadBenchmarkSymbol, saveBenchmarkSymbol } from '../../utils/benchmarks';
 
 // Register ChartJS components
 ChartJS.register(
@@ -57,6 +59,8 @@ export const EquityCurve: React.FC = () => {
   const monthlyPortfolios = getAllMonthlyTruePortfolios();
   const [selectedRange, setSelectedRange] = React.useState<string>('1M');
   const [xirrValue, setXirrValue] = React.useState<number>(0);
+  const [benchmark, setBenchmark] = React.useState<string>(() => loadBenchmarkSymbol());
+  const { points: benchmarkPoints, isLoading: isBenchmarkLoading } = useBenchmarkComparison(trades, benchmark);
 
   // Get date range based on selection
   const getDateRange = React.useCallback(() => {
@@ -167,7 +171,12 @@ export const EquityCurve: React.FC = () => {
 
   const chartData = React.useMemo(() => {
     const dataPoints = calculateEquityCurve();
-    
+    const { start, end } = getDateRange();
+    // Index bought with the same capital and deposits/withdrawals as the portfolio
+    const benchmarkData = benchmarkPoints
+      .filter(point => point.date >= start.getTime() && point.date <= end.getTime())
+      .map(point => ({ x: new Date(point.date), y: point.benchmark }));
+
     return {
       datasets: [
         {
@@ -176,10 +185,19 @@ export const EquityCurve: React.FC = () => {
           borderColor: 'rgb(75, 192, 192)',
           tension: 0.1,
           fill: false
-        }
+        },
+        ...(benchmark && benchmarkData.length > 0 ? [{
+          label: getBenchmarkLabel(benchmark),
+          data: benchmarkData,
+          borderColor: 'rgb(245, 165, 36)',
+          borderDash: [5, 5],
+          pointRadius: 0,
+          tension: 0.1,
+          fill: false
+        }] : [])
       ]
     };
-  }, [calculateEquityCurve]);
+  }, [calculateEquityCurve, getDateRange, benchmarkPoints, benchmark]);
 
   const chartOptions: ChartOptions<'line'> = {
     responsive: true,
@@ -210,7 +228,7 @@ export const EquityCurve: React.FC = () => {
       tooltip: {
         callbacks: {
           label: (context) => {
-            return `Portfolio Value: ₹${context.parsed.y.toLocaleString()}`;
+            return `${context.dataset.label}: ₹${context.parsed.y.toLocaleString()}`;
           }
         }
       }
@@ -221,6 +239,12 @@ export const EquityCurve: React.FC = () => {
     setSelectedRange(value);
   };
 
+  const handleBenchmarkChange = (value: string) => {
+    const symbol = value === 'none' ? '' : value;
+    setBenchmark(symbol);
+    saveBenchmarkSymbol(symbol);
+  };
+
   return (
     <Card className="w-full">
       <CardBody>
@@ -238,6 +262,19 @@ export const EquityCurve: React.FC = () => {
                 </SelectItem>
               ))}
             </Select>
+            <Select
+              label="Benchmark"
+              selectedKeys={[benchmark || 'none']}
+              onChange={(e) => e.target.value && handleBenchmarkChange(e.target.value)}
+              description={isBenchmarkLoading ? 'Loading index candles…' : undefined}
+              className="w-48"
+            >
+              {[{ symbol: 'none', label: 'No benchmark' }, ...BENCHMARK_INDICES].map((index) => (
+                <SelectItem key={index.symbol}>
+                  {index.label}
+                </SelectItem>
+              ))}
+            </Select>
             <div className="flex items-center gap-2">
               <span className="text-sm text-foreground-600">XIRR:</span>
               <span className={`text-lg font-semibold ${xirrValue >= 0 ? 'text-success-600' : 'text-danger-600'}`}>
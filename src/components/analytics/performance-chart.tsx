@@ -13,6 +13,9 @@ import { motion } from "framer-motion";
 import { Trade } from "../../types/trade";
 import { useTruePortfolioWithTrades } from "../../hooks/use-true-portfolio-with-trades";
 import { useAccountingMethod } from "../../context/AccountingMethodContext";
+import { getTradeLegs, getExitLegs } from "../../utils/tradeLegs";
+import { useBenchmarkComparison } from "../../hooks/use-benchmark-comparison";
+import { getBenchmarkLabel } from "../../utils/benchmarks";
 
 export interface ChartDataPoint {
   month: string;
@@ -21,12 +24,16 @@ export interface ChartDataPoint {
   plPercentage: number;
   startingCapital?: number;
   capitalChanges?: number;
+  benchmark?: number; // ₹, index bought with the same capital and flows
+  benchmarkPercentage?: number; // Index return of the month
 }
 
 interface PerformanceChartProps {
   trades: Trade[];
   onDataUpdate?: (data: ChartDataPoint[]) => void;
   selectedView: string;
+  /** Index plotted next to the portfolio; '' for none */
+  benchmark?: string;
 }
 
 function getMonthYear(dateStr: string) {
@@ -35,10 +42,12 @@ function getMonthYear(dateStr: string) {
 }
 
 export const PerformanceChart: React.FC<PerformanceChartProps> = (props) => {
-  const { trades, onDataUpdate, selectedView } = props;
+  const { trades, onDataUpdate, selectedView, benchmark = "" } = props;
   const { accountingMethod } = useAccountingMethod();
   const useCashBasis = accountingMethod === 'cash';
   const { getPortfolioSize, getAllMonthlyTruePortfolios } = useTruePortfolioWithTrades(trades);
+  const { points: benchmarkPoints } = useBenchmarkComparison(trades, benchmark);
+  const benchmarkName = getBenchmarkLabel(benchmark);
 
   // Memoize the monthly portfolios to prevent infinite re-renders
   // Pass accounting method to ensure correct P/L attribution
@@ -62,9 +71,9 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = (props) => {
 
         // For cash basis, also add exit dates
         if (useCashBasis && (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial')) {
-          if (trade.exit1Date) dates.push(new Date(trade.exit1Date));
-          if (trade.exit2Date) dates.push(new Date(trade.exit2Date));
-          if (trade.exit3Date) dates.push(new Date(trade.exit3Date));
+          getExitLegs(getTradeLegs(trade)).forEach(exit => {
+            if (exit.date) dates.push(new Date(exit.date));
+          });
         }
       });
 
@@ -102,6 +111,22 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = (props) => {
       }));
   }, [monthlyPortfolios]);
 
+  // Month-end value and monthly return of the benchmark, keyed like the chart's months
+  const chartDataWithBenchmark = React.useMemo(() => {
+    if (benchmarkPoints.length === 0) return processedChartData;
+    const byMonth = new Map<string, { benchmark: number; growth: number }>();
+    benchmarkPoints.forEach(point => {
+      const date = new Date(point.date);
+      const key = `${date.toLocaleString('en-US', { month: 'short' })} ${date.getFullYear()}`;
+      const month = byMonth.get(key) || { benchmark: 0, growth: 1 };
+      byMonth.set(key, { benchmark: point.benchmark, growth: month.growth * (1 + point.benchmarkReturn) });
+    });
+    return processedChartData.map(d => {
+      const month = byMonth.get(d.month);
+      return month ? { ...d, benchmark: month.benchmark, benchmarkPercentage: (month.growth - 1) * 100 } : d;
+    });
+  }, [processedChartData, benchmarkPoints]);
+
   // Notify parent component about data update with debouncing to prevent infinite loops
   React.useEffect(() => {
     if (onDataUpdate && processedChartData.length > 0) {
@@ -164,7 +189,7 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = (props) => {
       <ResponsiveContainer width="100%" height="100%">
         {selectedView === "capital" ? (
           <AreaChart
-            data={processedChartData}
+            data={chartDataWithBenchmark}
             margin={{ top: 10, right: 30, left: 30, bottom: 30 }}
           >
             <defs>
@@ -230,10 +255,23 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = (props) => {
               strokeWidth={2}
               activeDot={{ r: 6, strokeWidth: 2 }}
             />
+            {benchmark && (
+              <Area
+                type="monotone"
+                dataKey="benchmark"
+                name={benchmarkName}
+                stroke="hsl(var(--heroui-warning))"
+                fill="none"
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                connectNulls
+                dot={false}
+              />
+            )}
           </AreaChart>
         ) : (
           <AreaChart
-            data={processedChartData}
+            data={chartDataWithBenchmark}
             margin={{ top: 10, right: 30, left: 30, bottom: 30 }}
           >
             <defs>
@@ -293,6 +331,19 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = (props) => {
               strokeWidth={2}
               activeDot={{ r: 6, strokeWidth: 2 }}
             />
+            {benchmark && (
+              <Area
+                type="monotone"
+                dataKey="benchmarkPercentage"
+                name={benchmarkName}
+                stroke="hsl(var(--heroui-warning))"
+                fill="none"
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                connectNulls
+                dot={false}
+              />
+            )}
           </AreaChart>
         )}
       </ResponsiveContainer>
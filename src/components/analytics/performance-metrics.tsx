@@ -7,6 +7,8 @@ import { Trade } from "../../types/trade";
 import { calcWeightedRewardRisk } from "../../utils/tradeCalculations";
 import { useTruePortfolioWithTrades } from "../../hooks/use-true-portfolio-with-trades";
 import { useAccountingCalculations, useAccountingMethodDisplay } from "../../hooks/use-accounting-calculations";
+import { useBenchmarkComparison } from "../../hooks/use-benchmark-comparison";
+import { getBenchmarkLabel } from "../../utils/benchmarks";
 import MobileTooltip from "../ui/MobileTooltip";
 
 interface MetricProps {
@@ -151,10 +153,13 @@ const Metric: React.FC<MetricProps> = React.memo(({
 interface PerformanceMetricsProps {
   trades: Trade[];
   isEditing?: boolean;
+  /** Index to compare against; '' hides the benchmark metrics */
+  benchmark?: string;
 }
 
-export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({ trades, isEditing = false }) => {
+export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({ trades, isEditing = false, benchmark = "" }) => {
   const { portfolioSize, getPortfolioSize } = useTruePortfolioWithTrades(trades);
+  const { metrics: benchmarkMetrics, isLoading: isBenchmarkLoading, error: benchmarkError } = useBenchmarkComparison(trades, benchmark);
   const { totalTrades, winRate, avgPosMove, avgNegMove, avgPositionSize, avgHoldingDays, avgR, planFollowed, openPositions, useCashBasis } = useAccountingCalculations(trades);
   const { displayName } = useAccountingMethodDisplay();
 
@@ -296,6 +301,84 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({ trades,
       />
 
       </motion.div>
+
+      {benchmark && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium text-default-600">
+            <Icon icon="lucide:git-compare" className="w-4 h-4" />
+            vs {getBenchmarkLabel(benchmark)}
+            {benchmarkMetrics && (
+              <span className="text-xs text-default-400 font-normal">{benchmarkMetrics.days} trading days</span>
+            )}
+          </div>
+          {benchmarkMetrics ? (
+            <motion.div
+              className="grid grid-cols-2 gap-4"
+              initial="initial"
+              animate="animate"
+              variants={{
+                animate: {
+                  transition: {
+                    staggerChildren: 0.05
+                  }
+                }
+              }}
+            >
+              <Metric
+                label="Alpha"
+                value={benchmarkMetrics.alpha.toFixed(2)}
+                isPercentage
+                tooltip="Annualised return above what the portfolio's beta to the index explains (Jensen's alpha, 5% risk-free rate)"
+                index={10}
+              />
+              <Metric
+                label="Beta"
+                value={benchmarkMetrics.beta.toFixed(2)}
+                tooltip="Sensitivity of daily portfolio returns to index returns"
+                index={11}
+              />
+              <Metric
+                label="Correlation"
+                value={benchmarkMetrics.correlation.toFixed(2)}
+                tooltip="Correlation of daily portfolio returns with index returns"
+                index={12}
+              />
+              <Metric
+                label="Excess Return"
+                value={benchmarkMetrics.excessReturn.toFixed(2)}
+                isPercentage
+                tooltip={`Time-weighted return ${benchmarkMetrics.portfolioReturn.toFixed(2)}% vs index ${benchmarkMetrics.benchmarkReturn.toFixed(2)}% over the same days`}
+                index={13}
+              />
+              <Metric
+                label="Up Capture"
+                value={benchmarkMetrics.upCapture.toFixed(0)}
+                isPercentage
+                tooltip="Average portfolio return on days the index rose, as a percentage of the index's average gain"
+                index={14}
+              />
+              <Metric
+                label="Down Capture"
+                value={benchmarkMetrics.downCapture.toFixed(0)}
+                isPercentage
+                tooltip="Average portfolio return on days the index fell, as a percentage of the index's average loss (lower is better)"
+                index={15}
+              />
+              <Metric
+                label="Relative Drawdown"
+                value={benchmarkMetrics.relativeDrawdown.toFixed(2)}
+                isPercentage
+                tooltip={`Largest underperformance of the portfolio vs the index from a peak. Max drawdown: portfolio ${benchmarkMetrics.portfolioDrawdown.toFixed(2)}%, index ${benchmarkMetrics.benchmarkDrawdown.toFixed(2)}%`}
+                index={16}
+              />
+            </motion.div>
+          ) : (
+            <div className="text-xs text-default-500">
+              {isBenchmarkLoading ? "Loading index candles…" : benchmarkError || "Not enough history to compare yet"}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -34,7 +34,11 @@ import { TaxEditModal } from "./tax/tax-edit-modal";
 import { useTrades } from "../hooks/use-trades";
 import { useAccountingMethod } from "../context/AccountingMethodContext";
 import { useGlobalFilter } from "../context/GlobalFilterContext";
+import { useAccount } from "../context/AccountContext";
+import { ALL_ACCOUNTS_ID } from "../utils/accounts";
 import { calculateTradePL } from "../utils/accountingUtils";
+import { getTradeLegs, getExitLegs } from "../utils/tradeLegs";
+import { getMonthlyChargesBreakup } from "../utils/chargesCalculator";
 // Removed Supabase import - using localStorage only
 
 // Editable Text Component
@@ -94,9 +98,19 @@ const EditableText: React.FC<{
 // IndexedDB helpers using Dexie
 import { DatabaseService } from '../db/database';
 
-async function fetchTaxData(year: number) {
+async function fetchTaxData(year: number, accountId: string) {
   try {
-    const taxRecord = await DatabaseService.getTaxData(year);
+    if (accountId === ALL_ACCOUNTS_ID) {
+      // Consolidated view: month-wise total of every account's taxes
+      const records = await DatabaseService.getTaxDataForAllAccounts(year);
+      return records.reduce((total: { [month: string]: number }, record) => {
+        Object.entries(record.data || {}).forEach(([month, amount]) => {
+          total[month] = (total[month] || 0) + (Number(amount) || 0);
+        });
+        return total;
+      }, {});
+    }
+    const taxRecord = await DatabaseService.getTaxData(year, accountId);
     return taxRecord ? taxRecord.data : {};
   } catch (error) {
     console.error('❌ Error fetching tax data from IndexedDB:', error);
@@ -104,9 +118,9 @@ async function fetchTaxData(year: number) {
   }
 }
 
-async function saveTaxData(year: number, taxData: any): Promise<boolean> {
+async function saveTaxData(year: number, taxData: any, accountId: string): Promise<boolean> {
   try {
-    return await DatabaseService.saveTaxData(year, taxData);
+    return await DatabaseService.saveTaxData(year, taxData, accountId);
   } catch (error) {
     console.error('❌ IndexedDB save error:', error);
     return false;
@@ -136,6 +150,7 @@ export const TaxAnalytics: React.FC = () => {
   const { trades } = useTrades(); // This now returns filtered trades based on global filter and accounting method
   const { accountingMethod } = useAccountingMethod();
   const { filter } = useGlobalFilter();
+  const { activeAccountId, isAllAccounts } = useAccount();
   const useCashBasis = accountingMethod === 'cash';
 
   // Note: trades are now pre-filtered by global filter and accounting method from useTrades()
@@ -169,7 +184,7 @@ export const TaxAnalytics: React.FC = () => {
   // Function to load tax data for the selected year
   const loadTaxData = useCallback(async () => {
     try {
-      const yearData = await fetchTaxData(selectedYear);
+      const yearData = await fetchTaxData(selectedYear, activeAccountId);
       if (Object.keys(yearData).length > 0) {
         setTaxesByMonth(prev => ({ ...prev, ...yearData }));
       } else {
@@ -180,7 +195,7 @@ export const TaxAnalytics: React.FC = () => {
     } catch (error) {
       console.error('❌ Failed to load tax data:', error);
     }
-  }, [selectedYear]);
+  }, [selectedYear, activeAccountId]);
 
   // Function to load commentary data for the selected year
   const loadCommentaryData = useCallback(async () => {
@@ -205,10 +220,10 @@ export const TaxAnalytics: React.FC = () => {
     // Data synchronization would need to be handled differently if needed
   }, [loadTaxData, loadCommentaryData]);
   
-  // Save tax data to IndexedDB when it changes
+  // Save tax data to IndexedDB when it changes; the consolidated totals are not saved
   React.useEffect(() => {
-    if (Object.keys(taxesByMonth).length > 0 && selectedYear) {
-      saveTaxData(selectedYear, taxesByMonth).then(success => {
+    if (Object.keys(taxesByMonth).length > 0 && selectedYear && !isAllAccounts) {
+      saveTaxData(selectedYear, taxesByMonth, activeAccountId).then(success => {
         console.log(`📊 [TaxAnalytics] Tax data save ${success ? 'successful' : 'failed'}`);
       });
     }
@@ -331,7 +346,7 @@ export const TaxAnalytics: React.FC = () => {
 
       // Get the appropriate date based on accounting method
       const displayDate = useCashBasis ?
-        (trade.exit1Date || trade.exit2Date || trade.exit3Date || trade.date) :
+        (getExitLegs(getTradeLegs(trade)).find(exit => exit.date)?.date || trade.date) :
         trade.date;
 
       // Create unique key for this trade
@@ -387,7 +402,19 @@ export const TaxAnalytics: React.FC = () => {
     // For accrual basis: Use deduplicated trades
     totalGrossPL = tradesForYear.reduce((sum, t) => sum + calculateTradePL(t, useCashBasis), 0);
   }
-  const totalTaxes = monthOrder.reduce((sum, m) => sum + (taxesByMonth[m] || 0), 0);
+  // Brokerage and statutory charges computed from trade legs; used for months without a manual entry
+  const chargesByMonth = React.useMemo(
+    () => getMonthlyChargesBreakup(trades, selectedYear),
+    [trades, selectedYear]
+  );
+  const effectiveTaxesByMonth = React.useMemo(() => {
+    const result: { [month: string]: number } = {};
+    monthOrder.forEach(month => {
+      result[month] = taxesByMonth[month] || chargesByMonth[month]?.total || 0;
+    });
+    return result;
+  }, [taxesByMonth, chargesByMonth]);
+  const totalTaxes = monthOrder.reduce((sum, m) => sum + (effectiveTaxesByMonth[m] || 0), 0);
   const totalNetPL = totalGrossPL - totalTaxes;
   const formatCurrency = (value: number) => new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
   const formatPercent = (value: number) => value.toFixed(2) + "%";
@@ -464,7 +491,7 @@ export const TaxAnalytics: React.FC = () => {
           </CardHeader>
           <Divider />
           <CardBody>
-            <TaxSummaryChart taxesByMonth={taxesByMonth} />
+            <TaxSummaryChart taxesByMonth={effectiveTaxesByMonth} />
           </CardBody>
         </Card>
         <Card>
@@ -638,6 +665,7 @@ export const TaxAnalytics: React.FC = () => {
             trades={trades}
             taxesByMonth={taxesByMonth}
             setTaxesByMonth={setTaxesByMonth}
+            chargesByMonth={chargesByMonth}
           />
         </CardBody>
       </Card>
@@ -645,6 +673,7 @@ export const TaxAnalytics: React.FC = () => {
         isOpen={isModalOpen}
         onOpenChange={setIsModalOpen}
         month={selectedMonth}
+        chargesBreakup={selectedMonth ? chargesByMonth[selectedMonth] : undefined}
       />
 
       {/* Drawdown Breakdown Modal */}
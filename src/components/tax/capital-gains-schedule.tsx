@@ -0,0 +1,191 @@
+import React from "react";
+import {
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Button,
+  Chip,
+  Select,
+  SelectItem,
+  Tooltip
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import * as XLSX from "xlsx";
+import Papa from "papaparse";
+import { Trade } from "../../types/trade";
+import {
+  calculateCapitalGains,
+  getCapitalGainsExportRows,
+  getCapitalGainsSummaryRows,
+  CapitalGainsSummary
+} from "../../utils/capitalGains";
+
+interface CapitalGainsScheduleProps {
+  trades: Trade[];
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat("en-IN", {
+  style: "currency",
+  currency: "INR",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2
+}).format(value);
+
+const exportSchedule = (summary: CapitalGainsSummary, format: 'csv' | 'xlsx') => {
+  const fileBase = `capital_gains_${summary.financialYear.replace(/\s+/g, '_')}`;
+  const lotRows = getCapitalGainsExportRows(summary);
+  const summaryRows = getCapitalGainsSummaryRows(summary);
+
+  if (format === 'csv') {
+    const csv = `${Papa.unparse(summaryRows)}\n\n${Papa.unparse(lotRows)}`;
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", `${fileBase}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  } else {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summaryRows), "Summary");
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(lotRows.filter(row => row['Type'] === 'STCG')), "STCG (111A)");
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(lotRows.filter(row => row['Type'] === 'LTCG')), "LTCG (112A)");
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(lotRows.filter(row => row['Type'] === 'Speculative')), "Speculative");
+    XLSX.writeFile(workbook, `${fileBase}.xlsx`);
+  }
+};
+
+/**
+ * Per financial year STCG/LTCG schedule built from FIFO-matched trade lots
+ */
+export const CapitalGainsSchedule: React.FC<CapitalGainsScheduleProps> = ({ trades }) => {
+  const schedule = React.useMemo(() => calculateCapitalGains(trades), [trades]);
+  const [selectedFY, setSelectedFY] = React.useState<string | null>(null);
+
+  const summary = schedule.find(s => s.financialYear === selectedFY) || schedule[0];
+
+  if (!summary) {
+    return (
+      <div className="text-center text-sm text-foreground-400 py-6">
+        No closed lots yet. Capital gains appear once trades have exits.
+      </div>
+    );
+  }
+
+  const metrics = [
+    { label: 'Net STCG', value: summary.netStcg, hint: `Gains ${formatCurrency(summary.stcgGains)} · Losses ${formatCurrency(summary.stcgLosses)}` },
+    { label: 'Net LTCG', value: summary.netLtcg, hint: `Gains ${formatCurrency(summary.ltcgGains)} · Losses ${formatCurrency(summary.ltcgLosses)}` },
+    { label: 'Taxable LTCG', value: summary.taxableLtcg, hint: `After exemption of ${formatCurrency(summary.ltcgExemption)}` },
+    { label: 'Speculative', value: summary.speculativePL, hint: 'Intraday and short sales, taxed as business income' },
+    { label: 'Est. Tax', value: summary.estimatedStcgTax + summary.estimatedLtcgTax, hint: `STCG ${formatCurrency(summary.estimatedStcgTax)} · LTCG ${formatCurrency(summary.estimatedLtcgTax)} (before surcharge and cess)` }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <Select
+          aria-label="Financial year"
+          size="sm"
+          variant="bordered"
+          className="max-w-[180px]"
+          selectedKeys={[summary.financialYear]}
+          onSelectionChange={(keys) => {
+            const fy = Array.from(keys)[0] as string;
+            if (fy) setSelectedFY(fy);
+          }}
+        >
+          {schedule.map(s => (
+            <SelectItem key={s.financialYear}>{s.financialYear}</SelectItem>
+          ))}
+        </Select>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="flat"
+            startContent={<Icon icon="lucide:file-text" className="w-3.5 h-3.5" />}
+            onPress={() => exportSchedule(summary, 'csv')}
+          >
+            CSV
+          </Button>
+          <Button
+            size="sm"
+            variant="flat"
+            color="success"
+            startContent={<Icon icon="lucide:file-spreadsheet" className="w-3.5 h-3.5" />}
+            onPress={() => exportSchedule(summary, 'xlsx')}
+          >
+            XLSX
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {metrics.map(metric => (
+          <Tooltip key={metric.label} content={metric.hint} placement="top">
+            <div className="p-3 rounded-lg border border-default-200 dark:border-default-100 bg-default-50/50">
+              <div className="text-xs text-foreground-500">{metric.label}</div>
+              <div className={`text-sm font-semibold ${metric.value >= 0 ? 'text-success-600 dark:text-success-400' : 'text-danger-600 dark:text-danger-400'}`}>
+                {formatCurrency(metric.value)}
+              </div>
+            </div>
+          </Tooltip>
+        ))}
+      </div>
+
+      <div className="overflow-auto max-h-[50vh] rounded-lg border border-default-200 dark:border-default-100">
+        <Table
+          aria-label="Capital gains lots"
+          removeWrapper
+          classNames={{
+            th: "bg-default-100 dark:bg-gray-950 text-foreground-600 dark:text-white text-xs font-medium uppercase sticky top-0 z-20",
+            td: "py-2 px-3 border-b border-default-200 dark:border-gray-800 text-sm"
+          }}
+        >
+          <TableHeader>
+            <TableColumn>Symbol</TableColumn>
+            <TableColumn>Type</TableColumn>
+            <TableColumn>Qty</TableColumn>
+            <TableColumn>Bought</TableColumn>
+            <TableColumn>Sold</TableColumn>
+            <TableColumn>Cost</TableColumn>
+            <TableColumn>Proceeds</TableColumn>
+            <TableColumn>Expenses</TableColumn>
+            <TableColumn>Gain / Loss</TableColumn>
+          </TableHeader>
+          <TableBody>
+            {summary.lots.map((lot, index) => (
+              <TableRow key={`${lot.tradeId}-${index}`}>
+                <TableCell className="font-medium">{lot.symbol}</TableCell>
+                <TableCell>
+                  <Chip
+                    size="sm"
+                    variant="flat"
+                    color={lot.term === 'LTCG' ? 'success' : lot.term === 'STCG' ? 'primary' : 'warning'}
+                  >
+                    {lot.term}
+                  </Chip>
+                </TableCell>
+                <TableCell>{lot.qty}</TableCell>
+                <TableCell>{lot.buyDate} @ {lot.buyPrice.toFixed(2)}</TableCell>
+                <TableCell>{lot.sellDate} @ {lot.sellPrice.toFixed(2)}</TableCell>
+                <TableCell>{formatCurrency(lot.cost)}</TableCell>
+                <TableCell>{formatCurrency(lot.proceeds)}</TableCell>
+                <TableCell>{formatCurrency(lot.expenses)}</TableCell>
+                <TableCell>
+                  <span className={lot.gain >= 0 ? 'text-success-600 dark:text-success-400' : 'text-danger-600 dark:text-danger-400'}>
+                    {formatCurrency(lot.gain)}
+                  </span>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
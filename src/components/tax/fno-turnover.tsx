@@ -0,0 +1,125 @@
+import React from "react";
+import {
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Chip,
+  Select,
+  SelectItem,
+  Tooltip
+} from "@heroui/react";
+import { Trade } from "../../types/trade";
+import { calculateFnOTurnover } from "../../utils/fnoTurnover";
+
+interface FnOTurnoverProps {
+  trades: Trade[];
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat("en-IN", {
+  style: "currency",
+  currency: "INR",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2
+}).format(value);
+
+/**
+ * Per financial year futures and options turnover, reported apart from capital gains
+ */
+export const FnOTurnover: React.FC<FnOTurnoverProps> = ({ trades }) => {
+  const turnover = React.useMemo(() => calculateFnOTurnover(trades), [trades]);
+  const [selectedFY, setSelectedFY] = React.useState<string | null>(null);
+
+  const summary = turnover.find(s => s.financialYear === selectedFY) || turnover[0];
+
+  if (!summary) {
+    return (
+      <div className="text-center text-sm text-foreground-400 py-6">
+        No closed futures or options positions yet.
+      </div>
+    );
+  }
+
+  const metrics = [
+    { label: 'Futures Turnover', value: summary.futuresTurnover, hint: `Futures P/L ${formatCurrency(summary.futuresPL)}`, signed: false },
+    { label: 'Options Turnover', value: summary.optionsTurnover, hint: `Options P/L ${formatCurrency(summary.optionsPL)}`, signed: false },
+    { label: 'Total Turnover', value: summary.totalTurnover, hint: 'Sum of absolute P/L of every exit (ICAI Guidance Note on Tax Audit)', signed: false },
+    { label: 'Charges', value: summary.charges, hint: 'Brokerage, STT and other charges of the exits, deductible as business expenses', signed: false },
+    { label: 'Net F&O P/L', value: summary.netPL, hint: 'Non-speculative business income after charges', signed: true }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <Select
+        aria-label="Financial year"
+        size="sm"
+        variant="bordered"
+        className="max-w-[180px]"
+        selectedKeys={[summary.financialYear]}
+        onSelectionChange={(keys) => {
+          const fy = Array.from(keys)[0] as string;
+          if (fy) setSelectedFY(fy);
+        }}
+      >
+        {turnover.map(s => (
+          <SelectItem key={s.financialYear}>{s.financialYear}</SelectItem>
+        ))}
+      </Select>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {metrics.map(metric => (
+          <Tooltip key={metric.label} content={metric.hint} placement="top">
+            <div className="p-3 rounded-lg border border-default-200 dark:border-default-100 bg-default-50/50">
+              <div className="text-xs text-foreground-500">{metric.label}</div>
+              <div className={`text-sm font-semibold ${!metric.signed ? 'text-foreground' : metric.value >= 0 ? 'text-success-600 dark:text-success-400' : 'text-danger-600 dark:text-danger-400'}`}>
+                {formatCurrency(metric.value)}
+              </div>
+            </div>
+          </Tooltip>
+        ))}
+      </div>
+
+      <div className="overflow-auto max-h-[40vh] rounded-lg border border-default-200 dark:border-default-100">
+        <Table
+          aria-label="F&O positions"
+          removeWrapper
+          classNames={{
+            th: "bg-default-100 dark:bg-gray-950 text-foreground-600 dark:text-white text-xs font-medium uppercase sticky top-0 z-20",
+            td: "py-2 px-3 border-b border-default-200 dark:border-gray-800 text-sm"
+          }}
+        >
+          <TableHeader>
+            <TableColumn>Contract / Strategy</TableColumn>
+            <TableColumn>Type</TableColumn>
+            <TableColumn>Turnover</TableColumn>
+            <TableColumn>P/L</TableColumn>
+          </TableHeader>
+          <TableBody>
+            {summary.positions.map(position => (
+              <TableRow key={position.key}>
+                <TableCell className="font-medium">{position.label}</TableCell>
+                <TableCell>
+                  <Chip
+                    size="sm"
+                    variant="flat"
+                    color={position.instrumentType === 'FUT' ? 'primary' : position.instrumentType === 'OPT' ? 'secondary' : 'warning'}
+                  >
+                    {position.instrumentType}
+                  </Chip>
+                </TableCell>
+                <TableCell>{formatCurrency(position.turnover)}</TableCell>
+                <TableCell>
+                  <span className={position.pl >= 0 ? 'text-success-600 dark:text-success-400' : 'text-danger-600 dark:text-danger-400'}>
+                    {formatCurrency(position.pl)}
+                  </span>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -12,12 +12,15 @@ import {
   Tab
 } from "@heroui/react";
 import { Icon } from "@iconify/react";
+import { TradeCharges } from "../../types/trade";
 // Removed Supabase import - using localStorage only
 
 interface TaxEditModalProps {
   isOpen: boolean;
   onOpenChange: (isOpen: boolean) => void;
   month: string | null;
+  /** Charges computed from the month's trade legs, used to pre-fill the breakup */
+  chargesBreakup?: TradeCharges;
 }
 
 // localStorage helpers
@@ -42,7 +45,8 @@ function saveTaxData(taxData: any) {
 export const TaxEditModal: React.FC<TaxEditModalProps> = ({
   isOpen,
   onOpenChange,
-  month
+  month,
+  chargesBreakup
 }) => {
   if (!month) return null;
   
@@ -83,50 +87,62 @@ export const TaxEditModal: React.FC<TaxEditModalProps> = ({
       const saved = sessionStorage.getItem(sessionKey + '_stt');
       if (saved) return Number(saved);
     }
-    return 0;
+    return chargesBreakup?.stt || 0;
   });
   const [stampDuty, setStampDuty] = React.useState(() => {
     if (typeof window !== 'undefined') {
       const saved = sessionStorage.getItem(sessionKey + '_stampDuty');
       if (saved) return Number(saved);
     }
-    return 0;
+    return chargesBreakup?.stampDuty || 0;
   });
   const [exchangeCharges, setExchangeCharges] = React.useState(() => {
     if (typeof window !== 'undefined') {
       const saved = sessionStorage.getItem(sessionKey + '_exchangeCharges');
       if (saved) return Number(saved);
     }
-    return 0;
+    return chargesBreakup?.exchangeCharges || 0;
   });
   const [gst, setGst] = React.useState(() => {
     if (typeof window !== 'undefined') {
       const saved = sessionStorage.getItem(sessionKey + '_gst');
       if (saved) return Number(saved);
     }
-    return 0;
+    return chargesBreakup?.gst || 0;
   });
   const [sebiCharges, setSebiCharges] = React.useState(() => {
     if (typeof window !== 'undefined') {
       const saved = sessionStorage.getItem(sessionKey + '_sebiCharges');
       if (saved) return Number(saved);
     }
-    return 0;
+    return chargesBreakup?.sebiCharges || 0;
   });
   const [ipft, setIpft] = React.useState(() => {
     if (typeof window !== 'undefined') {
       const saved = sessionStorage.getItem(sessionKey + '_ipft');
       if (saved) return Number(saved);
     }
-    return 0;
+    return chargesBreakup?.ipft || 0;
   });
   const [otherCharges, setOtherCharges] = React.useState(() => {
     if (typeof window !== 'undefined') {
       const saved = sessionStorage.getItem(sessionKey + '_otherCharges');
       if (saved) return Number(saved);
     }
-    return 0;
+    return (chargesBreakup ? chargesBreakup.brokerage + chargesBreakup.otherCharges : 0) || 0;
   });
+  // Fill the breakup with the charges computed from the month's trades
+  const applyComputedCharges = useCallback(() => {
+    if (!chargesBreakup) return;
+    setStt(chargesBreakup.stt);
+    setStampDuty(chargesBreakup.stampDuty);
+    setExchangeCharges(chargesBreakup.exchangeCharges);
+    setGst(chargesBreakup.gst);
+    setSebiCharges(chargesBreakup.sebiCharges);
+    setIpft(chargesBreakup.ipft);
+    setOtherCharges(chargesBreakup.brokerage + chargesBreakup.otherCharges);
+  }, [chargesBreakup]);
+
   const taxBreakupSum = stcg + ltcg + stt + stampDuty + exchangeCharges + gst + sebiCharges + ipft + otherCharges;
   const [taxWarning, setTaxWarning] = React.useState("");
 
@@ -322,7 +338,20 @@ export const TaxEditModal: React.FC<TaxEditModalProps> = ({
               <Divider className="my-4" />
               
               <div className="space-y-4">
-                <h4 className="text-md font-medium">Tax Calculation Details</h4>
+                <div className="flex items-center justify-between">
+                  <h4 className="text-md font-medium">Tax Calculation Details</h4>
+                  {chargesBreakup && chargesBreakup.total > 0 && (
+                    <Button
+                      size="sm"
+                      variant="flat"
+                      color="primary"
+                      startContent={<Icon icon="lucide:wand-2" />}
+                      onPress={applyComputedCharges}
+                    >
+                      Fill from trades
+                    </Button>
+                  )}
+                </div>
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <Input
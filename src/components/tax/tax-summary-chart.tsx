@@ -104,7 +104,7 @@ export const TaxSummaryChart: React.FC<TaxSummaryChartProps> = ({ taxesByMonth }
     const grossPL = monthPortfolio.pl; // This uses the correct accounting method
     const taxes = taxesByMonth[longMonth || ""] || 0;
     const netPL = grossPL - taxes;
-    const portfolioSize = getPortfolioSize(month, currentYear, trades, useCashBasis);
+    const portfolioSize = getPortfolioSize(month, currentYear);
     const plPercent = portfolioSize > 0 ? (grossPL / portfolioSize) * 100 : 0;
 
     return {
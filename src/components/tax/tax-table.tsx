@@ -12,16 +12,21 @@ import {
 } from "@heroui/react";
 import { Icon } from "@iconify/react";
 import { motion } from "framer-motion";
-import { Trade } from "../../types/trade";
+import { Trade, TradeCharges } from "../../types/trade";
 import { useTruePortfolioWithTrades } from "../../hooks/use-true-portfolio-with-trades";
 import { useTrades } from "../../hooks/use-trades";
 import { useAccountingMethod } from "../../context/AccountingMethodContext";
 import { getTradesForMonth, calculateTradePL } from "../../utils/accountingUtils";
+import { CapitalGainsSchedule } from "./capital-gains-schedule";
+import { FnOTurnover } from "./fno-turnover";
+import { isDerivative } from "../../utils/derivatives";
 
 interface TaxTableProps {
   trades: Trade[];
   taxesByMonth: { [month: string]: number };
   setTaxesByMonth: React.Dispatch<React.SetStateAction<{ [month: string]: number }>>;
+  /** Charges computed from trade legs, shown for months without a manual tax entry */
+  chargesByMonth?: Record<string, TradeCharges>;
 }
 
 interface TaxData {
@@ -37,6 +42,8 @@ interface TaxData {
   grossPFImpact: string;
   netPFImpact: string;
   returnPercent: string;
+  charges?: TradeCharges;
+  isAutoTaxes?: boolean;
 }
 
 const taxData: TaxData[] = [
@@ -296,7 +303,7 @@ const EditableText: React.FC<{
   );
 };
 
-export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, setTaxesByMonth }) => {
+export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, setTaxesByMonth, chargesByMonth }) => {
   const { portfolioSize, getPortfolioSize } = useTruePortfolioWithTrades(trades);
   const { accountingMethod } = useAccountingMethod();
   const useCashBasis = accountingMethod === 'cash';
@@ -476,9 +483,33 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
               />
             ) : (
               <>
-                <span className="text-foreground dark:text-foreground-200">
-                  {formatCurrency(item.taxes)}
-                </span>
+                {item.isAutoTaxes && item.charges ? (
+                  <Tooltip
+                    placement="top"
+                    content={
+                      <div className="p-2 text-xs space-y-1">
+                        <div className="font-medium mb-1">Computed from trades</div>
+                        <div className="flex justify-between gap-4"><span>Brokerage</span><span>{formatCurrency(item.charges.brokerage)}</span></div>
+                        <div className="flex justify-between gap-4"><span>STT</span><span>{formatCurrency(item.charges.stt)}</span></div>
+                        <div className="flex justify-between gap-4"><span>Exchange</span><span>{formatCurrency(item.charges.exchangeCharges)}</span></div>
+                        <div className="flex justify-between gap-4"><span>SEBI</span><span>{formatCurrency(item.charges.sebiCharges)}</span></div>
+                        <div className="flex justify-between gap-4"><span>Stamp Duty</span><span>{formatCurrency(item.charges.stampDuty)}</span></div>
+                        <div className="flex justify-between gap-4"><span>GST</span><span>{formatCurrency(item.charges.gst)}</span></div>
+                        <div className="flex justify-between gap-4"><span>IPFT</span><span>{formatCurrency(item.charges.ipft)}</span></div>
+                        <div className="flex justify-between gap-4"><span>Other</span><span>{formatCurrency(item.charges.otherCharges)}</span></div>
+                        <div className="text-foreground-400 mt-1">Click to enter the actual amount</div>
+                      </div>
+                    }
+                  >
+                    <span className="text-foreground-500 italic">
+                      {formatCurrency(item.taxes)}
+                    </span>
+                  </Tooltip>
+                ) : (
+                  <span className="text-foreground dark:text-foreground-200">
+                    {formatCurrency(item.taxes)}
+                  </span>
+                )}
                 <span className="text-foreground-400">
                   <Icon icon="lucide:edit-2" className="h-2.5 w-2.5" />
                 </span>
@@ -567,11 +598,14 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
           const avgProfit = winTrades.length > 0 ? winTrades.reduce((sum, t) => sum + t.accountingPL, 0) / winTrades.length : "-";
           const avgLoss = lossTrades.length > 0 ? lossTrades.reduce((sum, t) => sum + t.accountingPL, 0) / lossTrades.length : "-";
           
-          const taxes = taxesByMonth[month] || 0;
+          // Manually entered taxes win; otherwise fall back to the charges computed from trade legs
+          const charges = chargesByMonth?.[month];
+          const isAutoTaxes = !taxesByMonth[month] && !!charges && charges.total > 0;
+          const taxes = taxesByMonth[month] || (isAutoTaxes ? charges.total : 0);
           const netPL = grossPL - taxes;
           const taxPercent = grossPL !== 0 ? ((taxes / grossPL) * 100).toFixed(2) + '%' : "0.00%";
           
-          const portfolioSizeForMonth = getPortfolioSize(getShortMonthName(month), new Date().getFullYear(), trades, useCashBasis);
+          const portfolioSizeForMonth = getPortfolioSize(getShortMonthName(month), new Date().getFullYear());
           const grossPFImpact = portfolioSizeForMonth > 0 ? ((grossPL / portfolioSizeForMonth) * 100).toFixed(2) + '%' : "0.00%";
           const netPFImpact = portfolioSizeForMonth > 0 ? ((netPL / portfolioSizeForMonth) * 100).toFixed(2) + '%' : "0.00%";
           const returnPercent = grossPFImpact; // Using grossPFImpact for now
@@ -594,7 +628,9 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
             grossPFImpact,
             netPFImpact,
             returnPercent,
-            avgRR
+            avgRR,
+            charges,
+            isAutoTaxes
           };
         })}>
           {(item) => (
@@ -605,6 +641,22 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
         </TableBody>
         </Table>
       </div>
+      <div className="border-t border-default-200 dark:border-default-100 p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Icon icon="lucide:landmark" className="text-primary" />
+          <h3 className="text-sm font-semibold">Capital Gains Schedule</h3>
+        </div>
+        <CapitalGainsSchedule trades={trades} />
+      </div>
+      {trades.some(isDerivative) && (
+        <div className="border-t border-default-200 dark:border-default-100 p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <Icon icon="lucide:activity" className="text-primary" />
+            <h3 className="text-sm font-semibold">F&amp;O Turnover</h3>
+          </div>
+          <FnOTurnover trades={trades} />
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
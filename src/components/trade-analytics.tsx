@@ -10,7 +10,9 @@ import {
   DropdownMenu,
   DropdownItem,
   Tabs,
-  Tab
+  Tab,
+  Select,
+  SelectItem
 } from "@heroui/react";
 import { Icon } from "@iconify/react";
 import { motion, AnimatePresence } from "framer-motion";
@@ -21,6 +23,7 @@ import { PerformanceChart } from "./analytics/performance-chart";
 import { useTrades } from "../hooks/use-trades";
 import { useDashboardConfig } from "../hooks/use-dashboard-config";
 import { pageVariants, cardVariants, fadeInVariants } from "../utils/animations";
+import { BENCHMARK_INDICES, loadBenchmarkSymbol, saveBenchmarkSymbol } from "../utils/benchmarks";
 
 interface ChartDataPoint {
   month: string;
@@ -36,6 +39,7 @@ export const TradeAnalytics = React.memo(function TradeAnalytics() {
   const [selectedPeriod, setSelectedPeriod] = React.useState("YTD");
   const [selectedView, setSelectedView] = React.useState("performance");
   const [chartData, setChartData] = React.useState<ChartDataPoint[]>([]);
+  const [benchmark, setBenchmark] = React.useState<string>(() => loadBenchmarkSymbol());
   
   const periods = ["1W", "1M", "3M", "6M", "YTD", "1Y", "ALL"];
   
@@ -52,6 +56,11 @@ export const TradeAnalytics = React.memo(function TradeAnalytics() {
     },
   };
 
+  const handleBenchmarkChange = (symbol: string) => {
+    setBenchmark(symbol);
+    saveBenchmarkSymbol(symbol);
+  };
+
   const getWidgetVisibility = (id: string) => {
     return dashboardConfig.find(widget => widget.id === id)?.isVisible;
   };
@@ -123,6 +132,22 @@ export const TradeAnalytics = React.memo(function TradeAnalytics() {
                 <div className="flex justify-between items-center">
                   <h3 className="text-xl font-semibold tracking-tight dark:text-white">Portfolio Performance</h3>
                   <div className="flex items-center gap-3">
+                    <Select
+                      aria-label="Benchmark"
+                      size="sm"
+                      variant="flat"
+                      className="w-44"
+                      startContent={<Icon icon="lucide:git-compare" className="text-default-500" />}
+                      selectedKeys={[benchmark || "none"]}
+                      onSelectionChange={(keys) => {
+                        const key = Array.from(keys)[0] as string;
+                        if (key) handleBenchmarkChange(key === "none" ? "" : key);
+                      }}
+                    >
+                      {[{ symbol: "none", label: "No benchmark" }, ...BENCHMARK_INDICES].map(index => (
+                        <SelectItem key={index.symbol}>{index.label}</SelectItem>
+                      ))}
+                    </Select>
                     <motion.div 
                       className={`flex items-center gap-1.5 px-2 py-1 rounded-md ${
                         chartData.length > 0 && chartData[chartData.length - 1].plPercentage >= 0 
@@ -170,6 +195,7 @@ export const TradeAnalytics = React.memo(function TradeAnalytics() {
                       trades={trades}
                       onDataUpdate={handleChartDataUpdate}
                       selectedView={selectedView}
+                      benchmark={benchmark}
                     />
                   </motion.div>
                 </AnimatePresence>
@@ -187,7 +213,7 @@ export const TradeAnalytics = React.memo(function TradeAnalytics() {
                 <h3 className="text-xl font-semibold tracking-tight dark:text-white">Performance Metrics</h3>
               </CardHeader>
               <CardBody>
-                <PerformanceMetrics trades={trades} isEditing={false} />
+                <PerformanceMetrics trades={trades} isEditing={false} benchmark={benchmark} />
               </CardBody>
             </Card>
           </motion.div>
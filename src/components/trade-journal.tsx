@@ -16,6 +16,7 @@ import {
   DropdownTrigger,
   DropdownMenu,
   DropdownItem,
+  DropdownSection,
   Chip,
   Card,
   CardBody,
@@ -34,9 +35,15 @@ import { TradeUploadModal } from "./TradeUploadModal";
 import { useTrades, SortDescriptor } from "../hooks/use-trades";
 import { format } from 'date-fns';
 import { useTruePortfolioWithTrades } from "../hooks/use-true-portfolio-with-trades";
+import { useRuleViolations } from "../hooks/use-rule-violations";
+import { useTradeTags } from "../context/TradeTagsContext";
+import { TRADE_TAG_CATEGORIES, getTradeTags } from "../utils/tradeTags";
+import { JournalViewsBar } from "./JournalViewsBar";
 import { tableRowVariants, springTransition } from "../utils/animations";
 import { calcSLPercent, calcHoldingDays, calcUnrealizedPL, calcRealizedPL_FIFO, calcOpenHeat, calcIndividualMoves, calcTradeOpenHeat } from "../utils/tradeCalculations";
-import { fetchPriceTicks, fetchPriceTicksWithFallback, fetchPriceTicksWithHistoricalFallback, fetchPriceTicksSmart } from '../utils/priceTickApi';
+import { formatContractLabel, getContractMultiplier, isDerivative } from "../utils/derivatives";
+import { getTradeLegs, getEntryLegs, getExitLegs, getLatestExitDate, mergeLegacyFieldsIntoLegs, entryLegLabel } from "../utils/tradeLegs";
+import { fetchPriceTicksFromProvider } from '../utils/priceProviders';
 import * as XLSX from 'xlsx';
 import Papa from 'papaparse';
 import { useAccountingMethod } from "../context/AccountingMethodContext";
@@ -117,6 +124,14 @@ export const TradeJournal = React.memo(function TradeJournal({
     setSearchQuery,
     statusFilter,
     setStatusFilter,
+    tagFilter,
+    setTagFilter,
+    tagFilterMode,
+    setTagFilterMode,
+    advancedQuery,
+    setAdvancedQuery,
+    activeViewId,
+    setActiveViewId,
     sortDescriptor,
     setSortDescriptor,
     visibleColumns,
@@ -129,6 +144,8 @@ export const TradeJournal = React.memo(function TradeJournal({
   const { portfolioSize, getPortfolioSize } = useTruePortfolioWithTrades(trades);
   const { accountingMethod } = useAccountingMethod();
   const useCashBasis = accountingMethod === 'cash';
+  const { getViolations } = useRuleViolations(originalTrades);
+  const { tags } = useTradeTags();
 
   // State for inline editing
   const [editingId, setEditingId] = React.useState<string | null>(null);
@@ -229,10 +246,14 @@ export const TradeJournal = React.memo(function TradeJournal({
         // Use accounting-aware values for P/L fields
         if (header.key === 'plRs') {
           value = accountingValues.plRs;
+        } else if (header.key === 'netPlRs') {
+          value = accountingValues.netPlRs;
         } else if (header.key === 'realisedAmount') {
           value = accountingValues.realisedAmount;
         } else if (header.key === 'pfImpact') {
           value = accountingValues.pfImpact;
+        } else if (header.key === 'tags') {
+          value = getTradeTags(trade, tags).map(tag => tag.name).join(', ');
         }
 
         row[header.label] = value;
@@ -508,11 +529,13 @@ export const TradeJournal = React.memo(function TradeJournal({
     { key: "positionStatus", label: "Status", sortable: true },
     { key: "realisedAmount", label: "Realized Amount", sortable: true },
     { key: "plRs", label: "Realized P/L (₹)", sortable: true },
+    { key: "netPlRs", label: "Net P/L (₹)", sortable: true },
     { key: "pfImpact", label: "PF Impact (%)", sortable: true },
     { key: "cummPf", label: "Cumm. PF (%)", sortable: true },
     { key: "planFollowed", label: "Plan Followed", sortable: true },
     { key: "exitTrigger", label: "Exit Trigger" },
     { key: "proficiencyGrowthAreas", label: "Growth Areas" },
+    { key: "tags", label: "Tags", sortable: false },
     { key: "chartAttachments", label: "Charts", sortable: false },
     { key: "actions", label: "Actions", sortable: false },
     { key: 'unrealizedPL', label: 'Unrealized P/L', sortable: false },
@@ -597,12 +620,14 @@ export const TradeJournal = React.memo(function TradeJournal({
     }
   };
 
-  const handleImportTrades = useCallback((importedTrades: Trade[]) => {
+  const handleImportTrades = useCallback(async (importedTrades: Trade[]) => {
     // Use bulk import for better performance
-    bulkImportTrades(importedTrades);
+    const imported = await bulkImportTrades(importedTrades);
 
     // Show success message
-    console.log(`Successfully imported ${importedTrades.length} trades`);
+    if (imported) {
+      console.log(`Successfully imported ${importedTrades.length} trades`);
+    }
   }, [bulkImportTrades]);
 
 
@@ -614,7 +639,7 @@ export const TradeJournal = React.memo(function TradeJournal({
     // Calculated fields
     'avgEntry', 'positionSize', 'allocation', 'openQty', 'exitedQty',
     'avgExitPrice', 'stockMove', 'slPercent', 'openHeat', 'rewardRisk',
-    'holdingDays', 'realisedAmount', 'plRs', 'pfImpact', 'cummPf'
+    'holdingDays', 'realisedAmount', 'plRs', 'netPlRs', 'pfImpact', 'cummPf'
     // 'cmp' REMOVED to allow manual editing when auto-fetch fails
     // 'initialQty' REMOVED to allow inline editing
   ];
@@ -641,14 +666,10 @@ export const TradeJournal = React.memo(function TradeJournal({
 
     // For cash basis, use the latest exit date if available
     if (accountingMethod === 'cash' && exitedQty > 0) {
-      const exitDates = [
-        trade.exit1Date,
-        trade.exit2Date,
-        trade.exit3Date
-      ].filter(date => date && date.trim() !== '').sort();
-
-      if (exitDates.length > 0) {
-        relevantDate = exitDates[exitDates.length - 1]; // Use latest exit date
+      const latestExitDate = getLatestExitDate(getTradeLegs(trade));
+
+      if (latestExitDate) {
+        relevantDate = latestExitDate; // Use latest exit date
       }
     }
 
@@ -702,14 +723,15 @@ export const TradeJournal = React.memo(function TradeJournal({
 
       }
 
-      // If the field is 'name', fetch the latest price and update cmp (only if CMP is currently 0 or not manually set)
-      if (field === 'name' && parsedValue) {
+      // If the field is 'name', fetch the latest price and update cmp (only if CMP is currently 0 or not manually set).
+      // Option premiums and futures prices are not the underlying's price
+      if (field === 'name' && parsedValue && !isDerivative(tradeToUpdate)) {
         try {
           console.log(`[handleInlineEditSave] Fetching price for ${parsedValue}`);
           let priceData;
 
-          // Use smart fetch that prioritizes historical fallback during night hours (3:55-9:15 AM)
-          priceData = await fetchPriceTicksSmart(parsedValue);
+          // Selected price provider (Strike by default, with its night-hours historical fallback)
+          priceData = await fetchPriceTicksFromProvider(parsedValue);
 
           const ticks = priceData?.data?.ticks?.[parsedValue.toUpperCase()];
           if (ticks && ticks.length > 0) {
@@ -748,34 +770,31 @@ export const TradeJournal = React.memo(function TradeJournal({
 
       // CRITICAL FIX: Recalculate ALL dependent fields for any significant change
       if ([
-        'entry', 'sl', 'tsl', 'initialQty', 'pyramid1Qty', 'pyramid2Qty',
+        'entry', 'sl', 'tsl', 'initialQty', 'pyramid1Price', 'pyramid2Price', 'pyramid1Qty', 'pyramid2Qty',
+        'date', 'pyramid1Date', 'pyramid2Date',
         'exit1Price', 'exit2Price', 'exit3Price', 'exit1Qty', 'exit2Qty', 'exit3Qty',
         'exit1Date', 'exit2Date', 'exit3Date', 'cmp', 'buySell', 'positionStatus'
       ].includes(field as string)) {
 
+        // Fold the edited slot field into the legs, then recalculate from them
+        updatedTrade.legs = mergeLegacyFieldsIntoLegs(updatedTrade);
+
         // Recalculate all entry-related fields
-        const allEntries = [
-          { price: updatedTrade.entry, qty: updatedTrade.initialQty },
-          { price: updatedTrade.pyramid1Price, qty: updatedTrade.pyramid1Qty },
-          { price: updatedTrade.pyramid2Price, qty: updatedTrade.pyramid2Qty }
-        ].filter(e => e.price > 0 && e.qty > 0);
+        const allEntries = getEntryLegs(updatedTrade.legs).filter(e => e.price > 0);
 
-        // Calculate average entry
+        // Calculate average entry (F&O quantities are in lots)
+        const multiplier = getContractMultiplier(updatedTrade);
         const totalQty = allEntries.reduce((sum, e) => sum + e.qty, 0);
-        const totalValue = allEntries.reduce((sum, e) => sum + (e.price * e.qty), 0);
-        updatedTrade.avgEntry = totalQty > 0 ? totalValue / totalQty : updatedTrade.entry;
+        const totalValue = allEntries.reduce((sum, e) => sum + (e.price * e.qty), 0) * multiplier;
+        updatedTrade.avgEntry = totalQty > 0 ? totalValue / (totalQty * multiplier) : updatedTrade.entry;
 
         // Recalculate all exit-related fields
-        const allExits = [
-          { price: updatedTrade.exit1Price, qty: updatedTrade.exit1Qty, date: updatedTrade.exit1Date },
-          { price: updatedTrade.exit2Price, qty: updatedTrade.exit2Qty, date: updatedTrade.exit2Date },
-          { price: updatedTrade.exit3Price, qty: updatedTrade.exit3Qty, date: updatedTrade.exit3Date }
-        ].filter(e => e.price > 0 && e.qty > 0 && e.date);
+        const allExits = getExitLegs(updatedTrade.legs).filter(e => e.price > 0 && e.date);
 
         // Calculate exit quantities and averages
         const exitedQty = allExits.reduce((sum, e) => sum + e.qty, 0);
-        const exitValue = allExits.reduce((sum, e) => sum + (e.price * e.qty), 0);
-        const avgExitPrice = exitedQty > 0 ? exitValue / exitedQty : 0;
+        const exitValue = allExits.reduce((sum, e) => sum + (e.price * e.qty), 0) * multiplier;
+        const avgExitPrice = exitedQty > 0 ? exitValue / (exitedQty * multiplier) : 0;
 
         updatedTrade.exitedQty = exitedQty;
         updatedTrade.avgExitPrice = avgExitPrice;
@@ -794,9 +813,7 @@ export const TradeJournal = React.memo(function TradeJournal({
 
         // Calculate realized P/L using FIFO
         if (exitedQty > 0) {
-          const entryLotsForFifo = allEntries.map(e => ({ price: e.price, qty: e.qty }));
-          const exitLotsForFifo = allExits.map(e => ({ price: e.price, qty: e.qty }));
-          updatedTrade.plRs = calcRealizedPL_FIFO(entryLotsForFifo, exitLotsForFifo, updatedTrade.buySell as 'Buy' | 'Sell');
+          updatedTrade.plRs = calcRealizedPL_FIFO([...allEntries, ...allExits], updatedTrade.buySell as 'Buy' | 'Sell', multiplier);
           updatedTrade.realisedAmount = exitValue;
         } else {
           updatedTrade.plRs = 0;
@@ -1099,7 +1116,7 @@ export const TradeJournal = React.memo(function TradeJournal({
     // Format currency values with single rupee symbol
     if ([
       'entry', 'avgEntry', 'sl', 'tsl', 'cmp', 'pyramid1Price', 'pyramid2Price',
-      'exit1Price', 'exit2Price', 'exit3Price', 'avgExitPrice', 'realisedAmount', 'plRs'
+      'exit1Price', 'exit2Price', 'exit3Price', 'avgExitPrice', 'realisedAmount', 'plRs', 'netPlRs'
     ].includes(key)) {
       return '₹' + formatCurrency(Number(value));
     }
@@ -1135,7 +1152,7 @@ export const TradeJournal = React.memo(function TradeJournal({
 
   // Add color to P/L values
   const getValueColor = (value: any, key: string) => {
-    if (key !== 'plRs') return '';
+    if (key !== 'plRs' && key !== 'netPlRs') return '';
     const numValue = Number(value);
     return numValue < 0 ? 'text-danger' : numValue > 0 ? 'text-success' : '';
   };
@@ -1154,17 +1171,14 @@ export const TradeJournal = React.memo(function TradeJournal({
       // Pre-compute holding days tooltip
       const isOpenPosition = trade.positionStatus === 'Open';
       const isPartialPosition = trade.positionStatus === 'Partial';
-      const entryLots = [
-        { label: 'Initial Entry', date: trade.date, qty: Number(trade.initialQty) },
-        { label: 'Pyramid 1', date: trade.pyramid1Date, qty: Number(trade.pyramid1Qty) },
-        { label: 'Pyramid 2', date: trade.pyramid2Date, qty: Number(trade.pyramid2Qty) }
-      ].filter(e => e.date && e.qty > 0);
-
-      const exitLots = [
-        { date: trade.exit1Date, qty: Number(trade.exit1Qty) },
-        { date: trade.exit2Date, qty: Number(trade.exit2Qty) },
-        { date: trade.exit3Date, qty: Number(trade.exit3Qty) }
-      ].filter(e => e.date && e.qty > 0);
+      const tradeLegs = getTradeLegs(trade);
+      const entryLots = getEntryLegs(tradeLegs)
+        .map((leg, i) => ({ label: entryLegLabel(i), date: leg.date, qty: Number(leg.qty) }))
+        .filter(e => e.date && e.qty > 0);
+
+      const exitLots = getExitLegs(tradeLegs)
+        .map(leg => ({ date: leg.date, qty: Number(leg.qty) }))
+        .filter(e => e.date && e.qty > 0);
 
       let remainingExits = exitLots.map(e => ({ ...e }));
       const today = new Date();
@@ -1223,11 +1237,9 @@ export const TradeJournal = React.memo(function TradeJournal({
       };
 
       // Pre-compute R:R tooltip
-      const entries = [
-        { label: 'Initial Entry', price: Number(trade.entry), qty: Number(trade.initialQty) },
-        { label: 'Pyramid 1', price: Number(trade.pyramid1Price), qty: Number(trade.pyramid1Qty) },
-        { label: 'Pyramid 2', price: Number(trade.pyramid2Price), qty: Number(trade.pyramid2Qty) }
-      ].filter(e => e.price > 0 && e.qty > 0);
+      const entries = getEntryLegs(tradeLegs)
+        .map((leg, i) => ({ label: entryLegLabel(i), price: Number(leg.price), qty: Number(leg.qty) }))
+        .filter(e => e.price > 0 && e.qty > 0);
 
       const totalQtyAll = entries.reduce((sum, e) => sum + (e.qty || 0), 0);
       const tsl = Number(trade.tsl);
@@ -1240,11 +1252,9 @@ export const TradeJournal = React.memo(function TradeJournal({
       const openQty = Number(trade.openQty);
 
       // Calculate FIFO exit allocation per entry
-      const rrExitLots = [
-        { date: trade.exit1Date, qty: Number(trade.exit1Qty), price: Number(trade.exit1Price) },
-        { date: trade.exit2Date, qty: Number(trade.exit2Qty), price: Number(trade.exit2Price) },
-        { date: trade.exit3Date, qty: Number(trade.exit3Qty), price: Number(trade.exit3Price) }
-      ].filter(e => e.date && e.qty > 0 && e.price > 0);
+      const rrExitLots = getExitLegs(tradeLegs)
+        .map(leg => ({ date: leg.date, qty: Number(leg.qty), price: Number(leg.price) }))
+        .filter(e => e.date && e.qty > 0 && e.price > 0);
 
       // FIFO allocation: determine how much of each entry was exited
       let rrRemainingExits = rrExitLots.map(e => ({ ...e }));
@@ -1393,7 +1403,7 @@ export const TradeJournal = React.memo(function TradeJournal({
             'pyramid1Price', 'pyramid2Price', 'pyramid1Qty', 'pyramid2Qty',
             'exit1Price', 'exit2Price', 'exit3Price', 'exit1Qty', 'exit2Qty', 'exit3Qty',
             'tsl', 'rewardRisk', 'stockMove', 'pfImpact', 'cummPf', 'openHeat',
-            'unrealizedPL', 'realisedAmount', 'plRs'
+            'unrealizedPL', 'realisedAmount', 'plRs', 'netPlRs'
           ].includes(key)) return true;
 
           if (key.includes('Date') && (originalVal === '-' || originalVal === '')) return true;
@@ -1406,13 +1416,16 @@ export const TradeJournal = React.memo(function TradeJournal({
         // Handle accounting-aware calculations
         if (col.key === 'unrealizedPL') {
           if (trade.positionStatus === 'Open' || trade.positionStatus === 'Partial') {
-            value = calcUnrealizedPL(trade.avgEntry, trade.cmp, trade.openQty, trade.buySell);
+            value = calcUnrealizedPL(trade.avgEntry, trade.cmp, trade.openQty, trade.buySell, getContractMultiplier(trade));
           } else {
             value = "-";
           }
         } else if (col.key === 'plRs') {
           const tooltipValues = getAccountingAwareValues(trade);
           value = tooltipValues.plRs;
+        } else if (col.key === 'netPlRs') {
+          const tooltipValues = getAccountingAwareValues(trade);
+          value = tooltipValues.netPlRs;
         } else if (col.key === 'realisedAmount') {
           const tooltipValues = getAccountingAwareValues(trade);
           value = tooltipValues.realisedAmount;
@@ -1427,7 +1440,7 @@ export const TradeJournal = React.memo(function TradeJournal({
         // Format values appropriately
         if (["pyramid1Date", "pyramid2Date", "exit1Date", "exit2Date", "exit3Date"].includes(col.key)) {
           value = value ? formatDate(value as string) : "-";
-        } else if (["entry", "avgEntry", "sl", "tsl", "cmp", "pyramid1Price", "pyramid2Price", "exit1Price", "exit2Price", "exit3Price", "avgExitPrice", "realisedAmount", "plRs", "unrealizedPL"].includes(col.key)) {
+        } else if (["entry", "avgEntry", "sl", "tsl", "cmp", "pyramid1Price", "pyramid2Price", "exit1Price", "exit2Price", "exit3Price", "avgExitPrice", "realisedAmount", "plRs", "netPlRs", "unrealizedPL"].includes(col.key)) {
           value = typeof value === 'number' ? formatCurrency(value) : value;
         } else if (["pfImpact", "rewardRisk", "stockMove", "openHeat", "allocation", "slPercent"].includes(col.key)) {
           if (col.key !== 'pfImpact' && col.key !== 'cummPf') {
@@ -1463,16 +1476,14 @@ export const TradeJournal = React.memo(function TradeJournal({
 
       tradeTooltips.tradeDetails = {
         fields: tradeDetailsFields,
-        tradeName: trade.name,
+        tradeName: formatContractLabel(trade),
         accountingMethod: useCashBasis ? 'Cash Basis' : 'Accrual Basis'
       };
 
       // Pre-compute stock move tooltip
-      const stockMoveEntries = [
-        { price: trade.entry, qty: trade.initialQty, description: 'Initial Entry' },
-        { price: trade.pyramid1Price, qty: trade.pyramid1Qty, description: 'Pyramid 1' },
-        { price: trade.pyramid2Price, qty: trade.pyramid2Qty, description: 'Pyramid 2' }
-      ].filter(e => e.price > 0 && e.qty > 0);
+      const stockMoveEntries = getEntryLegs(tradeLegs)
+        .map((leg, i) => ({ price: leg.price, qty: leg.qty, description: entryLegLabel(i) }))
+        .filter(e => e.price > 0 && e.qty > 0);
 
       const individualMoves = calcIndividualMoves(
         stockMoveEntries,
@@ -1570,6 +1581,32 @@ export const TradeJournal = React.memo(function TradeJournal({
     );
   };
 
+  // Rules broken at entry (Settings → Rules), flagged under the symbol
+  const renderRuleViolations = (trade: Trade) => {
+    const violations = getViolations(trade.id);
+    if (violations.length === 0) return null;
+    return (
+      <Tooltip
+        content={
+          <div className="p-1 text-xs space-y-1">
+            <p className="font-semibold">Rules broken at entry</p>
+            {violations.map(violation => (
+              <p key={violation.ruleId}>{violation.message}</p>
+            ))}
+          </div>
+        }
+        placement="right"
+        delay={0}
+        closeDelay={0}
+      >
+        <div className="px-2 flex items-center gap-1 text-[10px] text-warning-600 whitespace-nowrap cursor-help">
+          <Icon icon="lucide:shield-alert" className="w-3 h-3" />
+          {violations.length === 1 ? '1 rule broken' : `${violations.length} rules broken`}
+        </div>
+      </Tooltip>
+    );
+  };
+
   const renderCell = React.useCallback((trade: Trade, columnKey: string) => {
     const cellValue = trade[columnKey as keyof Trade];
 
@@ -1588,6 +1625,12 @@ export const TradeJournal = React.memo(function TradeJournal({
               value={trade.name}
               onSave={(value) => handleInlineEditSave(trade.id, 'name', value)}
             />
+            {isDerivative(trade) && (
+              <div className="px-2 text-[10px] text-default-400 whitespace-nowrap">
+                {formatContractLabel(trade)}{trade.strategyName ? ` · ${trade.strategyName}` : ''}
+              </div>
+            )}
+            {renderRuleViolations(trade)}
           </div>
         );
       }
@@ -1628,6 +1671,12 @@ export const TradeJournal = React.memo(function TradeJournal({
               value={trade.name}
               onSave={(value) => handleInlineEditSave(trade.id, 'name', value)}
             />
+            {isDerivative(trade) && (
+              <div className="px-2 text-[10px] text-default-400 whitespace-nowrap">
+                {formatContractLabel(trade)}{trade.strategyName ? ` · ${trade.strategyName}` : ''}
+              </div>
+            )}
+            {renderRuleViolations(trade)}
           </div>
         </Tooltip>
       );
@@ -1820,6 +1869,39 @@ export const TradeJournal = React.memo(function TradeJournal({
       );
     }
 
+    // Net P/L: realized P/L after brokerage and statutory charges, with the breakup on hover
+    if (columnKey === "netPlRs") {
+      const accountingValues = getAccountingAwareValues(trade);
+      const charges = trade.charges;
+
+      return (
+        <Tooltip
+          isDisabled={!charges || charges.total === 0}
+          placement="top"
+          content={
+            charges ? (
+              <div className="p-2 text-xs space-y-1">
+                <div className="font-medium mb-1">Charges (all legs)</div>
+                <div className="flex justify-between gap-4"><span>Brokerage</span><span>₹{formatCurrency(charges.brokerage)}</span></div>
+                <div className="flex justify-between gap-4"><span>STT</span><span>₹{formatCurrency(charges.stt)}</span></div>
+                <div className="flex justify-between gap-4"><span>Exchange</span><span>₹{formatCurrency(charges.exchangeCharges)}</span></div>
+                <div className="flex justify-between gap-4"><span>SEBI</span><span>₹{formatCurrency(charges.sebiCharges)}</span></div>
+                <div className="flex justify-between gap-4"><span>Stamp Duty</span><span>₹{formatCurrency(charges.stampDuty)}</span></div>
+                <div className="flex justify-between gap-4"><span>GST</span><span>₹{formatCurrency(charges.gst)}</span></div>
+                <div className="flex justify-between gap-4"><span>IPFT</span><span>₹{formatCurrency(charges.ipft)}</span></div>
+                <div className="flex justify-between gap-4"><span>Other</span><span>₹{formatCurrency(charges.otherCharges)}</span></div>
+                <div className="flex justify-between gap-4 font-semibold border-t border-divider pt-1"><span>Total</span><span>₹{formatCurrency(charges.total)}</span></div>
+              </div>
+            ) : null
+          }
+        >
+          <div className={`py-1 px-2 text-right whitespace-nowrap ${getValueColor(accountingValues.netPlRs, columnKey)}`}>
+            {formatCellValue(accountingValues.netPlRs, columnKey)}
+          </div>
+        </Tooltip>
+      );
+    }
+
     // Special handling for openHeat BEFORE non-editable check
     if (columnKey === "openHeat") {
       // Only show open heat for open/partial positions
@@ -2182,13 +2264,32 @@ export const TradeJournal = React.memo(function TradeJournal({
         if (trade.positionStatus === 'Open' || trade.positionStatus === 'Partial') {
           return (
             <div className="py-1 px-2 text-right whitespace-nowrap">
-              {formatCellValue(calcUnrealizedPL(trade.avgEntry, trade.cmp, trade.openQty, trade.buySell), 'plRs')}
+              {formatCellValue(calcUnrealizedPL(trade.avgEntry, trade.cmp, trade.openQty, trade.buySell, getContractMultiplier(trade)), 'plRs')}
             </div>
           );
         } else {
           return <div className="py-1 px-2 text-right whitespace-nowrap">-</div>;
         }
 
+      case 'tags': {
+        const tradeTags = getTradeTags(trade, tags);
+        if (tradeTags.length === 0) return <div className="py-1 px-2 text-default-400">-</div>;
+        return (
+          <div className="py-1 px-2 flex flex-wrap gap-1 max-w-[220px]">
+            {tradeTags.map(tag => (
+              <Chip
+                key={tag.id}
+                size="sm"
+                variant="flat"
+                color={TRADE_TAG_CATEGORIES.find(category => category.id === tag.category)?.color}
+              >
+                {tag.name}
+              </Chip>
+            ))}
+          </div>
+        );
+      }
+
       case 'notes':
         return (
           <NotesCell
@@ -2201,7 +2302,7 @@ export const TradeJournal = React.memo(function TradeJournal({
         const val = trade[columnKey as keyof Trade];
         return val !== undefined && val !== null ? String(val) : "-";
     }
-  }, [editingId, handleInlineEditSave, isEditable, portfolioSize, getPortfolioSize]);
+  }, [editingId, handleInlineEditSave, isEditable, portfolioSize, getPortfolioSize, getViolations, tags]);
 
   // Stable stats calculation - prevent layout shifts and excessive recalculation
   const [statsLoaded, setStatsLoaded] = React.useState(true); // Start as loaded to prevent layout shift
@@ -2247,14 +2348,14 @@ export const TradeJournal = React.memo(function TradeJournal({
           const originalId = trade.id.split('_exit_')[0]; // Get original trade ID
           if (!processedTradeIds.has(originalId)) {
             processedTradeIds.add(originalId);
-            unrealizedPL += calcUnrealizedPL(trade.avgEntry, trade.cmp, trade.openQty, trade.buySell);
+            unrealizedPL += calcUnrealizedPL(trade.avgEntry, trade.cmp, trade.openQty, trade.buySell, getContractMultiplier(trade));
           }
         });
     } else {
       // For accrual basis, straightforward calculation
       unrealizedPL = tradesForStats
         .filter(trade => trade.positionStatus === 'Open' || trade.positionStatus === 'Partial')
-        .reduce((sum, trade) => sum + calcUnrealizedPL(trade.avgEntry, trade.cmp, trade.openQty, trade.buySell), 0);
+        .reduce((sum, trade) => sum + calcUnrealizedPL(trade.avgEntry, trade.cmp, trade.openQty, trade.buySell, getContractMultiplier(trade)), 0);
     }
 
     const openImpact = portfolioSize > 0 ? (unrealizedPL / portfolioSize) * 100 : 0;
@@ -2460,13 +2561,13 @@ export const TradeJournal = React.memo(function TradeJournal({
     console.log(`[fetchPricesForOpenTrades] Fetching prices for ${openTrades.length} open trades`);
 
     for (const trade of openTrades) {
-      if (trade.name) {
+      if (trade.name && !isDerivative(trade)) {
         try {
           console.log(`[fetchPricesForOpenTrades] Fetching price for ${trade.name}`);
           let priceData;
 
-          // Use smart fetch that prioritizes historical fallback during night hours (3:55-9:15 AM)
-          priceData = await fetchPriceTicksSmart(trade.name);
+          // Selected price provider (Strike by default, with its night-hours historical fallback)
+          priceData = await fetchPriceTicksFromProvider(trade.name);
 
           const ticks = priceData?.data?.ticks?.[trade.name.toUpperCase()];
           if (ticks && ticks.length > 0) {
@@ -2543,6 +2644,18 @@ export const TradeJournal = React.memo(function TradeJournal({
       `}</style>
 
       <div className="flex flex-col gap-4 mb-6">
+        <JournalViewsBar
+          query={advancedQuery}
+          onQueryChange={setAdvancedQuery}
+          activeViewId={activeViewId}
+          onActiveViewChange={setActiveViewId}
+          visibleColumns={visibleColumns}
+          sortDescriptor={sortDescriptor}
+          onApplyView={(view) => {
+            setVisibleColumns(view.visibleColumns);
+            setSortDescriptor(view.sortDescriptor);
+          }}
+        />
         <AnimatePresence>
           {/* <div>
             <h1 className="text-2xl font-bold tracking-tight">{title}</h1>
@@ -2592,8 +2705,54 @@ export const TradeJournal = React.memo(function TradeJournal({
                 </DropdownMenu>
               </Dropdown>
 
+              <Dropdown>
+                <DropdownTrigger>
+                  <Button
+                    variant="flat"
+                    size="sm"
+                    className="bg-default-100 dark:bg-gray-900 text-foreground dark:text-white min-w-[100px] h-9"
+                    startContent={<Icon icon="lucide:tags" className="text-sm" />}
+                    endContent={<Icon icon="lucide:chevron-down" className="text-sm dark:text-gray-400" />}
+                  >
+                    Tags{tagFilter.length > 0 ? `: ${tagFilter.length}` : ''}
+                  </Button>
+                </DropdownTrigger>
+                <DropdownMenu
+                  aria-label="Tag filter"
+                  className="dark:bg-gray-900 max-h-[400px] overflow-y-auto"
+                  closeOnSelect={false}
+                  selectionMode="multiple"
+                  selectedKeys={new Set(tagFilter)}
+                  onSelectionChange={(keys) => setTagFilter(Array.from(keys as Set<string>))}
+                  classNames={{
+                    base: "dark:bg-gray-900",
+                  }}
+                >
+                  {TRADE_TAG_CATEGORIES.map(category => (
+                    <DropdownSection key={category.id} title={category.label}>
+                      {tags.filter(tag => tag.category === category.id).map(tag => (
+                        <DropdownItem key={tag.id} className="dark:text-white dark:hover:bg-gray-800">{tag.name}</DropdownItem>
+                      ))}
+                    </DropdownSection>
+                  ))}
+                </DropdownMenu>
+              </Dropdown>
+
+              {tagFilter.length > 1 && (
+                <Tooltip content={tagFilterMode === 'all' ? "Trades with every selected tag" : "Trades with any selected tag"}>
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    className="h-9 min-w-[60px]"
+                    onPress={() => setTagFilterMode(tagFilterMode === 'all' ? 'any' : 'all')}
+                  >
+                    {tagFilterMode === 'all' ? 'All' : 'Any'}
+                  </Button>
+                </Tooltip>
+              )}
+
               {/* Temporary debug button to clear filters */}
-              {(searchQuery || statusFilter) && (
+              {(searchQuery || statusFilter || tagFilter.length > 0 || advancedQuery) && (
                 <Button
                   size="sm"
                   variant="flat"
@@ -2601,6 +2760,9 @@ export const TradeJournal = React.memo(function TradeJournal({
                   onPress={() => {
                     setSearchQuery('');
                     setStatusFilter('');
+                    setTagFilter([]);
+                    setAdvancedQuery(null);
+                    setActiveViewId(null);
 
                   }}
                   startContent={<Icon icon="lucide:x" />}
@@ -2977,7 +3139,7 @@ export const TradeJournal = React.memo(function TradeJournal({
               }
               const breakdown = openTrades
                 .map(t => {
-                  const unrealizedPL = calcUnrealizedPL(t.avgEntry, t.cmp, t.openQty, t.buySell);
+                  const unrealizedPL = calcUnrealizedPL(t.avgEntry, t.cmp, t.openQty, t.buySell, getContractMultiplier(t));
                   const pfImpact = portfolioSize > 0 ? (unrealizedPL / portfolioSize) * 100 : 0;
                   return {
                     name: t.name || 'N/A',
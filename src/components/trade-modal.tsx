@@ -18,35 +18,38 @@ import {
 } from "@heroui/react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Icon } from "@iconify/react";
-import { Trade, ChartImage, TradeChartAttachments } from "../types/trade";
+import { Trade, TradeLeg, ChartImage, TradeChartAttachments } from "../types/trade";
 import { generateId } from "../utils/helpers";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { usePriceTicks } from "../hooks/usePriceTicks";
-import { fetchPriceTicks, fetchPriceTicksWithFallback, fetchPriceTicksWithHistoricalFallback, fetchPriceTicksSmart } from '../utils/priceTickApi';
+import { fetchPriceTicksFromProvider } from '../utils/priceProviders';
 import { ChartImageUpload } from "./ChartImageUpload";
 import { ChartImageViewer } from "./ChartImageViewer";
 import { UniversalChartViewer } from "./UniversalChartViewer";
+import { TradeLegsEditor } from "./TradeLegsEditor";
+import { PositionSizingCalculator } from "./PositionSizingCalculator";
+import { TradeTagPicker } from "./TradeTagPicker";
 import {
   calcAvgEntry,
   calcPositionSize,
   calcAllocation,
   calcSLPercent,
-  calcOpenQty,
-  calcExitedQty,
   calcAvgExitPrice,
   calcStockMove,
   calcRewardRisk,
   calcHoldingDays,
   calcRealisedAmount,
-  calcPLRs,
   calcPFImpact,
   calcCummPf,
   calcUnrealizedPL,
-  calcRealizedPL_FIFO
+  calcRealizedPL_FIFO,
+  calcOpenHeat
 } from "../utils/tradeCalculations";
 import { useTruePortfolioWithTrades } from "../hooks/use-true-portfolio-with-trades";
 import { useTrades } from "../hooks/use-trades";
 import { validateTrade, TradeIssue } from "../utils/tradeValidations";
+import { mergeLegacyFieldsIntoLegs, applyLegs, getEntryLegs, getExitLegs } from "../utils/tradeLegs";
+import { getContractMultiplier, isDerivative, INSTRUMENT_TYPE_LABELS, OPTION_TYPE_LABELS } from "../utils/derivatives";
 import * as Papa from "papaparse"; // Centralized import
 
   // Debounce helper
@@ -138,16 +141,15 @@ import * as Papa from "papaparse"; // Centralized import
     defaultPortfolioSize: number,
     getPortfolioSize?: (month: string, year: number) => number
   ): TradeModalFormData => {
-    // Safely parse and filter entries
-    const entries: TradeEntry[] = [
-      { price: Number(trade.entry || 0), qty: Number(trade.initialQty || 0) },
-      { price: Number(trade.pyramid1Price || 0), qty: Number(trade.pyramid1Qty || 0) },
-      { price: Number(trade.pyramid2Price || 0), qty: Number(trade.pyramid2Qty || 0) }
-    ].filter(e => e.qty > 0 && e.price > 0);
-
-    const avgEntry = entries.length > 0 ? calcAvgEntry(entries) : Number(trade.entry) || 0;
+    // Reconcile legs with the slot fields shown in the form, then work from the legs
+    const legs = mergeLegacyFieldsIntoLegs(trade);
+    const entries: TradeEntry[] = getEntryLegs(legs).filter(e => e.price > 0);
+
+    const avgEntry = entries.length > 0 ? calcAvgEntry(legs) : Number(trade.entry) || 0;
     const totalQty = entries.reduce((sum, e) => sum + e.qty, 0);
-    const positionSize = totalQty > 0 ? calcPositionSize(avgEntry, totalQty) : 0;
+    // F&O quantities are in lots
+    const multiplier = getContractMultiplier(trade);
+    const positionSize = totalQty > 0 ? calcPositionSize(avgEntry, totalQty, multiplier) : 0;
     // Get the portfolio size for the trade's month/year
     let tradePortfolioSize = defaultPortfolioSize;
     if (trade.date && getPortfolioSize) {
@@ -164,20 +166,11 @@ import * as Papa from "papaparse"; // Centralized import
       calcAllocation(positionSize, tradePortfolioSize) : 0;
     
     // Calculate exits
-    const exit1Qty = Number(trade.exit1Qty || 0);
-    const exit2Qty = Number(trade.exit2Qty || 0);
-    const exit3Qty = Number(trade.exit3Qty || 0);
-    
-    const exitedQty = calcExitedQty(exit1Qty, exit2Qty, exit3Qty);
+    const exits: TradeEntry[] = getExitLegs(legs).filter(e => e.price > 0);
+    const exitedQty = exits.reduce((sum, e) => sum + e.qty, 0);
     const openQty = Math.max(0, totalQty - exitedQty);
     
-    const exits: TradeEntry[] = [
-      { price: Number(trade.exit1Price || 0), qty: exit1Qty },
-      { price: Number(trade.exit2Price || 0), qty: exit2Qty },
-      { price: Number(trade.exit3Price || 0), qty: exit3Qty }
-    ].filter(e => e.qty > 0 && e.price > 0);
-    
-    const avgExitPrice = exits.length > 0 ? calcAvgExitPrice(exits) : 0;
+    const avgExitPrice = exits.length > 0 ? calcAvgExitPrice(legs) : 0;
     const stockMove = avgEntry > 0 ? calcStockMove(avgEntry, avgExitPrice, Number(trade.cmp || 0), openQty, exitedQty, trade.positionStatus || 'Open', trade.buySell || 'Buy') : 0;
     
     // Calculate SL percentage
@@ -190,24 +183,11 @@ import * as Papa from "papaparse"; // Centralized import
     const rewardRisk = entryPrice > 0 && slPrice > 0 ? calcRewardRisk(cmp, entryPrice, slPrice, trade.positionStatus || 'Open', avgExitPrice, openQty, exitedQty, trade.buySell || 'Buy') : 0;
     
     // Calculate holding period
-    const entryDate = trade.date || '';
-    const exitDate = trade.exit1Date || '';
-    const holdingDays = entryDate && exitDate ? calcHoldingDays(entryDate, exitDate) : 0;
+    const holdingDays = calcHoldingDays(legs);
     
     // Calculate P&L
-    const realisedAmount = exitedQty > 0 ? calcRealisedAmount(exitedQty, avgExitPrice) : 0;
-    // Build entry and exit lots for FIFO
-    const entryLots = [
-      { price: Number(trade.entry || 0), qty: Number(trade.initialQty || 0) },
-      { price: Number(trade.pyramid1Price || 0), qty: Number(trade.pyramid1Qty || 0) },
-      { price: Number(trade.pyramid2Price || 0), qty: Number(trade.pyramid2Qty || 0) }
-    ].filter(e => e.qty > 0 && e.price > 0);
-    const exitLots = [
-      { price: Number(trade.exit1Price || 0), qty: exit1Qty },
-      { price: Number(trade.exit2Price || 0), qty: exit2Qty },
-      { price: Number(trade.exit3Price || 0), qty: exit3Qty }
-    ].filter(e => e.qty > 0 && e.price > 0);
-    const plRs = exitedQty > 0 ? calcRealizedPL_FIFO(entryLots, exitLots, trade.buySell as 'Buy' | 'Sell') : 0;
+    const realisedAmount = exitedQty > 0 ? calcRealisedAmount(exitedQty, avgExitPrice, multiplier) : 0;
+    const plRs = exitedQty > 0 ? calcRealizedPL_FIFO(legs, trade.buySell as 'Buy' | 'Sell', multiplier) : 0;
     // Note: PF Impact calculation in trade modal uses entry date portfolio size
     // This is acceptable for preview as accounting method-specific recalculation
     // will happen when the trade is saved to the main trade processing pipeline
@@ -215,6 +195,7 @@ import * as Papa from "papaparse"; // Centralized import
     
     return {
       ...(trade as TradeModalFormData),
+      legs,
       avgEntry,
       positionSize,
       allocation,
@@ -246,7 +227,7 @@ import * as Papa from "papaparse"; // Centralized import
     // Track if CMP was manually set by user
     const [cmpManuallySet, setCmpManuallySet] = React.useState(false);
 
-    const { trades } = useTrades();
+    const { trades, originalTrades } = useTrades();
     const { portfolioSize, getPortfolioSize } = useTruePortfolioWithTrades(trades);
     // Reset form when symbol changes - moved after handleChange is defined
 
@@ -344,6 +325,7 @@ import * as Papa from "papaparse"; // Centralized import
   const [chartViewerImage, setChartViewerImage] = React.useState<ChartImage | null>(null);
   const [isChartViewerOpen, setIsChartViewerOpen] = React.useState(false);
   const [isUniversalViewerOpen, setIsUniversalViewerOpen] = React.useState(false);
+  const [universalViewerView, setUniversalViewerView] = React.useState<'images' | 'price'>('images');
   const [chartRefreshTrigger, setChartRefreshTrigger] = React.useState(0);
 
   // Reset tabs when entering special modes
@@ -599,7 +581,12 @@ import * as Papa from "papaparse"; // Centralized import
     formData.sl,
     formData.cmp,
     formData.date,
+    formData.pyramid1Date,
+    formData.pyramid2Date,
     formData.exit1Date,
+    formData.exit2Date,
+    formData.exit3Date,
+    formData.legs,
     portfolioSize,
     isDirty,
     mode
@@ -743,7 +730,7 @@ import * as Papa from "papaparse"; // Centralized import
 
     // Convert numeric fields to numbers
     const numericFields = [
-      'entry', 'sl', 'tsl', 'cmp', 'initialQty',
+      'entry', 'sl', 'tsl', 'cmp', 'initialQty', 'lotSize', 'strike',
       'pyramid1Price', 'pyramid1Qty', 'pyramid2Price', 'pyramid2Qty',
       'exit1Price', 'exit1Qty', 'exit2Price', 'exit2Qty', 'exit3Price', 'exit3Qty'
     ];
@@ -765,11 +752,12 @@ import * as Papa from "papaparse"; // Centralized import
       ...(field === 'cmp' ? { _cmpAutoFetched: false } : {})
     };
 
-    if (field === 'name' && processedValue && !cmpManuallySet) {
+    // Option premiums and futures prices are not the underlying's price
+    if (field === 'name' && processedValue && !cmpManuallySet && !isDerivative(formData)) {
       try {
         console.log("[TradeModal] Fetching price for symbol:", processedValue);
-        // Use smart fetch that prioritizes historical fallback during night hours (3:55-9:15 AM)
-        const priceData = await fetchPriceTicksSmart(processedValue);
+        // Selected price provider (Strike by default, with its night-hours historical fallback)
+        const priceData = await fetchPriceTicksFromProvider(processedValue);
         const ticks = priceData?.data?.ticks?.[processedValue.toUpperCase()];
         if (ticks && ticks.length > 0) {
           const latestTick = ticks[ticks.length - 1];
@@ -803,6 +791,12 @@ import * as Papa from "papaparse"; // Centralized import
     setFormData(updatedFormData);
   }, [calculatedFieldNames, formData, cmpManuallySet]);
 
+  // Legs tab edits the full execution list; the slot fields are re-derived from it
+  const handleLegsChange = React.useCallback((legs: TradeLeg[]) => {
+    setIsDirty(true);
+    setFormData(prev => applyLegs(prev, legs));
+  }, []);
+
   // Reset form when symbol changes
   React.useEffect(() => {
     if (initialSymbol && mode === 'add') {
@@ -937,16 +931,46 @@ import * as Papa from "papaparse"; // Centralized import
     initial: { opacity: 0, scale: 0.98, y: 10 }
   }), []);
 
+  const instrumentType = formData.instrumentType || 'EQ';
+
+  // Portfolio size of the trade's month and open heat of the other open positions, for sizing
+  const sizingPortfolioSize = React.useMemo(() => {
+    const tradeDate = formData.date ? new Date(formData.date) : new Date();
+    if (isNaN(tradeDate.getTime())) return portfolioSize;
+    const month = tradeDate.toLocaleString('default', { month: 'short' });
+    return getPortfolioSize(month, tradeDate.getFullYear()) || portfolioSize;
+  }, [formData.date, portfolioSize, getPortfolioSize]);
+
+  const otherOpenHeat = React.useMemo(() => {
+    const otherTrades = originalTrades.filter(t => t.id !== formData.id);
+    return calcOpenHeat(otherTrades, portfolioSize, getPortfolioSize);
+  }, [originalTrades, formData.id, portfolioSize, getPortfolioSize]);
+
   const basicFields = React.useMemo(() => [
     { name: "tradeNo", label: "Trade No.", type: "text" },
     { name: "date", label: "Date", type: "date" },
-    { name: "name", label: "Stock/Asset Name", type: "text" },
-    { name: "entry", label: "Entry Price (₹)", type: "number", unit: "₹" },
+    { name: "name", label: instrumentType === 'EQ' ? "Stock/Asset Name" : "Underlying", type: "text" },
+    { name: "instrumentType", label: "Instrument", type: "select", options: ["EQ", "FUT", "OPT"], optionLabels: INSTRUMENT_TYPE_LABELS },
+    // Contract details of futures and options
+    ...(instrumentType !== 'EQ' ? [
+      { name: "lotSize", label: "Lot Size (units)", type: "number", unit: "units" },
+      { name: "expiry", label: "Expiry", type: "date" }
+    ] : []),
+    ...(instrumentType === 'OPT' ? [
+      { name: "strike", label: "Strike (₹)", type: "number", unit: "₹" },
+      { name: "optionType", label: "Option Type", type: "select", options: ["CE", "PE"], optionLabels: OPTION_TYPE_LABELS }
+    ] : []),
+    ...(instrumentType !== 'EQ' ? [
+      { name: "strategyName", label: "Strategy Name (optional)", type: "text" }
+    ] : []),
+    { name: "entry", label: instrumentType === 'OPT' ? "Entry Premium (₹)" : "Entry Price (₹)", type: "number", unit: "₹" },
     { name: "sl", label: "Stop Loss (SL) (₹)", type: "number", unit: "₹" },
     { name: "tsl", label: "Trailing SL (TSL) (₹)", type: "number", unit: "₹" },
     { name: "cmp", label: "Current Market Price (₹)", type: "number", unit: "₹" },
     { name: "buySell", label: "Buy/Sell", type: "select", options: ["Buy", "Sell"] },
-    { name: "initialQty", label: "Initial Quantity (qty)", type: "number", unit: "qty" },
+    instrumentType === 'EQ'
+      ? { name: "initialQty", label: "Initial Quantity (qty)", type: "number", unit: "qty" }
+      : { name: "initialQty", label: "Initial Quantity (lots)", type: "number", unit: "lots" },
     { 
       name: "setup", 
       label: "Setup", 
@@ -1014,7 +1038,7 @@ import * as Papa from "papaparse"; // Centralized import
         "Too Tight SL"
       ]
     }
-  ], []);
+  ], [instrumentType]);
 
   const advancedFields = React.useMemo(() => [
     // Pyramid 1
@@ -1068,7 +1092,7 @@ import * as Papa from "papaparse"; // Centralized import
   const currentFields = React.useMemo(() => {
     // Always return fields, never empty array to avoid virtualizer issues
     return activeTab === "basic" ? basicFields : advancedFields;
-  }, [activeTab]);
+  }, [activeTab, basicFields]);
 
   const rowVirtualizer = useVirtualizer({
     count: currentFields.length,
@@ -1186,13 +1210,13 @@ import * as Papa from "papaparse"; // Centralized import
           <Select
             key={field.name}
             label={field.label}
-            selectedKeys={[formData[field.name]]}
+            selectedKeys={[field.name === "instrumentType" ? instrumentType : formData[field.name]]}
             onChange={(e) => handleChange(field.name, e.target.value)}
             variant="bordered"
             className="transform-gpu"
           >
             {field.options.map((opt: string) => (
-              <SelectItem key={opt}>{opt}</SelectItem>
+              <SelectItem key={opt}>{field.optionLabels?.[opt] || opt}</SelectItem>
             ))}
           </Select>
         );
@@ -1228,7 +1252,7 @@ import * as Papa from "papaparse"; // Centralized import
           />
         );
     }
-  }, [formData, handleChange, calculatedFieldNames]);
+  }, [formData, handleChange, calculatedFieldNames, instrumentType]);
 
   const renderFields = () => {
     // Don't render fields for charts tab - this function should only be called for basic/advanced
@@ -1554,7 +1578,7 @@ import * as Papa from "papaparse"; // Centralized import
     <Modal
       isOpen={isOpen}
       onOpenChange={onOpenChange}
-      size={activeTab === 'charts' ? "3xl" : "2xl"}
+      size={activeTab === 'charts' ? "3xl" : activeTab === 'legs' ? "xl" : "2xl"}
       scrollBehavior="inside"
       motionProps={modalMotionProps}
       classNames={{
@@ -1568,6 +1592,8 @@ import * as Papa from "papaparse"; // Centralized import
       <ModalContent className={`bg-white/95 dark:bg-gray-900/95 backdrop-blur-2xl border border-gray-200 dark:border-gray-700 shadow-2xl max-h-[85vh] z-[9999] ${
         activeTab === 'charts'
           ? 'w-[90vw] max-w-4xl'
+          : activeTab === 'legs'
+          ? 'w-[95vw] max-w-xl'
           : 'w-[95vw] max-w-md'
       }`}>
         {(onClose) => (
@@ -1610,6 +1636,12 @@ import * as Papa from "papaparse"; // Centralized import
                     isDisabled={isUploadOnlyMode}
                     className={isUploadOnlyMode ? "opacity-50 cursor-not-allowed" : ""}
                   />
+                  <Tab
+                    key="legs"
+                    title="Legs"
+                    isDisabled={isUploadOnlyMode}
+                    className={isUploadOnlyMode ? "opacity-50 cursor-not-allowed" : ""}
+                  />
                   <Tab
                     key="charts"
                     title="Charts"
@@ -1655,12 +1687,29 @@ import * as Papa from "papaparse"; // Centralized import
                           </p>
                         </div>
                       )}
-                      <div className="flex justify-end mb-6">
+                      <div className="flex justify-end gap-2 mb-6">
+                        {trade && (
+                          <Button
+                            color="primary"
+                            variant="light"
+                            size="sm"
+                            onPress={() => {
+                              setUniversalViewerView('price');
+                              setIsUniversalViewerOpen(true);
+                            }}
+                            startContent={<Icon icon="lucide:candlestick-chart" className="w-4 h-4" />}
+                          >
+                            Price Chart
+                          </Button>
+                        )}
                         <Button
                           color="primary"
                           variant="flat"
                           size="sm"
-                          onPress={() => setIsUniversalViewerOpen(true)}
+                          onPress={() => {
+                            setUniversalViewerView('images');
+                            setIsUniversalViewerOpen(true);
+                          }}
                           startContent={<Icon icon="lucide:images" className="w-4 h-4" />}
                         >
                           Browse All Charts
@@ -1772,7 +1821,36 @@ import * as Papa from "papaparse"; // Centralized import
                         </div>
                       )}
 
-                      {renderFields()}
+                      {activeTab === 'basic' && (
+                        <PositionSizingCalculator
+                          entry={Number(formData.entry) || 0}
+                          sl={Number(formData.sl) || 0}
+                          buySell={formData.buySell === 'Sell' ? 'Sell' : 'Buy'}
+                          multiplier={getContractMultiplier(formData)}
+                          portfolioSize={sizingPortfolioSize}
+                          currentOpenHeat={otherOpenHeat}
+                          enteredQty={Number(formData.initialQty) || 0}
+                          onApplyQuantity={(qty) => handleChange('initialQty', qty)}
+                        />
+                      )}
+
+                      {activeTab === 'legs' ? (
+                        <TradeLegsEditor
+                          legs={mergeLegacyFieldsIntoLegs(formData)}
+                          buySell={formData.buySell}
+                          defaultDate={formData.date}
+                          onChange={handleLegsChange}
+                        />
+                      ) : (
+                        renderFields()
+                      )}
+
+                      {activeTab === 'basic' && (
+                        <TradeTagPicker
+                          value={formData.tags || []}
+                          onChange={(tags) => handleChange('tags', tags)}
+                        />
+                      )}
                     </>
                   )}
                 </motion.div>
@@ -1821,6 +1899,7 @@ import * as Papa from "papaparse"; // Centralized import
         onOpenChange={setIsUniversalViewerOpen}
         initialChartImage={chartViewerImage}
         initialTradeId={formData.id}
+        initialView={universalViewerView}
         refreshTrigger={chartRefreshTrigger}
       />
     </Modal>
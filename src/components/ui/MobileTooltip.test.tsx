@@ -1,10 +1,11 @@
+// @vitest-environment jsdom
 import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
-import '@testing-library/jest-dom';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
 import MobileTooltip from './MobileTooltip';
 
 // Mock HeroUI Tooltip component
-jest.mock('@heroui/react', () => ({
+vi.mock('@heroui/react', () => ({
   Tooltip: ({ children, content, isOpen, onOpenChange, ...props }: any) => (
     <div data-testid="tooltip-wrapper" data-open={isOpen} {...props}>
       {children}
@@ -14,6 +15,8 @@ jest.mock('@heroui/react', () => ({
 }));
 
 describe('MobileTooltip', () => {
+  afterEach(cleanup);
+
   beforeEach(() => {
     // Reset window size and touch capabilities
     Object.defineProperty(window, 'innerWidth', {
@@ -22,11 +25,8 @@ describe('MobileTooltip', () => {
       value: 1024,
     });
     
-    Object.defineProperty(window, 'ontouchstart', {
-      writable: true,
-      configurable: true,
-      value: undefined,
-    });
+    // The component checks `'ontouchstart' in window`, so the property has to be removed
+    delete (window as any).ontouchstart;
     
     Object.defineProperty(navigator, 'maxTouchPoints', {
       writable: true,
@@ -119,7 +119,7 @@ describe('MobileTooltip', () => {
   });
 
   it('preserves original onClick handler', () => {
-    const originalOnClick = jest.fn();
+    const originalOnClick = vi.fn();
 
     render(
       <MobileTooltip content="Test tooltip">
@@ -0,0 +1,123 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { AccountRecord, DatabaseService, DEFAULT_ACCOUNT } from '../db/database';
+import { ALL_ACCOUNTS_ID, AccountType, DEFAULT_ACCOUNT_ID } from '../utils/accounts';
+
+interface AccountContextType {
+  accounts: AccountRecord[];
+  // Selected account id, or ALL_ACCOUNTS_ID for the consolidated view
+  activeAccountId: string;
+  activeAccount: AccountRecord | null;
+  isAllAccounts: boolean;
+  // Account that new trades and capital entries go to; the default account in the consolidated view
+  writableAccountId: string;
+  setActiveAccountId: (id: string) => void;
+  addAccount: (name: string, type: AccountType, broker?: string) => Promise<AccountRecord | null>;
+  updateAccount: (account: AccountRecord) => Promise<boolean>;
+  deleteAccount: (id: string) => Promise<boolean>;
+  getAccountName: (id?: string) => string;
+}
+
+const AccountContext = createContext<AccountContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'activeAccountId';
+
+interface AccountProviderProps {
+  children: ReactNode;
+}
+
+export const AccountProvider: React.FC<AccountProviderProps> = ({ children }) => {
+  const [accounts, setAccounts] = useState<AccountRecord[]>([DEFAULT_ACCOUNT]);
+  const [activeAccountId, setActiveAccountIdState] = useState<string>(() => {
+    try {
+      return localStorage.getItem(STORAGE_KEY) || DEFAULT_ACCOUNT_ID;
+    } catch (error) {
+      return DEFAULT_ACCOUNT_ID;
+    }
+  });
+
+  // Load accounts from IndexedDB on mount
+  useEffect(() => {
+    DatabaseService.getAccounts().then(loaded => {
+      setAccounts(loaded);
+      // The stored selection may point at an account that was deleted meanwhile
+      setActiveAccountIdState(prev =>
+        prev === ALL_ACCOUNTS_ID || loaded.some(account => account.id === prev) ? prev : DEFAULT_ACCOUNT_ID
+      );
+    });
+  }, []);
+
+  const setActiveAccountId = React.useCallback((id: string) => {
+    setActiveAccountIdState(id);
+    try {
+      localStorage.setItem(STORAGE_KEY, id);
+    } catch (error) {
+      console.error('Error saving active account to localStorage:', error);
+    }
+  }, []);
+
+  const addAccount = React.useCallback(async (name: string, type: AccountType, broker?: string) => {
+    const account: AccountRecord = {
+      id: `account_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim(),
+      type,
+      broker: broker?.trim() || undefined,
+      createdAt: new Date()
+    };
+    const success = await DatabaseService.saveAccount(account);
+    if (!success) return null;
+    setAccounts(prev => [...prev, account]);
+    return account;
+  }, []);
+
+  const updateAccount = React.useCallback(async (account: AccountRecord) => {
+    const success = await DatabaseService.saveAccount(account);
+    if (success) {
+      setAccounts(prev => prev.map(item => item.id === account.id ? account : item));
+    }
+    return success;
+  }, []);
+
+  const deleteAccount = React.useCallback(async (id: string) => {
+    const success = await DatabaseService.deleteAccount(id);
+    if (success) {
+      setAccounts(prev => prev.filter(account => account.id !== id));
+      if (activeAccountId === id) setActiveAccountId(DEFAULT_ACCOUNT_ID);
+    }
+    return success;
+  }, [activeAccountId, setActiveAccountId]);
+
+  const getAccountName = React.useCallback((id?: string) => {
+    const accountId = id || DEFAULT_ACCOUNT_ID;
+    return accounts.find(account => account.id === accountId)?.name || 'Unknown account';
+  }, [accounts]);
+
+  const isAllAccounts = activeAccountId === ALL_ACCOUNTS_ID;
+  const activeAccount = isAllAccounts ? null : accounts.find(account => account.id === activeAccountId) || null;
+
+  const contextValue = React.useMemo(() => ({
+    accounts,
+    activeAccountId,
+    activeAccount,
+    isAllAccounts,
+    writableAccountId: isAllAccounts ? DEFAULT_ACCOUNT_ID : activeAccountId,
+    setActiveAccountId,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    getAccountName
+  }), [accounts, activeAccountId, activeAccount, isAllAccounts, setActiveAccountId, addAccount, updateAccount, deleteAccount, getAccountName]);
+
+  return (
+    <AccountContext.Provider value={contextValue}>
+      {children}
+    </AccountContext.Provider>
+  );
+};
+
+export const useAccount = (): AccountContextType => {
+  const context = useContext(AccountContext);
+  if (!context) {
+    throw new Error('useAccount must be used within an AccountProvider');
+  }
+  return context;
+};
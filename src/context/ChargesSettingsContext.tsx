@@ -0,0 +1,79 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { ChargesSettings, DEFAULT_CHARGES_SETTINGS } from '../utils/chargesCalculator';
+
+interface ChargesSettingsContextType {
+  chargesSettings: ChargesSettings;
+  updateChargesSettings: (changes: Partial<ChargesSettings>) => void;
+  resetChargesSettings: () => void;
+}
+
+const ChargesSettingsContext = createContext<ChargesSettingsContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'chargesSettings';
+
+interface ChargesSettingsProviderProps {
+  children: ReactNode;
+}
+
+export const ChargesSettingsProvider: React.FC<ChargesSettingsProviderProps> = ({ children }) => {
+  const [chargesSettings, setChargesSettings] = useState<ChargesSettings>(DEFAULT_CHARGES_SETTINGS);
+
+  // Load charges settings from localStorage on mount
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        setChargesSettings({
+          ...DEFAULT_CHARGES_SETTINGS,
+          ...parsed,
+          customPlan: { ...DEFAULT_CHARGES_SETTINGS.customPlan, ...(parsed.customPlan || {}) }
+        });
+      }
+    } catch (error) {
+      console.error('Error loading charges settings from localStorage:', error);
+    }
+  }, []);
+
+  const persist = React.useCallback((settings: ChargesSettings) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving charges settings to localStorage:', error);
+    }
+  }, []);
+
+  const updateChargesSettings = React.useCallback((changes: Partial<ChargesSettings>) => {
+    setChargesSettings(prev => {
+      const next = { ...prev, ...changes };
+      persist(next);
+      return next;
+    });
+  }, [persist]);
+
+  const resetChargesSettings = React.useCallback(() => {
+    setChargesSettings(DEFAULT_CHARGES_SETTINGS);
+    persist(DEFAULT_CHARGES_SETTINGS);
+    console.log('🔄 Reset charges settings to defaults');
+  }, [persist]);
+
+  const contextValue = React.useMemo(() => ({
+    chargesSettings,
+    updateChargesSettings,
+    resetChargesSettings
+  }), [chargesSettings, updateChargesSettings, resetChargesSettings]);
+
+  return (
+    <ChargesSettingsContext.Provider value={contextValue}>
+      {children}
+    </ChargesSettingsContext.Provider>
+  );
+};
+
+export const useChargesSettings = (): ChargesSettingsContextType => {
+  const context = useContext(ChargesSettingsContext);
+  if (!context) {
+    throw new Error('useChargesSettings must be used within a ChargesSettingsProvider');
+  }
+  return context;
+};
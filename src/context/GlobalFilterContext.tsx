@@ -8,8 +8,24 @@ export interface GlobalFilter {
   year?: number;
   month?: number; // 0-11
   fyStartYear?: number;
+
+  // Trade dimensions; an empty or missing list does not filter
+  symbols?: string[];
+  setups?: string[];
+  sectors?: string[];
+  industries?: string[];
+  directions?: Array<"Buy" | "Sell">;
+  statuses?: Array<"Open" | "Closed" | "Partial">;
 }
 
+export type GlobalFilterDimension = "symbols" | "setups" | "sectors" | "industries" | "directions" | "statuses";
+
+export const GLOBAL_FILTER_DIMENSIONS: GlobalFilterDimension[] = ["symbols", "setups", "sectors", "industries", "directions", "statuses"];
+
+/** Number of trade dimensions with a selection */
+export const countDimensionFilters = (filter: GlobalFilter): number =>
+  GLOBAL_FILTER_DIMENSIONS.filter(dimension => (filter[dimension]?.length ?? 0) > 0).length;
+
 const defaultFilter: GlobalFilter = { type: "all" };
 
 // localStorage helpers for global filter
@@ -73,7 +89,7 @@ export const GlobalFilterProvider: React.FC<{ children: React.ReactNode }> = ({
   React.useEffect(() => {
     // Only save if the filter is different from the default, to avoid saving empty state
     // A more robust check for default filter state
-    const isEffectivelyDefault = filter.type === defaultFilter.type && !filter.startDate && !filter.endDate;
+    const isEffectivelyDefault = filter.type === defaultFilter.type && !filter.startDate && !filter.endDate && countDimensionFilters(filter) === 0;
 
     if (!isEffectivelyDefault) { // Save if it's not the default filter
       saveGlobalFilterToLocalStorage(filter);
@@ -0,0 +1,84 @@
+import React, { createContext, useContext, useState, ReactNode } from 'react';
+import {
+  DEFAULT_MARKET_CALENDAR_SETTINGS,
+  MarketCalendarOverride,
+  MarketCalendarSettings,
+  loadMarketCalendarSettings,
+  saveMarketCalendarSettings
+} from '../utils/marketCalendar';
+
+interface MarketCalendarContextType {
+  calendarSettings: MarketCalendarSettings;
+  updateCalendarSettings: (changes: Partial<MarketCalendarSettings>) => void;
+  /** Add or replace the override of a date */
+  setOverride: (override: MarketCalendarOverride) => void;
+  removeOverride: (date: string) => void;
+  resetCalendarSettings: () => void;
+}
+
+const MarketCalendarContext = createContext<MarketCalendarContextType | undefined>(undefined);
+
+interface MarketCalendarProviderProps {
+  children: ReactNode;
+}
+
+export const MarketCalendarProvider: React.FC<MarketCalendarProviderProps> = ({ children }) => {
+  // The calendar utilities read the same localStorage entry, so it is loaded synchronously
+  const [calendarSettings, setCalendarSettings] = useState<MarketCalendarSettings>(loadMarketCalendarSettings);
+
+  const updateCalendarSettings = React.useCallback((changes: Partial<MarketCalendarSettings>) => {
+    setCalendarSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveMarketCalendarSettings(next);
+      return next;
+    });
+  }, []);
+
+  const setOverride = React.useCallback((override: MarketCalendarOverride) => {
+    setCalendarSettings(prev => {
+      const next = {
+        ...prev,
+        overrides: [...prev.overrides.filter(item => item.date !== override.date), override]
+          .sort((a, b) => a.date.localeCompare(b.date))
+      };
+      saveMarketCalendarSettings(next);
+      return next;
+    });
+  }, []);
+
+  const removeOverride = React.useCallback((date: string) => {
+    setCalendarSettings(prev => {
+      const next = { ...prev, overrides: prev.overrides.filter(item => item.date !== date) };
+      saveMarketCalendarSettings(next);
+      return next;
+    });
+  }, []);
+
+  const resetCalendarSettings = React.useCallback(() => {
+    setCalendarSettings(DEFAULT_MARKET_CALENDAR_SETTINGS);
+    saveMarketCalendarSettings(DEFAULT_MARKET_CALENDAR_SETTINGS);
+    console.log('🔄 Reset market calendar settings to defaults');
+  }, []);
+
+  const contextValue = React.useMemo(() => ({
+    calendarSettings,
+    updateCalendarSettings,
+    setOverride,
+    removeOverride,
+    resetCalendarSettings
+  }), [calendarSettings, updateCalendarSettings, setOverride, removeOverride, resetCalendarSettings]);
+
+  return (
+    <MarketCalendarContext.Provider value={contextValue}>
+      {children}
+    </MarketCalendarContext.Provider>
+  );
+};
+
+export const useMarketCalendar = (): MarketCalendarContextType => {
+  const context = useContext(MarketCalendarContext);
+  if (!context) {
+    throw new Error('useMarketCalendar must be used within a MarketCalendarProvider');
+  }
+  return context;
+};
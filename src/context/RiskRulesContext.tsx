@@ -0,0 +1,59 @@
+import React, { createContext, useContext, useState, ReactNode } from 'react';
+import {
+  DEFAULT_RISK_RULES_SETTINGS,
+  RiskRuleConfig,
+  RiskRuleId,
+  RiskRulesSettings,
+  loadRiskRulesSettings,
+  saveRiskRulesSettings
+} from '../utils/tradeRules';
+
+interface RiskRulesContextType {
+  riskRules: RiskRulesSettings;
+  updateRule: (ruleId: RiskRuleId, changes: Partial<RiskRuleConfig>) => void;
+  resetRiskRules: () => void;
+}
+
+const RiskRulesContext = createContext<RiskRulesContextType | undefined>(undefined);
+
+interface RiskRulesProviderProps {
+  children: ReactNode;
+}
+
+export const RiskRulesProvider: React.FC<RiskRulesProviderProps> = ({ children }) => {
+  const [riskRules, setRiskRules] = useState<RiskRulesSettings>(loadRiskRulesSettings);
+
+  const updateRule = React.useCallback((ruleId: RiskRuleId, changes: Partial<RiskRuleConfig>) => {
+    setRiskRules(prev => {
+      const next = { ...prev, [ruleId]: { ...prev[ruleId], ...changes } };
+      saveRiskRulesSettings(next);
+      return next;
+    });
+  }, []);
+
+  const resetRiskRules = React.useCallback(() => {
+    setRiskRules(DEFAULT_RISK_RULES_SETTINGS);
+    saveRiskRulesSettings(DEFAULT_RISK_RULES_SETTINGS);
+    console.log('🔄 Reset risk rules to defaults');
+  }, []);
+
+  const contextValue = React.useMemo(() => ({
+    riskRules,
+    updateRule,
+    resetRiskRules
+  }), [riskRules, updateRule, resetRiskRules]);
+
+  return (
+    <RiskRulesContext.Provider value={contextValue}>
+      {children}
+    </RiskRulesContext.Provider>
+  );
+};
+
+export const useRiskRules = (): RiskRulesContextType => {
+  const context = useContext(RiskRulesContext);
+  if (!context) {
+    throw new Error('useRiskRules must be used within a RiskRulesProvider');
+  }
+  return context;
+};
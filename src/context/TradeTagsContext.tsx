@@ -0,0 +1,92 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { DatabaseService } from '../db/database';
+import {
+  DEFAULT_TRADE_TAGS,
+  TRADE_TAGS_STORAGE_KEY,
+  TradeTag,
+  TradeTagCategory,
+  createTradeTag
+} from '../utils/tradeTags';
+
+interface TradeTagsContextType {
+  tags: TradeTag[];
+  addTag: (name: string, category: TradeTagCategory) => TradeTag | null;
+  renameTag: (id: string, name: string) => void;
+  deleteTag: (id: string) => void;
+  getTag: (id: string) => TradeTag | undefined;
+}
+
+const TradeTagsContext = createContext<TradeTagsContextType | undefined>(undefined);
+
+interface TradeTagsProviderProps {
+  children: ReactNode;
+}
+
+export const TradeTagsProvider: React.FC<TradeTagsProviderProps> = ({ children }) => {
+  const [tags, setTags] = useState<TradeTag[]>(DEFAULT_TRADE_TAGS);
+  // Latest tags, so updates can be saved outside the state updater
+  const tagsRef = React.useRef<TradeTag[]>(DEFAULT_TRADE_TAGS);
+  const hasLocalChangesRef = React.useRef(false);
+
+  // Load the tag list from IndexedDB on mount, unless the user has already changed the tags
+  useEffect(() => {
+    DatabaseService.getMiscData(TRADE_TAGS_STORAGE_KEY).then(stored => {
+      if (!Array.isArray(stored) || hasLocalChangesRef.current) return;
+      tagsRef.current = stored;
+      setTags(stored);
+    });
+  }, []);
+
+  // Tags are saved with the rest of the misc data so backups carry them
+  const saveTags = React.useCallback((update: (prev: TradeTag[]) => TradeTag[]) => {
+    const next = update(tagsRef.current);
+    hasLocalChangesRef.current = true;
+    tagsRef.current = next;
+    setTags(next);
+    DatabaseService.saveMiscData(TRADE_TAGS_STORAGE_KEY, next);
+  }, []);
+
+  const addTag = React.useCallback((name: string, category: TradeTagCategory) => {
+    const trimmed = name.trim();
+    if (!trimmed || tags.some(tag => tag.category === category && tag.name.toLowerCase() === trimmed.toLowerCase())) {
+      return null;
+    }
+    const tag = createTradeTag(trimmed, category);
+    saveTags(prev => [...prev, tag]);
+    return tag;
+  }, [tags, saveTags]);
+
+  const renameTag = React.useCallback((id: string, name: string) => {
+    if (!name.trim()) return;
+    saveTags(prev => prev.map(tag => tag.id === id ? { ...tag, name: name.trim() } : tag));
+  }, [saveTags]);
+
+  // Trades keep the id of a deleted tag; it is no longer shown, filtered or counted
+  const deleteTag = React.useCallback((id: string) => {
+    saveTags(prev => prev.filter(tag => tag.id !== id));
+  }, [saveTags]);
+
+  const getTag = React.useCallback((id: string) => tags.find(tag => tag.id === id), [tags]);
+
+  const contextValue = React.useMemo(() => ({
+    tags,
+    addTag,
+    renameTag,
+    deleteTag,
+    getTag
+  }), [tags, addTag, renameTag, deleteTag, getTag]);
+
+  return (
+    <TradeTagsContext.Provider value={contextValue}>
+      {children}
+    </TradeTagsContext.Provider>
+  );
+};
+
+export const useTradeTags = (): TradeTagsContextType => {
+  const context = useContext(TradeTagsContext);
+  if (!context) {
+    throw new Error('useTradeTags must be used within a TradeTagsProvider');
+  }
+  return context;
+};
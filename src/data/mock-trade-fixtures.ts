@@ -0,0 +1,47 @@
+import { Trade } from "../types/trade";
+import { mockTrades } from "./mock-trades";
+import { legsFromLegacyFields, getEntryLegs, getExitLegs } from "../utils/tradeLegs";
+import {
+  calcAvgEntry,
+  calcAvgExitPrice,
+  calcPositionSize,
+  calcRealizedPL_FIFO
+} from "../utils/tradeCalculations";
+
+// Deterministic test fixtures built from the mock trades.
+//
+// The mock trades carry random ids and hand-typed derived values. Fixtures get stable ids
+// ("mock-T001"), a leg list built from the slot fields, and quantities, prices and P/L
+// recomputed from those legs, so golden values in tests only depend on the raw executions.
+
+export function buildMockTradeFixtures(): Trade[] {
+  return mockTrades.map(mock => {
+    const id = `mock-${mock.tradeNo}`;
+    const legs = legsFromLegacyFields({ ...mock, id });
+    const entryQty = getEntryLegs(legs).reduce((sum, leg) => sum + leg.qty, 0);
+    const exitedQty = getExitLegs(legs).reduce((sum, leg) => sum + leg.qty, 0);
+    const avgEntry = calcAvgEntry(legs);
+    const buySell = mock.buySell === 'Sell' ? 'Sell' : 'Buy';
+
+    return {
+      ...mock,
+      id,
+      legs,
+      avgEntry,
+      positionSize: calcPositionSize(avgEntry, entryQty),
+      exitedQty,
+      openQty: entryQty - exitedQty,
+      avgExitPrice: calcAvgExitPrice(legs),
+      plRs: exitedQty > 0 ? calcRealizedPL_FIFO(legs, buySell) : 0
+    };
+  });
+}
+
+/** A fixture by its mock trade number, e.g. "T001" */
+export function getMockTradeFixture(tradeNo: string): Trade {
+  const trade = buildMockTradeFixtures().find(t => t.tradeNo === tradeNo);
+  if (!trade) {
+    throw new Error(`No mock trade ${tradeNo}`);
+  }
+  return trade;
+}
@@ -0,0 +1,93 @@
+import 'fake-indexeddb/auto';
+import { db } from './database';
+import { BACKUP_ARCHIVE_FORMAT, BACKUP_ARCHIVE_VERSION, BackupArchive, BackupArchiveService } from './backupArchive';
+
+const leg = (side: 'entry' | 'exit', price: number) => ({ id: `${side}-${price}`, side, date: '2024-06-03', price, qty: 10 });
+
+const tradeRow = (id: string, name: string) => ({
+  id,
+  tradeNo: id,
+  name,
+  date: '2024-06-03',
+  accountId: 'default',
+  legs: [leg('entry', 100), leg('exit', 110)]
+});
+
+const archiveText = (tables: Record<string, unknown>, extra: Record<string, unknown> = {}) => JSON.stringify({
+  format: BACKUP_ARCHIVE_FORMAT,
+  version: BACKUP_ARCHIVE_VERSION,
+  dbVersion: db.verno,
+  exportedAt: '2024-06-30T00:00:00.000Z',
+  tables,
+  ...extra
+});
+
+const clearDatabase = () => Promise.all(db.tables.map(table => table.clear()));
+
+describe('backupArchive', () => {
+  describe('parseArchive', () => {
+    it('accepts a valid archive', () => {
+      const archive = BackupArchiveService.parseArchive(archiveText({ trades: [tradeRow('T1', 'TCS')] }));
+      expect(archive.tables.trades).toHaveLength(1);
+    });
+
+    it('rejects files that are not usable archives', () => {
+      expect(() => BackupArchiveService.parseArchive('{not json')).toThrow('not valid JSON');
+      expect(() => BackupArchiveService.parseArchive(JSON.stringify({ format: 'other', tables: {} }))).toThrow('not a Trade Journal backup');
+      expect(() => BackupArchiveService.parseArchive(archiveText({}, { version: BACKUP_ARCHIVE_VERSION + 1 }))).toThrow('newer than this app supports');
+      expect(() => BackupArchiveService.parseArchive(archiveText({}, { dbVersion: db.verno + 1 }))).toThrow(`schema v${db.verno + 1}`);
+      expect(() => BackupArchiveService.parseArchive(archiveText({ trades: {} }))).toThrow('"trades" section');
+      expect(() => BackupArchiveService.parseArchive(archiveText({ trades: [{ name: 'TCS' }] }))).toThrow('trades without an id');
+    });
+  });
+
+  describe('restoreArchive', () => {
+    let archive: BackupArchive;
+
+    beforeEach(async () => {
+      await clearDatabase();
+      await db.trades.bulkAdd([tradeRow('T1', 'TCS'), tradeRow('T2', 'INFY')] as any[]);
+      await db.miscData.add({ key: 'theme', value: 'dark' });
+      await db.backups.add({ type: 'trades', data: [], createdAt: new Date('2024-06-01T00:00:00.000Z'), trigger: 'manual' });
+      await db.portfolioData.add({ type: 'yearly_capital', year: 2024, amount: 100000 });
+      archive = BackupArchiveService.parseArchive(JSON.stringify(await BackupArchiveService.createArchive()));
+
+      // Changes made after the backup
+      await db.trades.put({ ...tradeRow('T1', 'TCS-EDITED') } as any);
+      await db.trades.add(tradeRow('T3', 'HDFC') as any);
+      await db.miscData.where('key').equals('theme').modify({ value: 'light' });
+      await db.miscData.add({ key: 'newSetting', value: 1 });
+      await db.portfolioData.add({ type: 'yearly_capital', year: 2025, amount: 150000 });
+    });
+
+    afterAll(clearDatabase);
+
+    it('brings the database back to the archive on replace', async () => {
+      expect(await BackupArchiveService.restoreArchive(archive, 'replace')).toBe(true);
+      expect((await db.trades.toArray()).map(trade => [trade.id, trade.name])).toEqual([['T1', 'TCS'], ['T2', 'INFY']]);
+      expect((await db.miscData.toArray()).map(row => [row.key, row.value])).toEqual([['theme', 'dark']]);
+      expect(await db.portfolioData.count()).toBe(1);
+    });
+
+    it('upserts archive rows and keeps newer rows on merge', async () => {
+      expect(await BackupArchiveService.restoreArchive(archive, 'merge')).toBe(true);
+      expect((await db.trades.toArray()).map(trade => [trade.id, trade.name])).toEqual([['T1', 'TCS'], ['T2', 'INFY'], ['T3', 'HDFC']]);
+      const misc = await db.miscData.toArray();
+      expect(misc.map(row => [row.key, row.value]).sort()).toEqual([['newSetting', 1], ['theme', 'dark']]);
+      // Misc rows keep their ids instead of being duplicated
+      expect(new Set(misc.map(row => row.id)).size).toBe(2);
+      // Tables saved as a whole take the archive copy
+      expect((await db.portfolioData.toArray()).map(row => row.year)).toEqual([2024]);
+      const preview = await BackupArchiveService.previewArchive(archive);
+      expect(preview.counts.find(row => row.name === 'portfolioData')!.replacedOnMerge).toBe(true);
+      expect(preview.counts.find(row => row.name === 'trades')!.replacedOnMerge).toBe(false);
+    });
+
+    it('revives dates of archived rows', async () => {
+      await BackupArchiveService.restoreArchive(archive, 'replace');
+      const [snapshot] = await db.backups.toArray();
+      expect(snapshot.createdAt instanceof Date).toBe(true);
+      expect(snapshot.createdAt.toISOString()).toBe('2024-06-01T00:00:00.000Z');
+    });
+  });
+});
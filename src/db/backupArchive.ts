@@ -0,0 +1,325 @@
+import { db, BackupRecord, ChartImageBlob } from './database';
+import { legsFromLegacyFields } from '../utils/tradeLegs';
+import { DEFAULT_ACCOUNT_ID } from '../utils/accounts';
+
+// Full-fidelity backup archive of the whole TradeJournalDB.
+//
+// Every table is serialised into one JSON document that can be downloaded and restored
+// later, even into a fresh browser profile. Chart image blobs are stored as base64.
+
+export const BACKUP_ARCHIVE_FORMAT = 'trade-journal-backup';
+export const BACKUP_ARCHIVE_VERSION = 1;
+
+export type BackupTableName =
+  | 'trades'
+  | 'tradeSettings'
+  | 'userPreferences'
+  | 'portfolioData'
+  | 'taxData'
+  | 'commentaryData'
+  | 'dashboardConfig'
+  | 'milestonesData'
+  | 'miscData'
+  | 'backups'
+  | 'chartImageBlobs'
+  | 'accounts'
+  | 'localCandles';
+
+export const BACKUP_TABLES: Array<{ name: BackupTableName; label: string }> = [
+  { name: 'accounts', label: 'Accounts' },
+  { name: 'trades', label: 'Trades' },
+  { name: 'chartImageBlobs', label: 'Chart images' },
+  { name: 'portfolioData', label: 'Portfolio capital' },
+  { name: 'taxData', label: 'Tax data' },
+  { name: 'commentaryData', label: 'Monthly commentary' },
+  { name: 'tradeSettings', label: 'Trade settings' },
+  { name: 'userPreferences', label: 'Preferences' },
+  { name: 'dashboardConfig', label: 'Dashboard layout' },
+  { name: 'milestonesData', label: 'Milestones' },
+  { name: 'miscData', label: 'Other settings' },
+  { name: 'localCandles', label: 'Imported price data' },
+  { name: 'backups', label: 'Internal snapshots' }
+];
+
+/** Chart image blob with its binary data encoded as base64 */
+export type SerializedChartImageBlob = Omit<ChartImageBlob, 'data'> & { data: string };
+
+export interface BackupArchive {
+  format: typeof BACKUP_ARCHIVE_FORMAT;
+  version: number;
+  /** Dexie schema version of the database the archive was taken from */
+  dbVersion: number;
+  exportedAt: string;
+  tables: Partial<Record<BackupTableName, any[]>>;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupArchivePreview {
+  exportedAt: string;
+  dbVersion: number;
+  counts: Array<{
+    name: BackupTableName;
+    label: string;
+    archive: number;
+    current: number;
+    /** A merge replaces the current rows of this table with the archive's */
+    replacedOnMerge: boolean;
+  }>;
+}
+
+// How rows of each table are matched when merging into existing data:
+// 'primary' - tables keyed by their own id (upsert)
+// 'natural' - auto-increment tables upserted by a natural key (one or more fields)
+// 'collection' - tables saved as a whole; the archive copy replaces the current one
+// 'append' - archive rows are added alongside the existing ones
+type MergeStrategy =
+  | { kind: 'primary' }
+  | { kind: 'natural'; keys: string[] }
+  | { kind: 'collection' }
+  | { kind: 'append' };
+
+const MERGE_STRATEGIES: Record<BackupTableName, MergeStrategy> = {
+  accounts: { kind: 'primary' },
+  trades: { kind: 'primary' },
+  chartImageBlobs: { kind: 'primary' },
+  localCandles: { kind: 'primary' },
+  miscData: { kind: 'natural', keys: ['key'] },
+  taxData: { kind: 'natural', keys: ['accountId', 'year'] },
+  commentaryData: { kind: 'natural', keys: ['year'] },
+  portfolioData: { kind: 'collection' },
+  tradeSettings: { kind: 'collection' },
+  userPreferences: { kind: 'collection' },
+  dashboardConfig: { kind: 'collection' },
+  milestonesData: { kind: 'collection' },
+  backups: { kind: 'append' }
+};
+
+/** Whether merging replaces a table as a whole instead of upserting its rows */
+export function isReplacedOnMerge(name: BackupTableName): boolean {
+  return MERGE_STRATEGIES[name].kind === 'collection';
+}
+
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'uploadedAt'];
+
+// JSON turns Dates into strings; bring them back for the fields the app compares as Dates
+const reviveDates = (row: any): any => {
+  if (!row || typeof row !== 'object') return row;
+  const revived = { ...row };
+  DATE_FIELDS.forEach(field => {
+    if (typeof revived[field] === 'string') {
+      const date = new Date(revived[field]);
+      if (!isNaN(date.getTime())) revived[field] = date;
+    }
+  });
+  return revived;
+};
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+}
+
+function base64ToBlob(base64: string, mimeType: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+const getTable = (name: BackupTableName) => db.table(name);
+
+// Tables whose rows belong to an account; archives from before accounts lack the field
+const ACCOUNT_SCOPED_TABLES: BackupTableName[] = ['trades', 'taxData'];
+
+export class BackupArchiveService {
+
+  /**
+   * Serialise every table of the database into a backup archive
+   * @param excludeTables - Tables to leave out (they are then untouched on restore)
+   */
+  static async createArchive(excludeTables: BackupTableName[] = []): Promise<BackupArchive> {
+    const tables: BackupArchive['tables'] = {};
+
+    for (const { name } of BACKUP_TABLES) {
+      if (excludeTables.includes(name)) continue;
+      const rows = await getTable(name).toArray();
+      if (name === 'chartImageBlobs') {
+        tables[name] = await Promise.all((rows as ChartImageBlob[]).map(async (row): Promise<SerializedChartImageBlob> => ({
+          ...row,
+          data: await blobToBase64(row.data)
+        })));
+      } else {
+        tables[name] = rows;
+      }
+    }
+
+    return {
+      format: BACKUP_ARCHIVE_FORMAT,
+      version: BACKUP_ARCHIVE_VERSION,
+      dbVersion: db.verno,
+      exportedAt: new Date().toISOString(),
+      tables
+    };
+  }
+
+  /**
+   * Create an archive and download it as a JSON file
+   */
+  static async downloadArchive(): Promise<boolean> {
+    try {
+      const archive = await this.createArchive();
+      const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `trade-journal-backup-${archive.exportedAt.split('T')[0]}.json`;
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      console.log(`✅ Exported backup archive (${archive.tables.trades?.length || 0} trades)`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to export backup archive:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Parse and validate the contents of a backup file
+   * @throws Error with a user-facing message when the file is not a usable archive
+   */
+  static parseArchive(text: string): BackupArchive {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+
+    if (!parsed || parsed.format !== BACKUP_ARCHIVE_FORMAT || typeof parsed.tables !== 'object' || parsed.tables === null) {
+      throw new Error('The file is not a Trade Journal backup.');
+    }
+    if (typeof parsed.version !== 'number' || parsed.version > BACKUP_ARCHIVE_VERSION) {
+      throw new Error(`Backup format v${parsed.version} is newer than this app supports (v${BACKUP_ARCHIVE_VERSION}). Please update the app first.`);
+    }
+    if (typeof parsed.dbVersion === 'number' && parsed.dbVersion > db.verno) {
+      throw new Error(`The backup was made with database schema v${parsed.dbVersion}, this app is on v${db.verno}. Please update the app first.`);
+    }
+
+    for (const { name } of BACKUP_TABLES) {
+      const rows = parsed.tables[name];
+      if (rows !== undefined && !Array.isArray(rows)) {
+        throw new Error(`The "${name}" section of the backup is malformed.`);
+      }
+    }
+    if ((parsed.tables.trades || []).some((trade: any) => !trade || typeof trade.id !== 'string')) {
+      throw new Error('The backup contains trades without an id.');
+    }
+
+    return parsed as BackupArchive;
+  }
+
+  /**
+   * Row counts of the archive next to the current database
+   */
+  static async previewArchive(archive: BackupArchive): Promise<BackupArchivePreview> {
+    const counts = await Promise.all(BACKUP_TABLES.map(async ({ name, label }) => ({
+      name,
+      label,
+      archive: archive.tables[name]?.length || 0,
+      current: await getTable(name).count(),
+      replacedOnMerge: Array.isArray(archive.tables[name]) && isReplacedOnMerge(name)
+    })));
+
+    return {
+      exportedAt: archive.exportedAt,
+      dbVersion: archive.dbVersion,
+      counts
+    };
+  }
+
+  /**
+   * Restore an archive into the database.
+   * 'replace' clears every table first; 'merge' upserts archive rows and keeps data not in the archive,
+   * except for tables saved as a whole (capital entries and settings), which the archive copy replaces.
+   * Tables missing from the archive are left as they are in both modes.
+   */
+  static async restoreArchive(archive: BackupArchive, mode: RestoreMode): Promise<boolean> {
+    try {
+      const restoredTables = BACKUP_TABLES.filter(({ name }) => Array.isArray(archive.tables[name]));
+      const rowsByTable = new Map<BackupTableName, any[]>();
+      for (const { name } of restoredTables) {
+        const rows = (archive.tables[name] || []).map(reviveDates);
+        rowsByTable.set(name, rows.map(row => {
+          if (ACCOUNT_SCOPED_TABLES.includes(name) && !row.accountId) {
+            row = { ...row, accountId: DEFAULT_ACCOUNT_ID };
+          }
+          if (name === 'chartImageBlobs') {
+            return { ...row, data: base64ToBlob(row.data, row.mimeType) } as ChartImageBlob;
+          }
+          if (name === 'trades' && (!Array.isArray(row.legs) || row.legs.length === 0)) {
+            // Archives from before legs existed
+            return { ...row, legs: legsFromLegacyFields(row) };
+          }
+          return row;
+        }));
+      }
+
+      await db.transaction('rw', restoredTables.map(({ name }) => getTable(name)), async () => {
+        for (const { name } of restoredTables) {
+          const table = getTable(name);
+          const rows = rowsByTable.get(name) || [];
+
+          if (mode === 'replace') {
+            await table.clear();
+            if (rows.length > 0) await table.bulkAdd(rows);
+            continue;
+          }
+
+          if (rows.length === 0) continue;
+          const strategy = MERGE_STRATEGIES[name];
+          switch (strategy.kind) {
+            case 'primary':
+              await table.bulkPut(rows);
+              break;
+            case 'natural': {
+              const existing = await table.toArray();
+              const naturalKey = (row: any) => strategy.keys.map(key => String(row[key])).join('|');
+              const idByKey = new Map(existing.map(row => [naturalKey(row), row.id]));
+              const merged = rows.map(({ id, ...row }) => {
+                const existingId = idByKey.get(naturalKey(row));
+                return existingId !== undefined ? { ...row, id: existingId } : row;
+              });
+              await table.bulkPut(merged);
+              break;
+            }
+            case 'collection':
+              await table.clear();
+              await table.bulkAdd(rows.map(({ id, ...row }) => row));
+              break;
+            case 'append':
+              await table.bulkAdd(rows.map(({ id, ...row }) => row as BackupRecord));
+              break;
+          }
+        }
+      });
+
+      console.log(`✅ Restored backup archive from ${archive.exportedAt} (${mode})`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to restore backup archive:', error);
+      return false;
+    }
+  }
+}
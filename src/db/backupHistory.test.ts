@@ -0,0 +1,69 @@
+import { Trade } from '../types/trade';
+import { BackupRecord, DEFAULT_BACKUP_RETENTION, selectBackupsToPrune } from './database';
+import { diffTrades, getSnapshotTrades, isRestorableSnapshot } from './backupHistory';
+
+const trade = (id: string, plRs: number, extra: Partial<Trade> = {}) => ({ id, name: `STOCK${id}`, plRs, ...extra } as Trade);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-06-30T12:00:00Z').getTime();
+
+let nextId = 1;
+const backup = (type: BackupRecord['type'], trigger: BackupRecord['trigger'], daysAgo: number): BackupRecord => ({
+  id: nextId++,
+  type,
+  trigger,
+  data: [],
+  createdAt: new Date(NOW - daysAgo * DAY_MS)
+});
+
+describe('backupHistory', () => {
+  describe('diffTrades', () => {
+    it('counts added, removed, changed and unchanged trades by id', () => {
+      const snapshot = [trade('A', 100), trade('B', 200), trade('C', 300)];
+      const current = [trade('A', 100), trade('B', 250), trade('D', 50)];
+      expect(diffTrades(snapshot, current)).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 1 });
+    });
+
+    it('ignores save timestamps, undefined fields and key order', () => {
+      const snapshot = [{ ...trade('A', 100), updatedAt: new Date('2024-01-01') } as Trade];
+      const current = [{ plRs: 100, name: 'STOCKA', id: 'A', notes: undefined, updatedAt: new Date('2024-06-01') } as unknown as Trade];
+      expect(diffTrades(snapshot, current)).toEqual({ added: 0, removed: 0, changed: 0, unchanged: 1 });
+    });
+  });
+
+  describe('snapshot trades', () => {
+    it('reads trades from trades and database snapshots only', () => {
+      const trades = [trade('A', 100)];
+      expect(getSnapshotTrades({ ...backup('trades', 'save', 0), data: trades })).toBe(trades);
+      expect(getSnapshotTrades({ ...backup('database', 'manual', 0), data: { tables: { trades } } })).toBe(trades);
+      expect(isRestorableSnapshot({ ...backup('settings', 'save', 0), data: {} })).toBe(false);
+    });
+  });
+
+  describe('retention', () => {
+    const retention = { maxSaveSnapshots: 2, maxSnapshots: 3, maxAgeDays: 30 };
+
+    it('keeps the newest snapshots of each type and trigger class', () => {
+      const saves = [0, 1, 2, 3].map(days => backup('trades', 'save', days));
+      const imports = [0, 1, 2, 3].map(days => backup('trades', 'import', days));
+      const settings = [0, 1, 2].map(days => backup('settings', undefined, days));
+      const newestFirst = [...saves, ...imports, ...settings].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+      // Oldest routine saves beyond 2 per type, the oldest import beyond 3
+      expect(selectBackupsToPrune(newestFirst, retention, NOW).sort((a, b) => a - b))
+        .toEqual([saves[2].id, saves[3].id, imports[3].id, settings[2].id].sort((a, b) => a! - b!));
+    });
+
+    it('drops snapshots past the age limit but never the newest of a kind', () => {
+      const old = [40, 50].map(days => backup('trades', 'manual', days));
+      const recent = backup('trades', 'save', 5);
+      expect(selectBackupsToPrune([recent, ...old], retention, NOW)).toEqual([old[1].id]);
+      expect(selectBackupsToPrune([recent, ...old], { ...retention, maxAgeDays: 0 }, NOW)).toEqual([]);
+    });
+
+    it('keeps the defaults within their limits', () => {
+      const saves = Array.from({ length: DEFAULT_BACKUP_RETENTION.maxSaveSnapshots + 1 }, (_, i) => backup('trades', 'save', i));
+      expect(selectBackupsToPrune(saves, DEFAULT_BACKUP_RETENTION, NOW)).toEqual([saves[saves.length - 1].id]);
+    });
+  });
+});
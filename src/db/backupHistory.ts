@@ -0,0 +1,116 @@
+import { DatabaseService, BackupRecord, BackupTrigger } from './database';
+import { BackupArchive, BackupArchiveService } from './backupArchive';
+import { Trade } from '../types/trade';
+
+// Point-in-time snapshots kept in the `backups` table, and restoring them.
+//
+// 'trades' snapshots hold the trades array; 'database' snapshots hold a full backup archive
+// (without the backups table itself, so restoring one never rewrites the history).
+
+export interface TradesDiff {
+  /** Trades in the current data that are not in the snapshot */
+  added: number;
+  /** Trades in the snapshot that are no longer in the current data */
+  removed: number;
+  changed: number;
+  unchanged: number;
+}
+
+// Bookkeeping fields that change on every save without the trade itself changing
+const IGNORED_TRADE_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+const tradeFingerprint = (trade: any): string =>
+  JSON.stringify(
+    Object.keys(trade)
+      .filter(key => !IGNORED_TRADE_FIELDS.has(key) && trade[key] !== undefined)
+      .sort()
+      .map(key => [key, trade[key]])
+  );
+
+/**
+ * Compare the trades of a snapshot with the current trades, by trade id
+ */
+export function diffTrades(snapshotTrades: Trade[], currentTrades: Trade[]): TradesDiff {
+  const snapshotById = new Map(snapshotTrades.map(trade => [trade.id, trade]));
+  const currentIds = new Set(currentTrades.map(trade => trade.id));
+  const diff: TradesDiff = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+
+  currentTrades.forEach(trade => {
+    const before = snapshotById.get(trade.id);
+    if (!before) {
+      diff.added++;
+    } else if (tradeFingerprint(before) !== tradeFingerprint(trade)) {
+      diff.changed++;
+    } else {
+      diff.unchanged++;
+    }
+  });
+  snapshotTrades.forEach(trade => {
+    if (!currentIds.has(trade.id)) diff.removed++;
+  });
+
+  return diff;
+}
+
+/**
+ * The trades stored in a snapshot, or null when the snapshot holds no trades
+ */
+export function getSnapshotTrades(backup: BackupRecord): Trade[] | null {
+  if (backup.type === 'trades' && Array.isArray(backup.data)) {
+    return backup.data;
+  }
+  if (backup.type === 'database' && Array.isArray(backup.data?.tables?.trades)) {
+    return backup.data.tables.trades;
+  }
+  return null;
+}
+
+/** Whether a snapshot can be restored from the history panel */
+export function isRestorableSnapshot(backup: BackupRecord): boolean {
+  return getSnapshotTrades(backup) !== null;
+}
+
+export class BackupHistoryService {
+
+  /**
+   * Snapshot the whole database (chart images included) into the backups table
+   */
+  static async snapshotDatabase(description: string, trigger: BackupTrigger = 'manual'): Promise<boolean> {
+    try {
+      const archive = await BackupArchiveService.createArchive(['backups']);
+      return await DatabaseService.createBackup('database', archive, description, trigger);
+    } catch (error) {
+      console.error('❌ Failed to snapshot database:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Restore a snapshot. The current data is snapshotted first so the restore can be undone.
+   */
+  static async restoreSnapshot(backup: BackupRecord): Promise<boolean> {
+    if (!isRestorableSnapshot(backup)) {
+      console.error(`❌ Snapshot ${backup.id} (${backup.type}) cannot be restored`);
+      return false;
+    }
+
+    try {
+      const label = `Before restoring snapshot from ${backup.createdAt.toLocaleString()}`;
+      if (backup.type === 'database') {
+        await this.snapshotDatabase(label, 'restore');
+        return await BackupArchiveService.restoreArchive(backup.data as BackupArchive, 'replace');
+      }
+
+      const currentTrades = await DatabaseService.getAllTrades();
+      await DatabaseService.createBackup('trades', currentTrades, label, 'restore');
+      const success = await DatabaseService.saveAllTrades(backup.data);
+      if (success) {
+        console.log(`✅ Restored ${backup.data.length} trades from snapshot ${backup.id}`);
+      }
+      return success;
+    } catch (error) {
+      console.error('❌ Failed to restore snapshot:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import 'fake-indexeddb/auto';
+import { db, DatabaseService } from './database';
+import { DEFAULT_ACCOUNT_ID } from '../utils/accounts';
+
+const trade = (id: string, accountId?: string) => ({ id, name: `STOCK${id}`, date: '2024-06-03', tradeNo: '1', accountId });
+
+const image = (id: string, tradeId: string) => ({
+  id,
+  tradeId,
+  imageType: 'beforeEntry' as const,
+  filename: `${id}.png`,
+  mimeType: 'image/png',
+  size: 1,
+  data: new Blob(['x']),
+  uploadedAt: new Date('2024-06-03'),
+  compressed: false
+});
+
+describe('DatabaseService accounts', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+    await DatabaseService.saveAccount({ id: 'fno', name: 'F&O', type: 'fno', createdAt: new Date('2024-01-01') });
+    await db.trades.bulkAdd([trade('T1'), trade('T2', 'fno'), trade('T3', 'fno')] as any[]);
+    await db.taxData.bulkAdd([{ year: 2024, accountId: DEFAULT_ACCOUNT_ID }, { year: 2024, accountId: 'fno' }] as any[]);
+    await db.chartImageBlobs.bulkAdd([image('I1', 'T1'), image('I2', 'T2')]);
+  });
+
+  afterAll(() => Promise.all(db.tables.map(table => table.clear())));
+
+  it('deletes an account with its trades, tax data and chart images', async () => {
+    expect(await DatabaseService.deleteAccount('fno')).toBe(true);
+    expect((await DatabaseService.getAccounts()).map(account => account.id)).toEqual([DEFAULT_ACCOUNT_ID]);
+    expect((await db.trades.toArray()).map(row => row.id)).toEqual(['T1']);
+    expect((await db.taxData.toArray()).map(row => row.accountId)).toEqual([DEFAULT_ACCOUNT_ID]);
+    expect((await db.chartImageBlobs.toArray()).map(row => row.id)).toEqual(['I1']);
+  });
+
+  it('refuses to delete the default account', async () => {
+    expect(await DatabaseService.deleteAccount(DEFAULT_ACCOUNT_ID)).toBe(false);
+    expect(await db.trades.count()).toBe(3);
+  });
+});
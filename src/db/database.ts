@@ -1,5 +1,7 @@
 import Dexie, { Table } from 'dexie';
 import { Trade } from '../types/trade';
+import { legsFromLegacyFields } from '../utils/tradeLegs';
+import { AccountType, DEFAULT_ACCOUNT_ID } from '../utils/accounts';
 
 // Database interfaces
 export interface TradeRecord extends Trade {
@@ -12,6 +14,10 @@ export interface TradeSettings {
   id?: number;
   search_query?: string;
   status_filter?: string;
+  tag_filter?: string[];
+  tag_filter_mode?: 'any' | 'all';
+  advanced_query?: any;
+  active_view_id?: string;
   sort_descriptor?: any;
   visible_columns?: string[];
   updatedAt?: Date;
@@ -42,10 +48,26 @@ export interface PortfolioData {
 export interface TaxData {
   id?: number;
   year: number;
+  accountId?: string;
   data: any;
   updatedAt?: Date;
 }
 
+export interface AccountRecord {
+  id: string;
+  name: string;
+  type: AccountType;
+  broker?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DEFAULT_ACCOUNT: AccountRecord = {
+  id: DEFAULT_ACCOUNT_ID,
+  name: 'Main account',
+  type: 'equity'
+};
+
 export interface CommentaryData {
   id?: number;
   year: string;
@@ -74,10 +96,59 @@ export interface MiscData {
 
 export interface BackupRecord {
   id?: number;
-  type: 'trades' | 'settings' | 'preferences' | 'portfolio' | 'tax' | 'dashboard' | 'milestones' | 'misc' | 'chartImages';
+  type: 'trades' | 'settings' | 'preferences' | 'portfolio' | 'tax' | 'dashboard' | 'milestones' | 'misc' | 'chartImages' | 'database';
   data: any;
   createdAt: Date;
   description?: string;
+  trigger?: BackupTrigger; // Missing on older records, which were all 'save'
+}
+
+export type BackupType = BackupRecord['type'];
+
+// What caused a snapshot: routine saves rotate quickly, the others are kept longer
+export type BackupTrigger = 'save' | 'import' | 'clear' | 'restore' | 'manual';
+
+export interface BackupRetention {
+  maxSaveSnapshots: number; // per type, for 'save' snapshots
+  maxSnapshots: number; // per type, for all other snapshots
+  maxAgeDays: number; // 0 keeps snapshots regardless of age
+}
+
+export const DEFAULT_BACKUP_RETENTION: BackupRetention = {
+  maxSaveSnapshots: 5,
+  maxSnapshots: 20,
+  maxAgeDays: 90
+};
+
+const BACKUP_RETENTION_KEY = 'backupRetention';
+
+/**
+ * Ids of the snapshots the retention policy removes. Snapshots are counted newest first per
+ * type, with routine saves and all other triggers counted separately.
+ * @param backups Snapshots, newest first
+ */
+export function selectBackupsToPrune(backups: BackupRecord[], retention: BackupRetention, now: number = Date.now()): number[] {
+  const cutoff = retention.maxAgeDays > 0
+    ? now - retention.maxAgeDays * 24 * 60 * 60 * 1000
+    : null;
+
+  const kept = new Map<string, number>();
+  const toDelete: number[] = [];
+  backups.forEach(backup => {
+    const isSave = (backup.trigger || 'save') === 'save';
+    const bucket = `${backup.type}:${isSave ? 'save' : 'other'}`;
+    const count = (kept.get(bucket) || 0) + 1;
+    const limit = isSave ? retention.maxSaveSnapshots : retention.maxSnapshots;
+    const tooOld = cutoff !== null && backup.createdAt.getTime() < cutoff;
+
+    // The newest snapshot of each kind is never pruned by age
+    if (count > limit || (tooOld && count > 1)) {
+      toDelete.push(backup.id!);
+    } else {
+      kept.set(bucket, count);
+    }
+  });
+  return toDelete;
 }
 
 // Chart image blob storage interface
@@ -94,6 +165,33 @@ export interface ChartImageBlob {
   originalSize?: number;
 }
 
+// OHLC candle imported for the offline price provider
+export interface LocalCandle {
+  symbol: string;
+  interval: string; // '1d', '1m', ...
+  dateTime: string; // ISO timestamp of the candle open
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// OHLC candle downloaded from the price provider, kept to avoid re-downloading it
+export interface CachedCandle extends LocalCandle {
+  fetchedAt: Date;
+}
+
+// Time span of a symbol/interval whose candles are all in the cache
+export interface CandleCacheRange {
+  id?: number;
+  symbol: string;
+  interval: string;
+  from: string; // ISO timestamp
+  to: string; // ISO timestamp
+  fetchedAt: Date; // Oldest fetch of the span; eviction removes the span with its candles
+}
+
 // Dexie Database Class
 export class TradeJournalDB extends Dexie {
   // Tables
@@ -108,6 +206,10 @@ export class TradeJournalDB extends Dexie {
   miscData!: Table<MiscData>;
   backups!: Table<BackupRecord>;
   chartImageBlobs!: Table<ChartImageBlob>; // NEW: Separate table for chart image blobs
+  accounts!: Table<AccountRecord>;
+  localCandles!: Table<LocalCandle>;
+  candleCache!: Table<CachedCandle>;
+  candleCacheRanges!: Table<CandleCacheRange>;
 
   constructor() {
     super('TradeJournalDB');
@@ -151,6 +253,91 @@ export class TradeJournalDB extends Dexie {
       });
     });
 
+    // Version 3 - Unlimited entry/exit legs
+    this.version(3).stores({
+      trades: 'id, name, date, tradeNo, positionStatus, buySell, setup, createdAt, updatedAt',
+      tradeSettings: '++id, updatedAt',
+      userPreferences: '++id, updatedAt',
+      portfolioData: '++id, type, year, month, date, updatedAt',
+      taxData: '++id, year, updatedAt',
+      commentaryData: '++id, year, updatedAt',
+      dashboardConfig: '++id, updatedAt',
+      milestonesData: '++id, updatedAt',
+      miscData: '++id, key, updatedAt',
+      backups: '++id, type, createdAt',
+      chartImageBlobs: 'id, tradeId, imageType, uploadedAt'
+    }).upgrade(tx => {
+      console.log('🔄 Upgrading database to version 3 (Trade legs)...');
+      // Build the leg list from the fixed initial/pyramid/exit fields of existing trades
+      return tx.table('trades').toCollection().modify(trade => {
+        if (!Array.isArray(trade.legs) || trade.legs.length === 0) {
+          trade.legs = legsFromLegacyFields(trade);
+        }
+      });
+    });
+
+    // Version 4 - Multiple accounts
+    this.version(4).stores({
+      trades: 'id, name, date, tradeNo, positionStatus, buySell, setup, accountId, createdAt, updatedAt',
+      tradeSettings: '++id, updatedAt',
+      userPreferences: '++id, updatedAt',
+      portfolioData: '++id, type, year, month, date, updatedAt',
+      taxData: '++id, year, accountId, [accountId+year], updatedAt',
+      commentaryData: '++id, year, updatedAt',
+      dashboardConfig: '++id, updatedAt',
+      milestonesData: '++id, updatedAt',
+      miscData: '++id, key, updatedAt',
+      backups: '++id, type, createdAt',
+      chartImageBlobs: 'id, tradeId, imageType, uploadedAt',
+      accounts: 'id, name, createdAt'
+    }).upgrade(async tx => {
+      console.log('🔄 Upgrading database to version 4 (Accounts)...');
+      // Everything recorded so far belongs to the default account
+      await tx.table('accounts').put({ ...DEFAULT_ACCOUNT, createdAt: new Date() });
+      await tx.table('trades').toCollection().modify(trade => {
+        if (!trade.accountId) trade.accountId = DEFAULT_ACCOUNT_ID;
+      });
+      await tx.table('taxData').toCollection().modify(record => {
+        if (!record.accountId) record.accountId = DEFAULT_ACCOUNT_ID;
+      });
+    });
+
+    // Version 5 - Imported candles for the offline price provider
+    this.version(5).stores({
+      trades: 'id, name, date, tradeNo, positionStatus, buySell, setup, accountId, createdAt, updatedAt',
+      tradeSettings: '++id, updatedAt',
+      userPreferences: '++id, updatedAt',
+      portfolioData: '++id, type, year, month, date, updatedAt',
+      taxData: '++id, year, accountId, [accountId+year], updatedAt',
+      commentaryData: '++id, year, updatedAt',
+      dashboardConfig: '++id, updatedAt',
+      milestonesData: '++id, updatedAt',
+      miscData: '++id, key, updatedAt',
+      backups: '++id, type, createdAt',
+      chartImageBlobs: 'id, tradeId, imageType, uploadedAt',
+      accounts: 'id, name, createdAt',
+      localCandles: '[symbol+interval+dateTime], [symbol+interval], symbol'
+    });
+
+    // Version 6 - Cache of downloaded candles
+    this.version(6).stores({
+      trades: 'id, name, date, tradeNo, positionStatus, buySell, setup, accountId, createdAt, updatedAt',
+      tradeSettings: '++id, updatedAt',
+      userPreferences: '++id, updatedAt',
+      portfolioData: '++id, type, year, month, date, updatedAt',
+      taxData: '++id, year, accountId, [accountId+year], updatedAt',
+      commentaryData: '++id, year, updatedAt',
+      dashboardConfig: '++id, updatedAt',
+      milestonesData: '++id, updatedAt',
+      miscData: '++id, key, updatedAt',
+      backups: '++id, type, createdAt',
+      chartImageBlobs: 'id, tradeId, imageType, uploadedAt',
+      accounts: 'id, name, createdAt',
+      localCandles: '[symbol+interval+dateTime], [symbol+interval], symbol',
+      candleCache: '[symbol+interval+dateTime], [symbol+interval], fetchedAt',
+      candleCacheRanges: '++id, [symbol+interval], fetchedAt'
+    });
+
     // Add hooks for automatic timestamps
     this.trades.hook('creating', function (primKey, obj, trans) {
       obj.createdAt = new Date();
@@ -162,7 +349,7 @@ export class TradeJournalDB extends Dexie {
     });
 
     // Add hooks for other tables
-    [this.tradeSettings, this.userPreferences, this.portfolioData, this.taxData, this.commentaryData, this.dashboardConfig, this.milestonesData, this.miscData, this.backups].forEach(table => {
+    [this.tradeSettings, this.userPreferences, this.portfolioData, this.taxData, this.commentaryData, this.dashboardConfig, this.milestonesData, this.miscData, this.backups, this.accounts].forEach(table => {
       table.hook('creating', function (primKey, obj, trans) {
         obj.updatedAt = new Date();
       });
@@ -361,7 +548,7 @@ export class DatabaseService {
 
   // ===== BACKUPS =====
 
-  static async createBackup(type: 'trades' | 'settings' | 'preferences' | 'portfolio' | 'tax' | 'dashboard' | 'milestones' | 'misc', data: any, description?: string): Promise<boolean> {
+  static async createBackup(type: BackupType, data: any, description?: string, trigger: BackupTrigger = 'save'): Promise<boolean> {
     try {
       // Clean data before storing
       const cleanedData = cleanDataForIndexedDB(data);
@@ -370,20 +557,13 @@ export class DatabaseService {
         type,
         data: cleanedData,
         createdAt: new Date(),
-        description
+        description,
+        trigger
       });
 
-      // Keep only the 5 most recent backups per type
-      const allBackups = await db.backups.where('type').equals(type).toArray();
-      // Sort by createdAt in memory since we can't chain orderBy after where().equals()
-      allBackups.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
-
-      if (allBackups.length > 5) {
-        const toDelete = allBackups.slice(0, -5);
-        await db.backups.bulkDelete(toDelete.map(b => b.id!));
-      }
+      await this.pruneBackups(type);
 
-      console.log(`✅ Created backup for ${type}`);
+      console.log(`✅ Created backup for ${type} (${trigger})`);
       return true;
     } catch (error) {
       console.error('❌ Failed to create backup:', error);
@@ -391,7 +571,7 @@ export class DatabaseService {
     }
   }
 
-  static async getLatestBackup(type: 'trades' | 'settings' | 'preferences' | 'portfolio' | 'tax' | 'dashboard' | 'milestones' | 'misc'): Promise<BackupRecord | null> {
+  static async getLatestBackup(type: BackupType): Promise<BackupRecord | null> {
     try {
       const backups = await db.backups.where('type').equals(type).toArray();
       if (backups.length === 0) return null;
@@ -405,21 +585,94 @@ export class DatabaseService {
     }
   }
 
+  static async getBackups(type?: BackupType): Promise<BackupRecord[]> {
+    try {
+      const backups = type
+        ? await db.backups.where('type').equals(type).toArray()
+        : await db.backups.toArray();
+      return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      console.error('❌ Failed to get backups:', error);
+      return [];
+    }
+  }
+
+  static async getBackup(id: number): Promise<BackupRecord | null> {
+    try {
+      return await db.backups.get(id) || null;
+    } catch (error) {
+      console.error('❌ Failed to get backup:', error);
+      return null;
+    }
+  }
+
+  static async deleteBackup(id: number): Promise<boolean> {
+    try {
+      await db.backups.delete(id);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to delete backup:', error);
+      return false;
+    }
+  }
+
+  static async getBackupRetention(): Promise<BackupRetention> {
+    const stored = await this.getMiscData(BACKUP_RETENTION_KEY);
+    return { ...DEFAULT_BACKUP_RETENTION, ...(stored || {}) };
+  }
+
+  static async saveBackupRetention(retention: BackupRetention): Promise<boolean> {
+    const success = await this.saveMiscData(BACKUP_RETENTION_KEY, retention);
+    if (success) await this.pruneBackups();
+    return success;
+  }
+
+  /**
+   * Apply the retention policy to the snapshots of one type (or all types)
+   * @returns Number of snapshots deleted
+   */
+  static async pruneBackups(type?: BackupType): Promise<number> {
+    try {
+      const retention = await this.getBackupRetention();
+      const backups = await this.getBackups(type);
+      const toDelete = selectBackupsToPrune(backups, retention);
+
+      if (toDelete.length > 0) {
+        await db.backups.bulkDelete(toDelete);
+        console.log(`🧹 Pruned ${toDelete.length} old backups`);
+      }
+      return toDelete.length;
+    } catch (error) {
+      console.error('❌ Failed to prune backups:', error);
+      return 0;
+    }
+  }
+
   // ===== TAX DATA =====
 
-  static async getTaxData(year: number): Promise<TaxData | null> {
+  static async getTaxData(year: number, accountId: string = DEFAULT_ACCOUNT_ID): Promise<TaxData | null> {
     try {
-      return await db.taxData.where('year').equals(year).first() || null;
+      return await db.taxData.where('[accountId+year]').equals([accountId, year]).first() || null;
     } catch (error) {
       console.error('❌ Failed to get tax data from IndexedDB:', error);
       return null;
     }
   }
 
-  static async saveTaxData(year: number, data: any): Promise<boolean> {
+  static async getTaxDataForAllAccounts(year: number): Promise<TaxData[]> {
     try {
-      await db.taxData.put({ year, data });
-      console.log(`✅ Saved tax data for year ${year}`);
+      return await db.taxData.where('year').equals(year).toArray();
+    } catch (error) {
+      console.error('❌ Failed to get tax data from IndexedDB:', error);
+      return [];
+    }
+  }
+
+  static async saveTaxData(year: number, data: any, accountId: string = DEFAULT_ACCOUNT_ID): Promise<boolean> {
+    try {
+      const existing = await db.taxData.where('[accountId+year]').equals([accountId, year]).first();
+      await db.taxData.put({ id: existing?.id, year, accountId, data });
+      console.log(`✅ Saved tax data for year ${year} (${accountId})`);
       return true;
     } catch (error) {
       console.error('❌ Failed to save tax data to IndexedDB:', error);
@@ -427,6 +680,232 @@ export class DatabaseService {
     }
   }
 
+  // ===== ACCOUNTS =====
+
+  static async getAccounts(): Promise<AccountRecord[]> {
+    try {
+      const accounts = await db.accounts.orderBy('createdAt').toArray();
+      if (!accounts.some(account => account.id === DEFAULT_ACCOUNT_ID)) {
+        // Fresh databases and cleared data start with just the default account
+        const defaultAccount = { ...DEFAULT_ACCOUNT, createdAt: new Date(0) };
+        await db.accounts.put(defaultAccount);
+        accounts.unshift(defaultAccount);
+      }
+      return accounts;
+    } catch (error) {
+      console.error('❌ Failed to get accounts from IndexedDB:', error);
+      return [DEFAULT_ACCOUNT];
+    }
+  }
+
+  static async saveAccount(account: AccountRecord): Promise<boolean> {
+    try {
+      await db.accounts.put(cleanDataForIndexedDB({ ...account, createdAt: account.createdAt || new Date() }));
+      console.log(`✅ Saved account: ${account.name} (${account.id})`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to save account to IndexedDB:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete an account together with its trades, their chart images and its tax data.
+   * The default account cannot be deleted.
+   */
+  static async deleteAccount(id: string): Promise<boolean> {
+    if (id === DEFAULT_ACCOUNT_ID) {
+      console.error('❌ The default account cannot be deleted');
+      return false;
+    }
+    try {
+      await db.transaction('rw', [db.accounts, db.trades, db.taxData, db.chartImageBlobs], async () => {
+        const tradeIds = await db.trades.where('accountId').equals(id).primaryKeys();
+        if (tradeIds.length > 0) {
+          await db.chartImageBlobs.where('tradeId').anyOf(tradeIds as string[]).delete();
+        }
+        await db.trades.where('accountId').equals(id).delete();
+        await db.taxData.where('accountId').equals(id).delete();
+        await db.accounts.delete(id);
+      });
+      console.log(`✅ Deleted account: ${id}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to delete account from IndexedDB:', error);
+      return false;
+    }
+  }
+
+  // ===== LOCAL CANDLES =====
+
+  /** Store imported candles; a candle already stored for the same symbol, interval and time is replaced */
+  static async saveLocalCandles(candles: LocalCandle[]): Promise<boolean> {
+    try {
+      await db.localCandles.bulkPut(candles.map(candle => ({ ...candle, symbol: candle.symbol.toUpperCase() })));
+      console.log(`✅ Saved ${candles.length} local candles`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to save local candles to IndexedDB:', error);
+      return false;
+    }
+  }
+
+  /** Candles of a symbol and interval, oldest first, optionally limited to [from, to] */
+  static async getLocalCandles(symbol: string, interval: string, from?: Date, to?: Date): Promise<LocalCandle[]> {
+    try {
+      const key = symbol.toUpperCase();
+      return await db.localCandles
+        .where('[symbol+interval+dateTime]')
+        .between(
+          [key, interval, from ? from.toISOString() : ''],
+          [key, interval, to ? to.toISOString() : '\uffff'],
+          true,
+          true
+        )
+        .toArray();
+    } catch (error) {
+      console.error('❌ Failed to get local candles from IndexedDB:', error);
+      return [];
+    }
+  }
+
+  /** Imported symbols with their candle count and date range per interval */
+  static async getLocalCandleSummary(): Promise<Array<{ symbol: string; interval: string; count: number; from: string; to: string }>> {
+    try {
+      const summary = new Map<string, { symbol: string; interval: string; count: number; from: string; to: string }>();
+      await db.localCandles.orderBy('[symbol+interval+dateTime]').each(candle => {
+        const key = `${candle.symbol}|${candle.interval}`;
+        const entry = summary.get(key);
+        if (entry) {
+          entry.count += 1;
+          entry.to = candle.dateTime;
+        } else {
+          summary.set(key, { symbol: candle.symbol, interval: candle.interval, count: 1, from: candle.dateTime, to: candle.dateTime });
+        }
+      });
+      return Array.from(summary.values());
+    } catch (error) {
+      console.error('❌ Failed to summarise local candles:', error);
+      return [];
+    }
+  }
+
+  static async deleteLocalCandles(symbol: string, interval?: string): Promise<boolean> {
+    try {
+      const key = symbol.toUpperCase();
+      const count = interval
+        ? await db.localCandles.where('[symbol+interval]').equals([key, interval]).delete()
+        : await db.localCandles.where('symbol').equals(key).delete();
+      console.log(`🗑️ Deleted ${count} local candles for ${key}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to delete local candles from IndexedDB:', error);
+      return false;
+    }
+  }
+
+  // ===== CANDLE CACHE =====
+
+  /** Cached candles of a symbol and interval in [from, to], oldest first */
+  static async getCachedCandles(symbol: string, interval: string, from: Date, to: Date): Promise<CachedCandle[]> {
+    try {
+      const key = symbol.toUpperCase();
+      return await db.candleCache
+        .where('[symbol+interval+dateTime]')
+        .between([key, interval, from.toISOString()], [key, interval, to.toISOString()], true, true)
+        .toArray();
+    } catch (error) {
+      console.error('❌ Failed to get cached candles from IndexedDB:', error);
+      return [];
+    }
+  }
+
+  /** Spans of a symbol and interval whose candles are all cached */
+  static async getCandleCacheRanges(symbol: string, interval: string): Promise<CandleCacheRange[]> {
+    try {
+      return await db.candleCacheRanges.where('[symbol+interval]').equals([symbol.toUpperCase(), interval]).toArray();
+    } catch (error) {
+      console.error('❌ Failed to get candle cache ranges from IndexedDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Cache downloaded candles and record [from, to] as covered, merged with the spans it overlaps.
+   * A span keeps the oldest fetch time of its parts so eviction never leaves it pointing at evicted candles.
+   */
+  static async saveCachedCandles(
+    symbol: string,
+    interval: string,
+    candles: LocalCandle[],
+    covered: { from: string; to: string } | null
+  ): Promise<boolean> {
+    try {
+      const key = symbol.toUpperCase();
+      const fetchedAt = new Date();
+      await db.transaction('rw', db.candleCache, db.candleCacheRanges, async () => {
+        await db.candleCache.bulkPut(candles.map(candle => ({ ...candle, symbol: key, interval, fetchedAt })));
+        if (!covered || covered.from > covered.to) return;
+
+        const existing = await db.candleCacheRanges.where('[symbol+interval]').equals([key, interval]).toArray();
+        const overlapping = existing.filter(range => range.from <= covered.to && range.to >= covered.from);
+        const merged: CandleCacheRange = {
+          symbol: key,
+          interval,
+          from: overlapping.reduce((min, range) => range.from < min ? range.from : min, covered.from),
+          to: overlapping.reduce((max, range) => range.to > max ? range.to : max, covered.to),
+          fetchedAt: overlapping.reduce((min, range) => range.fetchedAt < min ? range.fetchedAt : min, fetchedAt)
+        };
+        await db.candleCacheRanges.bulkDelete(overlapping.map(range => range.id!));
+        await db.candleCacheRanges.add(merged);
+      });
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to save cached candles to IndexedDB:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Keep at most `maxCandles` cached candles, dropping the oldest downloads and the spans they belong to
+   * @returns Number of candles evicted
+   */
+  static async evictCandleCache(maxCandles: number): Promise<number> {
+    try {
+      const count = await db.candleCache.count();
+      if (count <= maxCandles) return 0;
+
+      // Fetch time of the newest candle that has to go
+      const cutoff = await db.candleCache.orderBy('fetchedAt').offset(count - maxCandles - 1).first();
+      if (!cutoff) return 0;
+
+      let evicted = 0;
+      await db.transaction('rw', db.candleCache, db.candleCacheRanges, async () => {
+        evicted = await db.candleCache.where('fetchedAt').belowOrEqual(cutoff.fetchedAt).delete();
+        await db.candleCacheRanges.where('fetchedAt').belowOrEqual(cutoff.fetchedAt).delete();
+      });
+      console.log(`🗑️ Evicted ${evicted} cached candles`);
+      return evicted;
+    } catch (error) {
+      console.error('❌ Failed to evict candle cache:', error);
+      return 0;
+    }
+  }
+
+  static async clearCandleCache(): Promise<boolean> {
+    try {
+      await db.transaction('rw', db.candleCache, db.candleCacheRanges, async () => {
+        await db.candleCache.clear();
+        await db.candleCacheRanges.clear();
+      });
+      console.log('✅ Cleared candle cache');
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to clear candle cache:', error);
+      return false;
+    }
+  }
+
   // ===== COMMENTARY DATA =====
 
   static async getCommentaryData(year: string): Promise<CommentaryData | null> {
@@ -807,7 +1286,7 @@ export class DatabaseService {
 
   static async clearAllData(): Promise<boolean> {
     try {
-      await db.transaction('rw', [db.trades, db.tradeSettings, db.userPreferences, db.portfolioData, db.taxData, db.commentaryData, db.dashboardConfig, db.milestonesData, db.miscData, db.chartImageBlobs], async () => {
+      await db.transaction('rw', [db.trades, db.tradeSettings, db.userPreferences, db.portfolioData, db.taxData, db.commentaryData, db.dashboardConfig, db.milestonesData, db.miscData, db.chartImageBlobs, db.accounts, db.localCandles, db.candleCache, db.candleCacheRanges], async () => {
         await db.trades.clear();
         await db.tradeSettings.clear();
         await db.userPreferences.clear();
@@ -818,6 +1297,10 @@ export class DatabaseService {
         await db.milestonesData.clear();
         await db.miscData.clear();
         await db.chartImageBlobs.clear();
+        await db.accounts.clear();
+        await db.localCandles.clear();
+        await db.candleCache.clear();
+        await db.candleCacheRanges.clear();
       });
       console.log('✅ Cleared all data from IndexedDB');
       return true;
@@ -827,7 +1310,7 @@ export class DatabaseService {
     }
   }
 
-  static async getDatabaseSize(): Promise<{ trades: number; chartImages: number; total: number }> {
+  static async getDatabaseSize(): Promise<{ trades: number; chartImages: number; localCandles: number; candleCache: number; total: number }> {
     try {
       const tradesCount = await db.trades.count();
       const settingsCount = await db.tradeSettings.count();
@@ -840,15 +1323,19 @@ export class DatabaseService {
       const miscCount = await db.miscData.count();
       const backupsCount = await db.backups.count();
       const chartImagesCount = await db.chartImageBlobs.count();
+      const localCandlesCount = await db.localCandles.count();
+      const candleCacheCount = await db.candleCache.count();
 
       return {
         trades: tradesCount,
         chartImages: chartImagesCount,
-        total: tradesCount + settingsCount + prefsCount + portfolioCount + taxCount + commentaryCount + dashboardCount + milestonesCount + miscCount + backupsCount + chartImagesCount
+        localCandles: localCandlesCount,
+        candleCache: candleCacheCount,
+        total: tradesCount + settingsCount + prefsCount + portfolioCount + taxCount + commentaryCount + dashboardCount + milestonesCount + miscCount + backupsCount + chartImagesCount + localCandlesCount + candleCacheCount
       };
     } catch (error) {
       console.error('❌ Failed to get database size:', error);
-      return { trades: 0, chartImages: 0, total: 0 };
+      return { trades: 0, chartImages: 0, localCandles: 0, candleCache: 0, total: 0 };
     }
   }
 }
@@ -3,6 +3,7 @@ import { Trade } from '../types/trade';
 import { useAccountingMethod } from '../context/AccountingMethodContext';
 import { calculateTradePL, getTradeDateForAccounting } from '../utils/accountingUtils';
 import { calcHoldingDays } from '../utils/tradeCalculations';
+import { getTradeLegs } from '../utils/tradeLegs';
 
 /**
  * Shared hook for accounting-aware P/L calculations
@@ -143,35 +144,7 @@ export const useAccountingCalculations = (trades: Trade[]) => {
     const avgHoldingDays = totalTrades > 0
       ? tradesWithAccountingPL.reduce((sum, trade) => {
           // Use existing FIFO-based calcHoldingDays function
-          const pyramidDates = [
-            { date: trade.pyramid1Date, qty: trade.pyramid1Qty || 0 },
-            { date: trade.pyramid2Date, qty: trade.pyramid2Qty || 0 }
-          ].filter(p => p.date && p.date.trim() !== '' && p.qty > 0);
-
-          const exitDates = [
-            { date: trade.exit1Date, qty: trade.exit1Qty || 0 },
-            { date: trade.exit2Date, qty: trade.exit2Qty || 0 },
-            { date: trade.exit3Date, qty: trade.exit3Qty || 0 }
-          ].filter(e => e.date && e.date.trim() !== '' && e.qty > 0);
-
-          // Find primary exit date for closed trades
-          let primaryExitDate: string | null = null;
-          if (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial') {
-            const validExitDates = [trade.exit1Date, trade.exit2Date, trade.exit3Date]
-              .filter(Boolean) as string[];
-            if (validExitDates.length > 0) {
-              primaryExitDate = validExitDates.sort((a, b) =>
-                new Date(a).getTime() - new Date(b).getTime()
-              )[0];
-            }
-          }
-
-          const fifoHoldingDays = calcHoldingDays(
-            trade.date,
-            primaryExitDate,
-            pyramidDates,
-            exitDates
-          );
+          const fifoHoldingDays = calcHoldingDays(getTradeLegs(trade));
 
           return sum + fifoHoldingDays;
         }, 0) / totalTrades
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Trade } from '../types/trade';
+import { useTruePortfolioWithTrades } from './use-true-portfolio-with-trades';
+import { useAccountingMethod } from '../context/AccountingMethodContext';
+import { calculateDailyPortfolioValues } from '../utils/tradeCalculations';
+import {
+  BenchmarkClose,
+  buildBenchmarkComparison,
+  calcBenchmarkMetrics,
+  fetchBenchmarkCloses
+} from '../utils/benchmarks';
+import { getCapitalFlowsByDate } from '../utils/returns';
+
+/**
+ * Portfolio against a benchmark index on our capital timeline, with relative metrics.
+ * Pass an empty symbol to skip loading.
+ */
+export const useBenchmarkComparison = (trades: Trade[], symbol: string) => {
+  const { capitalChanges } = useTruePortfolioWithTrades(trades);
+  const { accountingMethod } = useAccountingMethod();
+  const useCashBasis = accountingMethod === 'cash';
+  const [closes, setCloses] = React.useState<BenchmarkClose[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const portfolioValues = React.useMemo(
+    () => calculateDailyPortfolioValues(trades, capitalChanges || [], useCashBasis),
+    [trades, capitalChanges, useCashBasis]
+  );
+  const flows = React.useMemo(() => getCapitalFlowsByDate(capitalChanges || []), [capitalChanges]);
+
+  const firstDate = React.useMemo(() => {
+    const dates = Array.from(portfolioValues.keys());
+    return dates.length > 0 ? Math.min(...dates) : null;
+  }, [portfolioValues]);
+
+  React.useEffect(() => {
+    if (!symbol || firstDate === null) {
+      setCloses([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchBenchmarkCloses(symbol, new Date(firstDate), new Date())
+      .then(result => {
+        if (cancelled) return;
+        setCloses(result);
+        if (result.length === 0) setError(`No candles for ${symbol}`);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error(`❌ Failed to load benchmark ${symbol}:`, err);
+        setCloses([]);
+        setError(`Could not load ${symbol}. Import its daily candles in Settings → Prices.`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, firstDate]);
+
+  const points = React.useMemo(
+    () => buildBenchmarkComparison(portfolioValues, flows, closes),
+    [portfolioValues, flows, closes]
+  );
+  const metrics = React.useMemo(() => calcBenchmarkMetrics(points), [points]);
+
+  return { points, metrics, isLoading, error };
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { DatabaseService } from '../db/database';
+import { JOURNAL_VIEWS_STORAGE_KEY, JournalView } from '../utils/journalQuery';
+
+/**
+ * Saved journal views, kept in IndexedDB misc data so backups carry them
+ */
+export const useJournalViews = () => {
+  const [views, setViews] = React.useState<JournalView[]>([]);
+  // Latest views, so updates can be saved outside the state updater
+  const viewsRef = React.useRef<JournalView[]>([]);
+
+  React.useEffect(() => {
+    DatabaseService.getMiscData(JOURNAL_VIEWS_STORAGE_KEY).then(stored => {
+      if (Array.isArray(stored)) {
+        viewsRef.current = stored;
+        setViews(stored);
+      }
+    });
+  }, []);
+
+  const saveViews = React.useCallback((update: (prev: JournalView[]) => JournalView[]) => {
+    const next = update(viewsRef.current);
+    viewsRef.current = next;
+    setViews(next);
+    DatabaseService.saveMiscData(JOURNAL_VIEWS_STORAGE_KEY, next);
+  }, []);
+
+  const addView = React.useCallback((view: JournalView) => {
+    saveViews(prev => [...prev, view]);
+    console.log(`💾 Saved journal view "${view.name}"`);
+  }, [saveViews]);
+
+  const updateView = React.useCallback((id: string, changes: Partial<JournalView>) => {
+    saveViews(prev => prev.map(view => view.id === id ? { ...view, ...changes } : view));
+  }, [saveViews]);
+
+  const deleteView = React.useCallback((id: string) => {
+    saveViews(prev => prev.filter(view => view.id !== id));
+  }, [saveViews]);
+
+  return { views, addView, updateView, deleteView };
+};
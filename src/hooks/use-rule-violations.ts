@@ -0,0 +1,34 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Trade } from '../types/trade';
+import { useRiskRules } from '../context/RiskRulesContext';
+import { useTruePortfolioWithTrades } from './use-true-portfolio-with-trades';
+import { getIndustrySectorByName, loadIndustrySectorMapping } from '../utils/industrySectorMap';
+import { RuleViolation, evaluateTradeRules } from '../utils/tradeRules';
+
+/**
+ * Risk rule violations of the trades, keyed by trade id
+ * @param trades - Stored trades (`originalTrades`), one entry per trade
+ */
+export const useRuleViolations = (trades: Trade[]) => {
+  const { riskRules } = useRiskRules();
+  const { portfolioSize, getPortfolioSize } = useTruePortfolioWithTrades(trades);
+  const [sectorsLoaded, setSectorsLoaded] = useState(false);
+
+  // The sector rule falls back to the symbol's sector from the industry mapping
+  useEffect(() => {
+    if (!riskRules.maxPositionsPerSector.enabled || sectorsLoaded) return;
+    loadIndustrySectorMapping().then(() => setSectorsLoaded(true));
+  }, [riskRules.maxPositionsPerSector.enabled, sectorsLoaded]);
+
+  const violationsById = useMemo<Map<string, RuleViolation[]>>(() => evaluateTradeRules(trades, {
+    portfolioSize,
+    getPortfolioSize,
+    getSector: trade => trade.sector || (sectorsLoaded ? getIndustrySectorByName(trade.name)?.sector : undefined)
+  }, riskRules), [trades, portfolioSize, getPortfolioSize, riskRules, sectorsLoaded]);
+
+  /** Violations of a journal row; cash basis rows carry the `_exit_` suffix */
+  const getViolations = useMemo(() => (tradeId: string): RuleViolation[] =>
+    violationsById.get(tradeId.split('_exit_')[0]) || [], [violationsById]);
+
+  return { violationsById, getViolations };
+};
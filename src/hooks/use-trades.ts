@@ -3,8 +3,13 @@ import { Trade } from "../types/trade";
 import { mockTrades } from "../data/mock-trades";
 import { useTruePortfolioWithTrades } from "./use-true-portfolio-with-trades";
 import { useGlobalFilter } from "../context/GlobalFilterContext";
-import { isInGlobalFilter } from "../utils/dateFilterUtils";
+import { isInGlobalFilter, isTradeInDimensionFilter } from "../utils/dateFilterUtils";
+import { loadIndustrySectorMapping } from "../utils/industrySectorMap";
 import { useAccountingMethod } from "../context/AccountingMethodContext";
+import { useChargesSettings } from "../context/ChargesSettingsContext";
+import { useMarketCalendar } from "../context/MarketCalendarContext";
+import { useAccount } from "../context/AccountContext";
+import { assignTradeNumbers, belongsToAccount, getAccountId } from "../utils/accounts";
 import { getTradeDateForAccounting } from "../utils/accountingUtils";
 import {
   calcAvgEntry,
@@ -22,8 +27,15 @@ import {
   calcRealizedPL_FIFO
 } from "../utils/tradeCalculations";
 import { calculateTradePL } from "../utils/accountingUtils";
+import { getTradeLegs, mergeLegacyFieldsIntoLegs, getEntryLegs, getExitLegs } from "../utils/tradeLegs";
+import { calcTradeCharges, ChargesSettings, DEFAULT_CHARGES_SETTINGS } from "../utils/chargesCalculator";
+import { getContractMultiplier, getStrategyId } from "../utils/derivatives";
+import { MarketCalendarSettings } from "../utils/marketCalendar";
+import { TagFilterMode, matchesTagFilter } from "../utils/tradeTags";
+import { QueryGroup, matchesQuery } from "../utils/journalQuery";
 import { DatabaseService, TradeRecord } from "../db/database";
 import { MigrationService } from "../db/migration";
+import { BackupHistoryService } from "../db/backupHistory";
 // Migrated from localStorage to IndexedDB using Dexie
 
 // Define SortDirection type compatible with HeroUI Table
@@ -172,6 +184,7 @@ async function clearAllTradeAndSettingsData(): Promise<boolean> {
           key === 'heroui-theme' ||
           key === 'userPreferences' ||
           key === 'accountingMethod' ||
+          key === 'activeAccountId' ||
           key === 'dashboardConfig' ||
           key === 'milestones' ||
           key === 'achievements' ||
@@ -211,7 +224,8 @@ function recalculateAllTrades(
   trades: Trade[],
   getTruePortfolioSize: (month: string, year: number) => number,
   useCashBasis: boolean = false,
-  skipExpensiveCalculations: boolean = false
+  skipExpensiveCalculations: boolean = false,
+  chargesSettings: ChargesSettings = DEFAULT_CHARGES_SETTINGS
 ): Trade[] {
   // Sort trades by date (or tradeNo as fallback) for cummPf calculation
   const sorted = [...trades].sort((a, b) => {
@@ -250,16 +264,16 @@ function recalculateAllTrades(
 
   // First pass for individual trade calculations
   const calculatedTrades = sorted.map((trade) => {
-    // Original entry and pyramid entries for calculations
-    const allEntries = [
-      { price: Number(trade.entry || 0), qty: Number(trade.initialQty || 0) },
-      { price: Number(trade.pyramid1Price || 0), qty: Number(trade.pyramid1Qty || 0) },
-      { price: Number(trade.pyramid2Price || 0), qty: Number(trade.pyramid2Qty || 0) }
-    ].filter(e => e.qty > 0 && e.price > 0); // Filter out entries with 0 qty or price
-
-    const avgEntry = calcAvgEntry(allEntries);
+    // Reconcile legs with any edits made through the legacy slot fields,
+    // then derive every quantity and price from the leg list
+    const legs = mergeLegacyFieldsIntoLegs(trade);
+    const allEntries = getEntryLegs(legs).filter(e => e.price > 0);
+
+    const avgEntry = calcAvgEntry(legs);
     const totalInitialQty = allEntries.reduce((sum, e) => sum + e.qty, 0);
-    const positionSize = calcPositionSize(avgEntry, totalInitialQty);
+    // F&O quantities are in lots; rupee amounts are per unit times the lot size
+    const multiplier = getContractMultiplier(trade);
+    const positionSize = calcPositionSize(avgEntry, totalInitialQty, multiplier);
 
     // Get the true portfolio size for the trade's entry date (for allocation calculation)
     let tradePortfolioSize = 100000; // Default fallback
@@ -278,15 +292,11 @@ function recalculateAllTrades(
     const slPercent = calcSLPercent(trade.sl, trade.entry);
 
     // Exit legs
-    const allExits = [
-      { price: Number(trade.exit1Price || 0), qty: Number(trade.exit1Qty || 0) },
-      { price: Number(trade.exit2Price || 0), qty: Number(trade.exit2Qty || 0) },
-      { price: Number(trade.exit3Price || 0), qty: Number(trade.exit3Qty || 0) }
-    ].filter(e => e.qty > 0 && e.price > 0); // Filter out exits with 0 qty or price
+    const allExits = getExitLegs(legs).filter(e => e.price > 0);
 
     const exitedQty = allExits.reduce((sum, e) => sum + e.qty, 0);
     const openQty = totalInitialQty - exitedQty;
-    const avgExitPrice = calcAvgExitPrice(allExits); // Avg price of actual exits
+    const avgExitPrice = calcAvgExitPrice(legs); // Avg price of actual exits
 
     const stockMove = calcStockMove(
       avgEntry,
@@ -309,46 +319,21 @@ function recalculateAllTrades(
       trade.buySell
     );
 
-    const pyramidDates = [];
-    if (trade.pyramid1Date && trade.pyramid1Qty) pyramidDates.push({ date: trade.pyramid1Date, qty: trade.pyramid1Qty });
-    if (trade.pyramid2Date && trade.pyramid2Qty) pyramidDates.push({ date: trade.pyramid2Date, qty: trade.pyramid2Qty });
-    
-    const exitDatesForHolding = [];
-    if (trade.exit1Date && trade.exit1Qty) exitDatesForHolding.push({ date: trade.exit1Date, qty: trade.exit1Qty });
-    if (trade.exit2Date && trade.exit2Qty) exitDatesForHolding.push({ date: trade.exit2Date, qty: trade.exit2Qty });
-    if (trade.exit3Date && trade.exit3Qty) exitDatesForHolding.push({ date: trade.exit3Date, qty: trade.exit3Qty });
-    
-    let primaryExitDateForHolding: string | null = null;
-    if (allExits.length > 0) {
-        const validExitDates = [trade.exit1Date, trade.exit2Date, trade.exit3Date].filter(Boolean) as string[];
-        if (validExitDates.length > 0) {
-            primaryExitDateForHolding = validExitDates.sort((a,b) => new Date(a).getTime() - new Date(b).getTime())[0];
-        }
-    }
-    if (trade.positionStatus !== "Open" && !primaryExitDateForHolding && allExits.length > 0) {
-        primaryExitDateForHolding = trade.date;
-    }
+    const holdingDays = calcHoldingDays(legs);
 
-    const holdingDays = calcHoldingDays(
-        trade.date, 
-        primaryExitDateForHolding, 
-        pyramidDates, 
-        exitDatesForHolding
-    );
+    const realisedAmount = calcRealisedAmount(exitedQty, avgExitPrice, multiplier);
 
-    const realisedAmount = calcRealisedAmount(exitedQty, avgExitPrice);
+    const plRs = exitedQty > 0 ? calcRealizedPL_FIFO(legs, trade.buySell as 'Buy' | 'Sell', multiplier) : 0;
 
-    const entryLotsForFifo = allEntries.map(e => ({ price: e.price, qty: e.qty }));
-    const exitLotsForFifo = allExits.map(e => ({ price: e.price, qty: e.qty }));
-
-    const plRs = exitedQty > 0 ? calcRealizedPL_FIFO(entryLotsForFifo, exitLotsForFifo, trade.buySell as 'Buy' | 'Sell') : 0;
+    // Brokerage and statutory charges per leg, and realized P/L net of charges
+    const { legs: chargedLegs, charges, netPlRs } = calcTradeCharges({ ...trade, legs }, plRs, chargesSettings);
 
     // Calculate accounting-aware P/L and PF Impact using correct portfolio size
-    const accountingAwarePL = calculateTradePL({...trade, plRs}, useCashBasis);
+    const accountingAwarePL = calculateTradePL({...trade, legs, plRs}, useCashBasis);
     const accountingAwarePortfolioSize = getTruePortfolioSize ?
       (() => {
         try {
-          const relevantDate = getTradeDateForAccounting(trade, useCashBasis);
+          const relevantDate = getTradeDateForAccounting({...trade, legs}, useCashBasis);
           const date = new Date(relevantDate);
           const month = date.toLocaleString('default', { month: 'short' });
           const year = date.getFullYear();
@@ -392,12 +377,14 @@ function recalculateAllTrades(
 
     return {
       ...restOfTrade,
+      legs: chargedLegs,
       // Apply calculated fields
       name: (restOfTrade.name || '').toUpperCase(),
       avgEntry,
       positionSize,
       allocation,
       slPercent,
+      strategyId: getStrategyId(restOfTrade),
       openQty: finalOpenQty,
       exitedQty,
       avgExitPrice,
@@ -405,6 +392,8 @@ function recalculateAllTrades(
       holdingDays,
       realisedAmount,
       plRs,
+      netPlRs,
+      charges,
       pfImpact,
       positionStatus: calculatedPositionStatus, // Use calculated or preserved status
       cummPf: 0, // Placeholder, will be updated in second pass
@@ -467,13 +456,39 @@ function recalculateAllTrades(
   });
 }
 
+// Each account has its own capital, so trades are recalculated account by account
+function recalculateTradesByAccount(
+  trades: Trade[],
+  getTruePortfolioSize: (month: string, year: number, accountId?: string) => number,
+  useCashBasis: boolean = false,
+  skipExpensiveCalculations: boolean = false,
+  chargesSettings: ChargesSettings = DEFAULT_CHARGES_SETTINGS
+): Trade[] {
+  const tradesByAccount = new Map<string, Trade[]>();
+  trades.forEach(trade => {
+    const accountId = getAccountId(trade);
+    if (!tradesByAccount.has(accountId)) tradesByAccount.set(accountId, []);
+    tradesByAccount.get(accountId)!.push(trade);
+  });
+
+  return Array.from(tradesByAccount.entries()).flatMap(([accountId, accountTrades]) =>
+    recalculateAllTrades(
+      accountTrades,
+      (month, year) => getTruePortfolioSize(month, year, accountId),
+      useCashBasis,
+      skipExpensiveCalculations,
+      chargesSettings
+    )
+  );
+}
+
 // Define ALL_COLUMNS here, as it's closely tied to the hook's state
 const ALL_COLUMNS = [
   'tradeNo', 'date', 'name', 'setup', 'buySell', 'entry', 'sl', 'slPercent', 'tsl', 'cmp',
   'initialQty', 'pyramid1Price', 'pyramid1Qty', 'pyramid1Date', 'pyramid2Price', 'pyramid2Qty', 'pyramid2Date',
   'positionSize', 'allocation', 'exit1Price', 'exit1Qty', 'exit1Date', 'exit2Price', 'exit2Qty', 'exit2Date',
   'exit3Price', 'exit3Qty', 'exit3Date', 'openQty', 'exitedQty', 'avgExitPrice', 'stockMove', 'openHeat',
-  'rewardRisk', 'holdingDays', 'positionStatus', 'realisedAmount', 'plRs', 'pfImpact', 'cummPf',
+  'rewardRisk', 'holdingDays', 'positionStatus', 'realisedAmount', 'plRs', 'netPlRs', 'pfImpact', 'cummPf',
   'planFollowed', 'exitTrigger', 'proficiencyGrowthAreas', 'unrealizedPL', 'actions', 'notes'
 ];
 
@@ -483,7 +498,7 @@ const DEFAULT_VISIBLE_COLUMNS = [
   'initialQty', 'pyramid1Price', 'pyramid1Qty', 'pyramid1Date', 'pyramid2Price', 'pyramid2Qty', 'pyramid2Date',
   'positionSize', 'allocation', 'exit1Price', 'exit1Qty', 'exit1Date', 'exit2Price', 'exit2Qty', 'exit2Date',
   'exit3Price', 'exit3Qty', 'exit3Date', 'openQty', 'exitedQty', 'avgExitPrice', 'stockMove', 'openHeat',
-  'rewardRisk', 'holdingDays', 'positionStatus', 'realisedAmount', 'plRs', 'pfImpact', 'cummPf',
+  'rewardRisk', 'holdingDays', 'positionStatus', 'realisedAmount', 'plRs', 'netPlRs', 'pfImpact', 'cummPf',
   'planFollowed', 'exitTrigger', 'proficiencyGrowthAreas', 'chartAttachments', 'actions', 'unrealizedPL', 'notes'
 ];
 
@@ -493,27 +508,37 @@ export const useTrades = () => {
   const [isRecalculating, setIsRecalculating] = React.useState(false);
   const [searchQuery, setSearchQuery] = React.useState('');
   const [statusFilter, setStatusFilter] = React.useState('');
+  const [tagFilter, setTagFilter] = React.useState<string[]>([]);
+  const [tagFilterMode, setTagFilterMode] = React.useState<TagFilterMode>('any');
+  const [advancedQuery, setAdvancedQuery] = React.useState<QueryGroup | null>(null);
+  const [activeViewId, setActiveViewId] = React.useState<string | null>(null);
   const [sortDescriptor, setSortDescriptor] = React.useState<SortDescriptor>({ column: 'tradeNo', direction: 'ascending' });
   const [visibleColumns, setVisibleColumns] = React.useState<string[]>(DEFAULT_VISIBLE_COLUMNS);
   const { filter: globalFilter } = useGlobalFilter();
+  const [sectorMappingLoaded, setSectorMappingLoaded] = React.useState(false);
   const { accountingMethod } = useAccountingMethod();
   const useCashBasis = accountingMethod === 'cash';
+  const { chargesSettings } = useChargesSettings();
+  const { calendarSettings } = useMarketCalendar();
+  const { accounts, activeAccountId, writableAccountId } = useAccount();
 
   // Track previous accounting method to avoid unnecessary recalculations
   const prevAccountingMethodRef = React.useRef<string>(accountingMethod);
+  const prevChargesSettingsRef = React.useRef<ChargesSettings>(chargesSettings);
+  const prevCalendarSettingsRef = React.useRef<MarketCalendarSettings>(calendarSettings);
 
   // Get true portfolio functions - use empty array to avoid circular dependency
   const { portfolioSize, getPortfolioSize } = useTruePortfolioWithTrades([]);
 
   // Memoize the recalculation helper that wraps the pure `recalculateAllTrades` function.
   // Use a stable reference to getPortfolioSize to prevent infinite loops
-  const stableGetPortfolioSize = React.useCallback((month: string, year: number) => {
-    return getPortfolioSize(month, year);
+  const stableGetPortfolioSize = React.useCallback((month: string, year: number, accountId?: string) => {
+    return getPortfolioSize(month, year, accountId);
   }, [getPortfolioSize]);
 
   const recalculateTradesWithCurrentPortfolio = React.useCallback((tradesToRecalculate: Trade[], skipExpensiveCalculations: boolean = false) => {
-    return recalculateAllTrades(tradesToRecalculate, stableGetPortfolioSize, useCashBasis, skipExpensiveCalculations);
-  }, [stableGetPortfolioSize, useCashBasis]);
+    return recalculateTradesByAccount(tradesToRecalculate, stableGetPortfolioSize, useCashBasis, skipExpensiveCalculations, chargesSettings);
+  }, [stableGetPortfolioSize, useCashBasis, chargesSettings]);
 
   // Memory usage monitor
   React.useEffect(() => {
@@ -580,6 +605,10 @@ export const useTrades = () => {
         setTrades(initiallyCalculatedTrades);
         setSearchQuery(savedSearchQuery);
         setStatusFilter(savedStatusFilter);
+        setTagFilter(settings?.tag_filter || []);
+        setTagFilterMode(settings?.tag_filter_mode || 'any');
+        setAdvancedQuery(settings?.advanced_query || null);
+        setActiveViewId(settings?.active_view_id || null);
         setSortDescriptor(settings?.sort_descriptor || { column: 'tradeNo', direction: 'ascending' });
         setVisibleColumns(settings?.visible_columns || DEFAULT_VISIBLE_COLUMNS);
 
@@ -600,12 +629,27 @@ export const useTrades = () => {
     loadData();
   }, []); // Empty dependency array means it runs only once on mount.
 
+  // Drop the trades of deleted accounts; deleteAccount has already removed them from IndexedDB
+  const accountIdsRef = React.useRef<string[]>(accounts.map(account => account.id));
+  React.useEffect(() => {
+    const accountIds = accounts.map(account => account.id);
+    const deletedIds = accountIdsRef.current.filter(id => !accountIds.includes(id));
+    accountIdsRef.current = accountIds;
+    if (deletedIds.length === 0) return;
+    setTrades(prev => prev.filter(trade => !deletedIds.includes(getAccountId(trade))));
+    console.log(`🗑️ Removed the trades of deleted account(s): ${deletedIds.join(', ')}`);
+  }, [accounts]);
+
   // Save trade settings to IndexedDB
   React.useEffect(() => {
     if (!isLoading) {
       const settings = {
         search_query: searchQuery,
         status_filter: statusFilter,
+        tag_filter: tagFilter,
+        tag_filter_mode: tagFilterMode,
+        advanced_query: advancedQuery,
+        active_view_id: activeViewId,
         sort_descriptor: sortDescriptor,
         visible_columns: visibleColumns
       };
@@ -613,7 +657,7 @@ export const useTrades = () => {
         console.log(`📊 [useTrades] Settings save ${success ? 'successful' : 'failed'}`);
       });
     }
-  }, [searchQuery, statusFilter, sortDescriptor, visibleColumns, isLoading]);
+  }, [searchQuery, statusFilter, tagFilter, tagFilterMode, advancedQuery, activeViewId, sortDescriptor, visibleColumns, isLoading]);
 
   // DISABLED: This effect was causing race conditions with user input
   // localStorage saving is now handled directly in updateTrade, addTrade, deleteTrade functions
@@ -635,7 +679,7 @@ export const useTrades = () => {
       // Debounce the recalculation to prevent rapid successive calls
       const timeoutId = setTimeout(() => {
         // Use the pure function directly to avoid circular dependency
-        const recalculatedTrades = recalculateAllTrades(trades, stableGetPortfolioSize, useCashBasis, false);
+        const recalculatedTrades = recalculateTradesByAccount(trades, stableGetPortfolioSize, useCashBasis, false, chargesSettings);
         setTrades(recalculatedTrades);
       }, 100); // Small delay to batch any rapid changes
 
@@ -646,6 +690,40 @@ export const useTrades = () => {
     }
   }, [accountingMethod]); // Only depend on accounting method to avoid circular dependencies
 
+  // Recompute per-leg charges when the brokerage plan or charges settings change
+  React.useEffect(() => {
+    if (prevChargesSettingsRef.current !== chargesSettings && !isLoading && trades.length > 0) {
+      const timeoutId = setTimeout(() => {
+        const recalculatedTrades = recalculateTradesByAccount(trades, stableGetPortfolioSize, useCashBasis, false, chargesSettings);
+        setTrades(recalculatedTrades);
+        saveTradesToIndexedDB(recalculatedTrades).then(success => {
+          console.log(`💸 [chargesSettings] Recalculated charges save ${success ? 'successful' : 'failed'}`);
+        });
+      }, 100);
+
+      prevChargesSettingsRef.current = chargesSettings;
+
+      return () => clearTimeout(timeoutId);
+    }
+  }, [chargesSettings]); // Only depend on charges settings to avoid circular dependencies
+
+  // Recompute holding days when exchange holidays or the holding-days basis change
+  React.useEffect(() => {
+    if (prevCalendarSettingsRef.current !== calendarSettings && !isLoading && trades.length > 0) {
+      const timeoutId = setTimeout(() => {
+        const recalculatedTrades = recalculateTradesByAccount(trades, stableGetPortfolioSize, useCashBasis, false, chargesSettings);
+        setTrades(recalculatedTrades);
+        saveTradesToIndexedDB(recalculatedTrades).then(success => {
+          console.log(`📅 [calendarSettings] Recalculated holding days save ${success ? 'successful' : 'failed'}`);
+        });
+      }, 100);
+
+      prevCalendarSettingsRef.current = calendarSettings;
+
+      return () => clearTimeout(timeoutId);
+    }
+  }, [calendarSettings]); // Only depend on calendar settings to avoid circular dependencies
+
   const addTrade = React.useCallback(async (trade: Trade) => {
     console.log(`➕ [addTrade] Adding new trade: ${trade.name} (${trade.id})`);
 
@@ -673,8 +751,8 @@ export const useTrades = () => {
     setTrades(prev => {
       console.log(`➕ [addTrade] Current trades count: ${prev.length}`);
 
-      // Add new trade to the array
-      const combinedTrades = [...prev, trade];
+      // Add new trade to the array, in the selected account unless it names one
+      const combinedTrades = [...prev, { ...trade, accountId: trade.accountId || writableAccountId }];
 
       // Sort all trades by date to ensure proper chronological order (with safe date parsing)
       combinedTrades.sort((a, b) => {
@@ -690,9 +768,7 @@ export const useTrades = () => {
       });
 
       // Reassign sequential trade numbers based on chronological order
-      combinedTrades.forEach((t, index) => {
-        t.tradeNo = String(index + 1);
-      });
+      assignTradeNumbers(combinedTrades);
 
       console.log(`📅 Sorted ${combinedTrades.length} trades chronologically and reassigned trade numbers`);
 
@@ -712,7 +788,7 @@ export const useTrades = () => {
 
       return newTrades;
     });
-  }, [recalculateTradesWithCurrentPortfolio]); // Dependency on the memoized helper
+  }, [recalculateTradesWithCurrentPortfolio, writableAccountId]); // Dependency on the memoized helper
 
   // Debounced update function to prevent excessive recalculations
   const debouncedRecalculateRef = React.useRef<NodeJS.Timeout | null>(null);
@@ -795,7 +871,7 @@ export const useTrades = () => {
 
             // CRITICAL: For cash basis updates, we need to merge the changes into the original trade
             // but preserve the original trade ID (not the expanded ID)
-            const updatedTrade = { ...pendingUpdate, id: trade.id };
+            const updatedTrade = { ...pendingUpdate, id: trade.id, accountId: pendingUpdate.accountId || trade.accountId };
             return updatedTrade;
           }
           return trade;
@@ -873,13 +949,25 @@ export const useTrades = () => {
   }, [recalculateTradesWithCurrentPortfolio]);
 
   // Bulk import function for better performance with optimized calculations
-  const bulkImportTrades = React.useCallback((importedTrades: Trade[]) => {
+  const bulkImportTrades = React.useCallback(async (importedTrades: Trade[]): Promise<boolean> => {
     console.log(`🚀 Starting optimized bulk import of ${importedTrades.length} trades...`);
+
+    // Keep a snapshot of the journal as it was before the import; without one the import is not undoable
+    const currentTrades = await DatabaseService.getAllTrades();
+    const snapshotCreated = await DatabaseService.createBackup('trades', currentTrades, `Before import of ${importedTrades.length} trades`, 'import');
+    if (!snapshotCreated) {
+      console.error('❌ Bulk import cancelled: the pre-import snapshot could not be saved');
+      return false;
+    }
+
     const startTime = performance.now();
 
     setTrades(prev => {
-      // Combine existing trades with imported trades
-      const combinedTrades = [...importedTrades, ...prev];
+      // Combine existing trades with imported trades; imports go to the selected account
+      const combinedTrades = [
+        ...importedTrades.map(trade => ({ ...trade, accountId: trade.accountId || writableAccountId })),
+        ...prev
+      ];
 
       // Sort all trades by date to ensure proper chronological order (with safe date parsing)
       combinedTrades.sort((a, b) => {
@@ -895,9 +983,7 @@ export const useTrades = () => {
       });
 
       // Reassign sequential trade numbers based on chronological order
-      combinedTrades.forEach((trade, index) => {
-        trade.tradeNo = String(index + 1);
-      });
+      assignTradeNumbers(combinedTrades);
 
       console.log(`📅 Sorted ${combinedTrades.length} trades chronologically and reassigned trade numbers`);
 
@@ -936,11 +1022,15 @@ export const useTrades = () => {
 
       return quickProcessedTrades;
     });
-  }, [recalculateTradesWithCurrentPortfolio]);
+    return true;
+  }, [recalculateTradesWithCurrentPortfolio, writableAccountId]);
 
   const clearAllTrades = React.useCallback(async () => {
     console.log('🗑️ Starting clearAllTrades process...');
 
+    // Snapshot everything first; clearing leaves the backups table intact
+    await BackupHistoryService.snapshotDatabase('Before clearing all data', 'clear');
+
     const success = await clearAllTradeAndSettingsData();
 
     if (success) {
@@ -1014,8 +1104,15 @@ export const useTrades = () => {
 
     const pfImpact = currentPortfolioSize > 0 ? (plRs / currentPortfolioSize) * 100 : 0;
 
+    // Charges on the exited quantity are the same under both accounting methods;
+    // grouped cash basis rows overwrite plRs, so read them from an expanded (original) copy
+    const chargesSource = trade._expandedTrades?.[0] || trade;
+    const realizedCharges = (chargesSource.plRs || 0) - (chargesSource.netPlRs ?? chargesSource.plRs ?? 0);
+    const netPlRs = plRs - realizedCharges;
+
     return {
       plRs,
+      netPlRs,
       realisedAmount,
       pfImpact,
     };
@@ -1070,8 +1167,22 @@ export const useTrades = () => {
     return Array.from(groupedMap.values());
   }, [useCashBasis, calculateTradePL]);
 
+  // Trades of the selected account; every account in the consolidated view
+  const accountTrades = React.useMemo(() => {
+    return trades.filter(trade => belongsToAccount(trade, activeAccountId));
+  }, [trades, activeAccountId]);
+
+  // Sector and industry filters fall back to the industry mapping for trades without a sector
+  const needsSectorMapping = Boolean(globalFilter.sectors?.length || globalFilter.industries?.length);
+  React.useEffect(() => {
+    if (!needsSectorMapping || sectorMappingLoaded) return;
+    loadIndustrySectorMapping()
+      .then(() => setSectorMappingLoaded(true))
+      .catch(error => console.error('❌ Failed to load industry sector mapping:', error));
+  }, [needsSectorMapping, sectorMappingLoaded]);
+
   const filteredTrades = React.useMemo(() => {
-    let result = [...trades];
+    let result = [...accountTrades];
 
     // For cash basis, we need to handle trade filtering differently
     // Instead of filtering trades, we need to expand trades with multiple exits
@@ -1083,11 +1194,8 @@ export const useTrades = () => {
       result.forEach(trade => {
         if (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial') {
           // Get all exits for this trade
-          const exits = [
-            { date: trade.exit1Date, qty: trade.exit1Qty || 0, price: trade.exit1Price || 0 },
-            { date: trade.exit2Date, qty: trade.exit2Qty || 0, price: trade.exit2Price || 0 },
-            { date: trade.exit3Date, qty: trade.exit3Qty || 0, price: trade.exit3Price || 0 }
-          ].filter(exit => exit.date && exit.date.trim() !== '' && exit.qty > 0);
+          const exits = getExitLegs(getTradeLegs(trade))
+            .filter(exit => exit.date && exit.date.trim() !== '');
 
           if (exits.length > 0) {
             // Create a trade entry for each exit (for cash basis)
@@ -1108,7 +1216,7 @@ export const useTrades = () => {
           } else {
             // Debug: Log trades with no exit data
             if (process.env.NODE_ENV === 'development' && (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial')) {
-              console.log(`⚠️ [No Exit Data] ${trade.name}: status=${trade.positionStatus}, exit1Date=${trade.exit1Date}, exit1Qty=${trade.exit1Qty}, plRs=${trade.plRs}`);
+              console.log(`⚠️ [No Exit Data] ${trade.name}: status=${trade.positionStatus}, legs=${getTradeLegs(trade).length}, plRs=${trade.plRs}`);
             }
             // Fallback: if no individual exit data, use the original trade
             expandedTrades.push(trade);
@@ -1129,10 +1237,10 @@ export const useTrades = () => {
       result = groupTradesForDisplay(expandedTrades);
     }
 
-    // Apply global filter using accounting method-aware date
+    // Apply global filter using accounting method-aware date, then its trade dimensions
     result = result.filter(trade => {
       const relevantDate = getTradeDateForAccounting(trade, useCashBasis);
-      return isInGlobalFilter(relevantDate, globalFilter);
+      return isInGlobalFilter(relevantDate, globalFilter) && isTradeInDimensionFilter(trade, globalFilter);
     });
 
     // Apply search filter
@@ -1150,6 +1258,16 @@ export const useTrades = () => {
       result = result.filter(trade => trade.positionStatus === statusFilter);
     }
 
+    // Apply tag filter
+    if (tagFilter.length > 0) {
+      result = result.filter(trade => matchesTagFilter(trade, tagFilter, tagFilterMode));
+    }
+
+    // Apply the advanced query (filter builder / saved view)
+    if (advancedQuery) {
+      result = result.filter(trade => matchesQuery(trade, advancedQuery));
+    }
+
     // Apply sorting
     if (sortDescriptor.column && sortDescriptor.direction) {
       result.sort((a, b) => {
@@ -1229,11 +1347,11 @@ export const useTrades = () => {
     });
 
     return result;
-  }, [trades, globalFilter, searchQuery, statusFilter, sortDescriptor, useCashBasis]);
+  }, [accountTrades, globalFilter, sectorMappingLoaded, searchQuery, statusFilter, tagFilter, tagFilterMode, advancedQuery, sortDescriptor, useCashBasis]);
 
   return {
     trades: filteredTrades, // Filtered and expanded trades for display
-    originalTrades: trades, // Original trades for unrealized P/L calculation
+    originalTrades: accountTrades, // Original trades for unrealized P/L calculation
     addTrade,
     updateTrade,
     deleteTrade,
@@ -1244,6 +1362,14 @@ export const useTrades = () => {
     setSearchQuery,
     statusFilter,
     setStatusFilter,
+    tagFilter,
+    setTagFilter,
+    tagFilterMode,
+    setTagFilterMode,
+    advancedQuery,
+    setAdvancedQuery,
+    activeViewId,
+    setActiveViewId,
     sortDescriptor,
     setSortDescriptor,
     visibleColumns,
@@ -12,9 +12,10 @@ export const useTruePortfolioWithTrades = (trades: any[] = []) => {
   const useCashBasis = accountingMethod === 'cash';
 
   // Memoize functions that depend on trades and accounting method
+  // accountId defaults to the active account (all accounts in the consolidated view)
   const getTruePortfolioSize = useMemo(() => {
-    return (month: string, year: number) => {
-      return truePortfolioContext.getTruePortfolioSize(month, year, trades, useCashBasis);
+    return (month: string, year: number, accountId?: string) => {
+      return truePortfolioContext.getTruePortfolioSize(month, year, trades, useCashBasis, accountId);
     };
   }, [truePortfolioContext.getTruePortfolioSize, trades, useCashBasis]);
 
@@ -36,6 +37,12 @@ export const useTruePortfolioWithTrades = (trades: any[] = []) => {
     };
   }, [truePortfolioContext.getAllMonthlyTruePortfolios, trades, useCashBasis]);
 
+  const getConsolidatedMonthlyTruePortfolios = useMemo(() => {
+    return () => {
+      return truePortfolioContext.getConsolidatedMonthlyTruePortfolios(trades, useCashBasis);
+    };
+  }, [truePortfolioContext.getConsolidatedMonthlyTruePortfolios, trades, useCashBasis]);
+
   // Current portfolio size for backward compatibility
   const portfolioSize = useMemo(() => {
     return getLatestTruePortfolioSize();
@@ -47,6 +54,7 @@ export const useTruePortfolioWithTrades = (trades: any[] = []) => {
     getLatestTruePortfolioSize,
     getMonthlyTruePortfolio,
     getAllMonthlyTruePortfolios,
+    getConsolidatedMonthlyTruePortfolios,
     
     // Backward compatibility
     portfolioSize,
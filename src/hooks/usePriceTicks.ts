@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { PriceTick, fetchPriceTicks, fetchPriceTicksWithFallback, getTodayMarketOpen, isMarketOpen } from '../utils/priceTickApi';
-import { isWeekend } from 'date-fns';
+import { PriceTick, getTodayMarketOpen, isMarketOpen } from '../utils/priceTickApi';
+import { fetchPriceTicksFromProvider } from '../utils/priceProviders';
+import { isTradingDay } from '../utils/marketCalendar';
 
 interface ProcessedTick extends Omit<PriceTick, 'dateTime'> {
   dateTime: string;
@@ -42,20 +43,10 @@ export const usePriceTicks = (symbol: string) => {
     setError(null);
 
     try {
-      console.log(`[usePriceTicks] Calling primary fetchPriceTicks for ${symbol}`);
-      let data;
-
-      try {
-        // Try primary API first
-        data = await fetchPriceTicks(symbol, fromDate, toDate);
-        console.log('[usePriceTicks] Primary API success:', data);
-      } catch (primaryError) {
-        console.warn('[usePriceTicks] Primary API failed, trying fallback:', primaryError);
-
-        // If primary fails, try fallback mechanism
-        data = await fetchPriceTicksWithFallback(symbol, fromDate, toDate);
-        console.log('[usePriceTicks] Fallback API success:', data);
-      }
+      console.log(`[usePriceTicks] Fetching ${symbol} from the selected price provider`);
+      // The provider falls back to other hosts or imported candles on its own
+      const data = await fetchPriceTicksFromProvider(symbol, fromDate, toDate);
+      console.log('[usePriceTicks] Provider success:', data);
 
       const processed = processTicks(data);
       console.log('[usePriceTicks] Processed ticks:', processed);
@@ -107,12 +98,11 @@ export const usePriceTicks = (symbol: string) => {
   // Helper function to determine if it's after-hours weekday (12:00 AM to 9:15 AM IST)
   const isAfterHoursWeekday = useCallback((): boolean => {
     const now = new Date();
-    const day = now.getDay();
     const hours = now.getHours();
     const minutes = now.getMinutes();
 
-    // Only applies to weekdays (Monday=1 to Friday=5)
-    if (day === 0 || day === 6) return false;
+    // Only applies to trading days
+    if (!isTradingDay(now)) return false;
 
     // Check if time is between 12:00 AM (00:00) and 9:15 AM (09:15)
     if (hours < 9 || (hours === 9 && minutes < 15)) {
@@ -128,7 +118,8 @@ export const usePriceTicks = (symbol: string) => {
     stopPolling();
 
     const now = new Date();
-    const isCurrentlyWeekend = isWeekend(now);
+    // Weekends and exchange holidays
+    const isCurrentlyWeekend = !isTradingDay(now);
     const isCurrentlyMarketOpen = isMarketOpen();
     const isCurrentlyAfterHours = isAfterHoursWeekday();
 
@@ -137,8 +128,8 @@ export const usePriceTicks = (symbol: string) => {
     let marketStatus: string;
 
     if (isCurrentlyWeekend) {
-      pollingInterval = 1800000; // 30 minutes on weekends (less frequent)
-      marketStatus = 'Weekend';
+      pollingInterval = 1800000; // 30 minutes on weekends and holidays (less frequent)
+      marketStatus = 'Weekend/Holiday';
     } else if (isCurrentlyAfterHours) {
       pollingInterval = 600000; // 10 minutes during after-hours weekdays (12:00 AM - 9:15 AM)
       marketStatus = 'After-Hours';
@@ -158,7 +149,7 @@ export const usePriceTicks = (symbol: string) => {
     // Set up polling
     pollingIntervalRef.current = setInterval(() => {
       const currentNow = new Date();
-      const currentIsWeekend = isWeekend(currentNow);
+      const currentIsWeekend = !isTradingDay(currentNow);
       const currentIsMarketOpen = isMarketOpen();
       const currentIsAfterHours = isAfterHoursWeekday();
 
@@ -168,7 +159,7 @@ export const usePriceTicks = (symbol: string) => {
 
       if (currentIsWeekend) {
         currentPollingInterval = 1800000; // 30 minutes
-        currentMarketStatus = 'Weekend';
+        currentMarketStatus = 'Weekend/Holiday';
       } else if (currentIsAfterHours) {
         currentPollingInterval = 600000; // 10 minutes
         currentMarketStatus = 'After-Hours';
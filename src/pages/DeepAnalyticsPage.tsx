@@ -10,7 +10,13 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip,
 import IndustryDistributionChart from '../components/analytics/IndustryDistributionChart';
 import { Accordion, AccordionItem } from "@heroui/react";
 import PnLDistributionCharts from '../components/analytics/PnLDistributionCharts';
+import RMultipleAnalysis from '../components/analytics/RMultipleAnalysis';
 import TradeHeatmap from '../components/analytics/TradeHeatmap';
+import ExcursionAnalysis from '../components/analytics/ExcursionAnalysis';
+import RuleViolationsReport from '../components/analytics/RuleViolationsReport';
+import TagPerformance from '../components/analytics/TagPerformance';
+import DrawdownAnalysis from '../components/analytics/DrawdownAnalysis';
+import MonteCarloSimulation from '../components/analytics/MonteCarloSimulation';
 import { useGlobalFilter } from '../context/GlobalFilterContext';
 import { useAccountingMethod } from '../context/AccountingMethodContext';
 import { calculateTradePL, getTradeDateForAccounting, getExitDatesWithFallback } from '../utils/accountingUtils';
@@ -27,30 +33,10 @@ import {
   annualizeMetric,
   calcUnrealizedPL // Import calcUnrealizedPL if not already imported
 } from '../utils/tradeCalculations';
-
-// Assuming Trade type is available from useTrades or a common types file
-// import { Trade } from '../types/trade'; 
-
-// Placeholder type if not explicitly imported (ensure these match your actual Trade type structure)
-interface Trade {
-    id: string;
-    name: string;
-    positionStatus: "Open" | "Closed" | "Partial";
-    positionSize: number; // Assuming positionSize is available
-    plRs: number; // Add plRs for calculating win/loss stats
-    holdingDays: number; // Add holdingDays for hold time stats
-    date: string; // Add date for streak calculation
-    pfImpact: number; // Add pfImpact for percentage-based calculations
-    setup?: string; // Ensure setup is included for the chart
-    avgEntry?: number;
-    cmp?: number;
-    openQty?: number;
-    buySell?: 'Buy' | 'Sell';
-}
-
+import { Trade } from '../types/trade';
 
 const DeepAnalyticsPage: React.FC = () => { // Renamed component
-    const { trades, isLoading } = useTrades();
+    const { trades, originalTrades, updateTrade, isLoading } = useTrades();
     const { portfolioSize, capitalChanges } = useTruePortfolioWithTrades(trades);
     const { filter } = useGlobalFilter();
     const { accountingMethod } = useAccountingMethod();
@@ -572,7 +558,7 @@ const DeepAnalyticsPage: React.FC = () => { // Renamed component
                          'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
                         }`}
                     >
-                        {cellValue}
+                        {item.positionStatus}
                     </span>
                 );
             default:
@@ -1021,6 +1007,14 @@ Values: (${(analytics.annualizedAverageReturn * 100).toFixed(1)}% - ${(analytics
                  <SetupFrequencyChart trades={trades} />
                             </Card>
             ) : null}
+
+                        {!isLoading && trades.length > 0 ? (
+                            <TagPerformance trades={trades} />
+                        ) : null}
+
+                        {!isLoading && trades.length > 0 ? (
+                            <ExcursionAnalysis trades={trades} originalTrades={originalTrades} onSaveTrade={updateTrade} />
+                        ) : null}
                      </div>
                 </AccordionItem>
 
@@ -1035,6 +1029,8 @@ Values: (${(analytics.annualizedAverageReturn * 100).toFixed(1)}% - ${(analytics
                             <>
                                 <PnLDistributionCharts trades={trades} />
 
+                                <RMultipleAnalysis trades={trades} />
+
             <Card className="border border-divider">
                 <CardHeader className="flex gap-3 items-center">
                     <Icon icon="lucide:pie-chart" className="text-xl text-primary-500" />
@@ -1066,6 +1062,51 @@ Values: (${(analytics.annualizedAverageReturn * 100).toFixed(1)}% - ${(analytics
 
             </div>
                 </AccordionItem>
+
+                <AccordionItem key="4" aria-label="Rule Compliance" title={
+                    <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                        <Icon icon="lucide:shield-alert" className="text-danger" />
+                        Rule Compliance
+                    </h2>
+                }>
+                    <div className="p-2 space-y-6">
+                        {!isLoading && trades.length > 0 ? (
+                            <RuleViolationsReport trades={trades} originalTrades={originalTrades} />
+                        ) : (
+                            <div className="text-foreground-400 text-lg font-medium text-center w-full py-12">No data in this period.</div>
+                        )}
+                    </div>
+                </AccordionItem>
+
+                <AccordionItem key="5" aria-label="Drawdown Analysis" title={
+                    <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                        <Icon icon="lucide:trending-down" className="text-danger" />
+                        Drawdown Analysis
+                    </h2>
+                }>
+                    <div className="p-2 space-y-6">
+                        {!isLoading && trades.length > 0 ? (
+                            <DrawdownAnalysis trades={trades} />
+                        ) : (
+                            <div className="text-foreground-400 text-lg font-medium text-center w-full py-12">No data in this period.</div>
+                        )}
+                    </div>
+                </AccordionItem>
+
+                <AccordionItem key="6" aria-label="Monte Carlo Projection" title={
+                    <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                        <Icon icon="lucide:dices" className="text-secondary" />
+                        Monte Carlo Projection
+                    </h2>
+                }>
+                    <div className="p-2 space-y-6">
+                        {!isLoading && trades.length > 0 ? (
+                            <MonteCarloSimulation trades={trades} />
+                        ) : (
+                            <div className="text-foreground-400 text-lg font-medium text-center w-full py-12">No data in this period.</div>
+                        )}
+                    </div>
+                </AccordionItem>
             </Accordion>
 
             {/* Trading Activity Heatmap Card */}
@@ -9,6 +9,7 @@ import { useAccountingMethod } from "../context/AccountingMethodContext";
 import { useGlobalFilter } from "../context/GlobalFilterContext";
 import { getTradesForMonth, calculateTradePL, getTradeDateForAccounting } from "../utils/accountingUtils";
 import MobileTooltip from "../components/ui/MobileTooltip";
+import ReturnsTable from "../components/analytics/ReturnsTable";
 
 // Helper function to create safe dependencies for useEffect/useMemo
 const safeDeps = (deps: any[]) => deps;
@@ -174,7 +175,7 @@ export const MonthlyPerformanceTable: React.FC = () => {
 
     // For months with no trades, show '-' for most stats and set finalCapital to 0
     // Use the starting capital from monthPortfolio which includes the net deposits/withdrawals
-    const adjustedStartingCapital = monthPortfolio.startingCapital || getPortfolioSize(month, selectedYear, trades, useCashBasis);
+    const adjustedStartingCapital = monthPortfolio.startingCapital || getPortfolioSize(month, selectedYear);
 
     // Check if there's any P/L for this month (regardless of trade count)
     // This is important for Cash Basis where P/L might exist without trades initiated in this month
@@ -362,7 +363,7 @@ export const MonthlyPerformanceTable: React.FC = () => {
     });
 
     // Get the current portfolio size for this month
-    const currentPortfolioSize = getPortfolioSize(month, year, trades, useCashBasis);
+    const currentPortfolioSize = getPortfolioSize(month, year);
     
     if (existingChange) {
       // Calculate the difference to adjust the portfolio size
@@ -1103,6 +1104,7 @@ export const MonthlyPerformanceTable: React.FC = () => {
           </Table>
         </div>
       </div>
+      <ReturnsTable trades={trades} />
     </div>
   );
 };
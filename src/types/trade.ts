@@ -12,24 +12,26 @@ export interface Trade {
   setup: string;
   baseDuration: string;
   initialQty: number;
-  pyramid1Price: number;
-  pyramid1Qty: number;
-  pyramid1Date: string;
-  pyramid2Price: number;
-  pyramid2Qty: number;
-  pyramid2Date: string;
+  // Legacy slot fields - mirror the 2nd/3rd entry legs and first three exit legs.
+  // `legs` is the source of truth; these are kept for the journal columns and old imports.
+  pyramid1Price?: number;
+  pyramid1Qty?: number;
+  pyramid1Date?: string;
+  pyramid2Price?: number;
+  pyramid2Qty?: number;
+  pyramid2Date?: string;
   positionSize: number;
   allocation: number;
   slPercent: number;
-  exit1Price: number;
-  exit1Qty: number;
-  exit1Date: string;
-  exit2Price: number;
-  exit2Qty: number;
-  exit2Date: string;
-  exit3Price: number;
-  exit3Qty: number;
-  exit3Date: string;
+  exit1Price?: number;
+  exit1Qty?: number;
+  exit1Date?: string;
+  exit2Price?: number;
+  exit2Qty?: number;
+  exit2Date?: string;
+  exit3Price?: number;
+  exit3Qty?: number;
+  exit3Date?: string;
   openQty: number;
   exitedQty: number;
   avgExitPrice: number;
@@ -78,6 +80,77 @@ export interface Trade {
 
   // Chart attachments - NEW FEATURE
   chartAttachments?: TradeChartAttachments;
+
+  // Every execution of the position, in the order they were entered
+  legs?: TradeLeg[];
+
+  // Brokerage and statutory charges of all legs, and realized P/L after the charges
+  // attributable to the exited quantity
+  charges?: TradeCharges;
+  netPlRs?: number;
+
+  // Maximum adverse / favourable excursion from historical candles (closed trades)
+  excursions?: TradeExcursions;
+
+  // Ids of the tags (mistakes, market condition, emotions, catalysts) on the trade
+  tags?: string[];
+
+  // Demat / trading account the trade belongs to (missing on trades from before accounts)
+  accountId?: string;
+
+  // Futures & options contract details (missing on equity trades). For FUT/OPT the leg
+  // quantities are in lots and prices are per unit; amounts are scaled by `lotSize`.
+  instrumentType?: 'EQ' | 'FUT' | 'OPT';
+  lotSize?: number;
+  expiry?: string;
+  strike?: number;
+  optionType?: 'CE' | 'PE';
+  // Legs of a multi-leg strategy (spread, straddle, ...) share a strategy id
+  strategyId?: string;
+  strategyName?: string;
+}
+
+// A single execution (fill) of a trade. Entry legs open or add to the position
+// (buys for longs, sells for shorts); exit legs reduce it.
+export interface TradeLeg {
+  id: string;
+  side: 'entry' | 'exit';
+  date: string;
+  price: number;
+  qty: number;
+  fees?: number;
+  note?: string;
+  charges?: TradeCharges; // Computed by the charges engine
+}
+
+// Brokerage and statutory charges (₹) of a leg, a trade or a month
+export interface TradeCharges {
+  brokerage: number;
+  stt: number;
+  exchangeCharges: number;
+  sebiCharges: number;
+  stampDuty: number;
+  gst: number;
+  ipft: number;
+  otherCharges: number; // DP charges and manually entered leg fees
+  total: number;
+}
+
+// How far price moved against (MAE) and in favour of (MFE) a trade between its first entry
+// and final exit, measured from the average entry on the full entered quantity
+export interface TradeExcursions {
+  maePrice: number; // Worst price reached (lowest low for longs, highest high for shorts)
+  mfePrice: number; // Best price reached
+  maeRs: number; // ₹, zero or positive
+  mfeRs: number;
+  maePercent: number; // % of the average entry
+  mfePercent: number;
+  maeR: number | null; // Multiples of the initial risk; null without an SL
+  mfeR: number | null;
+  exitEfficiency: number | null; // % of the MFE captured by the average exit
+  from: string; // Candle window the excursions were measured over (YYYY-MM-DD)
+  to: string;
+  computedAt: string;
 }
 
 // Chart attachment interfaces
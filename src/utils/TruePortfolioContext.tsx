@@ -1,10 +1,17 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback, useMemo } from "react";
-import { getExitDatesWithFallback } from './accountingUtils';
+import { getExitPLsWithFallback } from './accountingUtils';
+import { getTradeLegs, getExitLegs } from './tradeLegs';
+import { ALL_ACCOUNTS_ID, belongsToAccount, getAccountId } from './accounts';
+import { useAccount } from '../context/AccountContext';
+
+// Starting capitals, overrides and capital changes carry the account they belong to;
+// records from before accounts existed have no accountId and belong to the default account
 
 export interface YearlyStartingCapital {
   year: number;
   startingCapital: number;
   updatedAt: string;
+  accountId?: string;
 }
 
 export interface MonthlyStartingCapitalOverride {
@@ -13,6 +20,7 @@ export interface MonthlyStartingCapitalOverride {
   year: number;
   startingCapital: number;
   updatedAt: string;
+  accountId?: string;
 }
 
 export interface CapitalChange {
@@ -21,6 +29,7 @@ export interface CapitalChange {
   amount: number;  // Positive for deposits, negative for withdrawals
   type: 'deposit' | 'withdrawal';
   description: string;
+  accountId?: string;
 }
 
 export interface MonthlyTruePortfolio {
@@ -32,10 +41,12 @@ export interface MonthlyTruePortfolio {
   finalCapital: number; // Starting + changes + P&L
 }
 
+// Calculations default to the active account (or all accounts in the consolidated view);
+// pass an accountId to calculate for a specific account instead
 interface TruePortfolioContextType {
   // Core functions
-  getTruePortfolioSize: (month: string, year: number, trades?: any[], useCashBasis?: boolean) => number;
-  getLatestTruePortfolioSize: (trades?: any[], useCashBasis?: boolean) => number;
+  getTruePortfolioSize: (month: string, year: number, trades?: any[], useCashBasis?: boolean, accountId?: string) => number;
+  getLatestTruePortfolioSize: (trades?: any[], useCashBasis?: boolean, accountId?: string) => number;
 
   // Starting capital management
   yearlyStartingCapitals: YearlyStartingCapital[];
@@ -55,8 +66,13 @@ interface TruePortfolioContextType {
   deleteCapitalChange: (id: string) => void;
 
   // Monthly calculations
-  getMonthlyTruePortfolio: (month: string, year: number, trades?: any[], useCashBasis?: boolean) => MonthlyTruePortfolio;
-  getAllMonthlyTruePortfolios: (trades?: any[], useCashBasis?: boolean) => MonthlyTruePortfolio[];
+  getMonthlyTruePortfolio: (month: string, year: number, trades?: any[], useCashBasis?: boolean, accountId?: string) => MonthlyTruePortfolio;
+  getAllMonthlyTruePortfolios: (trades?: any[], useCashBasis?: boolean, accountId?: string) => MonthlyTruePortfolio[];
+  // Sum of the monthly true portfolios of every account
+  getConsolidatedMonthlyTruePortfolios: (trades?: any[], useCashBasis?: boolean) => MonthlyTruePortfolio[];
+
+  // Drop the capital records of a deleted account
+  removeAccountData: (accountId: string) => void;
 
   // Backward compatibility
   portfolioSize: number; // Latest true portfolio size
@@ -119,7 +135,21 @@ function saveMonthlyStartingCapitalOverrides(overrides: MonthlyStartingCapitalOv
   }
 }
 
+const SHORT_MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Add up the monthly true portfolios of several accounts month by month
+function sumMonthlyTruePortfolios(month: string, year: number, portfolios: MonthlyTruePortfolio[]): MonthlyTruePortfolio {
+  return portfolios.reduce((total, portfolio) => ({
+    ...total,
+    startingCapital: total.startingCapital + portfolio.startingCapital,
+    capitalChanges: total.capitalChanges + portfolio.capitalChanges,
+    pl: total.pl + portfolio.pl,
+    finalCapital: total.finalCapital + portfolio.finalCapital
+  }), { month, year, startingCapital: 0, capitalChanges: 0, pl: 0, finalCapital: 0 });
+}
+
 export const TruePortfolioProvider = ({ children }: { children: ReactNode }) => {
+  const { accounts, activeAccountId, writableAccountId } = useAccount();
   const [yearlyStartingCapitals, setYearlyStartingCapitals] = useState<YearlyStartingCapital[]>([]);
   const [capitalChanges, setCapitalChanges] = useState<CapitalChange[]>([]);
   const [monthlyStartingCapitalOverrides, setMonthlyStartingCapitalOverrides] = useState<MonthlyStartingCapitalOverride[]>([]);
@@ -174,15 +204,22 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     }
   }, [monthlyStartingCapitalOverrides, hydrated]);
 
+  // Account ids a calculation covers: the given/active account, or every account in the consolidated view
+  const resolveAccountIds = useCallback((accountId?: string): string[] => {
+    const target = accountId ?? activeAccountId;
+    return target === ALL_ACCOUNTS_ID ? accounts.map(account => account.id) : [target];
+  }, [accounts, activeAccountId]);
+
   const setYearlyStartingCapital = useCallback((year: number, amount: number) => {
     setYearlyStartingCapitals(prev => {
       const updated = [...prev];
-      const existingIndex = updated.findIndex(item => item.year === year);
+      const existingIndex = updated.findIndex(item => item.year === year && getAccountId(item) === writableAccountId);
       
       const newCapital = {
         year,
         startingCapital: amount,
-        updatedAt: new Date().toISOString()
+        updatedAt: new Date().toISOString(),
+        accountId: writableAccountId
       };
 
       if (existingIndex >= 0) {
@@ -193,13 +230,17 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
       
       return updated.sort((a, b) => a.year - b.year);
     });
-  }, []);
+  }, [writableAccountId]);
 
-  const getYearlyStartingCapital = useCallback((year: number): number => {
-    const capital = yearlyStartingCapitals.find(item => item.year === year);
+  const getYearlyStartingCapitalForAccount = useCallback((year: number, accountId: string): number => {
+    const capital = yearlyStartingCapitals.find(item => item.year === year && getAccountId(item) === accountId);
     return capital?.startingCapital || 0;
   }, [yearlyStartingCapitals]);
 
+  const getYearlyStartingCapital = useCallback((year: number): number => {
+    return resolveAccountIds().reduce((sum, accountId) => sum + getYearlyStartingCapitalForAccount(year, accountId), 0);
+  }, [resolveAccountIds, getYearlyStartingCapitalForAccount]);
+
   const setMonthlyStartingCapitalOverride = useCallback((month: string, year: number, amount: number) => {
     const normalizedMonth = month.length > 3 ?
       ({ "January": "Jan", "February": "Feb", "March": "Mar", "April": "Apr", "May": "May", "June": "Jun",
@@ -208,14 +249,15 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
 
     setMonthlyStartingCapitalOverrides(prev => {
       const updated = [...prev];
-      const existingIndex = updated.findIndex(item => item.month === normalizedMonth && item.year === year);
+      const existingIndex = updated.findIndex(item => item.month === normalizedMonth && item.year === year && getAccountId(item) === writableAccountId);
 
       const newOverride: MonthlyStartingCapitalOverride = {
-        id: `${normalizedMonth}-${year}`,
+        id: `${normalizedMonth}-${year}-${writableAccountId}`,
         month: normalizedMonth,
         year,
         startingCapital: amount,
-        updatedAt: new Date().toISOString()
+        updatedAt: new Date().toISOString(),
+        accountId: writableAccountId
       };
 
       if (existingIndex >= 0) {
@@ -226,7 +268,7 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
 
       return updated.sort((a, b) => a.year - b.year || a.month.localeCompare(b.month));
     });
-  }, []);
+  }, [writableAccountId]);
 
   const removeMonthlyStartingCapitalOverride = useCallback((month: string, year: number) => {
     const normalizedMonth = month.length > 3 ?
@@ -235,33 +277,40 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
       month;
 
     setMonthlyStartingCapitalOverrides(prev =>
-      prev.filter(item => !(item.month === normalizedMonth && item.year === year))
+      prev.filter(item => !(item.month === normalizedMonth && item.year === year && getAccountId(item) === writableAccountId))
     );
-  }, []);
+  }, [writableAccountId]);
 
-  const getMonthlyStartingCapitalOverride = useCallback((month: string, year: number): number | null => {
+  const getMonthlyStartingCapitalOverrideForAccount = useCallback((month: string, year: number, accountId: string): number | null => {
     const normalizedMonth = month.length > 3 ?
       ({ "January": "Jan", "February": "Feb", "March": "Mar", "April": "Apr", "May": "May", "June": "Jun",
          "July": "Jul", "August": "Aug", "September": "Sep", "October": "Oct", "November": "Nov", "December": "Dec" }[month] || month) :
       month;
 
-    const override = monthlyStartingCapitalOverrides.find(item => item.month === normalizedMonth && item.year === year);
+    const override = monthlyStartingCapitalOverrides.find(item => item.month === normalizedMonth && item.year === year && getAccountId(item) === accountId);
     return override ? override.startingCapital : null;
   }, [monthlyStartingCapitalOverrides]);
 
+  // Overrides are per account, so the consolidated view has none of its own
+  const getMonthlyStartingCapitalOverride = useCallback((month: string, year: number): number | null => {
+    if (activeAccountId === ALL_ACCOUNTS_ID) return null;
+    return getMonthlyStartingCapitalOverrideForAccount(month, year, activeAccountId);
+  }, [activeAccountId, getMonthlyStartingCapitalOverrideForAccount]);
+
   const addCapitalChange = useCallback((change: Omit<CapitalChange, 'id'>) => {
     const newChange = {
+      accountId: writableAccountId,
       ...change,
       id: `capital_${new Date().getTime()}_${Math.random()}`
     };
     
     setCapitalChanges(prev => [...prev, newChange]);
-  }, []);
+  }, [writableAccountId]);
 
   const updateCapitalChange = useCallback((updatedChange: CapitalChange) => {
     setCapitalChanges(prev => 
       prev.map(change => 
-        change.id === updatedChange.id ? updatedChange : change
+        change.id === updatedChange.id ? { accountId: change.accountId, ...updatedChange } : change
       )
     );
   }, []);
@@ -270,6 +319,26 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     setCapitalChanges(prev => prev.filter(change => change.id !== id));
   }, []);
 
+  const removeAccountData = useCallback((accountId: string) => {
+    const keep = (item: { accountId?: string }) => getAccountId(item) !== accountId;
+    // Persist directly: the save effects skip empty lists
+    setYearlyStartingCapitals(prev => {
+      const next = prev.filter(keep);
+      saveYearlyStartingCapitals(next);
+      return next;
+    });
+    setCapitalChanges(prev => {
+      const next = prev.filter(keep);
+      saveCapitalChanges(next);
+      return next;
+    });
+    setMonthlyStartingCapitalOverrides(prev => {
+      const next = prev.filter(keep);
+      saveMonthlyStartingCapitalOverrides(next);
+      return next;
+    });
+  }, []);
+
   // Helper function to get trades P&L for a specific month/year
   const getTradesPLForMonth = useCallback((month: string, year: number, trades: any[] = [], useCashBasis: boolean = false): number => {
     if (!trades || trades.length === 0) return 0;
@@ -287,7 +356,7 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
           let monthPL = 0;
 
           // Check each exit and attribute P&L to the respective exit months
-          const exits = getExitDatesWithFallback(trade);
+          const exits = getExitPLsWithFallback(trade);
 
           // Calculate P&L for exits in this specific month/year
           exits.forEach(exit => {
@@ -298,14 +367,8 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
             const exitYear = exitDate.getFullYear();
 
             if (exitMonth === month && exitYear === year) {
-              // Calculate P&L for this specific exit
-              const avgEntry = trade.avgEntry || trade.entry || 0;
-              if (avgEntry > 0 && exit.price > 0 && exit.qty > 0) {
-                const exitPL = trade.buySell === 'Buy'
-                  ? (exit.price - avgEntry) * exit.qty
-                  : (avgEntry - exit.price) * exit.qty;
-                monthPL += exitPL;
-              }
+              // FIFO P/L of this specific exit
+              monthPL += exit.pl;
             }
           });
 
@@ -346,10 +409,10 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
   }, []);
 
   // Helper function to get capital changes for a specific month/year
-  const getCapitalChangesForMonth = useCallback((month: string, year: number): number => {
+  const getCapitalChangesForMonth = useCallback((month: string, year: number, accountId: string): number => {
     return capitalChanges
       .filter(change => {
-        if (!change.date) return false;
+        if (!change.date || getAccountId(change) !== accountId) return false;
         const changeDate = new Date(change.date);
         // Use consistent month name conversion
         const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
@@ -381,7 +444,8 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
   }, []);
 
   // Core function to calculate monthly true portfolio with memoization
-  const calculateMonthlyTruePortfolio = useCallback((month: string, year: number, trades: any[] = [], memo: Map<string, MonthlyTruePortfolio> = new Map(), minOverallDate: Date | null = null, useCashBasis: boolean = false): MonthlyTruePortfolio => {
+  // Trades must already be limited to the account
+  const calculateMonthlyTruePortfolio = useCallback((month: string, year: number, trades: any[] = [], memo: Map<string, MonthlyTruePortfolio> = new Map(), minOverallDate: Date | null = null, useCashBasis: boolean = false, accountId: string): MonthlyTruePortfolio => {
     const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 
     // Normalize the month name
@@ -415,13 +479,13 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     }
     
     // Check for monthly starting capital override first
-    const override = getMonthlyStartingCapitalOverride(normalizedMonth, year);
+    const override = getMonthlyStartingCapitalOverrideForAccount(normalizedMonth, year, accountId);
     if (override !== null) {
       startingCapital = override;
     } else if (minOverallDate && currentMonthDate.getFullYear() === minOverallDate.getFullYear() && currentMonthDate.getMonth() === minOverallDate.getMonth()) {
       // If this is the absolute first month with data for the *entire* portfolio journey,
       // and there's no monthly override, use the yearly starting capital for its year.
-      startingCapital = getYearlyStartingCapital(year);
+      startingCapital = getYearlyStartingCapitalForAccount(year, accountId);
     } else {
       // For subsequent months, get final capital from previous month
       const prevMonthIndex = monthIndex - 1;
@@ -433,12 +497,12 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
         prevYear = year - 1;
       }
 
-      const prevMonthData = calculateMonthlyTruePortfolio(prevMonth, prevYear, trades, memo, minOverallDate, useCashBasis); // Pass minOverallDate and useCashBasis recursively
+      const prevMonthData = calculateMonthlyTruePortfolio(prevMonth, prevYear, trades, memo, minOverallDate, useCashBasis, accountId); // Pass minOverallDate and useCashBasis recursively
       startingCapital = prevMonthData.finalCapital;
     }
 
     // Get capital changes for this month
-    const capitalChangesAmount = getCapitalChangesForMonth(normalizedMonth, year);
+    const capitalChangesAmount = getCapitalChangesForMonth(normalizedMonth, year, accountId);
 
     // Revised starting capital = original starting capital + capital changes
     const revisedStartingCapital = startingCapital + capitalChangesAmount;
@@ -460,16 +524,13 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
 
     memo.set(key, result);
     return result;
-  }, [getYearlyStartingCapital, getCapitalChangesForMonth, getTradesPLForMonth, normalizeMonth, getMonthlyStartingCapitalOverride]);
+  }, [getYearlyStartingCapitalForAccount, getCapitalChangesForMonth, getTradesPLForMonth, normalizeMonth, getMonthlyStartingCapitalOverrideForAccount]);
 
-  // Public function to get monthly true portfolio
-  const getMonthlyTruePortfolio = useCallback((month: string, year: number, trades: any[] = [], useCashBasis: boolean = false): MonthlyTruePortfolio => {
-    const memo = new Map<string, MonthlyTruePortfolio>();
-
-    // Determine the earliest and latest dates with data (trades or capital changes)
+  // Earliest month with data (trades or capital changes) of one account
+  const getMinOverallDate = useCallback((trades: any[], accountId: string): Date => {
     let minOverallDate: Date | null = null;
 
-    [...trades, ...capitalChanges].forEach(item => {
+    [...trades, ...capitalChanges.filter(change => getAccountId(change) === accountId)].forEach(item => {
         if (item.date) {
             const itemDate = new Date(item.date);
             if (!minOverallDate || itemDate < minOverallDate) {
@@ -479,7 +540,7 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     });
 
     // Also consider yearly starting capitals for the earliest date
-    yearlyStartingCapitals.forEach(capital => {
+    yearlyStartingCapitals.filter(capital => getAccountId(capital) === accountId).forEach(capital => {
         const capitalDate = new Date(capital.year, 0, 1); // January 1st of the capital year
         if (!minOverallDate || capitalDate < minOverallDate) {
             minOverallDate = capitalDate;
@@ -495,13 +556,24 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     minOverallDate.setDate(1);
     minOverallDate.setHours(0, 0, 0, 0);
 
-    return calculateMonthlyTruePortfolio(month, year, trades, memo, minOverallDate, useCashBasis);
-  }, [calculateMonthlyTruePortfolio, yearlyStartingCapitals, capitalChanges]);
+    return minOverallDate;
+  }, [yearlyStartingCapitals, capitalChanges]);
+
+  // Public function to get monthly true portfolio
+  const getMonthlyTruePortfolio = useCallback((month: string, year: number, trades: any[] = [], useCashBasis: boolean = false, accountId?: string): MonthlyTruePortfolio => {
+    const portfolios = resolveAccountIds(accountId).map(id => {
+      const accountTrades = trades.filter(trade => belongsToAccount(trade, id));
+      const memo = new Map<string, MonthlyTruePortfolio>();
+      return calculateMonthlyTruePortfolio(month, year, accountTrades, memo, getMinOverallDate(accountTrades, id), useCashBasis, id);
+    });
+
+    return portfolios.length === 1 ? portfolios[0] : sumMonthlyTruePortfolios(normalizeMonth(month), year, portfolios);
+  }, [resolveAccountIds, calculateMonthlyTruePortfolio, getMinOverallDate, normalizeMonth]);
 
   // Get true portfolio size for a specific month/year
-  const getTruePortfolioSize = useCallback((month: string, year: number, trades: any[] = [], useCashBasis: boolean = false): number => {
+  const getTruePortfolioSize = useCallback((month: string, year: number, trades: any[] = [], useCashBasis: boolean = false, accountId?: string): number => {
     try {
-      const monthlyData = getMonthlyTruePortfolio(month, year, trades, useCashBasis);
+      const monthlyData = getMonthlyTruePortfolio(month, year, trades, useCashBasis, accountId);
       return monthlyData.finalCapital;
     } catch (error) {
       return 100000; // Fallback value
@@ -509,24 +581,20 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
   }, [getMonthlyTruePortfolio]);
 
   // Get latest true portfolio size
-  const getLatestTruePortfolioSize = useCallback((trades: any[] = [], useCashBasis: boolean = false): number => {
+  const getLatestTruePortfolioSize = useCallback((trades: any[] = [], useCashBasis: boolean = false, accountId?: string): number => {
     try {
       const currentDate = new Date();
       const currentMonth = currentDate.toLocaleString('default', { month: 'short' });
       const currentYear = currentDate.getFullYear();
 
-      return getTruePortfolioSize(currentMonth, currentYear, trades, useCashBasis);
+      return getTruePortfolioSize(currentMonth, currentYear, trades, useCashBasis, accountId);
     } catch (error) {
       return 100000; // Fallback value
     }
   }, [getTruePortfolioSize]);
 
-  // Get all monthly true portfolios for a year or range
-  const getAllMonthlyTruePortfolios = useCallback((trades: any[] = [], useCashBasis: boolean = false): MonthlyTruePortfolio[] => {
-    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    const result: MonthlyTruePortfolio[] = [];
-    const memo = new Map<string, MonthlyTruePortfolio>();
-
+  // Month range with data (trades or capital changes) of one account
+  const getAccountDateRange = useCallback((trades: any[], useCashBasis: boolean, accountId: string): { minOverallDate: Date; maxOverallDate: Date } => {
     // Determine the earliest and latest dates with data (trades or capital changes)
     let minOverallDate: Date | null = null;
     let maxOverallDate: Date | null = null;
@@ -545,7 +613,7 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
 
         // For cash basis, also consider exit dates
         if (useCashBasis && (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial')) {
-            [trade.exit1Date, trade.exit2Date, trade.exit3Date].forEach(exitDate => {
+            getExitLegs(getTradeLegs(trade)).map(exit => exit.date).forEach(exitDate => {
                 if (exitDate) {
                     const exitDateObj = new Date(exitDate);
                     if (!isNaN(exitDateObj.getTime())) {
@@ -562,7 +630,7 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     });
 
     // Process capital changes
-    capitalChanges.forEach(item => {
+    capitalChanges.filter(change => getAccountId(change) === accountId).forEach(item => {
         if (item.date) {
             const itemDate = new Date(item.date);
             if (!minOverallDate || itemDate < minOverallDate) {
@@ -575,7 +643,7 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     });
 
     // Also consider yearly starting capitals for the earliest date
-    yearlyStartingCapitals.forEach(capital => {
+    yearlyStartingCapitals.filter(capital => getAccountId(capital) === accountId).forEach(capital => {
         const capitalDate = new Date(capital.year, 0, 1); // January 1st of the capital year
         if (!minOverallDate || capitalDate < minOverallDate) {
             minOverallDate = capitalDate;
@@ -601,15 +669,34 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     maxOverallDate.setDate(0); // This sets it to the last day of the previous month
     maxOverallDate.setHours(23, 59, 59, 999);
 
+    return { minOverallDate, maxOverallDate };
+  }, [yearlyStartingCapitals, capitalChanges]);
+
+  // Get all monthly true portfolios for a year or range
+  const getAllMonthlyTruePortfolios = useCallback((trades: any[] = [], useCashBasis: boolean = false, accountId?: string): MonthlyTruePortfolio[] => {
+    const result: MonthlyTruePortfolio[] = [];
+
+    const scopes = resolveAccountIds(accountId).map(id => {
+      const accountTrades = trades.filter(trade => belongsToAccount(trade, id));
+      return { id, accountTrades, memo: new Map<string, MonthlyTruePortfolio>(), ...getAccountDateRange(accountTrades, useCashBasis, id) };
+    });
+    if (scopes.length === 0) return result;
+
+    // Walk the combined range so an account still counts in months after its own last activity
+    const minOverallDate = new Date(Math.min(...scopes.map(scope => scope.minOverallDate.getTime())));
+    const maxOverallDate = new Date(Math.max(...scopes.map(scope => scope.maxOverallDate.getTime())));
+
     let currentDate = new Date(minOverallDate.getFullYear(), minOverallDate.getMonth(), 1);
 
     while (currentDate <= maxOverallDate) {
         const year = currentDate.getFullYear();
-        const month = months[currentDate.getMonth()]; // Get short month name
+        const month = SHORT_MONTHS[currentDate.getMonth()]; // Get short month name
 
         try {
-            const monthlyData = calculateMonthlyTruePortfolio(month, year, trades, memo, minOverallDate, useCashBasis); // Pass minOverallDate and useCashBasis
-            result.push(monthlyData);
+            const portfolios = scopes.map(scope =>
+              calculateMonthlyTruePortfolio(month, year, scope.accountTrades, scope.memo, scope.minOverallDate, useCashBasis, scope.id) // Pass minOverallDate and useCashBasis
+            );
+            result.push(portfolios.length === 1 ? portfolios[0] : sumMonthlyTruePortfolios(month, year, portfolios));
         } catch (error) {
             // Skip months with no data
         }
@@ -618,7 +705,11 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     }
 
     return result;
-  }, [yearlyStartingCapitals, capitalChanges, calculateMonthlyTruePortfolio]);
+  }, [resolveAccountIds, getAccountDateRange, calculateMonthlyTruePortfolio]);
+
+  const getConsolidatedMonthlyTruePortfolios = useCallback((trades: any[] = [], useCashBasis: boolean = false): MonthlyTruePortfolio[] => {
+    return getAllMonthlyTruePortfolios(trades, useCashBasis, ALL_ACCOUNTS_ID);
+  }, [getAllMonthlyTruePortfolios]);
 
   // Backward compatibility - get current portfolio size
   const portfolioSize = React.useMemo(() => {
@@ -630,50 +721,77 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
   }, [getLatestTruePortfolioSize]);
 
   // Create safe wrapper functions that check hydration status
-  const safeGetTruePortfolioSize = useCallback((month: string, year: number, trades?: any[], useCashBasis?: boolean) => {
+  const safeGetTruePortfolioSize = useCallback((month: string, year: number, trades?: any[], useCashBasis?: boolean, accountId?: string) => {
     if (!hydrated) return 100000; // Return default value during hydration
-    return getTruePortfolioSize(month, year, trades, useCashBasis);
+    return getTruePortfolioSize(month, year, trades, useCashBasis, accountId);
   }, [hydrated, getTruePortfolioSize]);
 
-  const safeGetLatestTruePortfolioSize = useCallback((trades?: any[], useCashBasis?: boolean) => {
+  const safeGetLatestTruePortfolioSize = useCallback((trades?: any[], useCashBasis?: boolean, accountId?: string) => {
     if (!hydrated) return 100000; // Return default value during hydration
-    return getLatestTruePortfolioSize(trades, useCashBasis);
+    return getLatestTruePortfolioSize(trades, useCashBasis, accountId);
   }, [hydrated, getLatestTruePortfolioSize]);
 
+  // Records of the active account, or of every account in the consolidated view
+  const activeYearlyStartingCapitals = useMemo(() => {
+    const scoped = yearlyStartingCapitals.filter(capital => belongsToAccount(capital, activeAccountId));
+    if (activeAccountId !== ALL_ACCOUNTS_ID) return scoped;
+    // One entry per year holding the total of all accounts
+    const byYear = new Map<number, YearlyStartingCapital>();
+    scoped.forEach(capital => {
+      const existing = byYear.get(capital.year);
+      byYear.set(capital.year, existing
+        ? { ...existing, startingCapital: existing.startingCapital + capital.startingCapital, updatedAt: capital.updatedAt > existing.updatedAt ? capital.updatedAt : existing.updatedAt }
+        : { ...capital, accountId: ALL_ACCOUNTS_ID });
+    });
+    return Array.from(byYear.values()).sort((a, b) => a.year - b.year);
+  }, [yearlyStartingCapitals, activeAccountId]);
+
+  const activeMonthlyStartingCapitalOverrides = useMemo(() =>
+    activeAccountId === ALL_ACCOUNTS_ID ? [] : monthlyStartingCapitalOverrides.filter(override => getAccountId(override) === activeAccountId),
+  [monthlyStartingCapitalOverrides, activeAccountId]);
+
+  const activeCapitalChanges = useMemo(() =>
+    capitalChanges.filter(change => belongsToAccount(change, activeAccountId)),
+  [capitalChanges, activeAccountId]);
+
   // Memoize the context value to prevent unnecessary re-renders
   const contextValue = useMemo(() => ({
     getTruePortfolioSize: safeGetTruePortfolioSize,
     getLatestTruePortfolioSize: safeGetLatestTruePortfolioSize,
-    yearlyStartingCapitals,
+    yearlyStartingCapitals: activeYearlyStartingCapitals,
     setYearlyStartingCapital,
     getYearlyStartingCapital,
-    monthlyStartingCapitalOverrides,
+    monthlyStartingCapitalOverrides: activeMonthlyStartingCapitalOverrides,
     setMonthlyStartingCapitalOverride,
     removeMonthlyStartingCapitalOverride,
     getMonthlyStartingCapitalOverride,
-    capitalChanges,
+    capitalChanges: activeCapitalChanges,
     addCapitalChange,
     updateCapitalChange,
     deleteCapitalChange,
     getMonthlyTruePortfolio,
     getAllMonthlyTruePortfolios,
+    getConsolidatedMonthlyTruePortfolios,
+    removeAccountData,
     portfolioSize: hydrated ? portfolioSize : 100000
   }), [
     safeGetTruePortfolioSize,
     safeGetLatestTruePortfolioSize,
-    yearlyStartingCapitals,
+    activeYearlyStartingCapitals,
     setYearlyStartingCapital,
     getYearlyStartingCapital,
-    monthlyStartingCapitalOverrides,
+    activeMonthlyStartingCapitalOverrides,
     setMonthlyStartingCapitalOverride,
     removeMonthlyStartingCapitalOverride,
     getMonthlyStartingCapitalOverride,
-    capitalChanges,
+    activeCapitalChanges,
     addCapitalChange,
     updateCapitalChange,
     deleteCapitalChange,
     getMonthlyTruePortfolio,
     getAllMonthlyTruePortfolios,
+    getConsolidatedMonthlyTruePortfolios,
+    removeAccountData,
     portfolioSize,
     hydrated
   ]);
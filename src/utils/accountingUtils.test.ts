@@ -0,0 +1,106 @@
+import { buildMockTradeFixtures, getMockTradeFixture } from '../data/mock-trade-fixtures';
+import {
+  getExitDatesWithFallback,
+  getExitPLsWithFallback,
+  groupTradesByMonth,
+  calculateTradePL,
+  getTradeDateForAccounting,
+  getTradesForMonth
+} from './accountingUtils';
+
+const tradeNos = (trades: { tradeNo: string }[]) => trades.map(t => t.tradeNo).sort();
+
+describe('accountingUtils', () => {
+  const trades = buildMockTradeFixtures();
+
+  describe('exit dates', () => {
+    it('lists dated exit legs', () => {
+      expect(getExitDatesWithFallback(getMockTradeFixture('T005'))).toEqual([
+        { date: '2024-05-28', qty: 10, price: 975.5 },
+        { date: '2024-06-01', qty: 10, price: 985.25 }
+      ]);
+      expect(getExitDatesWithFallback(getMockTradeFixture('T004'))).toEqual([]);
+    });
+
+    it('falls back to one synthetic exit from the aggregate exit fields', () => {
+      const undated = {
+        ...getMockTradeFixture('T003'),
+        legs: getMockTradeFixture('T003').legs.map(leg => leg.side === 'exit' ? { ...leg, date: '' } : leg),
+        exit1Date: ''
+      };
+      expect(getExitDatesWithFallback(undated)).toEqual([{ date: '2024-05-25', qty: 8, price: 1425.75 }]);
+    });
+
+    it('splits FIFO P/L across exits so they add up to the trade P/L', () => {
+      const exits = getExitPLsWithFallback(getMockTradeFixture('T005'));
+      expect(exits.map(exit => exit.pl)).toEqual([252.5, 232]);
+      expect(exits.reduce((sum, exit) => sum + exit.pl, 0)).toBe(getMockTradeFixture('T005').plRs);
+    });
+  });
+
+  describe('grouping by month', () => {
+    it('groups by entry date under accrual', () => {
+      const grouped = groupTradesByMonth(trades, false);
+      expect(Object.keys(grouped).sort()).toEqual(['Jun 2024', 'May 2024']);
+      expect(tradeNos(grouped['May 2024'])).toEqual(['T002', 'T003', 'T005']);
+      expect(tradeNos(grouped['Jun 2024'])).toEqual(['T001', 'T004']);
+    });
+
+    it('groups each exit by its own date under cash basis and skips open trades', () => {
+      const grouped = groupTradesByMonth(trades, true);
+      expect(tradeNos(grouped['May 2024'])).toEqual(['T003', 'T005']);
+      expect(tradeNos(grouped['Jun 2024'])).toEqual(['T001', 'T002', 'T005']);
+      expect(grouped['Jun 2024'].find(t => t.tradeNo === 'T005')._cashBasisExit)
+        .toEqual({ date: '2024-06-01', qty: 10, price: 985.25 });
+    });
+
+    it('filters a month the same way', () => {
+      expect(tradeNos(getTradesForMonth(trades, 'May', 2024, false))).toEqual(['T002', 'T003', 'T005']);
+      expect(tradeNos(getTradesForMonth(trades, 'May', 2024, true))).toEqual(['T003', 'T005']);
+      expect(getTradesForMonth(trades, 'Jul', 2024, true)).toHaveLength(0);
+    });
+  });
+
+  describe('P/L by accounting method', () => {
+    it('uses the full realized P/L under accrual', () => {
+      expect(trades.map(t => calculateTradePL(t, false))).toEqual([197.5, 810, -196, 0, 484.5]);
+    });
+
+    it('uses each exit P/L under cash basis', () => {
+      const grouped = groupTradesByMonth(trades, true);
+      const monthTotals = Object.fromEntries(Object.entries(grouped).map(([month, rows]) => [
+        month,
+        rows.reduce((sum, t) => sum + calculateTradePL(t, true), 0)
+      ]));
+      expect(monthTotals['May 2024']).toBeCloseTo(-196 + 252.5, 6);
+      expect(monthTotals['Jun 2024']).toBeCloseTo(197.5 + 810 + 232, 6);
+    });
+
+    it('gives the same total under both methods', () => {
+      const accrual = trades.reduce((sum, t) => sum + calculateTradePL(t, false), 0);
+      const cash = Object.values(groupTradesByMonth(trades, true))
+        .flat()
+        .reduce((sum, t) => sum + calculateTradePL(t, true), 0);
+      expect(cash).toBeCloseTo(accrual, 6);
+    });
+
+    it('counts only realized quantity of a partial position under cash basis', () => {
+      expect(calculateTradePL(getMockTradeFixture('T001'), true)).toBeCloseTo(197.5, 6);
+      expect(calculateTradePL(getMockTradeFixture('T004'), true)).toBe(0);
+    });
+  });
+
+  describe('accounting dates', () => {
+    it('uses the entry date under accrual and the latest exit under cash basis', () => {
+      const t005 = getMockTradeFixture('T005');
+      expect(getTradeDateForAccounting(t005, false)).toBe('2024-05-20');
+      expect(getTradeDateForAccounting(t005, true)).toBe('2024-06-01');
+      expect(getTradeDateForAccounting(getMockTradeFixture('T004'), true)).toBe('2024-06-02');
+    });
+
+    it('uses the exit of a cash basis row', () => {
+      const row = { ...getMockTradeFixture('T005'), _cashBasisExit: { date: '2024-05-28', qty: 10, price: 975.5 } };
+      expect(getTradeDateForAccounting(row, true)).toBe('2024-05-28');
+    });
+  });
+});
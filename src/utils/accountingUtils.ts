@@ -1,4 +1,7 @@
-import { Trade } from '../types/trade';
+import { Trade, TradeLeg } from '../types/trade';
+import { getTradeLegs, getExitLegs, getLatestExitDate } from './tradeLegs';
+import { matchLotsFIFO } from './tradeCalculations';
+import { getContractMultiplier } from './derivatives';
 
 /**
  * Helper function to get exit dates with fallback logic
@@ -6,14 +9,12 @@ import { Trade } from '../types/trade';
  * @returns Array of exit objects with date, qty, and price
  */
 export function getExitDatesWithFallback(trade: Trade): Array<{ date: string; qty: number; price: number }> {
-  // First, try to get individual exit dates
-  const exits = [
-    { date: trade.exit1Date, qty: trade.exit1Qty || 0, price: trade.exit1Price || 0 },
-    { date: trade.exit2Date, qty: trade.exit2Qty || 0, price: trade.exit2Price || 0 },
-    { date: trade.exit3Date, qty: trade.exit3Qty || 0, price: trade.exit3Price || 0 }
-  ].filter(exit => exit.date && exit.date.trim() !== '' && exit.qty > 0);
-
+  const legs = getTradeLegs(trade);
 
+  // First, try to get individual exit legs
+  const exits = getExitLegs(legs)
+    .filter(leg => leg.date && leg.date.trim() !== '')
+    .map(leg => ({ date: leg.date, qty: Number(leg.qty) || 0, price: Number(leg.price) || 0 }));
 
   // If we have individual exit data, return it
   if (exits.length > 0) {
@@ -26,15 +27,7 @@ export function getExitDatesWithFallback(trade: Trade): Array<{ date: string; qt
       trade.exitedQty > 0 && trade.avgExitPrice > 0) {
 
     // Try to find the latest exit date from available exits (even if qty/price is 0)
-    const availableExitDates = [
-      trade.exit1Date,
-      trade.exit2Date,
-      trade.exit3Date
-    ].filter(date => date && date.trim() !== '');
-
-    const fallbackDate = availableExitDates.length > 0
-      ? availableExitDates.sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0]
-      : trade.date; // Ultimate fallback to trade entry date
+    const fallbackDate = getLatestExitDate(withLegacyExitDates(trade, legs)) || trade.date; // Ultimate fallback to trade entry date
 
     return [{
       date: fallbackDate,
@@ -46,6 +39,39 @@ export function getExitDatesWithFallback(trade: Trade): Array<{ date: string; qt
   return [];
 }
 
+/**
+ * Realized P/L of each exit, matched FIFO against the entries in the trade's direction.
+ * The exit P/Ls add up to the trade's FIFO realized P/L, so cash and accrual totals agree.
+ * @param trade - The trade object
+ * @returns Exits as returned by getExitDatesWithFallback, each with its P/L
+ */
+export function getExitPLsWithFallback(trade: Trade): Array<{ date: string; qty: number; price: number; pl: number }> {
+  const exits = getExitDatesWithFallback(trade);
+  const buySell = trade.buySell === 'Sell' ? 'Sell' : 'Buy';
+  const legs = getTradeLegs(trade).map(leg => ({ ...leg, price: Number(leg.price) || 0, qty: Number(leg.qty) || 0 }));
+  const entries = legs.filter(leg => leg.side === 'entry');
+  const datedExitLegs = getExitLegs(legs).filter(leg => leg.date && leg.date.trim() !== '');
+
+  // Synthetic fallback exit (no dated legs): match it as a single exit lot
+  const exitLots = datedExitLegs.length === exits.length
+    ? datedExitLegs
+    : exits.map((exit, i) => ({ id: `fallback-exit-${i}`, side: 'exit' as const, date: exit.date, price: exit.price, qty: exit.qty }));
+
+  const matches = matchLotsFIFO([...entries, ...exitLots], buySell, getContractMultiplier(trade));
+  return exits.map((exit, i) => ({
+    ...exit,
+    pl: matches.filter(match => match.exit === exitLots[i]).reduce((sum, match) => sum + match.pl, 0)
+  }));
+}
+
+// Exit slots can carry a date without a quantity; include them when looking for a fallback date
+function withLegacyExitDates(trade: Trade, legs: TradeLeg[]): TradeLeg[] {
+  const datedSlots = [trade.exit1Date, trade.exit2Date, trade.exit3Date]
+    .filter(date => date && date.trim() !== '')
+    .map((date, i) => ({ id: `${trade.id}-exit-date-${i}`, side: 'exit' as const, date, price: 0, qty: 0 }));
+  return [...legs, ...datedSlots];
+}
+
 /**
  * Groups trades by month based on the accounting method
  * @param trades - Array of trades
@@ -119,19 +145,19 @@ export function calculateTradePL(trade: Trade, useCashBasis: boolean = false): n
     // Cash basis: Calculate P/L for the specific exit if it's a cash basis exit
     const cashBasisExit = trade._cashBasisExit;
     if (cashBasisExit) {
-      const avgEntry = trade.avgEntry || trade.entry || 0;
-
-      // Use the exit price from the cash basis exit data
-      const correctExitPrice = cashBasisExit.price;
-
-      if (avgEntry > 0 && correctExitPrice > 0) {
-        const pl = trade.buySell === 'Buy'
-          ? (correctExitPrice - avgEntry) * cashBasisExit.qty
-          : (avgEntry - correctExitPrice) * cashBasisExit.qty;
-
-
+      // P/L of this specific exit, FIFO-matched in the trade's direction
+      const exitPL = getExitPLsWithFallback(trade).find(exit =>
+        exit.date === cashBasisExit.date && exit.price === cashBasisExit.price && exit.qty === cashBasisExit.qty
+      );
+      if (exitPL) {
+        return exitPL.pl;
+      }
 
-        return pl;
+      const avgEntry = trade.avgEntry || trade.entry || 0;
+      if (avgEntry > 0 && cashBasisExit.price > 0) {
+        return (trade.buySell === 'Sell'
+          ? (avgEntry - cashBasisExit.price) * cashBasisExit.qty
+          : (cashBasisExit.price - avgEntry) * cashBasisExit.qty) * getContractMultiplier(trade);
       }
     } else {
       // Cash basis for individual trades (not grouped): Use the trade's total realized P/L
@@ -139,50 +165,21 @@ export function calculateTradePL(trade: Trade, useCashBasis: boolean = false): n
       if (trade.positionStatus === 'Closed') {
         return trade.plRs || 0;
       } else if (trade.positionStatus === 'Partial') {
-        // For partial positions, calculate realized P/L from exits only
-        const avgEntry = trade.avgEntry || trade.entry || 0;
-        let totalRealizedPL = 0;
-
-        // Calculate P/L for each exit
-        if (trade.exit1Date && trade.exit1Qty && trade.exit1Price && avgEntry > 0) {
-          const pl = trade.buySell === 'Buy'
-            ? (trade.exit1Price - avgEntry) * trade.exit1Qty
-            : (avgEntry - trade.exit1Price) * trade.exit1Qty;
-          totalRealizedPL += pl;
+        // For partial positions, realized P/L of the exits made so far
+        if (getExitLegs(getTradeLegs(trade)).some(exit => exit.date && Number(exit.price) > 0)) {
+          return getExitPLsWithFallback(trade).reduce((sum, exit) => sum + exit.pl, 0);
         }
 
-        if (trade.exit2Date && trade.exit2Qty && trade.exit2Price && avgEntry > 0) {
-          const pl = trade.buySell === 'Buy'
-            ? (trade.exit2Price - avgEntry) * trade.exit2Qty
-            : (avgEntry - trade.exit2Price) * trade.exit2Qty;
-          totalRealizedPL += pl;
-        }
-
-        if (trade.exit3Date && trade.exit3Qty && trade.exit3Price && avgEntry > 0) {
-          const pl = trade.buySell === 'Buy'
-            ? (trade.exit3Price - avgEntry) * trade.exit3Qty
-            : (avgEntry - trade.exit3Price) * trade.exit3Qty;
-          totalRealizedPL += pl;
-        }
-
-        // Fallback: If no individual exit data but we have partial exit information
-        // Use the aggregate partial exit data (exitedQty, avgExitPrice, plRs)
-        if (totalRealizedPL === 0 && trade.exitedQty > 0) {
-          // Option 1: Use stored plRs if available (most reliable)
+        // Fallback: no individual exit data, use the aggregate partial exit data
+        if (trade.exitedQty > 0) {
+          // Stored plRs is the most reliable
           if (trade.plRs !== undefined && trade.plRs !== null) {
             return trade.plRs;
           }
-
-          // Option 2: Calculate from aggregate exit data if avgExitPrice is available
-          if (trade.avgExitPrice > 0 && avgEntry > 0) {
-            const pl = trade.buySell === 'Buy'
-              ? (trade.avgExitPrice - avgEntry) * trade.exitedQty
-              : (avgEntry - trade.avgExitPrice) * trade.exitedQty;
-            return pl;
-          }
+          return getExitPLsWithFallback(trade).reduce((sum, exit) => sum + exit.pl, 0);
         }
 
-        return totalRealizedPL;
+        return 0;
       }
     }
 
@@ -210,15 +207,10 @@ export function getTradeDateForAccounting(trade: Trade, useCashBasis: boolean =
     // For cash basis without _cashBasisExit, try to find the most recent exit date
     if (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial') {
       // Find the latest exit date from available exits
-      const exitDates = [
-        trade.exit1Date,
-        trade.exit2Date,
-        trade.exit3Date
-      ].filter(date => date && date.trim() !== '');
+      const latestExitDate = getLatestExitDate(withLegacyExitDates(trade, getTradeLegs(trade)));
 
-      if (exitDates.length > 0) {
+      if (latestExitDate) {
         // Return the latest exit date for cash basis
-        const latestExitDate = exitDates.sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0];
         return latestExitDate;
       }
     }
@@ -0,0 +1,22 @@
+import { assignTradeNumbers, belongsToAccount, getAccountId, ALL_ACCOUNTS_ID, DEFAULT_ACCOUNT_ID } from './accounts';
+
+describe('accounts', () => {
+  it('puts records without an account in the default account', () => {
+    expect(getAccountId({})).toBe(DEFAULT_ACCOUNT_ID);
+    expect(belongsToAccount({}, DEFAULT_ACCOUNT_ID)).toBe(true);
+    expect(belongsToAccount({ accountId: 'fno' }, DEFAULT_ACCOUNT_ID)).toBe(false);
+    expect(belongsToAccount({ accountId: 'fno' }, ALL_ACCOUNTS_ID)).toBe(true);
+  });
+
+  it('numbers trades separately within each account', () => {
+    const trades = [
+      { id: 'A', tradeNo: '' },
+      { id: 'B', accountId: 'fno', tradeNo: '' },
+      { id: 'C', accountId: DEFAULT_ACCOUNT_ID, tradeNo: '' },
+      { id: 'D', accountId: 'fno', tradeNo: '7' },
+      { id: 'E', accountId: 'other', tradeNo: '' }
+    ];
+    assignTradeNumbers(trades);
+    expect(trades.map(trade => [trade.id, trade.tradeNo])).toEqual([['A', '1'], ['B', '1'], ['C', '2'], ['D', '2'], ['E', '1']]);
+  });
+});
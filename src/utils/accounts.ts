@@ -0,0 +1,42 @@
+// Account scoping helpers
+//
+// Trades, capital changes, starting capitals and tax data each carry an `accountId`.
+// Records saved before accounts existed have none and belong to the default account.
+
+/** The account every pre-existing record belongs to; it cannot be deleted */
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+/** Pseudo account id of the consolidated view across all accounts */
+export const ALL_ACCOUNTS_ID = 'all';
+
+export type AccountType = 'equity' | 'fno' | 'other';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  equity: 'Equity (demat)',
+  fno: 'F&O',
+  other: 'Other'
+};
+
+/** Account id of a record, falling back to the default account */
+export function getAccountId(record: { accountId?: string } | null | undefined): string {
+  return record?.accountId || DEFAULT_ACCOUNT_ID;
+}
+
+/** Whether a record is part of the given account, or of any account in the consolidated view */
+export function belongsToAccount(record: { accountId?: string } | null | undefined, accountId: string): boolean {
+  return accountId === ALL_ACCOUNTS_ID || getAccountId(record) === accountId;
+}
+
+/**
+ * Number records 1, 2, 3... within each account, in the given order.
+ * Expects the records sorted chronologically; sets `tradeNo` in place.
+ */
+export function assignTradeNumbers(trades: Array<{ accountId?: string; tradeNo: string }>): void {
+  const counters = new Map<string, number>();
+  trades.forEach(trade => {
+    const accountId = getAccountId(trade);
+    const next = (counters.get(accountId) || 0) + 1;
+    counters.set(accountId, next);
+    trade.tradeNo = String(next);
+  });
+}
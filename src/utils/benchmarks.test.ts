@@ -0,0 +1,78 @@
+import { buildBenchmarkComparison, calcBenchmarkMetrics, toDailyCloses } from './benchmarks';
+import { getCapitalFlowsByDate } from './returns';
+
+const day = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const closes = [
+  { date: day('2024-06-10'), close: 100 },
+  { date: day('2024-06-11'), close: 110 },
+  { date: day('2024-06-12'), close: 99 },
+  { date: day('2024-06-13'), close: 108.9 }
+];
+
+describe('benchmarks', () => {
+  it('invests the benchmark on the portfolio capital timeline', () => {
+    const flows = getCapitalFlowsByDate([
+      { date: '2024-06-10', amount: 1000, type: 'deposit' },
+      { date: '2024-06-12', amount: 500, type: 'deposit' }
+    ]);
+    // Moves with the index: +10%, a ₹500 deposit at the start of a -10% day, +10%
+    const values = new Map([
+      [day('2024-06-10'), 1000],
+      [day('2024-06-11'), 1100],
+      [day('2024-06-12'), 1440],
+      [day('2024-06-13'), 1584]
+    ]);
+    const points = buildBenchmarkComparison(values, flows, closes);
+    expect(points.map(p => Math.round(p.benchmark))).toEqual([1000, 1100, 1440, 1584]);
+    expect(points[2].flow).toBe(500);
+    expect(points[2].portfolioReturn).toBeCloseTo(-0.1);
+
+    const metrics = calcBenchmarkMetrics(points)!;
+    expect(metrics.beta).toBeCloseTo(1);
+    expect(metrics.correlation).toBeCloseTo(1);
+    expect(metrics.alpha).toBeCloseTo(0);
+    expect(metrics.upCapture).toBeCloseTo(100);
+    expect(metrics.downCapture).toBeCloseTo(100);
+    expect(metrics.excessReturn).toBeCloseTo(0);
+    expect(metrics.relativeDrawdown).toBeCloseTo(0);
+    expect(metrics.benchmarkDrawdown).toBeCloseTo(10);
+  });
+
+  it('carries portfolio values to the next trading day', () => {
+    const values = new Map([
+      [day('2024-06-09'), 1000], // Sunday
+      [day('2024-06-12'), 1100]
+    ]);
+    const points = buildBenchmarkComparison(values, new Map(), closes);
+    expect(points.map(p => p.portfolio)).toEqual([1000, 1000, 1100, 1100]);
+
+    // Flat while the index moves, then one up day on a down day for the index
+    const metrics = calcBenchmarkMetrics(points)!;
+    expect(metrics.portfolioReturn).toBeCloseTo(10);
+    expect(metrics.benchmarkReturn).toBeCloseTo(8.9);
+    expect(metrics.upCapture).toBeCloseTo(0);
+    expect(metrics.downCapture).toBeCloseTo(-100);
+    expect(metrics.beta).toBeLessThan(0);
+    expect(metrics.relativeDrawdown).toBeCloseTo((1 - 1 / 1.1) * 100);
+  });
+
+  it('needs at least two daily returns', () => {
+    expect(buildBenchmarkComparison(new Map(), new Map(), closes)).toEqual([]);
+    const points = buildBenchmarkComparison(new Map([[day('2024-06-12'), 1000]]), new Map(), closes);
+    expect(calcBenchmarkMetrics(points)).toBeNull();
+  });
+
+  it('keeps one close per day', () => {
+    const daily = toDailyCloses([
+      { dateTime: '2024-06-11T09:15:00', close: 101 },
+      { dateTime: '2024-06-10T15:30:00', close: 100 },
+      { dateTime: '2024-06-11T15:30:00', close: 102 },
+      { dateTime: 'not a date', close: 1 }
+    ]);
+    expect(daily).toEqual([
+      { date: day('2024-06-10'), close: 100 },
+      { date: day('2024-06-11'), close: 102 }
+    ]);
+  });
+});
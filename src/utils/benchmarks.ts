@@ -0,0 +1,246 @@
+import { DatabaseService } from '../db/database';
+import { fetchPriceTicksFromProvider } from './priceProviders';
+import { ticksToCandles } from './candleCache';
+import { calcFlowAdjustedReturn, toDay } from './returns';
+
+// Benchmark comparison
+//
+// Index closes come from candles imported in Settings → Prices (CSV) or, failing that, the
+// selected price provider. The benchmark is "invested" on the same timeline as the portfolio:
+// it starts at our capital on the first day and receives every deposit and withdrawal on the
+// day we did, so both curves are in ₹ and comparable. Returns are time-weighted (flows are
+// taken out of each day's return) before alpha, beta and the capture ratios are computed.
+
+export interface BenchmarkIndex {
+  symbol: string;
+  label: string;
+}
+
+export const BENCHMARK_INDICES: BenchmarkIndex[] = [
+  { symbol: 'NIFTY 50', label: 'NIFTY 50' },
+  { symbol: 'NIFTY 500', label: 'NIFTY 500' },
+  { symbol: 'NIFTY MIDCAP 150', label: 'NIFTY Midcap 150' },
+  { symbol: 'NIFTY SMALLCAP 250', label: 'NIFTY Smallcap 250' }
+];
+
+/** Daily close of a benchmark, `date` at local midnight */
+export interface BenchmarkClose {
+  date: number;
+  close: number;
+}
+
+export interface BenchmarkPoint {
+  date: number;
+  portfolio: number; // ₹
+  benchmark: number; // ₹, benchmark bought with our capital and flows
+  flow: number; // Deposits minus withdrawals booked since the previous point
+  portfolioReturn: number; // Flow-adjusted daily return (0 on the first point)
+  benchmarkReturn: number;
+}
+
+export interface BenchmarkMetrics {
+  days: number;
+  beta: number;
+  alpha: number; // Jensen's alpha, annualised %
+  correlation: number;
+  upCapture: number; // %
+  downCapture: number; // %
+  portfolioReturn: number; // Time-weighted %
+  benchmarkReturn: number; // %
+  excessReturn: number; // Percentage points
+  relativeDrawdown: number; // Max drawdown of portfolio / benchmark growth, %
+  portfolioDrawdown: number; // %
+  benchmarkDrawdown: number; // %
+}
+
+const STORAGE_KEY = 'benchmarkSymbol';
+
+/** Benchmark selected for the charts, '' when none */
+export function loadBenchmarkSymbol(): string {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === '' || BENCHMARK_INDICES.some(index => index.symbol === stored)) return stored;
+    return BENCHMARK_INDICES[0].symbol;
+  } catch (error) {
+    console.error('Error loading benchmark from localStorage:', error);
+    return BENCHMARK_INDICES[0].symbol;
+  }
+}
+
+export function saveBenchmarkSymbol(symbol: string): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, symbol);
+  } catch (error) {
+    console.error('Error saving benchmark to localStorage:', error);
+  }
+}
+
+export function getBenchmarkLabel(symbol: string): string {
+  return BENCHMARK_INDICES.find(index => index.symbol === symbol)?.label || symbol;
+}
+
+/** One close per day, oldest first; the last candle of a day wins */
+export function toDailyCloses(candles: Array<{ dateTime: string; close: number }>): BenchmarkClose[] {
+  const byDay = new Map<number, number>();
+  candles.forEach(candle => {
+    const date = new Date(candle.dateTime);
+    if (isNaN(date.getTime()) || !(candle.close > 0)) return;
+    byDay.set(toDay(date), candle.close);
+  });
+  return Array.from(byDay.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([date, close]) => ({ date, close }));
+}
+
+// Two charts asking for the same range share one download
+const pendingCloses = new Map<string, Promise<BenchmarkClose[]>>();
+
+/**
+ * Daily closes of a benchmark index: imported candles when they cover the range, otherwise
+ * the selected price provider
+ */
+export function fetchBenchmarkCloses(symbol: string, from: Date, to: Date): Promise<BenchmarkClose[]> {
+  const key = `${symbol}|${toDay(from)}|${toDay(to)}`;
+  const pending = pendingCloses.get(key);
+  if (pending) return pending;
+
+  const request = (async () => {
+    const imported = await DatabaseService.getLocalCandles(symbol, '1d', from, to);
+    if (imported.length > 0) return toDailyCloses(imported);
+    const response = await fetchPriceTicksFromProvider(symbol, from, to, '1d');
+    return toDailyCloses(ticksToCandles(symbol, response));
+  })();
+  pendingCloses.set(key, request);
+  // Failures are retried on the next request; successes are served by the candle cache
+  request.catch(() => undefined).finally(() => pendingCloses.delete(key));
+  return request;
+}
+
+/**
+ * Portfolio and benchmark on the benchmark's trading days, from the first portfolio date.
+ * Portfolio values are carried forward between events; events on holidays land on the next
+ * trading day.
+ * @param portfolioValues Output of `calculateDailyPortfolioValues`
+ * @param flows Output of `getCapitalFlowsByDate` (returns.ts)
+ */
+export function buildBenchmarkComparison(
+  portfolioValues: Map<number, number>,
+  flows: Map<number, number>,
+  closes: BenchmarkClose[]
+): BenchmarkPoint[] {
+  const valueDates = Array.from(portfolioValues.keys()).sort((a, b) => a - b);
+  if (valueDates.length === 0) return [];
+  const flowDates = Array.from(flows.keys()).sort((a, b) => a - b);
+  const days = closes.filter(close => close.date >= valueDates[0]);
+
+  const points: BenchmarkPoint[] = [];
+  let valueIndex = 0;
+  let flowIndex = 0;
+  let portfolio = 0;
+  // Flows up to the first day are part of the starting capital
+  while (flowIndex < flowDates.length && days.length > 0 && flowDates[flowIndex] <= days[0].date) flowIndex++;
+
+  days.forEach((day, i) => {
+    while (valueIndex < valueDates.length && valueDates[valueIndex] <= day.date) {
+      portfolio = portfolioValues.get(valueDates[valueIndex]) || 0;
+      valueIndex++;
+    }
+    if (i === 0) {
+      points.push({ date: day.date, portfolio, benchmark: portfolio, flow: 0, portfolioReturn: 0, benchmarkReturn: 0 });
+      return;
+    }
+
+    let flow = 0;
+    while (flowIndex < flowDates.length && flowDates[flowIndex] <= day.date) {
+      flow += flows.get(flowDates[flowIndex]) || 0;
+      flowIndex++;
+    }
+    const prev = points[points.length - 1];
+    const benchmarkReturn = day.close / days[i - 1].close - 1;
+    // Flows are invested at the start of the day, in the portfolio and the benchmark alike
+    const portfolioReturn = calcFlowAdjustedReturn(prev.portfolio, portfolio, flow);
+    points.push({
+      date: day.date,
+      portfolio,
+      benchmark: (prev.benchmark + flow) * (1 + benchmarkReturn),
+      flow,
+      portfolioReturn,
+      benchmarkReturn
+    });
+  });
+
+  return points;
+}
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+// Largest fall from a running peak of a growth index, %
+const maxDrawdownOf = (growth: number[]): number => {
+  let peak = growth[0] || 0;
+  let maxDrawdown = 0;
+  growth.forEach(value => {
+    if (value > peak) peak = value;
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+  });
+  return maxDrawdown * 100;
+};
+
+const compound = (returns: number[]): number[] => {
+  let growth = 1;
+  return [1, ...returns.map(r => (growth *= 1 + r))];
+};
+
+/**
+ * Relative performance against the benchmark from daily time-weighted returns.
+ * Up/down capture compare the average portfolio return with the average benchmark return on
+ * the days the benchmark rose/fell.
+ * @returns null with fewer than two daily returns
+ */
+export function calcBenchmarkMetrics(points: BenchmarkPoint[], annualRiskFreeRate: number = 0.05): BenchmarkMetrics | null {
+  const returns = points.slice(1);
+  if (returns.length < 2) return null;
+
+  const rp = returns.map(point => point.portfolioReturn);
+  const rb = returns.map(point => point.benchmarkReturn);
+  const meanP = mean(rp);
+  const meanB = mean(rb);
+  let covariance = 0;
+  let varianceP = 0;
+  let varianceB = 0;
+  rp.forEach((r, i) => {
+    covariance += (r - meanP) * (rb[i] - meanB);
+    varianceP += Math.pow(r - meanP, 2);
+    varianceB += Math.pow(rb[i] - meanB, 2);
+  });
+
+  const beta = varianceB > 0 ? covariance / varianceB : 0;
+  const correlation = varianceP > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceP * varianceB) : 0;
+  const dailyRiskFree = annualRiskFreeRate / 252;
+  const alpha = ((meanP - dailyRiskFree) - beta * (meanB - dailyRiskFree)) * 252 * 100;
+
+  const capture = (isUp: boolean) => {
+    const days = rb.map((r, i) => i).filter(i => isUp ? rb[i] > 0 : rb[i] < 0);
+    const benchmarkMean = mean(days.map(i => rb[i]));
+    return benchmarkMean !== 0 ? (mean(days.map(i => rp[i])) / benchmarkMean) * 100 : 0;
+  };
+
+  const portfolioGrowth = compound(rp);
+  const benchmarkGrowth = compound(rb);
+  const portfolioReturn = (portfolioGrowth[portfolioGrowth.length - 1] - 1) * 100;
+  const benchmarkReturn = (benchmarkGrowth[benchmarkGrowth.length - 1] - 1) * 100;
+
+  return {
+    days: returns.length,
+    beta,
+    alpha,
+    correlation,
+    upCapture: capture(true),
+    downCapture: capture(false),
+    portfolioReturn,
+    benchmarkReturn,
+    excessReturn: portfolioReturn - benchmarkReturn,
+    relativeDrawdown: maxDrawdownOf(portfolioGrowth.map((g, i) => g / benchmarkGrowth[i])),
+    portfolioDrawdown: maxDrawdownOf(portfolioGrowth),
+    benchmarkDrawdown: maxDrawdownOf(benchmarkGrowth)
+  };
+}
@@ -0,0 +1,128 @@
+import { Trade } from '../types/trade';
+import { importBrokerTradebook, parseBrokerDateTime } from './brokerImporters';
+
+const legsOf = (trade: Trade) => trade.legs!.map(leg => [leg.side, leg.date, leg.qty, leg.price]);
+const bySymbol = (trades: Trade[], symbol: string) => trades.filter(trade => trade.name === symbol);
+
+describe('brokerImporters', () => {
+  it('parses the date formats of Indian broker exports', () => {
+    expect(parseBrokerDateTime('2024-01-15')?.date).toBe('2024-01-15');
+    expect(parseBrokerDateTime('15/01/2024 09:20')?.date).toBe('2024-01-15');
+    expect(parseBrokerDateTime('15-Jan-2024')?.date).toBe('2024-01-15');
+    expect(parseBrokerDateTime(45306)?.date).toBe('2024-01-15');
+    expect(parseBrokerDateTime('31/02/2024')).toBeNull();
+  });
+
+  describe('Zerodha', () => {
+    const rows = [
+      ['Client ID', 'AB1234'],
+      ['Tradebook for Equity from 2024-06-01 to 2024-06-30'],
+      [],
+      ['symbol', 'isin', 'trade_date', 'exchange', 'segment', 'series', 'trade_type', 'auction', 'quantity', 'price', 'trade_id', 'order_id', 'order_execution_time'],
+      // One buy order filled in three parts
+      ['RELIANCE', 'INE002A01018', '2024-06-03', 'NSE', 'EQ', 'EQ', 'buy', 'false', '40', '2900', '101', 'O1', '2024-06-03T09:20:01'],
+      ['RELIANCE', 'INE002A01018', '2024-06-03', 'NSE', 'EQ', 'EQ', 'buy', 'false', '50', '2910', '102', 'O1', '2024-06-03T09:20:02'],
+      ['RELIANCE', 'INE002A01018', '2024-06-03', 'NSE', 'EQ', 'EQ', 'buy', 'false', '10', '2920', '103', 'O1', '2024-06-03T09:20:03'],
+      ['RELIANCE-EQ', 'INE002A01018', '2024-06-10', 'NSE', 'EQ', 'EQ', 'sell', 'false', '60', '3000', '104', 'O2', '2024-06-10T10:00:00'],
+      // Selling more than is held: the remainder came from older holdings
+      ['RELIANCE', 'INE002A01018', '2024-06-12', 'NSE', 'EQ', 'EQ', 'sell', 'false', '50', '3050', '105', 'O3', '2024-06-12T10:00:00'],
+      // A sale of holdings bought before the tradebook
+      ['INFY', 'INE009A01021', '2024-06-05', 'NSE', 'EQ', 'EQ', 'sell', 'false', '20', '1500', '106', 'O4', '2024-06-05T11:00:00'],
+      // An intraday short covered the same day
+      ['TCS', 'INE467B01029', '2024-06-06', 'NSE', 'EQ', 'EQ', 'sell', 'false', '10', '3800', '107', 'O5', '2024-06-06T09:30:00'],
+      ['TCS', 'INE467B01029', '2024-06-06', 'NSE', 'EQ', 'EQ', 'buy', 'false', '10', '3780', '108', 'O6', '2024-06-06T14:30:00'],
+      // A futures short held overnight
+      ['NIFTY24JUNFUT', '', '2024-06-07', 'NFO', 'FO', '', 'sell', 'false', '25', '23000', '109', 'O7', '2024-06-07T09:30:00']
+    ];
+    const result = importBrokerTradebook(rows)!;
+
+    it('detects the tradebook below the account details', () => {
+      expect(result.importer.id).toBe('zerodha');
+      expect(result.fills).toHaveLength(9);
+    });
+
+    it('groups partial fills of one order into one leg', () => {
+      const [reliance] = bySymbol(result.trades, 'RELIANCE');
+      expect(reliance.buySell).toBe('Buy');
+      expect(legsOf(reliance)).toEqual([
+        ['entry', '2024-06-03', 100, 2907],
+        ['exit', '2024-06-10', 60, 3000],
+        ['exit', '2024-06-12', 40, 3050]
+      ]);
+    });
+
+    it('skips delivery sells without an open position instead of opening a short', () => {
+      expect(bySymbol(result.trades, 'RELIANCE')).toHaveLength(1);
+      expect(bySymbol(result.trades, 'INFY')).toHaveLength(0);
+      expect(result.skippedFills.map(fill => [fill.symbol, fill.date, fill.qty])).toEqual([
+        ['RELIANCE', '2024-06-12', 10],
+        ['INFY', '2024-06-05', 20]
+      ]);
+    });
+
+    it('keeps shorts that are covered the same day or in F&O', () => {
+      const [tcs] = bySymbol(result.trades, 'TCS');
+      expect(tcs.buySell).toBe('Sell');
+      expect(legsOf(tcs)).toEqual([['entry', '2024-06-06', 10, 3800], ['exit', '2024-06-06', 10, 3780]]);
+      const [future] = bySymbol(result.trades, 'NIFTY24JUNFUT');
+      expect([future.buySell, future.legs!.length]).toEqual(['Sell', 1]);
+    });
+  });
+
+  describe('Upstox', () => {
+    const rows = [
+      ['Date', 'Company', 'Amount', 'Exchange', 'Segment', 'Scrip Code', 'Instrument Type', 'Trade Num', 'Trade Time', 'Side', 'Quantity', 'Price'],
+      ['03-06-2024', 'HDFC BANK LTD', '', 'NSE', 'EQ', 'HDFCBANK', 'EQUITY', '201', '09:15:30', 'Buy', '30', '1550'],
+      ['03-06-2024', 'HDFC BANK LTD', '', 'NSE', 'EQ', 'HDFCBANK', 'EQUITY', '202', '09:15:31', 'Buy', '20', '1555'],
+      ['14-06-2024', 'HDFC BANK LTD', '80000', 'NSE', 'EQ', 'HDFCBANK', 'EQUITY', '203', '13:00:00', 'Sell', '50', '']
+    ];
+    const result = importBrokerTradebook(rows)!;
+
+    it('takes the symbol from the scrip code rather than the company name', () => {
+      expect(result.importer.id).toBe('upstox');
+      expect(result.trades.map(trade => trade.name)).toEqual(['HDFCBANK']);
+    });
+
+    it('groups same-day fills without order ids and prices fills from the amount', () => {
+      expect(legsOf(result.trades[0])).toEqual([['entry', '2024-06-03', 50, 1552], ['exit', '2024-06-14', 50, 1600]]);
+    });
+  });
+
+  describe('Groww', () => {
+    const rows = [
+      ['Stock name', 'Symbol', 'ISIN', 'Type', 'Quantity', 'Value', 'Exchange', 'Exchange Order Id', 'Execution date and time', 'Order status'],
+      ['Tata Motors', 'TATAMOTORS', 'INE155A01022', 'BUY', '10', '9500', 'NSE', 'G1', '04-06-2024 10:15 AM', 'Executed'],
+      ['Tata Motors', 'TATAMOTORS', 'INE155A01022', 'BUY', '10', '9600', 'NSE', 'G2', '05-06-2024 10:15 AM', 'Rejected'],
+      ['Tata Motors', 'TATAMOTORS', 'INE155A01022', 'SELL', '10', '10000', 'NSE', 'G3', '20-06-2024 02:45 PM', 'Executed']
+    ];
+    const result = importBrokerTradebook(rows)!;
+
+    it('leaves out orders that did not execute', () => {
+      expect(result.importer.id).toBe('groww');
+      expect(result.fills).toHaveLength(2);
+      expect(legsOf(result.trades[0])).toEqual([['entry', '2024-06-04', 10, 950], ['exit', '2024-06-20', 10, 1000]]);
+    });
+  });
+
+  describe('Angel One', () => {
+    const rows = [
+      ['Trade Date', 'Trade Time', 'Symbol', 'Exchange', 'Buy/Sell', 'Quantity', 'Trade Price', 'Order No', 'Trade No'],
+      ['05-Jun-2024', '09:45:00', 'SBIN-EQ', 'NSE', 'B', '100', '820', 'A1', '301'],
+      ['05-Jun-2024', '09:45:01', 'SBIN-EQ', 'NSE', 'B', '50', '823', 'A1', '302'],
+      ['07-Jun-2024', '11:00:00', 'SBIN-EQ', 'NSE', 'B', '50', '830', 'A2', '303'],
+      ['21-Jun-2024', '15:10:00', 'SBIN-EQ', 'NSE', 'S', '200', '850', 'A3', '304']
+    ];
+    const result = importBrokerTradebook(rows)!;
+
+    it('turns later buys into pyramids and closes on the sell', () => {
+      expect(result.importer.id).toBe('angel');
+      const [sbin] = result.trades;
+      expect(sbin.name).toBe('SBIN');
+      expect(legsOf(sbin)).toEqual([
+        ['entry', '2024-06-05', 150, 821],
+        ['entry', '2024-06-07', 50, 830],
+        ['exit', '2024-06-21', 200, 850]
+      ]);
+    });
+  });
+});
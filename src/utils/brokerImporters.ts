@@ -0,0 +1,525 @@
+import { Trade, TradeLeg } from '../types/trade';
+import { generateId } from './helpers';
+import { applyLegs } from './tradeLegs';
+
+// Broker tradebook importers
+//
+// Each importer recognises the tradebook export of one broker and turns its rows into
+// normalised fills. Fills are then grouped per symbol into journal positions: the first
+// fill opens a position, same-side fills become pyramids and opposite-side fills become
+// (partial) exits until the position is flat again. Delivery equity cannot be sold short
+// overnight, so a sell without an open position is usually the sale of holdings bought
+// before the tradebook starts; such sells are skipped and reported instead of opening a
+// phantom short. Sells in F&O, intraday products or covered by a buy later the same day
+// still open a short.
+
+export type FillSide = 'BUY' | 'SELL';
+
+/** A single execution read from a broker tradebook */
+export interface BrokerFill {
+  symbol: string;
+  /** Trade date as YYYY-MM-DD */
+  date: string;
+  side: FillSide;
+  qty: number;
+  price: number;
+  /** Milliseconds since epoch of the execution, when the tradebook has a time column */
+  timestamp?: number;
+  orderId?: string;
+  tradeId?: string;
+  exchange?: string;
+  /** Exchange segment as exported, e.g. EQ, FO or NFO */
+  segment?: string;
+  /** Product type as exported, e.g. CNC, MIS or INTRADAY */
+  product?: string;
+}
+
+export interface BrokerImporter {
+  id: string;
+  label: string;
+  /** Whether a header row belongs to this broker's tradebook */
+  detect: (headers: string[]) => boolean;
+  /** Convert the data rows (below the header row) into fills */
+  parse: (headers: string[], rows: any[][]) => BrokerFill[];
+}
+
+export interface DetectedTradebook {
+  importer: BrokerImporter;
+  /** Index of the header row; brokers often put account details above it */
+  headerIndex: number;
+}
+
+export interface GroupedFills {
+  trades: Trade[];
+  /** Sells (or the part of a sell) that would have opened a short on delivery equity */
+  skippedFills: BrokerFill[];
+}
+
+// How many leading rows to scan for the header row
+const HEADER_SCAN_ROWS = 30;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12
+};
+
+/** Lower-case a header and strip everything but letters and digits ("Trade Date" -> "tradedate") */
+export const normalizeHeader = (header: any): string =>
+  String(header ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += 2000;
+  const date = new Date(year, month - 1, day);
+  if (isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Parse the date (and optional time) formats used by Indian broker exports:
+ * 2024-01-15, 2024-01-15T09:20:11, 15-01-2024, 15/01/2024 09:20, 15-Jan-2024, 15 Jan 2024
+ * and Excel serial numbers.
+ */
+export function parseBrokerDateTime(value: any): { date: string; timestamp: number } | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (typeof value === 'number' && value > 20000 && value < 80000) {
+    // Excel serial date (days since 1899-12-30), fractional part is the time
+    const ms = Math.round((value - 25569) * 86400 * 1000);
+    const d = new Date(ms);
+    return {
+      date: `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`,
+      timestamp: ms
+    };
+  }
+
+  const str = String(value).trim();
+  let date: string | null = null;
+  let rest = '';
+
+  let match = str.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(.*)$/);
+  if (match) {
+    date = toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+    rest = match[4];
+  } else if ((match = str.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})(.*)$/))) {
+    // Indian exports are day-first
+    date = toIsoDate(Number(match[3]), Number(match[2]), Number(match[1]));
+    rest = match[4];
+  } else if ((match = str.match(/^(\d{1,2})[-\s]([A-Za-z]{3,9})[-\s,]+(\d{2,4})(.*)$/))) {
+    const month = MONTHS[match[2].toLowerCase()] || MONTHS[match[2].slice(0, 3).toLowerCase()];
+    if (month) date = toIsoDate(Number(match[3]), month, Number(match[1]));
+    rest = match[4];
+  }
+
+  if (!date) return null;
+
+  let seconds = 0;
+  const time = rest.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?/);
+  if (time) {
+    let hours = Number(time[1]) % 24;
+    const meridiem = time[4]?.toLowerCase();
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+    seconds = hours * 3600 + Number(time[2]) * 60 + Number(time[3] || 0);
+  }
+
+  const [y, m, d] = date.split('-').map(Number);
+  return { date, timestamp: new Date(y, m - 1, d).getTime() + seconds * 1000 };
+}
+
+const parseNumber = (value: any): number => {
+  if (typeof value === 'number') return value;
+  const parsed = parseFloat(String(value ?? '').replace(/[₹,\s]/g, ''));
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+const parseSide = (value: any): FillSide | null => {
+  const side = String(value ?? '').trim().toLowerCase();
+  if (side === 'buy' || side === 'b') return 'BUY';
+  if (side === 'sell' || side === 's') return 'SELL';
+  return null;
+};
+
+/** Strip exchange series suffixes such as RELIANCE-EQ or TATAMOTORS-BE */
+const normalizeSymbol = (value: any): string =>
+  String(value ?? '').trim().toUpperCase().replace(/-(EQ|BE|BZ|SM|ST)$/, '');
+
+type ColumnAliases = Record<string, string[]>;
+
+/**
+ * Resolve logical columns to header indexes using normalised aliases. Aliases are tried
+ * in order, so the first alias present wins regardless of the column order in the file.
+ * Returns null when any required column is missing.
+ */
+const resolveColumns = (
+  headers: string[],
+  aliases: ColumnAliases,
+  required: string[]
+): Record<string, number> | null => {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Record<string, number> = {};
+  Object.entries(aliases).forEach(([key, names]) => {
+    const name = names.find(alias => normalized.includes(alias));
+    if (name) columns[key] = normalized.indexOf(name);
+  });
+  return required.every(key => columns[key] !== undefined) ? columns : null;
+};
+
+/**
+ * Build an importer from column aliases. Rows without a valid symbol, side, date,
+ * quantity or price are skipped.
+ */
+const createColumnImporter = (config: {
+  id: string;
+  label: string;
+  aliases: ColumnAliases;
+  /** Columns that must all be present for the broker to be recognised */
+  signature: string[];
+  /** Optional row filter, e.g. to drop rejected orders */
+  includeRow?: (row: any[], columns: Record<string, number>) => boolean;
+}): BrokerImporter => {
+  const required = ['symbol', 'side', 'date', 'qty'];
+
+  return {
+    id: config.id,
+    label: config.label,
+    detect: (headers) => resolveColumns(headers, config.aliases, [...required, ...config.signature]) !== null,
+    parse: (headers, rows) => {
+      const columns = resolveColumns(headers, config.aliases, required);
+      if (!columns) return [];
+      const cell = (row: any[], key: string) => (columns[key] !== undefined ? row[columns[key]] : undefined);
+      const text = (row: any[], key: string) => (cell(row, key) !== undefined ? String(cell(row, key)).trim() || undefined : undefined);
+
+      const fills: BrokerFill[] = [];
+      rows.forEach(row => {
+        if (!Array.isArray(row)) return;
+        if (config.includeRow && !config.includeRow(row, columns)) return;
+
+        const symbol = normalizeSymbol(cell(row, 'symbol'));
+        const side = parseSide(cell(row, 'side'));
+        // Prefer a dedicated execution time column for ordering fills within a day
+        const when = parseBrokerDateTime(cell(row, 'time')) || parseBrokerDateTime(cell(row, 'date'));
+        const date = parseBrokerDateTime(cell(row, 'date'))?.date || when?.date;
+        const qty = Math.abs(parseNumber(cell(row, 'qty')));
+        let price = parseNumber(cell(row, 'price'));
+        if (!price && columns.value !== undefined && qty > 0) {
+          price = Math.abs(parseNumber(cell(row, 'value'))) / qty;
+        }
+
+        if (!symbol || !side || !date || qty <= 0 || price <= 0) return;
+
+        fills.push({
+          symbol,
+          date,
+          side,
+          qty,
+          price,
+          timestamp: when?.timestamp,
+          orderId: text(row, 'orderId'),
+          tradeId: text(row, 'tradeId'),
+          exchange: text(row, 'exchange'),
+          segment: text(row, 'segment'),
+          product: text(row, 'product')
+        });
+      });
+      return fills;
+    }
+  };
+};
+
+// Zerodha Console tradebook: symbol, isin, trade_date, exchange, segment, series,
+// trade_type, auction, quantity, price, trade_id, order_id, order_execution_time
+const zerodhaImporter = createColumnImporter({
+  id: 'zerodha',
+  label: 'Zerodha',
+  aliases: {
+    symbol: ['symbol', 'tradingsymbol'],
+    side: ['tradetype'],
+    date: ['tradedate'],
+    time: ['orderexecutiontime'],
+    qty: ['quantity'],
+    price: ['price'],
+    orderId: ['orderid'],
+    tradeId: ['tradeid'],
+    exchange: ['exchange'],
+    segment: ['segment'],
+    product: ['product']
+  },
+  signature: ['price', 'tradeId']
+});
+
+// Upstox trade report: Date, Company, Amount, Exchange, Segment, Scrip Code,
+// Instrument Type, Trade Num, Trade Time, Side, Quantity, Price.
+// Company holds the company name, so it is only used when no symbol column exists.
+const upstoxImporter = createColumnImporter({
+  id: 'upstox',
+  label: 'Upstox',
+  aliases: {
+    symbol: ['symbol', 'tradingsymbol', 'scripcode', 'scripname', 'scrip', 'company'],
+    side: ['side', 'transactiontype'],
+    date: ['date', 'tradedate'],
+    time: ['tradetime'],
+    qty: ['quantity', 'qty'],
+    price: ['price', 'tradeprice', 'rate'],
+    value: ['amount'],
+    tradeId: ['tradenum', 'tradeno'],
+    orderId: ['ordernum', 'orderno'],
+    exchange: ['exchange'],
+    segment: ['segment'],
+    product: ['product', 'producttype']
+  },
+  signature: ['price', 'tradeId', 'time']
+});
+
+// Groww order history: Stock name, Symbol, ISIN, Type, Quantity, Value, Exchange,
+// Exchange Order Id, Execution date and time, Order status
+const growwImporter = createColumnImporter({
+  id: 'groww',
+  label: 'Groww',
+  aliases: {
+    symbol: ['symbol'],
+    side: ['type'],
+    date: ['executiondateandtime'],
+    qty: ['quantity'],
+    price: ['price', 'averageprice'],
+    value: ['value'],
+    orderId: ['exchangeorderid'],
+    status: ['orderstatus'],
+    exchange: ['exchange']
+  },
+  signature: ['value'],
+  includeRow: (row, columns) => {
+    if (columns.status === undefined) return true;
+    const status = String(row[columns.status] ?? '').trim().toLowerCase();
+    return status === '' || status === 'executed' || status === 'complete' || status === 'completed';
+  }
+});
+
+// Angel One tradebook: Trade Date, Trade Time, Symbol, Exchange, Buy/Sell,
+// Quantity, Trade Price, Order No, Trade No
+const angelImporter = createColumnImporter({
+  id: 'angel',
+  label: 'Angel One',
+  aliases: {
+    symbol: ['symbol', 'scrip', 'scripname', 'tradingsymbol'],
+    side: ['buysell', 'bs', 'transactiontype'],
+    date: ['tradedate', 'date'],
+    time: ['tradetime'],
+    qty: ['quantity', 'qty', 'tradeqty'],
+    price: ['tradeprice', 'price', 'rate'],
+    orderId: ['orderno', 'ordernumber'],
+    tradeId: ['tradeno', 'tradenumber'],
+    exchange: ['exchange'],
+    segment: ['segment'],
+    product: ['producttype', 'product']
+  },
+  signature: ['price', 'orderId']
+});
+
+const importers: BrokerImporter[] = [zerodhaImporter, upstoxImporter, growwImporter, angelImporter];
+
+/** Registered importers, in detection order */
+export function getBrokerImporters(): BrokerImporter[] {
+  return [...importers];
+}
+
+/**
+ * Register an additional broker importer. Importers registered later take precedence
+ * over the built-in ones when both recognise a tradebook.
+ */
+export function registerBrokerImporter(importer: BrokerImporter): void {
+  const existing = importers.findIndex(i => i.id === importer.id);
+  if (existing !== -1) importers.splice(existing, 1);
+  importers.unshift(importer);
+}
+
+/** Find the importer whose tradebook format matches a header row */
+export function detectBrokerImporter(headers: string[]): BrokerImporter | null {
+  return importers.find(importer => importer.detect(headers)) || null;
+}
+
+/**
+ * Locate a broker tradebook in raw sheet rows (header row included).
+ * Scans the leading rows since exports often start with account details.
+ */
+export function detectBrokerTradebook(rows: any[][]): DetectedTradebook | null {
+  const limit = Math.min(rows.length, HEADER_SCAN_ROWS);
+  for (let i = 0; i < limit; i++) {
+    if (!Array.isArray(rows[i])) continue;
+    const importer = detectBrokerImporter(rows[i].map(cell => String(cell ?? '').trim()));
+    if (importer) return { importer, headerIndex: i };
+  }
+  return null;
+}
+
+const DERIVATIVE_SEGMENTS = ['fo', 'fno', 'nfo', 'bfo', 'mcx', 'cds', 'bcd', 'derivatives', 'futures', 'options', 'commodity', 'currency'];
+const INTRADAY_PRODUCTS = ['mis', 'intraday', 'i', 'bo', 'co'];
+
+/** Whether a fill is a futures, options, currency or commodity execution */
+const isDerivativeFill = (fill: BrokerFill): boolean =>
+  [fill.segment, fill.exchange].some(value => {
+    const segment = normalizeHeader(value);
+    // Also matches combined codes such as NSE_FO
+    return DERIVATIVE_SEGMENTS.includes(segment) || segment.endsWith('fo');
+  });
+
+/** Whether a fill was placed under an intraday product (MIS, bracket or cover order) */
+const isIntradayFill = (fill: BrokerFill): boolean =>
+  INTRADAY_PRODUCTS.includes(normalizeHeader(fill.product));
+
+const compareFills = (a: BrokerFill & { seq: number }, b: BrokerFill & { seq: number }) => {
+  if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+  if (a.timestamp !== undefined && b.timestamp !== undefined && a.timestamp !== b.timestamp) {
+    return a.timestamp - b.timestamp;
+  }
+  return a.seq - b.seq;
+};
+
+const createImportedTrade = (symbol: string, buySell: 'Buy' | 'Sell', date: string): Trade => ({
+  id: generateId(),
+  tradeNo: '',
+  date,
+  name: symbol,
+  setup: '',
+  buySell,
+  entry: 0,
+  avgEntry: 0,
+  sl: 0,
+  tsl: 0,
+  cmp: 0,
+  initialQty: 0,
+  positionSize: 0,
+  allocation: 0,
+  slPercent: 0,
+  openQty: 0,
+  exitedQty: 0,
+  avgExitPrice: 0,
+  stockMove: 0,
+  openHeat: 0,
+  rewardRisk: 0,
+  holdingDays: 0,
+  positionStatus: 'Open',
+  realisedAmount: 0,
+  plRs: 0,
+  pfImpact: 0,
+  cummPf: 0,
+  planFollowed: true,
+  exitTrigger: '',
+  proficiencyGrowthAreas: '',
+  baseDuration: '',
+  notes: ''
+});
+
+/**
+ * Group fills into journal positions.
+ * Fills of the same order (or, without order ids, consecutive same-day same-side fills)
+ * are combined into one leg at their weighted average price. A fill that flips the
+ * position closes it and opens a new one in the opposite direction with the remainder.
+ * A sell that would open a short is skipped unless it is a derivative or intraday fill,
+ * or a buy of the same symbol follows it the same day.
+ */
+export function groupFillsIntoTrades(fills: BrokerFill[]): GroupedFills {
+  const bySymbol = new Map<string, Array<BrokerFill & { seq: number }>>();
+  fills.forEach((fill, seq) => {
+    const list = bySymbol.get(fill.symbol) || [];
+    list.push({ ...fill, seq });
+    bySymbol.set(fill.symbol, list);
+  });
+
+  const trades: Trade[] = [];
+  const skippedFills: BrokerFill[] = [];
+
+  bySymbol.forEach((symbolFills, symbol) => {
+    symbolFills.sort(compareFills);
+
+    let current: { trade: Trade; direction: FillSide; legs: TradeLeg[]; openQty: number } | null = null;
+    let lastKey = '';
+
+    const closeCurrent = () => {
+      if (current) trades.push(applyLegs(current.trade, current.legs));
+      current = null;
+      lastKey = '';
+    };
+
+    const addLeg = (side: TradeLeg['side'], fill: BrokerFill, qty: number) => {
+      const key = `${side}|${fill.date}|${fill.orderId || ''}`;
+      const last = current!.legs[current!.legs.length - 1];
+      if (last && key === lastKey) {
+        const totalQty = last.qty + qty;
+        last.price = (last.price * last.qty + fill.price * qty) / totalQty;
+        last.qty = totalQty;
+        return;
+      }
+      current!.legs.push({ id: generateId(), side, date: fill.date, price: fill.price, qty });
+      lastKey = key;
+    };
+
+    const canOpenShort = (fill: BrokerFill, index: number) =>
+      isDerivativeFill(fill) ||
+      isIntradayFill(fill) ||
+      symbolFills.slice(index + 1).some(later => later.date === fill.date && later.side === 'BUY');
+
+    symbolFills.forEach((fill, index) => {
+      let remaining = fill.qty;
+
+      while (remaining > 0) {
+        if (!current && fill.side === 'SELL' && !canOpenShort(fill, index)) {
+          const { seq, ...skipped } = fill as BrokerFill & { seq: number };
+          skippedFills.push({ ...skipped, qty: remaining });
+          break;
+        }
+
+        if (!current) {
+          current = {
+            trade: createImportedTrade(symbol, fill.side === 'BUY' ? 'Buy' : 'Sell', fill.date),
+            direction: fill.side,
+            legs: [],
+            openQty: 0
+          };
+        }
+
+        if (fill.side === current.direction) {
+          addLeg('entry', fill, remaining);
+          current.openQty += remaining;
+          remaining = 0;
+        } else {
+          const qty = Math.min(remaining, current.openQty);
+          addLeg('exit', fill, qty);
+          current.openQty -= qty;
+          remaining -= qty;
+          if (current.openQty === 0) closeCurrent();
+        }
+      }
+    });
+
+    closeCurrent();
+  });
+
+  return {
+    trades: trades.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0)),
+    skippedFills
+  };
+}
+
+/**
+ * Parse a broker tradebook (raw sheet rows including the header row) into positions.
+ * @returns The matched importer, grouped trades and skipped sells, or null if no broker format was recognised
+ */
+export function importBrokerTradebook(rows: any[][]): ({ importer: BrokerImporter; fills: BrokerFill[] } & GroupedFills) | null {
+  const detected = detectBrokerTradebook(rows);
+  if (!detected) return null;
+
+  const { importer, headerIndex } = detected;
+  const headers = rows[headerIndex].map(cell => String(cell ?? '').trim());
+  const fills = importer.parse(headers, rows.slice(headerIndex + 1));
+
+  console.log(`📥 ${importer.label} tradebook detected: ${fills.length} fills`);
+
+  const grouped = groupFillsIntoTrades(fills);
+  if (grouped.skippedFills.length > 0) {
+    console.warn(`⚠️ Skipped ${grouped.skippedFills.length} sells without an open position (holdings bought before the tradebook?)`);
+  }
+
+  return { importer, fills, ...grouped };
+}
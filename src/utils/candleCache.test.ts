@@ -0,0 +1,56 @@
+import { findMissingRanges, getCoveredUntil, getIntervalMs, ticksToCandles } from './candleCache';
+import { toPriceTicksResponse } from './priceTickApi';
+
+const at = (time: string) => new Date(`2024-06-18T${time}:00.000Z`);
+const span = (from: string, to: string) => ({ from: at(from).toISOString(), to: at(to).toISOString() });
+
+describe('candleCache', () => {
+  describe('getIntervalMs', () => {
+    it('parses candle intervals', () => {
+      expect(getIntervalMs('1m')).toBe(60000);
+      expect(getIntervalMs('15m')).toBe(15 * 60000);
+      expect(getIntervalMs('1h')).toBe(3600000);
+      expect(getIntervalMs('1d')).toBe(86400000);
+      expect(getIntervalMs('tick')).toBe(60000);
+    });
+  });
+
+  describe('findMissingRanges', () => {
+    it('fetches the whole range when nothing is cached', () => {
+      expect(findMissingRanges([], at('04:00'), at('10:00'))).toEqual([{ from: at('04:00'), to: at('10:00') }]);
+    });
+
+    it('fetches only the gaps around and between cached spans', () => {
+      const missing = findMissingRanges([span('07:00', '08:00'), span('05:00', '06:00')], at('04:00'), at('10:00'));
+      expect(missing).toEqual([
+        { from: at('04:00'), to: at('05:00') },
+        { from: at('06:00'), to: at('07:00') },
+        { from: at('08:00'), to: at('10:00') }
+      ]);
+    });
+
+    it('fetches nothing when the range is covered', () => {
+      expect(findMissingRanges([span('03:00', '06:00'), span('06:00', '11:00')], at('04:00'), at('10:00'))).toEqual([]);
+    });
+  });
+
+  describe('getCoveredUntil', () => {
+    const candles = ticksToCandles('TCS', toPriceTicksResponse('TCS', [
+      { dateTime: at('09:58').toISOString(), open: 1, high: 1, low: 1, close: 1, volume: 0, dayVolume: 0 },
+      { dateTime: at('09:57').toISOString(), open: 1, high: 1, low: 1, close: 1, volume: 0, dayVolume: 0 }
+    ]));
+
+    it('sorts candles oldest first', () => {
+      expect(candles.map(candle => candle.dateTime)).toEqual([at('09:57').toISOString(), at('09:58').toISOString()]);
+    });
+
+    it('covers past ranges completely', () => {
+      expect(getCoveredUntil(at('09:00'), candles, '1m', at('10:00'))).toEqual(at('09:00'));
+    });
+
+    it('stops a live range at the last candle received, which may still be forming', () => {
+      expect(getCoveredUntil(at('10:00'), candles, '1m', at('10:00'))).toEqual(at('09:58'));
+      expect(getCoveredUntil(at('10:00'), [], '1m', at('10:00'))).toEqual(at('09:59'));
+    });
+  });
+});
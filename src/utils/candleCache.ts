@@ -0,0 +1,140 @@
+import { DatabaseService, LocalCandle } from '../db/database';
+import { PriceTick, PriceTicksResponse, resolveTickRange, toPriceTicksResponse } from './priceTickApi';
+
+// Read-through cache of provider candles in IndexedDB.
+//
+// Each symbol/interval keeps the spans whose candles have been downloaded. A request only
+// fetches the parts of its range outside those spans, so a chart reopened later or a CMP poll
+// during the session downloads just the candles since the last fetch. Spans stop one candle
+// before "now", so the still-forming candle is fetched again on the next request.
+
+/** Cached candles kept before the oldest downloads are evicted (roughly 25 MB) */
+export const CANDLE_CACHE_MAX_CANDLES = 250000;
+
+type TickFetcher = (symbol: string, fromDate?: Date, toDate?: Date, interval?: string) => Promise<PriceTicksResponse>;
+
+interface TimeRange {
+  from: Date;
+  to: Date;
+}
+
+const INTERVAL_UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+/** Length of a candle interval such as '1m', '15m', '1h' or '1d'; one minute when unknown */
+export function getIntervalMs(interval: string): number {
+  const match = /^(\d+)\s*([mhdw])$/i.exec(interval.trim());
+  if (!match) return INTERVAL_UNIT_MS.m;
+  return Number(match[1]) * INTERVAL_UNIT_MS[match[2].toLowerCase()];
+}
+
+/** Parts of [from, to] not covered by any of the cached spans, oldest first */
+export function findMissingRanges(covered: Array<{ from: string; to: string }>, from: Date, to: Date): TimeRange[] {
+  const missing: TimeRange[] = [];
+  let cursor = from.getTime();
+  const end = to.getTime();
+
+  const spans = covered
+    .map(range => ({ from: new Date(range.from).getTime(), to: new Date(range.to).getTime() }))
+    .filter(range => range.to >= cursor && range.from <= end)
+    .sort((a, b) => a.from - b.from);
+
+  for (const span of spans) {
+    if (span.from > cursor) {
+      missing.push({ from: new Date(cursor), to: new Date(span.from) });
+    }
+    cursor = Math.max(cursor, span.to);
+    if (cursor >= end) break;
+  }
+  if (cursor < end) {
+    missing.push({ from: new Date(cursor), to: new Date(end) });
+  }
+  return missing;
+}
+
+/**
+ * End of the span a download covers. Past ranges are complete; a range reaching the current
+ * candle is only complete up to the start of the last candle received (or one interval ago).
+ */
+export function getCoveredUntil(to: Date, candles: PriceTick[], interval: string, now: Date = new Date()): Date {
+  const liveEdge = now.getTime() - getIntervalMs(interval);
+  if (to.getTime() <= liveEdge) return to;
+  const lastCandle = candles.length > 0 ? new Date(candles[candles.length - 1].dateTime).getTime() : liveEdge;
+  return new Date(Math.min(liveEdge, lastCandle));
+}
+
+/** Candles of a symbol in a price ticks response, oldest first */
+export function ticksToCandles(symbol: string, response: PriceTicksResponse): PriceTick[] {
+  const ticks = response?.data?.ticks?.[symbol.toUpperCase()] || [];
+  return ticks
+    .map(([dateTime, open, high, low, close, volume, dayVolume]) => ({ dateTime, open, high, low, close, volume, dayVolume }))
+    .filter(candle => !isNaN(new Date(candle.dateTime).getTime()))
+    .sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime());
+}
+
+const toLocalCandle = (symbol: string, interval: string, candle: PriceTick): LocalCandle => ({
+  symbol,
+  interval,
+  // Normalised so cache keys sort and compare by time
+  dateTime: new Date(candle.dateTime).toISOString(),
+  open: candle.open,
+  high: candle.high,
+  low: candle.low,
+  close: candle.close,
+  volume: candle.volume
+});
+
+/**
+ * Serve candles from the cache, downloading only the parts of the range that are missing.
+ * Requests without dates use the same session range as the Strike API; if the ranged download
+ * fails (e.g. before the open), the provider is asked once without a range and nothing is cached.
+ */
+export async function fetchTicksWithCache(
+  symbol: string,
+  fetcher: TickFetcher,
+  fromDate?: Date,
+  toDate?: Date,
+  interval?: string
+): Promise<PriceTicksResponse> {
+  const key = symbol.toUpperCase();
+  const range = resolveTickRange(fromDate, toDate, interval);
+
+  try {
+    const missing = findMissingRanges(await DatabaseService.getCandleCacheRanges(key, range.interval), range.from, range.to);
+    const downloaded = new Map<string, PriceTick>();
+
+    for (const gap of missing) {
+      const candles = ticksToCandles(key, await fetcher(key, gap.from, gap.to, range.interval));
+      const coveredUntil = getCoveredUntil(gap.to, candles, range.interval);
+      await DatabaseService.saveCachedCandles(
+        key,
+        range.interval,
+        candles.map(candle => toLocalCandle(key, range.interval, candle)),
+        coveredUntil > gap.from ? { from: gap.from.toISOString(), to: coveredUntil.toISOString() } : null
+      );
+      candles.forEach(candle => downloaded.set(new Date(candle.dateTime).toISOString(), candle));
+    }
+    if (missing.length > 0) {
+      await DatabaseService.evictCandleCache(CANDLE_CACHE_MAX_CANDLES);
+    }
+
+    // Downloaded candles are served even if they could not be stored
+    const cached = await DatabaseService.getCachedCandles(key, range.interval, range.from, range.to);
+    const candles = new Map<string, PriceTick>(cached.map(candle => [candle.dateTime, { ...candle, dayVolume: candle.volume }]));
+    downloaded.forEach((candle, dateTime) => {
+      if (dateTime >= range.from.toISOString() && dateTime <= range.to.toISOString()) candles.set(dateTime, candle);
+    });
+
+    console.log(`[fetchTicksWithCache] ${key} ${range.interval}: ${cached.length} cached, ${downloaded.size} downloaded in ${missing.length} request(s)`);
+    const sorted = Array.from(candles.values()).sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime());
+    return toPriceTicksResponse(key, sorted);
+  } catch (error) {
+    if (fromDate || toDate) throw error;
+    console.warn(`[fetchTicksWithCache] Ranged download failed for ${key}, fetching without the cache:`, error);
+    return await fetcher(key, undefined, undefined, interval);
+  }
+}
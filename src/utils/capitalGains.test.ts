@@ -0,0 +1,134 @@
+import { Trade, TradeCharges, TradeLeg } from '../types/trade';
+import {
+  calculateCapitalGains,
+  getCapitalGainsRates,
+  getFinancialYear,
+  getLtcgExemption,
+  getTradeCapitalGainLots,
+  isLongTermHolding
+} from './capitalGains';
+
+const charges = (total: number, stt: number) => ({
+  brokerage: 0, stt, exchangeCharges: 0, sebiCharges: 0, stampDuty: 0, gst: 0, ipft: 0, otherCharges: total - stt, total
+} as TradeCharges);
+
+const trade = (id: string, legs: Array<Partial<TradeLeg> & Pick<TradeLeg, 'side' | 'date' | 'price' | 'qty'>>, buySell: 'Buy' | 'Sell' = 'Buy') => ({
+  id,
+  name: `STOCK${id}`,
+  buySell,
+  date: legs[0].date,
+  positionStatus: 'Closed',
+  legs: legs.map((leg, i) => ({ id: `${id}-${i}`, ...leg }))
+} as Trade);
+
+const roundTrip = (id: string, qty: number, buyDate: string, buyPrice: number, sellDate: string, sellPrice: number) => trade(id, [
+  { side: 'entry', date: buyDate, price: buyPrice, qty },
+  { side: 'exit', date: sellDate, price: sellPrice, qty }
+]);
+
+describe('capitalGains', () => {
+  describe('rules', () => {
+    it('treats a lot as long term only when held for more than twelve months', () => {
+      expect(isLongTermHolding('2023-06-15', '2024-06-15')).toBe(false);
+      expect(isLongTermHolding('2023-06-15', '2024-06-16')).toBe(true);
+    });
+
+    it('switches rates for transfers from 23 July 2024 and the exemption from FY 2024-25', () => {
+      expect(getCapitalGainsRates('2024-07-22')).toEqual({ stcgRate: 0.15, ltcgRate: 0.10 });
+      expect(getCapitalGainsRates('2024-07-23')).toEqual({ stcgRate: 0.20, ltcgRate: 0.125 });
+      expect(getLtcgExemption('FY 2023-24')).toBe(100000);
+      expect(getLtcgExemption('FY 2024-25')).toBe(125000);
+      expect(getFinancialYear('2024-03-31')).toBe('FY 2023-24');
+      expect(getFinancialYear('2024-04-01')).toBe('FY 2024-25');
+    });
+  });
+
+  describe('lots', () => {
+    it('splits one exit across lots bought either side of the twelve month boundary', () => {
+      const lots = getTradeCapitalGainLots(trade('B1', [
+        { side: 'entry', date: '2023-06-15', price: 100, qty: 50 },
+        { side: 'entry', date: '2023-06-16', price: 100, qty: 50 },
+        { side: 'exit', date: '2024-06-16', price: 200, qty: 100 }
+      ]));
+      expect(lots.map(lot => [lot.term, lot.qty, lot.gain, lot.financialYear])).toEqual([
+        ['LTCG', 50, 5000, 'FY 2024-25'],
+        ['STCG', 50, 5000, 'FY 2024-25']
+      ]);
+    });
+
+    it('deducts transfer expenses except STT', () => {
+      const [lot] = getTradeCapitalGainLots(trade('C1', [
+        { side: 'entry', date: '2024-01-10', price: 100, qty: 10, charges: charges(30, 10) },
+        { side: 'exit', date: '2024-02-10', price: 110, qty: 10, charges: charges(50, 20) }
+      ]));
+      expect(lot.expenses).toBe(50);
+      expect(lot.gain).toBe(50);
+    });
+
+    it('reports same-day round trips and short sales as speculative', () => {
+      expect(getTradeCapitalGainLots(roundTrip('S1', 100, '2024-09-02', 500, '2024-09-02', 510))[0].term).toBe('Speculative');
+      const short = trade('S2', [
+        { side: 'entry', date: '2024-09-02', price: 510, qty: 100 },
+        { side: 'exit', date: '2024-09-05', price: 500, qty: 100 }
+      ], 'Sell');
+      const [lot] = getTradeCapitalGainLots(short);
+      expect([lot.term, lot.buyPrice, lot.sellPrice, lot.gain]).toEqual(['Speculative', 500, 510, 1000]);
+    });
+  });
+
+  describe('yearly schedule', () => {
+    const summaries = calculateCapitalGains([
+      // FY 2023-24: a long term gain and a short term loss set off against it
+      roundTrip('T1', 100, '2022-06-01', 1000, '2023-06-02', 2500),
+      roundTrip('T2', 100, '2023-09-01', 1000, '2023-10-01', 700),
+      // FY 2024-25: lots on either side of the 12-month boundary and of 23 July 2024
+      trade('B1', [
+        { side: 'entry', date: '2023-06-15', price: 100, qty: 50 },
+        { side: 'entry', date: '2023-06-16', price: 100, qty: 50 },
+        { side: 'exit', date: '2024-06-16', price: 200, qty: 100 }
+      ]),
+      roundTrip('T3', 100, '2024-03-01', 1000, '2024-07-22', 1100),
+      roundTrip('T4', 100, '2024-03-01', 1000, '2024-07-23', 1100),
+      roundTrip('T5', 1000, '2022-01-03', 100, '2024-08-01', 400),
+      roundTrip('S1', 100, '2024-09-02', 500, '2024-09-02', 510),
+      // FY 2025-26: a long term loss that cannot be set off against short term gains
+      roundTrip('T6', 100, '2023-05-02', 1000, '2025-05-02', 500),
+      roundTrip('T7', 100, '2025-04-07', 1000, '2025-06-02', 1400)
+    ]);
+    const byYear = (financialYear: string) => summaries.find(summary => summary.financialYear === financialYear)!;
+
+    it('lists the financial years from the latest', () => {
+      expect(summaries.map(summary => summary.financialYear)).toEqual(['FY 2025-26', 'FY 2024-25', 'FY 2023-24']);
+    });
+
+    it('sets a short term loss off against long term gains before the ₹1L exemption', () => {
+      const fy = byYear('FY 2023-24');
+      expect([fy.stcgGains, fy.stcgLosses, fy.ltcgGains, fy.ltcgLosses]).toEqual([0, 30000, 150000, 0]);
+      expect([fy.netStcg, fy.netLtcg, fy.ltcgExemption, fy.taxableLtcg]).toEqual([0, 120000, 100000, 20000]);
+      expect(fy.estimatedStcgTax).toBe(0);
+      expect(fy.estimatedLtcgTax).toBe(2000);
+    });
+
+    it('taxes each part of a year at the rate of its transfer date after the ₹1.25L exemption', () => {
+      const fy = byYear('FY 2024-25');
+      expect([fy.stcgGains, fy.ltcgGains, fy.speculativePL]).toEqual([25000, 305000, 1000]);
+      expect([fy.netStcg, fy.netLtcg, fy.ltcgExemption, fy.taxableLtcg]).toEqual([25000, 305000, 125000, 180000]);
+      // 15000 sold before 23 July 2024 at 15%, 10000 after at 20%
+      expect(fy.estimatedStcgTax).toBe(4250);
+      // Gain-weighted: 5000 at 10% and 300000 at 12.5%
+      expect(fy.estimatedLtcgTax).toBeCloseTo(180000 * (5000 * 0.10 + 300000 * 0.125) / 305000, 2);
+    });
+
+    it('does not set a long term loss off against short term gains', () => {
+      const fy = byYear('FY 2025-26');
+      expect([fy.netStcg, fy.netLtcg, fy.ltcgExemption, fy.taxableLtcg]).toEqual([40000, -50000, 0, 0]);
+      expect(fy.estimatedStcgTax).toBe(8000);
+      expect(fy.estimatedLtcgTax).toBe(0);
+    });
+
+    it('leaves F&O trades out', () => {
+      const withFuture = calculateCapitalGains([{ ...roundTrip('F1', 50, '2024-05-02', 100, '2024-05-20', 120), instrumentType: 'FUT' } as Trade]);
+      expect(withFuture).toHaveLength(0);
+    });
+  });
+});
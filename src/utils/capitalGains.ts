@@ -0,0 +1,281 @@
+import { Trade, TradeCharges, TradeLeg } from '../types/trade';
+import { getTradeLegs, getEntryLegs, getExitLegs } from './tradeLegs';
+import { getExitDatesWithFallback } from './accountingUtils';
+import { matchLotsFIFO } from './tradeCalculations';
+import { isDerivative } from './derivatives';
+
+// Capital gains on listed equity shares (STT paid), for the Indian income tax return.
+//
+// Every exit is matched FIFO against the entry lots of its trade. A lot held for more than
+// twelve months is long term, otherwise short term. Lots bought and sold on the same day,
+// and short sales, are speculative business income and are reported separately.
+// Futures and options are non-speculative business income and are left out (see fnoTurnover.ts).
+
+export type GainTerm = 'STCG' | 'LTCG' | 'Speculative';
+
+/** One matched lot of the capital gains schedule */
+export interface CapitalGainLot {
+  tradeId: string;
+  symbol: string;
+  term: GainTerm;
+  qty: number;
+  buyDate: string;
+  buyPrice: number;
+  sellDate: string;
+  sellPrice: number;
+  cost: number;
+  proceeds: number;
+  /** Brokerage and other transfer expenses (STT excluded, it is not deductible) */
+  expenses: number;
+  gain: number;
+  holdingDays: number;
+  financialYear: string;
+}
+
+export interface CapitalGainsSummary {
+  financialYear: string;
+  stcgGains: number;
+  stcgLosses: number;
+  ltcgGains: number;
+  ltcgLosses: number;
+  speculativePL: number;
+  /** Net short term gain after set-off (negative = loss carried forward) */
+  netStcg: number;
+  /** Net long term gain after set-off, before the exemption */
+  netLtcg: number;
+  ltcgExemption: number;
+  taxableLtcg: number;
+  estimatedStcgTax: number;
+  estimatedLtcgTax: number;
+  lots: CapitalGainLot[];
+}
+
+interface CapitalGainsRates {
+  stcgRate: number;
+  ltcgRate: number;
+}
+
+// Finance (No. 2) Act 2024 changed the rates for transfers on or after 23 July 2024
+const RATE_CHANGE_DATE = '2024-07-23';
+const RATES_BEFORE: CapitalGainsRates = { stcgRate: 0.15, ltcgRate: 0.10 };
+const RATES_AFTER: CapitalGainsRates = { stcgRate: 0.20, ltcgRate: 0.125 };
+
+/** LTCG exemption per financial year under section 112A */
+export function getLtcgExemption(financialYear: string): number {
+  const startYear = parseInt(financialYear.replace(/^FY\s*/, ''), 10);
+  return startYear >= 2024 ? 125000 : 100000;
+}
+
+/** Tax rates applicable to a transfer on the given date */
+export function getCapitalGainsRates(sellDate: string): CapitalGainsRates {
+  return sellDate.slice(0, 10) >= RATE_CHANGE_DATE ? RATES_AFTER : RATES_BEFORE;
+}
+
+/** Indian financial year (April-March) of a date, e.g. "FY 2024-25" */
+export function getFinancialYear(date: string | Date): string {
+  const d = new Date(date);
+  const startYear = d.getMonth() >= 3 ? d.getFullYear() : d.getFullYear() - 1;
+  return `FY ${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/** Whether a lot sold on sellDate was held for more than twelve months */
+export function isLongTermHolding(buyDate: string, sellDate: string): boolean {
+  const buy = new Date(buyDate);
+  const sell = new Date(sellDate);
+  if (isNaN(buy.getTime()) || isNaN(sell.getTime())) return false;
+  const oneYearLater = new Date(buy);
+  oneYearLater.setFullYear(oneYearLater.getFullYear() + 1);
+  return sell > oneYearLater;
+}
+
+const dayKey = (date: string) => (date || '').split('T')[0];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Deductible transfer expenses of a leg; STT is not allowed as a deduction
+const deductibleCharges = (charges?: TradeCharges) =>
+  charges ? charges.total - charges.stt : 0;
+
+type DatedLot = Pick<TradeLeg, 'side' | 'date' | 'price' | 'qty'> & { expenses: number };
+
+/**
+ * Match a trade's exits against its entries and classify each matched lot
+ */
+export function getTradeCapitalGainLots(trade: Trade): CapitalGainLot[] {
+  const legs = getTradeLegs(trade);
+
+  const entries: DatedLot[] = getEntryLegs(legs).map(leg => ({
+    side: 'entry',
+    date: leg.date || trade.date,
+    price: Number(leg.price) || 0,
+    qty: Number(leg.qty) || 0,
+    expenses: deductibleCharges(leg.charges)
+  }));
+
+  // Exit dates fall back to the latest known exit (or trade) date for trades without dated exits
+  const datedExitLegs = getExitLegs(legs).filter(leg => leg.date && leg.date.trim() !== '');
+  const exitDates = getExitDatesWithFallback(trade);
+  const exits: DatedLot[] = exitDates.map((exit, i) => ({
+    side: 'exit',
+    date: exit.date,
+    price: exit.price,
+    qty: exit.qty,
+    expenses: exitDates.length === datedExitLegs.length ? deductibleCharges(datedExitLegs[i].charges) : 0
+  }));
+
+  const isShort = trade.buySell === 'Sell';
+
+  return matchLotsFIFO([...entries, ...exits], trade.buySell).map(match => {
+    const buyLot = isShort ? match.exit : match.entry;
+    const sellLot = isShort ? match.entry : match.exit;
+    const cost = match.qty * buyLot.price;
+    const proceeds = match.qty * sellLot.price;
+    const expenses = (match.entry.qty > 0 ? match.entry.expenses * match.qty / match.entry.qty : 0) +
+      (match.exit.qty > 0 ? match.exit.expenses * match.qty / match.exit.qty : 0);
+
+    const sameDay = dayKey(match.entry.date) === dayKey(match.exit.date);
+    const term: GainTerm = isShort || sameDay
+      ? 'Speculative'
+      : isLongTermHolding(buyLot.date, sellLot.date) ? 'LTCG' : 'STCG';
+
+    const holdingDays = Math.max(0, Math.round(
+      (new Date(match.exit.date).getTime() - new Date(match.entry.date).getTime()) / (1000 * 60 * 60 * 24)
+    ));
+
+    return {
+      tradeId: trade.id.split('_exit_')[0],
+      symbol: trade.name,
+      term,
+      qty: match.qty,
+      buyDate: dayKey(buyLot.date),
+      buyPrice: buyLot.price,
+      sellDate: dayKey(sellLot.date),
+      sellPrice: sellLot.price,
+      cost: round2(cost),
+      proceeds: round2(proceeds),
+      expenses: round2(expenses),
+      gain: round2(proceeds - cost - expenses),
+      holdingDays,
+      // Gains arise in the year of transfer, i.e. when the position is closed
+      financialYear: getFinancialYear(match.exit.date)
+    };
+  });
+}
+
+// Gain-weighted rate, so a year spanning the rate change taxes each part at its own rate
+const weightedRate = (lots: CapitalGainLot[], key: keyof CapitalGainsRates): number => {
+  const gains = lots.filter(lot => lot.gain > 0);
+  const total = gains.reduce((sum, lot) => sum + lot.gain, 0);
+  if (total === 0) {
+    const lastSale = lots.length > 0 ? lots[lots.length - 1].sellDate : new Date().toISOString();
+    return getCapitalGainsRates(lastSale)[key];
+  }
+  return gains.reduce((sum, lot) => sum + lot.gain * getCapitalGainsRates(lot.sellDate)[key], 0) / total;
+};
+
+/**
+ * Build the per financial year capital gains schedule.
+ * Short term losses are set off against short term gains first and then long term gains;
+ * long term losses are only set off against long term gains. The LTCG exemption applies
+ * to the net long term gain. Tax figures are estimates before surcharge and cess.
+ * @returns Summaries sorted from the latest financial year
+ */
+export function calculateCapitalGains(trades: Trade[]): CapitalGainsSummary[] {
+  // Cash basis views contain one row per exit of the same trade
+  const seen = new Set<string>();
+  const lots: CapitalGainLot[] = [];
+  trades.forEach(trade => {
+    const originalId = trade.id.split('_exit_')[0];
+    if (seen.has(originalId) || isDerivative(trade)) return;
+    seen.add(originalId);
+    lots.push(...getTradeCapitalGainLots(trade));
+  });
+
+  const byYear = new Map<string, CapitalGainLot[]>();
+  lots
+    .sort((a, b) => a.sellDate.localeCompare(b.sellDate))
+    .forEach(lot => {
+      const list = byYear.get(lot.financialYear) || [];
+      list.push(lot);
+      byYear.set(lot.financialYear, list);
+    });
+
+  return Array.from(byYear.entries())
+    .map(([financialYear, yearLots]) => {
+      const stLots = yearLots.filter(lot => lot.term === 'STCG');
+      const ltLots = yearLots.filter(lot => lot.term === 'LTCG');
+      const sum = (list: CapitalGainLot[], sign: 1 | -1) =>
+        list.reduce((total, lot) => total + (Math.sign(lot.gain) === sign ? lot.gain : 0), 0);
+
+      const stcgGains = sum(stLots, 1);
+      const stcgLosses = Math.abs(sum(stLots, -1));
+      const ltcgGains = sum(ltLots, 1);
+      const ltcgLosses = Math.abs(sum(ltLots, -1));
+
+      let netStcg = stcgGains - stcgLosses;
+      let netLtcg = ltcgGains - ltcgLosses;
+      if (netStcg < 0 && netLtcg > 0) {
+        const setOff = Math.min(-netStcg, netLtcg);
+        netStcg += setOff;
+        netLtcg -= setOff;
+      }
+
+      const exemption = netLtcg > 0 ? Math.min(netLtcg, getLtcgExemption(financialYear)) : 0;
+      const taxableLtcg = Math.max(0, netLtcg - exemption);
+
+      return {
+        financialYear,
+        stcgGains: round2(stcgGains),
+        stcgLosses: round2(stcgLosses),
+        ltcgGains: round2(ltcgGains),
+        ltcgLosses: round2(ltcgLosses),
+        speculativePL: round2(yearLots.filter(lot => lot.term === 'Speculative').reduce((total, lot) => total + lot.gain, 0)),
+        netStcg: round2(netStcg),
+        netLtcg: round2(netLtcg),
+        ltcgExemption: round2(exemption),
+        taxableLtcg: round2(taxableLtcg),
+        estimatedStcgTax: round2(Math.max(0, netStcg) * weightedRate(stLots, 'stcgRate')),
+        estimatedLtcgTax: round2(taxableLtcg * weightedRate(ltLots, 'ltcgRate')),
+        lots: yearLots
+      };
+    })
+    .sort((a, b) => b.financialYear.localeCompare(a.financialYear));
+}
+
+/**
+ * Rows of the capital gains schedule for CSV/XLSX export (one row per matched lot)
+ */
+export function getCapitalGainsExportRows(summary: CapitalGainsSummary): Array<Record<string, string | number>> {
+  return summary.lots.map(lot => ({
+    'Financial Year': lot.financialYear,
+    'Type': lot.term,
+    'Symbol': lot.symbol,
+    'Quantity': lot.qty,
+    'Date of Acquisition': lot.buyDate,
+    'Cost of Acquisition (₹)': lot.cost,
+    'Date of Transfer': lot.sellDate,
+    'Full Value of Consideration (₹)': lot.proceeds,
+    'Transfer Expenses (₹)': lot.expenses,
+    'Gain / Loss (₹)': lot.gain,
+    'Holding Days': lot.holdingDays
+  }));
+}
+
+/**
+ * Summary lines of the schedule for export
+ */
+export function getCapitalGainsSummaryRows(summary: CapitalGainsSummary): Array<Record<string, string | number>> {
+  return [
+    { 'Item': 'Short term capital gains (111A)', 'Amount (₹)': summary.stcgGains },
+    { 'Item': 'Short term capital losses', 'Amount (₹)': -summary.stcgLosses },
+    { 'Item': 'Net short term capital gain', 'Amount (₹)': summary.netStcg },
+    { 'Item': 'Long term capital gains (112A)', 'Amount (₹)': summary.ltcgGains },
+    { 'Item': 'Long term capital losses', 'Amount (₹)': -summary.ltcgLosses },
+    { 'Item': 'Net long term capital gain', 'Amount (₹)': summary.netLtcg },
+    { 'Item': 'LTCG exemption', 'Amount (₹)': -summary.ltcgExemption },
+    { 'Item': 'Taxable long term capital gain', 'Amount (₹)': summary.taxableLtcg },
+    { 'Item': 'Speculative (intraday) income', 'Amount (₹)': summary.speculativePL },
+    { 'Item': 'Estimated STCG tax', 'Amount (₹)': summary.estimatedStcgTax },
+    { 'Item': 'Estimated LTCG tax', 'Amount (₹)': summary.estimatedLtcgTax }
+  ];
+}
@@ -0,0 +1,107 @@
+import { Trade, TradeLeg } from '../types/trade';
+import { calcLegCharges, calcTradeCharges, DEFAULT_CHARGES_SETTINGS, getIntradayQuantities } from './chargesCalculator';
+
+const leg = (id: string, side: TradeLeg['side'], date: string, qty: number, price: number): TradeLeg => ({ id, side, date, qty, price });
+
+// Components of a ₹1,00,000 order on NSE under the Zerodha plan
+const EXCHANGE = 2.97;
+const SEBI = 0.1;
+const IPFT = 0.1;
+
+describe('chargesCalculator', () => {
+  describe('getIntradayQuantities', () => {
+    it('nets the buys and sells of each day', () => {
+      const intraday = getIntradayQuantities([
+        leg('E1', 'entry', '2024-06-03', 100, 1000),
+        leg('E2', 'entry', '2024-06-04', 50, 1000),
+        // Squares off yesterday's lot and today's buy: 50 of it nets against today
+        leg('X1', 'exit', '2024-06-04', 120, 1010),
+        leg('X2', 'exit', '2024-06-07T15:10:00', 30, 1020)
+      ]);
+      expect(Array.from(intraday.entries())).toEqual([['E2', 50], ['X1', 50]]);
+    });
+
+    it('treats a round trip within one day as fully intraday', () => {
+      const intraday = getIntradayQuantities([
+        leg('E1', 'entry', '2024-06-05', 10, 500),
+        leg('E2', 'entry', '2024-06-05', 15, 505),
+        leg('X1', 'exit', '2024-06-05T14:00:00', 25, 510)
+      ]);
+      expect(Array.from(intraday.entries())).toEqual([['E1', 10], ['E2', 15], ['X1', 25]]);
+    });
+  });
+
+  describe('calcLegCharges', () => {
+    const buy = leg('B', 'entry', '2024-06-03', 100, 1000);
+    const sell = leg('S', 'exit', '2024-06-03', 100, 1000);
+
+    it('charges delivery STT on both sides and stamp duty on the buy', () => {
+      expect(calcLegCharges(buy, true, 0)).toEqual({
+        brokerage: 0, stt: 100, exchangeCharges: EXCHANGE, sebiCharges: SEBI, stampDuty: 15, gst: 0.55, ipft: IPFT, otherCharges: 0, total: 118.72
+      });
+      // DP charge of ₹13.50 plus GST on the delivery sell
+      expect(calcLegCharges(sell, false, 0)).toEqual({
+        brokerage: 0, stt: 100, exchangeCharges: EXCHANGE, sebiCharges: SEBI, stampDuty: 0, gst: 0.55, ipft: IPFT, otherCharges: 15.93, total: 119.65
+      });
+    });
+
+    it('charges intraday STT on the sell only and the lower stamp duty', () => {
+      // Brokerage is 0.03% capped at ₹20
+      expect(calcLegCharges(buy, true, 100)).toEqual({
+        brokerage: 20, stt: 0, exchangeCharges: EXCHANGE, sebiCharges: SEBI, stampDuty: 3, gst: 4.15, ipft: IPFT, otherCharges: 0, total: 30.32
+      });
+      expect(calcLegCharges(sell, false, 100)).toMatchObject({ brokerage: 20, stt: 25, stampDuty: 0, otherCharges: 0, total: 52.32 });
+    });
+
+    it('charges brokerage once on a leg that is partly intraday', () => {
+      const flat = { ...DEFAULT_CHARGES_SETTINGS, planId: 'flat20' };
+      const mixed = leg('M', 'exit', '2024-06-03', 15, 1000);
+      // 10 squared off the same day at 0.025% STT, 5 from delivery at 0.1%
+      expect(calcLegCharges(mixed, false, 10, flat)).toMatchObject({ brokerage: 20, stt: 7.5, stampDuty: 0 });
+      expect(calcLegCharges(mixed, false, 0, flat).brokerage).toBe(20);
+      // A percentage fee is worked out on the whole turnover and capped once
+      expect(calcLegCharges(mixed, false, 10).brokerage).toBe(4.5);
+    });
+
+    it('uses the fixed segment when auto classification is off', () => {
+      const settings = { ...DEFAULT_CHARGES_SETTINGS, segment: 'intraday' as const };
+      expect(calcLegCharges(sell, false, 0, settings).stt).toBe(25);
+      expect(calcLegCharges(sell, false, 0, { ...settings, enabled: false }).total).toBe(0);
+    });
+  });
+
+  describe('calcTradeCharges', () => {
+    // Half of the exit squares off the buy of the same day, the other half the earlier lot
+    const trade = {
+      id: 'T1',
+      name: 'TCS',
+      buySell: 'Buy',
+      legs: [
+        leg('E1', 'entry', '2024-06-03', 50, 2000),
+        leg('E2', 'entry', '2024-06-04', 50, 2000),
+        leg('X1', 'exit', '2024-06-04', 100, 2000)
+      ]
+    } as Trade;
+
+    it('charges a partially intraday trade per part and nets the total off the P/L', () => {
+      const result = calcTradeCharges(trade, 5000);
+      const byLeg = Object.fromEntries(result.legs.map(l => [l.id, l.charges!]));
+
+      expect(byLeg.E1.total).toBe(118.72);
+      expect(byLeg.E2.total).toBe(30.32);
+      // One ₹20 brokerage at the intraday rule; STT at 0.025% on 50 and 0.1% on 50, plus the DP charge
+      expect(byLeg.X1).toEqual({
+        brokerage: 20, stt: 125, exchangeCharges: 2 * EXCHANGE, sebiCharges: 2 * SEBI, stampDuty: 0, gst: 4.71, ipft: 2 * IPFT, otherCharges: 15.93, total: 171.98
+      });
+      expect(result.charges.total).toBe(321.02);
+      expect(result.netPlRs).toBe(4678.98);
+    });
+
+    it('counts entry charges in proportion to the quantity exited', () => {
+      const partial = { ...trade, legs: [trade.legs![0], leg('X1', 'exit', '2024-06-10', 25, 2000)] } as Trade;
+      const result = calcTradeCharges(partial, 1000);
+      const exitCharges = result.legs[1].charges!.total;
+      expect(result.netPlRs).toBeCloseTo(1000 - 118.72 / 2 - exitCharges, 2);
+    });
+  });
+});
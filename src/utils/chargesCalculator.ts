@@ -0,0 +1,392 @@
+import { Trade, TradeCharges, TradeLeg } from '../types/trade';
+import { getTradeLegs } from './tradeLegs';
+import { getContractMultiplier, isDerivative } from './derivatives';
+
+// Brokerage and statutory charges engine for Indian equity (cash segment) and F&O.
+//
+// Charges are computed per leg. Quantity bought and sold on the same day is charged at
+// intraday rates; the rest is delivery. F&O legs are charged on their contract turnover
+// (lots x lot size x price or premium). Statutory rates are for NSE/BSE as of FY 2024-25.
+
+export type EquitySegment = 'delivery' | 'intraday';
+
+export type FnOSegment = 'futures' | 'options';
+
+/** Brokerage for one order: a flat fee, or a percentage of turnover clamped to [min, max] */
+export interface BrokerageRule {
+  flat?: number;
+  percent?: number; // % of turnover
+  min?: number;
+  max?: number;
+}
+
+export interface BrokeragePlan {
+  id: string;
+  label: string;
+  delivery: BrokerageRule;
+  intraday: BrokerageRule;
+  /** Brokerage per F&O order; plans without one use the intraday rule */
+  fno?: BrokerageRule;
+  /** Depository charge per delivery sell order (before GST) */
+  dpCharge: number;
+}
+
+export interface ChargesSettings {
+  enabled: boolean;
+  planId: string;
+  exchange: 'NSE' | 'BSE';
+  /** 'auto' classifies each leg by netting the day's buys and sells; otherwise every leg uses the given segment */
+  segment: 'auto' | EquitySegment;
+  /** Used when planId is 'custom' */
+  customPlan: BrokeragePlan;
+}
+
+// Statutory rates (fractions of turnover)
+const STT_RATES: Record<EquitySegment, { buy: number; sell: number }> = {
+  delivery: { buy: 0.001, sell: 0.001 },
+  intraday: { buy: 0, sell: 0.00025 }
+};
+const STAMP_DUTY_RATES: Record<EquitySegment, number> = {
+  delivery: 0.00015,
+  intraday: 0.00003
+};
+const EXCHANGE_TXN_RATES: Record<ChargesSettings['exchange'], number> = {
+  NSE: 0.0000297,
+  BSE: 0.0000375
+};
+// F&O: STT on the sell side (options on premium), stamp duty on the buy side
+const FNO_STT_SELL_RATES: Record<FnOSegment, number> = {
+  futures: 0.0002,
+  options: 0.001
+};
+const FNO_STAMP_DUTY_RATES: Record<FnOSegment, number> = {
+  futures: 0.00002,
+  options: 0.00003
+};
+const FNO_EXCHANGE_TXN_RATES: Record<ChargesSettings['exchange'], Record<FnOSegment, number>> = {
+  NSE: { futures: 0.0000173, options: 0.0003503 },
+  BSE: { futures: 0, options: 0.000325 }
+};
+const SEBI_RATE = 0.000001; // ₹10 per crore
+const IPFT_RATE = 0.000001; // ₹10 per crore
+const GST_RATE = 0.18;
+
+export const BROKERAGE_PLANS: BrokeragePlan[] = [
+  {
+    id: 'zerodha',
+    label: 'Zerodha',
+    delivery: { flat: 0 },
+    intraday: { percent: 0.03, max: 20 },
+    fno: { flat: 20 },
+    dpCharge: 13.5
+  },
+  {
+    id: 'upstox',
+    label: 'Upstox',
+    delivery: { percent: 2.5, max: 20 },
+    intraday: { percent: 0.05, max: 20 },
+    fno: { flat: 20 },
+    dpCharge: 18.5
+  },
+  {
+    id: 'groww',
+    label: 'Groww',
+    delivery: { percent: 0.05, min: 5, max: 20 },
+    intraday: { percent: 0.05, min: 5, max: 20 },
+    fno: { flat: 20 },
+    dpCharge: 13.5
+  },
+  {
+    id: 'angel',
+    label: 'Angel One',
+    delivery: { percent: 0.1, min: 5, max: 20 },
+    intraday: { percent: 0.03, max: 20 },
+    fno: { flat: 20 },
+    dpCharge: 20
+  },
+  {
+    id: 'flat20',
+    label: 'Flat ₹20 per order',
+    delivery: { flat: 20 },
+    intraday: { flat: 20 },
+    fno: { flat: 20 },
+    dpCharge: 0
+  },
+  {
+    id: 'zero',
+    label: 'No brokerage',
+    delivery: { flat: 0 },
+    intraday: { flat: 0 },
+    fno: { flat: 0 },
+    dpCharge: 0
+  }
+];
+
+export const DEFAULT_CHARGES_SETTINGS: ChargesSettings = {
+  enabled: true,
+  planId: 'zerodha',
+  exchange: 'NSE',
+  segment: 'auto',
+  customPlan: {
+    id: 'custom',
+    label: 'Custom',
+    delivery: { percent: 0, max: 0 },
+    intraday: { percent: 0.03, max: 20 },
+    dpCharge: 0
+  }
+};
+
+const CHARGE_KEYS: Array<Exclude<keyof TradeCharges, 'total'>> = [
+  'brokerage', 'stt', 'exchangeCharges', 'sebiCharges', 'stampDuty', 'gst', 'ipft', 'otherCharges'
+];
+
+/** A charges breakdown with every component set to zero */
+export function emptyCharges(): TradeCharges {
+  return {
+    brokerage: 0,
+    stt: 0,
+    exchangeCharges: 0,
+    sebiCharges: 0,
+    stampDuty: 0,
+    gst: 0,
+    ipft: 0,
+    otherCharges: 0,
+    total: 0
+  };
+}
+
+/** Add up several charge breakdowns component by component */
+export function sumCharges(list: Array<TradeCharges | undefined>): TradeCharges {
+  const result = emptyCharges();
+  list.forEach(charges => {
+    if (!charges) return;
+    CHARGE_KEYS.forEach(key => { result[key] += charges[key] || 0; });
+  });
+  result.total = CHARGE_KEYS.reduce((sum, key) => sum + result[key], 0);
+  return result;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const finalizeCharges = (charges: TradeCharges): TradeCharges => {
+  const result = emptyCharges();
+  CHARGE_KEYS.forEach(key => { result[key] = round2(charges[key]); });
+  result.total = round2(CHARGE_KEYS.reduce((sum, key) => sum + result[key], 0));
+  return result;
+};
+
+/** Resolve the brokerage plan selected in the settings */
+export function getBrokeragePlan(settings: ChargesSettings): BrokeragePlan {
+  if (settings.planId === 'custom') return settings.customPlan;
+  return BROKERAGE_PLANS.find(plan => plan.id === settings.planId) || BROKERAGE_PLANS[0];
+}
+
+/** Brokerage for one order of the given turnover */
+export function calcBrokerage(rule: BrokerageRule, turnover: number): number {
+  if (turnover <= 0) return 0;
+  if (rule.flat !== undefined) return rule.flat;
+
+  let brokerage = turnover * (rule.percent || 0) / 100;
+  if (rule.max !== undefined && rule.max > 0) brokerage = Math.min(brokerage, rule.max);
+  if (rule.min !== undefined) brokerage = Math.max(brokerage, rule.min);
+  // Never charge more than the order is worth
+  return Math.min(brokerage, turnover);
+}
+
+/**
+ * Split each leg's quantity into intraday and delivery parts.
+ * Like the exchanges, buys and sells of each day are netted: the smaller of the day's entry
+ * and exit quantities is intraday, even when the exit also squares off older lots.
+ * @returns Intraday quantity per leg id
+ */
+export function getIntradayQuantities(legs: TradeLeg[]): Map<string, number> {
+  const intraday = new Map<string, number>();
+  const byDay = new Map<string, { entries: TradeLeg[]; exits: TradeLeg[] }>();
+  legs.forEach(leg => {
+    if (!leg.date || !(Number(leg.qty) > 0)) return;
+    const day = leg.date.split('T')[0];
+    const group = byDay.get(day) || { entries: [], exits: [] };
+    (leg.side === 'entry' ? group.entries : group.exits).push(leg);
+    byDay.set(day, group);
+  });
+
+  const totalQty = (dayLegs: TradeLeg[]) => dayLegs.reduce((sum, leg) => sum + Number(leg.qty), 0);
+  // Spread the day's intraday quantity over its legs in order
+  const allocate = (dayLegs: TradeLeg[], qty: number) => {
+    dayLegs.forEach(leg => {
+      const matched = Math.min(Number(leg.qty), qty);
+      if (matched > 0) intraday.set(leg.id, (intraday.get(leg.id) || 0) + matched);
+      qty -= matched;
+    });
+  };
+
+  byDay.forEach(({ entries, exits }) => {
+    const squaredOff = Math.min(totalQty(entries), totalQty(exits));
+    allocate(entries, squaredOff);
+    allocate(exits, squaredOff);
+  });
+
+  return intraday;
+}
+
+/**
+ * Charges for a single leg
+ * @param leg - The execution
+ * @param isBuy - Whether the leg is a buy (entries of longs, exits of shorts)
+ * @param intradayQty - Part of the leg's quantity squared off the same day
+ */
+export function calcLegCharges(
+  leg: TradeLeg,
+  isBuy: boolean,
+  intradayQty: number,
+  settings: ChargesSettings = DEFAULT_CHARGES_SETTINGS
+): TradeCharges {
+  const charges = emptyCharges();
+  const qty = Number(leg.qty) || 0;
+  const price = Number(leg.price) || 0;
+  charges.otherCharges = Number(leg.fees) || 0;
+
+  if (!settings.enabled || qty <= 0 || price <= 0) {
+    return finalizeCharges(charges);
+  }
+
+  const plan = getBrokeragePlan(settings);
+  const intraday = settings.segment === 'auto'
+    ? Math.min(intradayQty, qty)
+    : settings.segment === 'intraday' ? qty : 0;
+  const parts: Array<{ segment: EquitySegment; qty: number }> = [
+    { segment: 'intraday' as EquitySegment, qty: intraday },
+    { segment: 'delivery' as EquitySegment, qty: qty - intraday }
+  ].filter(part => part.qty > 0);
+
+  // One order pays brokerage once: at the intraday rule when any of it is squared off the same day
+  charges.brokerage = calcBrokerage(intraday > 0 ? plan.intraday : plan.delivery, qty * price);
+
+  parts.forEach(({ segment, qty: partQty }) => {
+    const turnover = partQty * price;
+    charges.stt += turnover * (isBuy ? STT_RATES[segment].buy : STT_RATES[segment].sell);
+    charges.stampDuty += isBuy ? turnover * STAMP_DUTY_RATES[segment] : 0;
+    if (segment === 'delivery' && !isBuy) {
+      charges.otherCharges += plan.dpCharge * (1 + GST_RATE);
+    }
+  });
+
+  const turnover = qty * price;
+  charges.exchangeCharges = turnover * EXCHANGE_TXN_RATES[settings.exchange];
+  charges.sebiCharges = turnover * SEBI_RATE;
+  charges.ipft = turnover * IPFT_RATE;
+  charges.gst = (charges.brokerage + charges.exchangeCharges + charges.sebiCharges) * GST_RATE;
+
+  return finalizeCharges(charges);
+}
+
+/**
+ * Charges for a single futures or options leg
+ * @param leg - The execution; qty is in lots
+ * @param isBuy - Whether the leg is a buy (entries of longs, exits of shorts)
+ * @param multiplier - Lot size
+ */
+export function calcFnOLegCharges(
+  leg: TradeLeg,
+  isBuy: boolean,
+  segment: FnOSegment,
+  multiplier: number,
+  settings: ChargesSettings = DEFAULT_CHARGES_SETTINGS
+): TradeCharges {
+  const charges = emptyCharges();
+  const qty = Number(leg.qty) || 0;
+  const price = Number(leg.price) || 0;
+  charges.otherCharges = Number(leg.fees) || 0;
+
+  if (!settings.enabled || qty <= 0 || price <= 0) {
+    return finalizeCharges(charges);
+  }
+
+  const plan = getBrokeragePlan(settings);
+  const turnover = qty * multiplier * price;
+  charges.brokerage = calcBrokerage(plan.fno || plan.intraday, turnover);
+  charges.stt = isBuy ? 0 : turnover * FNO_STT_SELL_RATES[segment];
+  charges.stampDuty = isBuy ? turnover * FNO_STAMP_DUTY_RATES[segment] : 0;
+  charges.exchangeCharges = turnover * FNO_EXCHANGE_TXN_RATES[settings.exchange][segment];
+  charges.sebiCharges = turnover * SEBI_RATE;
+  charges.ipft = turnover * IPFT_RATE;
+  charges.gst = (charges.brokerage + charges.exchangeCharges + charges.sebiCharges) * GST_RATE;
+
+  return finalizeCharges(charges);
+}
+
+/**
+ * Compute charges for every leg of a trade and the realized P/L net of charges.
+ * Entry charges count against realized P/L in proportion to the quantity exited so far.
+ * @returns Legs with `charges` set, the trade total and net P/L
+ */
+export function calcTradeCharges(
+  trade: Trade,
+  plRs: number,
+  settings: ChargesSettings = DEFAULT_CHARGES_SETTINGS
+): { legs: TradeLeg[]; charges: TradeCharges; netPlRs: number } {
+  const legs = getTradeLegs(trade);
+  const intraday = getIntradayQuantities(legs);
+  const isLong = trade.buySell !== 'Sell';
+  const fnoSegment: FnOSegment | null = isDerivative(trade)
+    ? (trade.instrumentType === 'OPT' ? 'options' : 'futures')
+    : null;
+  const multiplier = getContractMultiplier(trade);
+
+  const chargedLegs = legs.map(leg => {
+    const isBuy = leg.side === 'entry' ? isLong : !isLong;
+    return {
+      ...leg,
+      charges: fnoSegment
+        ? calcFnOLegCharges(leg, isBuy, fnoSegment, multiplier, settings)
+        : calcLegCharges(leg, isBuy, intraday.get(leg.id) || 0, settings)
+    };
+  });
+
+  const entryLegs = chargedLegs.filter(leg => leg.side === 'entry');
+  const exitLegs = chargedLegs.filter(leg => leg.side === 'exit');
+  const enteredQty = entryLegs.reduce((sum, leg) => sum + (Number(leg.qty) || 0), 0);
+  const exitedQty = exitLegs.reduce((sum, leg) => sum + (Number(leg.qty) || 0), 0);
+  const exitedShare = enteredQty > 0 ? Math.min(1, exitedQty / enteredQty) : 0;
+
+  const entryCharges = sumCharges(entryLegs.map(leg => leg.charges)).total;
+  const exitCharges = sumCharges(exitLegs.map(leg => leg.charges)).total;
+  const realizedCharges = exitedQty > 0 ? entryCharges * exitedShare + exitCharges : 0;
+
+  return {
+    legs: chargedLegs,
+    charges: finalizeCharges(sumCharges(chargedLegs.map(leg => leg.charges))),
+    netPlRs: round2(plRs - realizedCharges)
+  };
+}
+
+/**
+ * Total charges per month of a year, by the date each leg was executed
+ * @returns Breakdown keyed by full month name ("January", ...)
+ */
+export function getMonthlyChargesBreakup(trades: Trade[], year: number | string): Record<string, TradeCharges> {
+  const monthNames = ["January","February","March","April","May","June","July","August","September","October","November","December"];
+  const legsByMonth: Record<string, TradeCharges[]> = {};
+  const seen = new Set<string>();
+
+  trades.forEach(trade => {
+    // Cash basis views contain one row per exit of the same trade
+    const originalId = trade.id.split('_exit_')[0];
+    if (seen.has(originalId)) return;
+    seen.add(originalId);
+
+    getTradeLegs(trade).forEach(leg => {
+      if (!leg.charges || !leg.date) return;
+      const date = new Date(leg.date);
+      if (isNaN(date.getTime()) || String(date.getFullYear()) !== String(year)) return;
+      const month = monthNames[date.getMonth()];
+      (legsByMonth[month] = legsByMonth[month] || []).push(leg.charges);
+    });
+  });
+
+  const result: Record<string, TradeCharges> = {};
+  monthNames.forEach(month => {
+    result[month] = finalizeCharges(sumCharges(legsByMonth[month] || []));
+  });
+  return result;
+}
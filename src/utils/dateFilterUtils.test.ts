@@ -0,0 +1,35 @@
+import { Trade } from '../types/trade';
+import { isTradeInDimensionFilter, isTradeInGlobalFilter } from './dateFilterUtils';
+
+const trade = {
+  id: 'T1',
+  name: 'TCS',
+  date: '2024-06-14',
+  setup: 'VCP',
+  sector: 'Information Technology',
+  buySell: 'Buy',
+  positionStatus: 'Closed'
+} as Trade;
+
+describe('dateFilterUtils', () => {
+  it('passes every trade without dimension selections', () => {
+    expect(isTradeInDimensionFilter(trade, { type: 'all' })).toBe(true);
+    expect(isTradeInDimensionFilter(trade, { type: 'all', symbols: [], statuses: [] })).toBe(true);
+  });
+
+  it('matches each selected dimension', () => {
+    expect(isTradeInDimensionFilter(trade, { type: 'all', symbols: ['tcs', 'INFY'] })).toBe(true);
+    expect(isTradeInDimensionFilter(trade, { type: 'all', symbols: ['INFY'] })).toBe(false);
+    expect(isTradeInDimensionFilter(trade, { type: 'all', setups: ['VCP'], directions: ['Buy'], statuses: ['Closed'] })).toBe(true);
+    expect(isTradeInDimensionFilter(trade, { type: 'all', setups: ['VCP'], directions: ['Sell'] })).toBe(false);
+    expect(isTradeInDimensionFilter(trade, { type: 'all', sectors: ['Information Technology'] })).toBe(true);
+    expect(isTradeInDimensionFilter(trade, { type: 'all', sectors: ['Banks'] })).toBe(false);
+  });
+
+  it('combines the date range with the dimensions', () => {
+    const june2024 = { type: 'month' as const, month: 5, year: 2024 };
+    expect(isTradeInGlobalFilter(trade, { ...june2024, setups: ['VCP'] })).toBe(true);
+    expect(isTradeInGlobalFilter(trade, { ...june2024, setups: ['EP'] })).toBe(false);
+    expect(isTradeInGlobalFilter(trade, { type: 'month', month: 6, year: 2024, setups: ['VCP'] })).toBe(false);
+  });
+});
@@ -1,6 +1,7 @@
 import { GlobalFilter } from "../context/GlobalFilterContext";
 import { Trade } from "../types/trade";
 import { getTradeDateForAccounting } from "./accountingUtils";
+import { getIndustrySectorByName } from "./industrySectorMap";
 
 export function isInGlobalFilter(dateStr: string, filter: GlobalFilter): boolean {
   const d = new Date(dateStr);
@@ -43,11 +44,41 @@ export function isInGlobalFilter(dateStr: string, filter: GlobalFilter): boolean
   }
 }
 
+/**
+ * Sector and industry of a trade: the trade's own sector, else the industry mapping
+ * (only once `loadIndustrySectorMapping` has resolved)
+ */
+export function getTradeSectorInfo(trade: Pick<Trade, 'name' | 'sector'>): { sector: string; industry: string } {
+  const info = trade.name ? getIndustrySectorByName(trade.name) : undefined;
+  return {
+    sector: trade.sector || info?.sector || 'Unknown',
+    industry: info?.industry || 'Unknown'
+  };
+}
+
+const includesIgnoreCase = (list: string[] | undefined, value: string | undefined) =>
+  !list || list.length === 0 || list.some(item => item.toLowerCase() === (value || '').toLowerCase());
+
+/**
+ * Symbol, setup, sector/industry, direction and status dimensions of the global filter
+ */
+export function isTradeInDimensionFilter(trade: Trade, filter: GlobalFilter): boolean {
+  if (!includesIgnoreCase(filter.symbols, trade.name)) return false;
+  if (!includesIgnoreCase(filter.setups, trade.setup)) return false;
+  if (filter.directions?.length && !filter.directions.includes(trade.buySell)) return false;
+  if (filter.statuses?.length && !filter.statuses.includes(trade.positionStatus)) return false;
+  if (filter.sectors?.length || filter.industries?.length) {
+    const { sector, industry } = getTradeSectorInfo(trade);
+    if (!includesIgnoreCase(filter.sectors, sector) || !includesIgnoreCase(filter.industries, industry)) return false;
+  }
+  return true;
+}
+
 /**
  * Accounting-aware trade filtering function
  * Uses the appropriate date based on accounting method
  */
 export function isTradeInGlobalFilter(trade: Trade, filter: GlobalFilter, useCashBasis: boolean = false): boolean {
   const relevantDate = getTradeDateForAccounting(trade, useCashBasis);
-  return isInGlobalFilter(relevantDate, filter);
+  return isInGlobalFilter(relevantDate, filter) && isTradeInDimensionFilter(trade, filter);
 }
\ No newline at end of file
@@ -0,0 +1,177 @@
+import { Trade, TradeLeg } from '../types/trade';
+import {
+  calcPositionSize,
+  calcRealizedPL_FIFO,
+  calcTradeOpenHeat,
+  calcTradeInitialRisk,
+  calcRMultiple,
+  calcUnrealizedPL
+} from './tradeCalculations';
+import { getExitPLsWithFallback } from './accountingUtils';
+import { calculateCapitalGains } from './capitalGains';
+import { calcFnOLegCharges, calcTradeCharges } from './chargesCalculator';
+import { formatContractLabel, getContractMultiplier, getStrategyId, isDerivative } from './derivatives';
+import { calculateFnOTurnover } from './fnoTurnover';
+
+// Long 2 lots of NIFTY 23500 CE (lot size 75) @ 100, SL 80.
+// Exit 1 lot @ 130 and 1 lot @ 90: 75 × 30 − 75 × 10 = 1500.
+const OPTION_LEGS: TradeLeg[] = [
+  { id: 'opt-1-entry-0', side: 'entry', date: '2024-06-18', price: 100, qty: 2 },
+  { id: 'opt-1-exit-0', side: 'exit', date: '2024-06-20', price: 130, qty: 1 },
+  { id: 'opt-1-exit-1', side: 'exit', date: '2024-06-27', price: 90, qty: 1 }
+];
+
+const makeTrade = (overrides: Partial<Trade>): Trade => ({
+  id: 'opt-1',
+  tradeNo: '1',
+  date: '2024-06-18',
+  name: 'NIFTY',
+  entry: 100,
+  avgEntry: 100,
+  sl: 80,
+  tsl: 0,
+  buySell: 'Buy',
+  cmp: 0,
+  setup: '',
+  baseDuration: '',
+  initialQty: 2,
+  positionSize: 15000,
+  allocation: 0,
+  slPercent: 20,
+  openQty: 0,
+  exitedQty: 2,
+  avgExitPrice: 110,
+  stockMove: 0,
+  openHeat: 0,
+  rewardRisk: 0,
+  holdingDays: 0,
+  positionStatus: 'Closed',
+  realisedAmount: 16500,
+  plRs: 1500,
+  pfImpact: 0,
+  cummPf: 0,
+  planFollowed: true,
+  exitTrigger: '',
+  proficiencyGrowthAreas: '',
+  legs: OPTION_LEGS,
+  instrumentType: 'OPT',
+  lotSize: 75,
+  expiry: '2024-06-27',
+  strike: 23500,
+  optionType: 'CE',
+  ...overrides
+});
+
+const option = makeTrade({});
+
+// Short 1 lot of RELIANCE futures (lot size 250) @ 2900, covered @ 2850 in the next financial year
+const future = makeTrade({
+  id: 'fut-1',
+  name: 'RELIANCE',
+  date: '2025-03-27',
+  entry: 2900,
+  avgEntry: 2900,
+  sl: 2950,
+  buySell: 'Sell',
+  initialQty: 1,
+  exitedQty: 1,
+  avgExitPrice: 2850,
+  plRs: 12500,
+  instrumentType: 'FUT',
+  lotSize: 250,
+  expiry: '2025-04-24',
+  strike: undefined,
+  optionType: undefined,
+  legs: [
+    { id: 'fut-1-entry-0', side: 'entry', date: '2025-03-27', price: 2900, qty: 1 },
+    { id: 'fut-1-exit-0', side: 'exit', date: '2025-04-03', price: 2850, qty: 1 }
+  ]
+});
+
+describe('derivatives', () => {
+  describe('contract details', () => {
+    it('uses the lot size as multiplier for F&O only', () => {
+      expect(isDerivative(option)).toBe(true);
+      expect(getContractMultiplier(option)).toBe(75);
+      expect(getContractMultiplier(future)).toBe(250);
+      expect(getContractMultiplier({ instrumentType: 'EQ', lotSize: 75 })).toBe(1);
+      expect(getContractMultiplier({ instrumentType: 'FUT' })).toBe(1);
+    });
+
+    it('describes the contract', () => {
+      expect(formatContractLabel(option)).toBe('NIFTY 27 Jun 24 23500 CE');
+      expect(formatContractLabel(future)).toBe('RELIANCE 24 Apr 25 FUT');
+      expect(formatContractLabel({ ...option, instrumentType: undefined })).toBe('NIFTY');
+    });
+
+    it('groups strategy legs by account, underlying, expiry and name', () => {
+      const straddle = { ...option, strategyName: 'Straddle' };
+      const putLeg: Trade = { ...straddle, id: 'opt-2', optionType: 'PE' };
+      expect(getStrategyId(straddle)).toBe(getStrategyId(putLeg));
+      expect(getStrategyId(straddle)).not.toBe(getStrategyId({ ...straddle, expiry: '2024-07-04' }));
+      expect(getStrategyId(option)).toBeUndefined();
+    });
+  });
+
+  describe('amounts scale with the lot size', () => {
+    it('sizes the position and realizes P/L per unit', () => {
+      expect(calcPositionSize(100, 2, 75)).toBe(15000);
+      expect(calcRealizedPL_FIFO(OPTION_LEGS, 'Buy', 75)).toBe(1500);
+      expect(calcRealizedPL_FIFO(future.legs, 'Sell', 250)).toBe(12500);
+    });
+
+    it('splits the P/L across exits', () => {
+      expect(getExitPLsWithFallback(option).map(exit => exit.pl)).toEqual([2250, -750]);
+    });
+
+    it('measures risk, open heat and unrealized P/L in rupees', () => {
+      expect(calcTradeInitialRisk(option)).toBe(3000);
+      expect(calcRMultiple(option)).toBeCloseTo(0.5, 6);
+
+      const open = { ...future, positionStatus: 'Open' as const, openQty: 1, exitedQty: 0, plRs: 0, cmp: 2880 };
+      expect(calcTradeOpenHeat(open, 1000000, undefined)).toBeCloseTo(1.25, 6);
+      expect(calcUnrealizedPL(2900, 2880, 1, 'Sell', 250)).toBe(5000);
+    });
+  });
+
+  describe('charges', () => {
+    it('charges options STT on the sold premium', () => {
+      const charges = calcFnOLegCharges(OPTION_LEGS[1], false, 'options', 75);
+      expect(charges.stt).toBeCloseTo(9.75, 2);
+      expect(charges.stampDuty).toBe(0);
+      expect(charges.brokerage).toBe(20);
+    });
+
+    it('routes F&O trades to the F&O rates', () => {
+      const { charges } = calcTradeCharges(future, 12500);
+      // Sell entry: STT 0.02% of 7,25,000
+      expect(charges.stt).toBeCloseTo(145, 2);
+      expect(charges.otherCharges).toBe(0);
+    });
+  });
+
+  describe('tax reporting', () => {
+    it('keeps F&O out of the capital gains schedule', () => {
+      expect(calculateCapitalGains([option, future])).toEqual([]);
+    });
+
+    it('reports turnover as the absolute P/L of each exit per financial year', () => {
+      const [fy2526, fy2425] = calculateFnOTurnover([option, future]);
+      expect(fy2425.financialYear).toBe('FY 2024-25');
+      expect(fy2425.optionsTurnover).toBe(3000);
+      expect(fy2425.optionsPL).toBe(1500);
+      expect(fy2425.futuresTurnover).toBe(0);
+      expect(fy2526.financialYear).toBe('FY 2025-26');
+      expect(fy2526.futuresTurnover).toBe(12500);
+      expect(fy2526.netPL).toBe(12500);
+    });
+
+    it('reports strategy legs together', () => {
+      const call = { ...option, strategyName: 'Straddle', strategyId: 'S1' };
+      const put = { ...option, id: 'opt-2', optionType: 'PE' as const, strategyName: 'Straddle', strategyId: 'S1' };
+      const [summary] = calculateFnOTurnover([call, put]);
+      expect(summary.positions).toHaveLength(1);
+      expect(summary.positions[0].pl).toBe(3000);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { Trade } from '../types/trade';
+import { getAccountId } from './accounts';
+
+// Futures & options helpers
+//
+// A derivative trade records its legs in lots: `qty` is the number of lots and `price` is the
+// futures price or option premium per unit. Every rupee amount (position size, P/L, risk) is
+// the per-unit amount times the contract multiplier, i.e. the lot size.
+// Multi-leg strategies (spreads, straddles, ...) are separate trades sharing a `strategyId`.
+
+export type InstrumentType = NonNullable<Trade['instrumentType']>;
+export type OptionType = NonNullable<Trade['optionType']>;
+
+export const INSTRUMENT_TYPE_LABELS: Record<InstrumentType, string> = {
+  EQ: 'Equity',
+  FUT: 'Futures',
+  OPT: 'Options'
+};
+
+export const OPTION_TYPE_LABELS: Record<OptionType, string> = {
+  CE: 'Call (CE)',
+  PE: 'Put (PE)'
+};
+
+type ContractFields = Pick<Trade, 'instrumentType' | 'lotSize'>;
+
+/** Whether a trade is a futures or options contract */
+export function isDerivative(trade: Partial<ContractFields> | null | undefined): boolean {
+  return trade?.instrumentType === 'FUT' || trade?.instrumentType === 'OPT';
+}
+
+/** Units per quantity of a trade: the lot size for F&O, 1 for equity */
+export function getContractMultiplier(trade: Partial<ContractFields> | null | undefined): number {
+  if (!isDerivative(trade)) return 1;
+  const lotSize = Number(trade.lotSize);
+  return lotSize > 0 ? lotSize : 1;
+}
+
+/** Expiry as shown in contract names, e.g. "27 Jun 24" */
+export function formatExpiry(expiry?: string): string {
+  if (!expiry) return '';
+  const date = new Date(expiry);
+  if (isNaN(date.getTime())) return expiry;
+  return date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: '2-digit' });
+}
+
+/**
+ * Contract description of a trade, e.g. "NIFTY 27 Jun 24 23500 CE" or "RELIANCE 27 Jun 24 FUT".
+ * Equity trades are described by their symbol alone.
+ */
+export function formatContractLabel(trade: Pick<Trade, 'name' | 'instrumentType' | 'expiry' | 'strike' | 'optionType'>): string {
+  if (!isDerivative(trade)) return trade.name;
+  const parts = [trade.name, formatExpiry(trade.expiry)];
+  if (trade.instrumentType === 'OPT') {
+    if (trade.strike) parts.push(String(trade.strike));
+    parts.push(trade.optionType || '');
+  } else {
+    parts.push('FUT');
+  }
+  return parts.filter(Boolean).join(' ');
+}
+
+/**
+ * Strategy id of a trade: legs with the same strategy name on the same underlying and expiry
+ * form one strategy. Undefined when the trade is not part of a strategy.
+ */
+export function getStrategyId(trade: Pick<Trade, 'name' | 'expiry' | 'strategyName' | 'accountId'>): string | undefined {
+  const strategyName = (trade.strategyName || '').trim();
+  if (!strategyName) return undefined;
+  return [getAccountId(trade), trade.name, trade.expiry || '', strategyName]
+    .map(part => (part || '').toUpperCase())
+    .join('|');
+}
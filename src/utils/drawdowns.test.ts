@@ -0,0 +1,61 @@
+import { analyseDrawdowns, buildEquityIndex } from './drawdowns';
+
+const day = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const values = new Map([
+  [day('2024-06-03'), 100000],
+  [day('2024-06-05'), 110000],
+  [day('2024-06-10'), 99000],
+  [day('2024-06-12'), 149000], // ₹50k deposit, no gain
+  [day('2024-06-20'), 170000]
+]);
+const flows = new Map([[day('2024-06-03'), 100000], [day('2024-06-12'), 50000]]);
+const plEvents = [
+  { tradeId: 'A', name: 'TCS', date: day('2024-06-05'), pl: 10000 },
+  { tradeId: 'A', name: 'TCS', date: day('2024-06-10'), pl: -8000 },
+  { tradeId: 'B', name: 'INFY', date: day('2024-06-10'), pl: -3000 },
+  { tradeId: 'C', name: 'HDFC', date: day('2024-06-10'), pl: 1000 }
+];
+
+describe('drawdowns', () => {
+  it('takes deposits out of the equity index', () => {
+    const index = buildEquityIndex(values, flows);
+    expect(index[3].index).toBeCloseTo(0.99);
+  });
+
+  it('invests a deposit at the start of its day, like the returns timeline', () => {
+    const gainDay = new Map([[day('2024-06-03'), 1000], [day('2024-06-04'), 1650]]);
+    const index = buildEquityIndex(gainDay, new Map([[day('2024-06-04'), 500]]));
+    // 10% on the ₹1,500 invested, not 15% on the previous ₹1,000
+    expect(index[1].index).toBeCloseTo(1.1);
+  });
+
+  it('lists episodes with their timing and losing trades', () => {
+    const analysis = analyseDrawdowns(values, flows, plEvents);
+    expect(analysis.episodes).toHaveLength(1);
+    const [episode] = analysis.episodes;
+    expect(episode.peakDate).toBe(day('2024-06-05'));
+    expect(episode.troughDate).toBe(day('2024-06-10'));
+    // The deposit on the 12th does not count as a recovery
+    expect(episode.recoveryDate).toBe(day('2024-06-20'));
+    expect(episode.depth).toBeCloseTo(10);
+    expect(episode.daysToTrough).toBe(5);
+    expect(episode.daysToRecover).toBe(10);
+    expect(episode.duration).toBe(15);
+    expect(episode.plToTrough).toBe(-10000);
+    expect(episode.contributors.map(c => [c.name, c.pl])).toEqual([['TCS', -8000], ['INFY', -3000]]);
+    expect(analysis.currentDrawdown).toBe(0);
+    expect(analysis.timeUnderWater).toBeCloseTo(15 / 17 * 100);
+    expect(analysis.underwater.map(p => Math.round(p.drawdown))).toEqual([0, 0, -10, -10, 0]);
+  });
+
+  it('keeps the last drawdown open until it recovers', () => {
+    const open = new Map(values);
+    open.set(day('2024-06-20'), 140000);
+    const analysis = analyseDrawdowns(open, flows, plEvents);
+    expect(analysis.episodes[0].recoveryDate).toBeNull();
+    expect(analysis.episodes[0].daysToRecover).toBeNull();
+    expect(analysis.currentDrawdown).toBeCloseTo((1 - (0.99 * 140000 / 149000) / 1.1) * 100);
+    expect(analysis.avgRecoveryDays).toBe(0);
+  });
+});
@@ -0,0 +1,151 @@
+import { RealizedPLEvent } from './tradeCalculations';
+import { calcFlowAdjustedReturn } from './returns';
+
+// Drawdown episodes
+//
+// Drawdowns are measured on a flow-adjusted equity index rather than the raw portfolio value,
+// so a deposit does not end a drawdown and a withdrawal does not start one. An episode runs
+// from a peak of the index to the day it first gets back to that peak (its recovery); the last
+// episode may still be open.
+
+export interface DrawdownContributor {
+  tradeId: string;
+  name: string;
+  pl: number; // P/L booked inside the episode (peak to trough)
+}
+
+export interface DrawdownEpisode {
+  peakDate: number;
+  troughDate: number;
+  recoveryDate: number | null;
+  depth: number; // %, positive
+  peakValue: number; // ₹ portfolio value at the peak
+  troughValue: number; // ₹ portfolio value at the trough
+  plToTrough: number; // ₹ P/L booked from the peak to the trough
+  daysToTrough: number;
+  daysToRecover: number | null;
+  duration: number; // Calendar days from the peak to the recovery, or to the last date if open
+  contributors: DrawdownContributor[]; // Largest losers first
+}
+
+export interface UnderwaterPoint {
+  date: number;
+  drawdown: number; // %, zero or negative
+  value: number; // ₹
+}
+
+export interface DrawdownAnalysis {
+  episodes: DrawdownEpisode[]; // Deepest first
+  underwater: UnderwaterPoint[];
+  maxDepth: number;
+  avgDepth: number;
+  currentDrawdown: number;
+  longestDuration: number;
+  avgRecoveryDays: number;
+  timeUnderWater: number; // % of calendar days below a previous peak
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-9;
+
+const daysBetween = (from: number, to: number) => Math.round((to - from) / DAY_MS);
+
+/**
+ * Equity index of the portfolio with deposits and withdrawals taken out of each day's change
+ * @param values Output of `calculateDailyPortfolioValues`
+ * @param flows Output of `getCapitalFlowsByDate`
+ */
+export function buildEquityIndex(values: Map<number, number>, flows: Map<number, number>): Array<{ date: number; index: number; value: number }> {
+  const dates = Array.from(values.keys()).sort((a, b) => a - b);
+  let index = 1;
+  return dates.map((date, i) => {
+    const value = values.get(date) || 0;
+    if (i > 0) {
+      // Flows on the first day are the starting capital
+      index *= 1 + calcFlowAdjustedReturn(values.get(dates[i - 1]) || 0, value, flows.get(date) || 0);
+    }
+    return { date, index, value };
+  });
+}
+
+/**
+ * Every drawdown episode with its depth, timing and the trades that lost the most in it
+ * @param maxContributors Trades listed per episode
+ */
+export function analyseDrawdowns(
+  values: Map<number, number>,
+  flows: Map<number, number>,
+  plEvents: RealizedPLEvent[],
+  maxContributors: number = 5
+): DrawdownAnalysis {
+  const series = buildEquityIndex(values, flows);
+  const episodes: DrawdownEpisode[] = [];
+  const underwater: UnderwaterPoint[] = [];
+  if (series.length === 0) {
+    return { episodes, underwater, maxDepth: 0, avgDepth: 0, currentDrawdown: 0, longestDuration: 0, avgRecoveryDays: 0, timeUnderWater: 0 };
+  }
+
+  const lastDate = series[series.length - 1].date;
+  let peak = series[0];
+  let trough = series[0];
+  let underwaterDays = 0;
+
+  const closeEpisode = (recoveryDate: number | null) => {
+    const inEpisode = plEvents.filter(event => event.date > peak.date && event.date <= trough.date);
+    const byTrade = new Map<string, DrawdownContributor>();
+    inEpisode.forEach(event => {
+      const contributor = byTrade.get(event.tradeId) || { tradeId: event.tradeId, name: event.name, pl: 0 };
+      contributor.pl += event.pl;
+      byTrade.set(event.tradeId, contributor);
+    });
+    const end = recoveryDate ?? lastDate;
+    underwaterDays += daysBetween(peak.date, end);
+    episodes.push({
+      peakDate: peak.date,
+      troughDate: trough.date,
+      recoveryDate,
+      depth: (1 - trough.index / peak.index) * 100,
+      peakValue: peak.value,
+      troughValue: trough.value,
+      plToTrough: inEpisode.reduce((sum, event) => sum + event.pl, 0),
+      daysToTrough: daysBetween(peak.date, trough.date),
+      daysToRecover: recoveryDate !== null ? daysBetween(trough.date, recoveryDate) : null,
+      duration: daysBetween(peak.date, end),
+      contributors: Array.from(byTrade.values())
+        .filter(contributor => contributor.pl < 0)
+        .sort((a, b) => a.pl - b.pl)
+        .slice(0, maxContributors)
+    });
+  };
+
+  series.forEach(point => {
+    if (point.index >= peak.index - EPSILON) {
+      if (trough.index < peak.index - EPSILON) closeEpisode(point.date);
+      peak = point;
+      trough = point;
+    } else if (point.index < trough.index) {
+      trough = point;
+    }
+    underwater.push({
+      date: point.date,
+      drawdown: peak.index > 0 ? (point.index / peak.index - 1) * 100 : 0,
+      value: point.value
+    });
+  });
+  const currentDrawdown = trough.index < peak.index - EPSILON ? (1 - series[series.length - 1].index / peak.index) * 100 : 0;
+  if (trough.index < peak.index - EPSILON) closeEpisode(null);
+
+  const recovered = episodes.filter(episode => episode.daysToRecover !== null);
+  const totalDays = daysBetween(series[0].date, lastDate);
+
+  return {
+    episodes: episodes.sort((a, b) => b.depth - a.depth),
+    underwater,
+    maxDepth: episodes.reduce((max, episode) => Math.max(max, episode.depth), 0),
+    avgDepth: episodes.length > 0 ? episodes.reduce((sum, episode) => sum + episode.depth, 0) / episodes.length : 0,
+    currentDrawdown,
+    longestDuration: episodes.reduce((max, episode) => Math.max(max, episode.duration), 0),
+    avgRecoveryDays: recovered.length > 0 ? recovered.reduce((sum, episode) => sum + (episode.daysToRecover || 0), 0) / recovered.length : 0,
+    timeUnderWater: totalDays > 0 ? (underwaterDays / totalDays) * 100 : 0
+  };
+}
@@ -0,0 +1,111 @@
+import { Trade } from '../types/trade';
+import { getExitPLsWithFallback } from './accountingUtils';
+import { getFinancialYear } from './capitalGains';
+import { formatContractLabel, formatExpiry, isDerivative } from './derivatives';
+
+// F&O turnover and P/L for the income tax return.
+//
+// Futures and options are non-speculative business income. Following the ICAI Guidance Note
+// on Tax Audit, turnover is the sum of the absolute profit or loss of every settled
+// position (each exit), not the contract value. Charges, including STT, are deductible.
+
+/** Realized P/L of one contract, or of all legs of a multi-leg strategy */
+export interface FnOPositionPL {
+  key: string;
+  label: string;
+  instrumentType: 'FUT' | 'OPT' | 'Strategy';
+  turnover: number;
+  pl: number;
+}
+
+export interface FnOTurnoverSummary {
+  financialYear: string;
+  futuresTurnover: number;
+  optionsTurnover: number;
+  totalTurnover: number;
+  futuresPL: number;
+  optionsPL: number;
+  /** Realized charges of the exits in the year */
+  charges: number;
+  netPL: number;
+  exits: number;
+  positions: FnOPositionPL[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Per financial year F&O turnover, by the date of each exit
+ * @returns Summaries sorted from the latest financial year
+ */
+export function calculateFnOTurnover(trades: Trade[]): FnOTurnoverSummary[] {
+  const byYear = new Map<string, FnOTurnoverSummary>();
+  // Cash basis views contain one row per exit of the same trade
+  const seen = new Set<string>();
+
+  trades.forEach(trade => {
+    const originalId = trade.id.split('_exit_')[0];
+    if (seen.has(originalId) || !isDerivative(trade)) return;
+    seen.add(originalId);
+
+    const exits = getExitPLsWithFallback(trade);
+    const exitedQty = exits.reduce((sum, exit) => sum + exit.qty, 0);
+    const realizedCharges = trade.netPlRs !== undefined ? (Number(trade.plRs) || 0) - trade.netPlRs : 0;
+    const isOption = trade.instrumentType === 'OPT';
+
+    exits.forEach(exit => {
+      const financialYear = getFinancialYear(exit.date);
+      const summary = byYear.get(financialYear) || {
+        financialYear,
+        futuresTurnover: 0,
+        optionsTurnover: 0,
+        totalTurnover: 0,
+        futuresPL: 0,
+        optionsPL: 0,
+        charges: 0,
+        netPL: 0,
+        exits: 0,
+        positions: []
+      };
+      if (isOption) {
+        summary.optionsTurnover += Math.abs(exit.pl);
+        summary.optionsPL += exit.pl;
+      } else {
+        summary.futuresTurnover += Math.abs(exit.pl);
+        summary.futuresPL += exit.pl;
+      }
+      // Charges follow the exited quantity
+      summary.charges += exitedQty > 0 ? realizedCharges * exit.qty / exitedQty : 0;
+      summary.exits += 1;
+
+      // Legs of a strategy are reported together
+      const key = trade.strategyId || originalId;
+      let position = summary.positions.find(item => item.key === key);
+      if (!position) {
+        position = trade.strategyId
+          ? { key, label: `${trade.strategyName} · ${trade.name} ${formatExpiry(trade.expiry)}`.trim(), instrumentType: 'Strategy', turnover: 0, pl: 0 }
+          : { key, label: formatContractLabel(trade), instrumentType: isOption ? 'OPT' : 'FUT', turnover: 0, pl: 0 };
+        summary.positions.push(position);
+      }
+      position.turnover += Math.abs(exit.pl);
+      position.pl += exit.pl;
+      byYear.set(financialYear, summary);
+    });
+  });
+
+  return Array.from(byYear.values())
+    .map(summary => ({
+      ...summary,
+      futuresTurnover: round2(summary.futuresTurnover),
+      optionsTurnover: round2(summary.optionsTurnover),
+      totalTurnover: round2(summary.futuresTurnover + summary.optionsTurnover),
+      futuresPL: round2(summary.futuresPL),
+      optionsPL: round2(summary.optionsPL),
+      charges: round2(summary.charges),
+      netPL: round2(summary.futuresPL + summary.optionsPL - summary.charges),
+      positions: summary.positions
+        .map(position => ({ ...position, turnover: round2(position.turnover), pl: round2(position.pl) }))
+        .sort((a, b) => b.turnover - a.turnover)
+    }))
+    .sort((a, b) => b.financialYear.localeCompare(a.financialYear));
+}
@@ -0,0 +1,50 @@
+import { Trade } from '../types/trade';
+import { QueryCondition, countQueryConditions, createQueryGroup, matchesQuery } from './journalQuery';
+
+const condition = (field: string, operator: QueryCondition['operator'], value = ''): QueryCondition =>
+  ({ id: `${field}-${operator}`, field, operator, value });
+
+const trade = {
+  id: 'T1',
+  name: 'TCS',
+  date: '2024-06-14',
+  setup: 'VCP',
+  rewardRisk: 2.5,
+  holdingDays: 12,
+  planFollowed: false,
+  tags: ['fomo'],
+  notes: ''
+} as Trade;
+
+describe('journalQuery', () => {
+  it('combines conditions with AND and OR', () => {
+    const setupVcp = condition('setup', 'eq', 'vcp');
+    const rrAbove2 = condition('rewardRisk', 'gt', '2');
+    const shortHold = condition('holdingDays', 'lt', '10');
+    expect(matchesQuery(trade, createQueryGroup('and', [setupVcp, rrAbove2]))).toBe(true);
+    expect(matchesQuery(trade, createQueryGroup('and', [setupVcp, rrAbove2, shortHold]))).toBe(false);
+    expect(matchesQuery(trade, createQueryGroup('or', [shortHold, rrAbove2]))).toBe(true);
+    // setup = VCP AND (holdingDays < 10 OR R:R >= 3)
+    expect(matchesQuery(trade, createQueryGroup('and', [
+      setupVcp,
+      createQueryGroup('or', [shortHold, condition('rewardRisk', 'gte', '3')])
+    ]))).toBe(false);
+  });
+
+  it('compares dates, flags, tags and empty fields', () => {
+    expect(matchesQuery(trade, createQueryGroup('and', [condition('date', 'gte', '2024-06-14'), condition('date', 'lt', '2024-07-01')]))).toBe(true);
+    expect(matchesQuery(trade, createQueryGroup('and', [condition('planFollowed', 'eq', 'false')]))).toBe(true);
+    expect(matchesQuery(trade, createQueryGroup('and', [condition('tags', 'contains', 'fomo')]))).toBe(true);
+    expect(matchesQuery(trade, createQueryGroup('and', [condition('tags', 'notContains', 'fomo')]))).toBe(false);
+    expect(matchesQuery(trade, createQueryGroup('and', [condition('notes', 'empty')]))).toBe(true);
+    expect(matchesQuery(trade, createQueryGroup('and', [condition('name', 'contains', 'tc')]))).toBe(true);
+  });
+
+  it('ignores conditions without a value and empty groups', () => {
+    const incomplete = createQueryGroup('or', [condition('setup', 'eq'), createQueryGroup('and')]);
+    expect(countQueryConditions(incomplete)).toBe(0);
+    expect(matchesQuery(trade, incomplete)).toBe(true);
+    expect(matchesQuery(trade, createQueryGroup('or', [condition('setup', 'eq'), condition('holdingDays', 'lt', '10')]))).toBe(false);
+    expect(matchesQuery(trade, null)).toBe(true);
+  });
+});
@@ -0,0 +1,209 @@
+import { Trade } from '../types/trade';
+import { toDateKey } from './marketCalendar';
+
+// Advanced journal filter: conditions on trade fields combined with AND / OR, with
+// nested groups (e.g. setup = VCP AND (R:R > 2 OR holdingDays < 10)), and named views
+// that save a query together with their own column set and sort.
+
+export type QueryFieldType = 'number' | 'string' | 'date' | 'boolean' | 'tags';
+
+export type QueryOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'notContains' | 'empty' | 'notEmpty';
+
+export type QueryCombinator = 'and' | 'or';
+
+export interface QueryCondition {
+  id: string;
+  field: string;
+  operator: QueryOperator;
+  value: string;
+}
+
+export interface QueryGroup {
+  id: string;
+  combinator: QueryCombinator;
+  rules: Array<QueryCondition | QueryGroup>;
+}
+
+export interface QueryField {
+  key: keyof Trade;
+  label: string;
+  type: QueryFieldType;
+  options?: string[]; // Suggested values of string fields
+}
+
+export interface JournalView {
+  id: string;
+  name: string;
+  query: QueryGroup;
+  visibleColumns: string[];
+  sortDescriptor: { column: string; direction: 'ascending' | 'descending' };
+  pinned: boolean;
+}
+
+/** Misc data key of the saved views */
+export const JOURNAL_VIEWS_STORAGE_KEY = 'journalViews';
+
+export const QUERY_FIELDS: QueryField[] = [
+  { key: 'name', label: 'Symbol', type: 'string' },
+  { key: 'date', label: 'Entry Date', type: 'date' },
+  { key: 'setup', label: 'Setup', type: 'string' },
+  { key: 'buySell', label: 'Buy/Sell', type: 'string', options: ['Buy', 'Sell'] },
+  { key: 'positionStatus', label: 'Status', type: 'string', options: ['Open', 'Closed', 'Partial'] },
+  { key: 'instrumentType', label: 'Instrument', type: 'string', options: ['EQ', 'FUT', 'OPT'] },
+  { key: 'sector', label: 'Sector', type: 'string' },
+  { key: 'baseDuration', label: 'Base Duration', type: 'string' },
+  { key: 'exitTrigger', label: 'Exit Trigger', type: 'string' },
+  { key: 'proficiencyGrowthAreas', label: 'Growth Areas', type: 'string' },
+  { key: 'notes', label: 'Notes', type: 'string' },
+  { key: 'tags', label: 'Tags', type: 'tags' },
+  { key: 'planFollowed', label: 'Plan Followed', type: 'boolean' },
+  { key: 'entry', label: 'Entry (₹)', type: 'number' },
+  { key: 'avgEntry', label: 'Avg. Entry (₹)', type: 'number' },
+  { key: 'sl', label: 'SL (₹)', type: 'number' },
+  { key: 'slPercent', label: 'SL %', type: 'number' },
+  { key: 'tsl', label: 'TSL (₹)', type: 'number' },
+  { key: 'cmp', label: 'CMP (₹)', type: 'number' },
+  { key: 'initialQty', label: 'Initial Qty', type: 'number' },
+  { key: 'positionSize', label: 'Position Size (₹)', type: 'number' },
+  { key: 'allocation', label: 'Allocation (%)', type: 'number' },
+  { key: 'openQty', label: 'Open Qty', type: 'number' },
+  { key: 'avgExitPrice', label: 'Avg. Exit (₹)', type: 'number' },
+  { key: 'stockMove', label: 'Stock Move (%)', type: 'number' },
+  { key: 'openHeat', label: 'Open Heat (%)', type: 'number' },
+  { key: 'rewardRisk', label: 'R:R', type: 'number' },
+  { key: 'holdingDays', label: 'Holding Days', type: 'number' },
+  { key: 'realisedAmount', label: 'Realized Amount (₹)', type: 'number' },
+  { key: 'plRs', label: 'Realized P/L (₹)', type: 'number' },
+  { key: 'netPlRs', label: 'Net P/L (₹)', type: 'number' },
+  { key: 'pfImpact', label: 'PF Impact (%)', type: 'number' },
+  { key: 'cummPf', label: 'Cumm. PF (%)', type: 'number' }
+];
+
+export const QUERY_OPERATORS: Record<QueryFieldType, Array<{ id: QueryOperator; label: string }>> = {
+  number: [
+    { id: 'eq', label: '=' },
+    { id: 'neq', label: '≠' },
+    { id: 'gt', label: '>' },
+    { id: 'gte', label: '≥' },
+    { id: 'lt', label: '<' },
+    { id: 'lte', label: '≤' }
+  ],
+  string: [
+    { id: 'eq', label: 'is' },
+    { id: 'neq', label: 'is not' },
+    { id: 'contains', label: 'contains' },
+    { id: 'notContains', label: 'does not contain' },
+    { id: 'empty', label: 'is empty' },
+    { id: 'notEmpty', label: 'is not empty' }
+  ],
+  date: [
+    { id: 'eq', label: 'on' },
+    { id: 'lt', label: 'before' },
+    { id: 'gt', label: 'after' },
+    { id: 'gte', label: 'on or after' },
+    { id: 'lte', label: 'on or before' }
+  ],
+  boolean: [
+    { id: 'eq', label: 'is' }
+  ],
+  tags: [
+    { id: 'contains', label: 'has' },
+    { id: 'notContains', label: 'does not have' },
+    { id: 'empty', label: 'has no tags' },
+    { id: 'notEmpty', label: 'has any tag' }
+  ]
+};
+
+/** Operators that take no value */
+export const VALUELESS_OPERATORS: QueryOperator[] = ['empty', 'notEmpty'];
+
+const newId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const getQueryField = (key: string): QueryField | undefined => QUERY_FIELDS.find(field => field.key === key);
+
+export const createQueryCondition = (field: string = 'setup'): QueryCondition => {
+  const type = getQueryField(field)?.type || 'string';
+  return { id: newId('cond'), field, operator: QUERY_OPERATORS[type][0].id, value: type === 'boolean' ? 'true' : '' };
+};
+
+export const createQueryGroup = (combinator: QueryCombinator = 'and', rules: QueryGroup['rules'] = []): QueryGroup =>
+  ({ id: newId('group'), combinator, rules });
+
+export const createJournalView = (name: string, query: QueryGroup, visibleColumns: string[], sortDescriptor: JournalView['sortDescriptor']): JournalView =>
+  ({ id: newId('view'), name: name.trim(), query, visibleColumns, sortDescriptor, pinned: true });
+
+export const isQueryGroup = (rule: QueryCondition | QueryGroup): rule is QueryGroup => 'rules' in rule;
+
+// Conditions still being typed (no value yet) and groups without such conditions are left out
+const isActiveRule = (rule: QueryCondition | QueryGroup): boolean => isQueryGroup(rule)
+  ? rule.rules.some(isActiveRule)
+  : Boolean(getQueryField(rule.field)) && (VALUELESS_OPERATORS.includes(rule.operator) || rule.value !== '');
+
+/** Complete conditions of the query, counting those in nested groups */
+export const countQueryConditions = (group?: QueryGroup | null): number =>
+  group ? group.rules.filter(isActiveRule).reduce((count, rule) => count + (isQueryGroup(rule) ? countQueryConditions(rule) : 1), 0) : 0;
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+function matchesCondition(trade: Trade, condition: QueryCondition): boolean {
+  const field = getQueryField(condition.field);
+  if (!field) return true;
+  const raw = trade[field.key];
+  const { operator, value } = condition;
+
+  if (operator === 'empty') return isBlank(raw);
+  if (operator === 'notEmpty') return !isBlank(raw);
+
+  switch (field.type) {
+    case 'number': {
+      const actual = Number(raw) || 0;
+      const expected = Number(value);
+      if (isNaN(expected)) return true;
+      return operator === 'eq' ? actual === expected
+        : operator === 'neq' ? actual !== expected
+        : operator === 'gt' ? actual > expected
+        : operator === 'gte' ? actual >= expected
+        : operator === 'lt' ? actual < expected
+        : operator === 'lte' ? actual <= expected
+        : true;
+    }
+    case 'date': {
+      if (isBlank(raw) || isNaN(new Date(raw as string).getTime()) || isNaN(new Date(value).getTime())) return false;
+      const actual = toDateKey(raw as string);
+      const expected = toDateKey(value);
+      return operator === 'eq' ? actual === expected
+        : operator === 'lt' ? actual < expected
+        : operator === 'gt' ? actual > expected
+        : operator === 'gte' ? actual >= expected
+        : operator === 'lte' ? actual <= expected
+        : true;
+    }
+    case 'boolean':
+      return Boolean(raw) === (value === 'true');
+    case 'tags': {
+      const has = Array.isArray(raw) && (raw as string[]).includes(value);
+      return operator === 'notContains' ? !has : has;
+    }
+    default: {
+      const actual = String(raw ?? '').toLowerCase();
+      const expected = value.toLowerCase();
+      return operator === 'eq' ? actual === expected
+        : operator === 'neq' ? actual !== expected
+        : operator === 'contains' ? actual.includes(expected)
+        : operator === 'notContains' ? !actual.includes(expected)
+        : true;
+    }
+  }
+}
+
+/**
+ * Whether a trade passes the query. Groups without complete conditions match every trade.
+ */
+export function matchesQuery(trade: Trade, group?: QueryGroup | null): boolean {
+  const rules = group ? group.rules.filter(isActiveRule) : [];
+  if (rules.length === 0) return true;
+  const matches = (rule: QueryCondition | QueryGroup) =>
+    isQueryGroup(rule) ? matchesQuery(trade, rule) : matchesCondition(trade, rule);
+  return group!.combinator === 'or' ? rules.some(matches) : rules.every(matches);
+}
@@ -0,0 +1,50 @@
+import {
+  countTradingDays,
+  getHolidayName,
+  getLatestTradingDay,
+  getMarketHolidays,
+  getNonTradingReason,
+  getPreviousTradingDay,
+  isTradingDay,
+  toDateKey
+} from './marketCalendar';
+
+describe('marketCalendar', () => {
+  describe('trading days', () => {
+    it('closes on weekends and exchange holidays', () => {
+      expect(isTradingDay('2024-06-14')).toBe(true); // Friday
+      expect(getNonTradingReason('2024-06-15')).toBe('Weekend');
+      expect(getNonTradingReason('2024-06-17')).toBe('Bakri Id');
+      expect(getHolidayName('2024-06-15')).toBeNull();
+      expect(isTradingDay('2024-06-18')).toBe(true);
+    });
+
+    it('follows closures the exchange moved', () => {
+      // Bakri Id 2023 was observed on Thursday 29 Jun instead of the 28th
+      expect(isTradingDay('2023-06-28')).toBe(true);
+      expect(getHolidayName('2023-06-29')).toBe('Bakri Id');
+      expect(countTradingDays('2023-06-27', '2023-06-30')).toBe(2);
+    });
+
+    it('steps back over weekends and holidays', () => {
+      // Monday 17 Jun 2024 is Bakri Id: the previous session is Friday 14 Jun
+      expect(toDateKey(getPreviousTradingDay(new Date(2024, 5, 18)))).toBe('2024-06-14');
+      expect(toDateKey(getLatestTradingDay(new Date(2024, 5, 17)))).toBe('2024-06-14');
+      expect(toDateKey(getLatestTradingDay(new Date(2024, 5, 18)))).toBe('2024-06-18');
+    });
+
+    it('counts the sessions after the entry up to the exit', () => {
+      // 14 Jun (Fri) -> 19 Jun (Wed): 18 and 19 Jun, skipping the weekend and Bakri Id
+      expect(countTradingDays('2024-06-14', '2024-06-19')).toBe(2);
+      expect(countTradingDays('2024-06-14', '2024-06-14')).toBe(0);
+      expect(countTradingDays('2024-06-19', '2024-06-14')).toBe(0);
+    });
+  });
+
+  it('lists the holidays of a year in date order', () => {
+    const holidays = getMarketHolidays(2025);
+    expect(holidays[0]).toEqual({ date: '2025-02-26', name: 'Mahashivratri', source: 'exchange' });
+    expect(holidays.every(holiday => holiday.date.startsWith('2025-'))).toBe(true);
+    expect(holidays.map(holiday => holiday.date)).toEqual([...holidays.map(holiday => holiday.date)].sort());
+  });
+});
@@ -0,0 +1,241 @@
+// NSE/BSE equity trading calendar.
+//
+// Exchange holidays come from the yearly NSE holiday circulars (BSE closes on the same days for
+// the equity segment). Users can correct the list: add a holiday the list misses (e.g. an election
+// day declared late) or mark a date as a trading session (e.g. a special Saturday session).
+// The Diwali Muhurat session is not a regular session, so Diwali stays a holiday.
+
+export type HoldingDaysBasis = 'trading' | 'calendar';
+
+export interface MarketCalendarOverride {
+  date: string; // YYYY-MM-DD
+  type: 'holiday' | 'trading';
+  name?: string;
+}
+
+export interface MarketCalendarSettings {
+  overrides: MarketCalendarOverride[];
+  /** Whether holding days count trading sessions or calendar days */
+  holdingDaysBasis: HoldingDaysBasis;
+}
+
+export interface MarketHoliday {
+  date: string;
+  name: string;
+  source: 'exchange' | 'user';
+}
+
+export const DEFAULT_MARKET_CALENDAR_SETTINGS: MarketCalendarSettings = {
+  overrides: [],
+  holdingDaysBasis: 'trading'
+};
+
+export const EXCHANGE_HOLIDAYS: Record<string, string> = {
+  // 2023
+  '2023-01-26': 'Republic Day',
+  '2023-03-07': 'Holi',
+  '2023-03-30': 'Ram Navami',
+  '2023-04-04': 'Mahavir Jayanti',
+  '2023-04-07': 'Good Friday',
+  '2023-04-14': 'Dr. Baba Saheb Ambedkar Jayanti',
+  '2023-05-01': 'Maharashtra Day',
+  '2023-06-29': 'Bakri Id',
+  '2023-08-15': 'Independence Day',
+  '2023-09-19': 'Ganesh Chaturthi',
+  '2023-10-02': 'Mahatma Gandhi Jayanti',
+  '2023-10-24': 'Dussehra',
+  '2023-11-14': 'Diwali Balipratipada',
+  '2023-11-27': 'Gurunanak Jayanti',
+  '2023-12-25': 'Christmas',
+  // 2024
+  '2024-01-22': 'Special holiday',
+  '2024-01-26': 'Republic Day',
+  '2024-03-08': 'Mahashivratri',
+  '2024-03-25': 'Holi',
+  '2024-03-29': 'Good Friday',
+  '2024-04-11': 'Id-Ul-Fitr (Ramadan Eid)',
+  '2024-04-17': 'Shri Ram Navmi',
+  '2024-05-01': 'Maharashtra Day',
+  '2024-05-20': 'General Parliamentary Elections',
+  '2024-06-17': 'Bakri Id',
+  '2024-07-17': 'Moharram',
+  '2024-08-15': 'Independence Day',
+  '2024-10-02': 'Mahatma Gandhi Jayanti',
+  '2024-11-01': 'Diwali Laxmi Pujan',
+  '2024-11-15': 'Gurunanak Jayanti',
+  '2024-11-20': 'Maharashtra Assembly Elections',
+  '2024-12-25': 'Christmas',
+  // 2025
+  '2025-02-26': 'Mahashivratri',
+  '2025-03-14': 'Holi',
+  '2025-03-31': 'Id-Ul-Fitr (Ramadan Eid)',
+  '2025-04-10': 'Shri Mahavir Jayanti',
+  '2025-04-14': 'Dr. Baba Saheb Ambedkar Jayanti',
+  '2025-04-18': 'Good Friday',
+  '2025-05-01': 'Maharashtra Day',
+  '2025-08-15': 'Independence Day',
+  '2025-08-27': 'Ganesh Chaturthi',
+  '2025-10-02': 'Mahatma Gandhi Jayanti / Dussehra',
+  '2025-10-21': 'Diwali Laxmi Pujan',
+  '2025-10-22': 'Diwali Balipratipada',
+  '2025-11-05': 'Prakash Gurpurb Sri Guru Nanak Dev',
+  '2025-12-25': 'Christmas',
+  // 2026
+  '2026-01-26': 'Republic Day',
+  '2026-03-03': 'Holi',
+  '2026-03-26': 'Shri Ram Navami',
+  '2026-03-31': 'Shri Mahavir Jayanti',
+  '2026-04-03': 'Good Friday',
+  '2026-04-14': 'Dr. Baba Saheb Ambedkar Jayanti',
+  '2026-05-01': 'Maharashtra Day',
+  '2026-05-28': 'Bakri Id',
+  '2026-06-26': 'Muharram',
+  '2026-09-14': 'Ganesh Chaturthi',
+  '2026-10-02': 'Mahatma Gandhi Jayanti',
+  '2026-10-20': 'Dussehra',
+  '2026-11-10': 'Diwali Balipratipada',
+  '2026-11-24': 'Prakash Gurpurb Sri Guru Nanak Dev',
+  '2026-12-25': 'Christmas'
+};
+
+const STORAGE_KEY = 'marketCalendarSettings';
+
+// Parsed settings of the last stored value; trading-day checks run for every day of every trade
+let cachedRaw: string | null | undefined;
+let cachedSettings: MarketCalendarSettings = DEFAULT_MARKET_CALENDAR_SETTINGS;
+let cachedOverrides = new Map<string, MarketCalendarOverride>();
+
+/** Calendar settings saved in localStorage */
+export function loadMarketCalendarSettings(): MarketCalendarSettings {
+  let raw: string | null = null;
+  try {
+    raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+  } catch (error) {
+    console.error('Error loading market calendar settings from localStorage:', error);
+  }
+  if (raw === cachedRaw) return cachedSettings;
+
+  let settings = DEFAULT_MARKET_CALENDAR_SETTINGS;
+  try {
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      settings = {
+        ...DEFAULT_MARKET_CALENDAR_SETTINGS,
+        ...parsed,
+        overrides: Array.isArray(parsed.overrides) ? parsed.overrides : []
+      };
+    }
+  } catch (error) {
+    console.error('Error parsing market calendar settings:', error);
+  }
+  cachedRaw = raw;
+  cachedSettings = settings;
+  cachedOverrides = new Map(settings.overrides.map(override => [override.date, override]));
+  return settings;
+}
+
+export function saveMarketCalendarSettings(settings: MarketCalendarSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving market calendar settings to localStorage:', error);
+  }
+}
+
+const getOverrides = (): Map<string, MarketCalendarOverride> => {
+  loadMarketCalendarSettings();
+  return cachedOverrides;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Local calendar date of a Date or date string as YYYY-MM-DD */
+export function toDateKey(date: Date | string): string {
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/** Name of the exchange holiday on a date (after user overrides), or null */
+export function getHolidayName(date: Date | string): string | null {
+  const key = toDateKey(date);
+  const override = getOverrides().get(key);
+  if (override) return override.type === 'holiday' ? override.name || 'Holiday' : null;
+  return EXCHANGE_HOLIDAYS[key] || null;
+}
+
+/** Why the market is closed on a date ("Weekend" or the holiday name), or null on trading days */
+export function getNonTradingReason(date: Date | string): string | null {
+  const key = toDateKey(date);
+  const override = getOverrides().get(key);
+  if (override) return override.type === 'holiday' ? override.name || 'Holiday' : null;
+  const day = fromDateKey(key).getDay();
+  if (day === 0 || day === 6) return 'Weekend';
+  return EXCHANGE_HOLIDAYS[key] || null;
+}
+
+/** Whether the exchange holds a regular session on a date */
+export function isTradingDay(date: Date | string): boolean {
+  return getNonTradingReason(date) === null;
+}
+
+/** The latest trading day on or before a date */
+export function getLatestTradingDay(date: Date = new Date()): Date {
+  const result = new Date(date);
+  // A year of closures in a row is not a calendar
+  for (let i = 0; i < 366 && !isTradingDay(result); i++) {
+    result.setDate(result.getDate() - 1);
+  }
+  return result;
+}
+
+/** The last trading day before a date */
+export function getPreviousTradingDay(date: Date = new Date()): Date {
+  const previous = new Date(date);
+  previous.setDate(previous.getDate() - 1);
+  return getLatestTradingDay(previous);
+}
+
+/** Trading days after `from` up to and including `to` (0 when `to` is not after `from`) */
+export function countTradingDays(from: Date | string, to: Date | string): number {
+  const end = fromDateKey(toDateKey(to)).getTime();
+  const cursor = fromDateKey(toDateKey(from));
+  let count = 0;
+  cursor.setDate(cursor.getDate() + 1);
+  while (cursor.getTime() <= end) {
+    if (isTradingDay(cursor)) count++;
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return count;
+}
+
+/** Holidays of a year falling on weekdays, with user additions and without dates marked as trading */
+export function getMarketHolidays(year: number): MarketHoliday[] {
+  const overrides = getOverrides();
+  const holidays: MarketHoliday[] = Object.entries(EXCHANGE_HOLIDAYS)
+    .filter(([date]) => date.startsWith(`${year}-`) && overrides.get(date)?.type !== 'trading')
+    .map(([date, name]) => ({ date, name, source: 'exchange' as const }));
+
+  overrides.forEach(override => {
+    if (override.type !== 'holiday' || !override.date.startsWith(`${year}-`)) return;
+    const existing = holidays.find(holiday => holiday.date === override.date);
+    if (existing) {
+      existing.name = override.name || existing.name;
+      existing.source = 'user';
+    } else {
+      holidays.push({ date: override.date, name: override.name || 'Holiday', source: 'user' });
+    }
+  });
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Years covered by the maintained holiday list */
+export function getCalendarYears(): number[] {
+  return Array.from(new Set(Object.keys(EXCHANGE_HOLIDAYS).map(date => Number(date.slice(0, 4))))).sort();
+}
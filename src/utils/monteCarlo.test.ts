@@ -0,0 +1,49 @@
+import { createSeededRandom, getTradesPerMonth, runMonteCarlo } from './monteCarlo';
+
+// Win 2% of the portfolio or lose 1%
+const outcomes = [2, -1, 2, -1, -1, 2, -1, 2, -1, -1];
+
+describe('monteCarlo', () => {
+  it('repeats the same paths for the same seed', () => {
+    const random = createSeededRandom(7);
+    const again = createSeededRandom(7);
+    const first = [random(), random(), random()];
+    expect([again(), again(), again()]).toEqual(first);
+    first.forEach(value => expect(value >= 0 && value < 1).toBe(true));
+
+    const options = { paths: 200, tradesPerPath: 50, seed: 7 };
+    expect(runMonteCarlo(outcomes, options)).toEqual(runMonteCarlo(outcomes, options));
+    expect(runMonteCarlo(outcomes, { ...options, seed: 8 })!.meanFinalEquity)
+      .not.toBe(runMonteCarlo(outcomes, options)!.meanFinalEquity);
+  });
+
+  it('ends every reshuffled path of the history length at the same equity', () => {
+    const result = runMonteCarlo(outcomes, { method: 'reshuffle', paths: 50, tradesPerPath: outcomes.length, startingEquity: 1000 })!;
+    const expected = outcomes.reduce((equity, outcome) => equity * (1 + outcome / 100), 1000);
+    const last = result.bands[result.bands.length - 1];
+    expect(last.p5).toBeCloseTo(expected, 6);
+    expect(last.p95).toBeCloseTo(expected, 6);
+    expect(result.bands[0].p50).toBe(1000);
+    expect(result.bands).toHaveLength(outcomes.length + 1);
+  });
+
+  it('reports ruin, drawdown and milestone probabilities', () => {
+    const losing = runMonteCarlo([-10], { paths: 10, tradesPerPath: 10, ruinThreshold: 50, drawdownThreshold: 20, milestones: [10] })!;
+    // 0.9^7 < 0.5
+    expect(losing.riskOfRuin).toBe(100);
+    expect(losing.drawdownProbability).toBe(100);
+    expect(losing.probabilityOfProfit).toBe(0);
+    expect(losing.milestones[0]).toEqual({ target: 10, probability: 0, medianTrades: null });
+
+    const winning = runMonteCarlo([5], { paths: 10, tradesPerPath: 20, milestones: [10, 100] })!;
+    // 1.05^2 >= 1.10; 1.05^15 >= 2
+    expect(winning.milestones.map(m => m.medianTrades)).toEqual([2, 15]);
+    expect(winning.riskOfRuin).toBe(0);
+    expect(runMonteCarlo([])).toBeNull();
+  });
+
+  it('estimates trades per month from the trade dates', () => {
+    expect(getTradesPerMonth(['2024-01-01', '2024-02-01', '2024-03-01', '2024-04-01'])).toBeCloseTo(4 / 3, 1);
+    expect(getTradesPerMonth([])).toBe(0);
+  });
+});
@@ -0,0 +1,192 @@
+// Monte Carlo projection of future equity
+//
+// Each simulated path replays historical trade outcomes (% of portfolio, i.e. pfImpact) in a
+// random order and compounds them from today's equity:
+// - bootstrap: every trade is drawn from the history with replacement
+// - reshuffle: the history is played in a random order, reshuffled each time it runs out
+// A seeded generator makes a run reproducible: the same inputs and seed give the same paths.
+
+export type MonteCarloMethod = 'bootstrap' | 'reshuffle';
+
+export interface MonteCarloOptions {
+  method: MonteCarloMethod;
+  paths: number;
+  tradesPerPath: number;
+  seed: number;
+  startingEquity: number;
+  /** Equity loss from the start, in %, that counts as ruin */
+  ruinThreshold: number;
+  /** Drawdown from a running peak, in %, whose probability is reported */
+  drawdownThreshold: number;
+  /** Gains from the start, in %, to report the chance and time of reaching */
+  milestones: number[];
+}
+
+export interface MonteCarloBand {
+  trade: number; // Trades taken, 0 = today
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloMilestone {
+  target: number; // % gain
+  probability: number; // % of paths reaching it
+  medianTrades: number | null; // Trades needed on the paths that reach it
+}
+
+export interface MonteCarloResult {
+  bands: MonteCarloBand[];
+  riskOfRuin: number; // % of paths
+  drawdownProbability: number; // % of paths
+  medianMaxDrawdown: number; // %
+  medianFinalEquity: number;
+  meanFinalEquity: number;
+  probabilityOfProfit: number; // % of paths ending above the start
+  milestones: MonteCarloMilestone[];
+}
+
+export const DEFAULT_MONTE_CARLO_OPTIONS: MonteCarloOptions = {
+  method: 'bootstrap',
+  paths: 1000,
+  tradesPerPath: 100,
+  seed: 42,
+  startingEquity: 100000,
+  ruinThreshold: 50,
+  drawdownThreshold: 20,
+  milestones: [25, 50, 100]
+};
+
+/** Deterministic random numbers in [0, 1) (mulberry32) */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const shuffle = (values: number[], random: () => number): number[] => {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Linear interpolation between closest ranks of sorted values
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+};
+
+/**
+ * Simulate equity paths from historical trade outcomes
+ * @param outcomes Historical trade results in % of portfolio (pfImpact)
+ * @returns null without outcomes
+ */
+export function runMonteCarlo(outcomes: number[], options: Partial<MonteCarloOptions> = {}): MonteCarloResult | null {
+  const settings = { ...DEFAULT_MONTE_CARLO_OPTIONS, ...options };
+  const history = outcomes.filter(outcome => Number.isFinite(outcome));
+  if (history.length === 0 || settings.paths <= 0 || settings.tradesPerPath <= 0) return null;
+
+  const random = createSeededRandom(settings.seed);
+  const steps = settings.tradesPerPath;
+  const start = settings.startingEquity;
+  const ruinLevel = start * (1 - settings.ruinThreshold / 100);
+  // equityByStep[step][path]
+  const equityByStep: number[][] = Array.from({ length: steps + 1 }, () => new Array(settings.paths));
+  const finals: number[] = [];
+  const maxDrawdowns: number[] = [];
+  const milestoneTrades: number[][] = settings.milestones.map(() => []);
+  let ruined = 0;
+  let drawdownHits = 0;
+
+  for (let path = 0; path < settings.paths; path++) {
+    let order: number[] = [];
+    let equity = start;
+    let peak = start;
+    let maxDrawdown = 0;
+    let isRuined = false;
+    const reached = settings.milestones.map(() => false);
+    equityByStep[0][path] = equity;
+
+    for (let step = 1; step <= steps; step++) {
+      let outcome: number;
+      if (settings.method === 'reshuffle') {
+        if (order.length === 0) order = shuffle(history, random);
+        outcome = order.pop() as number;
+      } else {
+        outcome = history[Math.floor(random() * history.length)];
+      }
+
+      // A ruined account stops trading
+      if (!isRuined) equity = Math.max(0, equity * (1 + outcome / 100));
+      equityByStep[step][path] = equity;
+
+      peak = Math.max(peak, equity);
+      if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak * 100);
+      if (!isRuined && equity <= ruinLevel) isRuined = true;
+      settings.milestones.forEach((target, i) => {
+        if (!reached[i] && equity >= start * (1 + target / 100)) {
+          reached[i] = true;
+          milestoneTrades[i].push(step);
+        }
+      });
+    }
+
+    if (isRuined) ruined++;
+    if (maxDrawdown >= settings.drawdownThreshold) drawdownHits++;
+    finals.push(equity);
+    maxDrawdowns.push(maxDrawdown);
+  }
+
+  const bands = equityByStep.map((values, trade) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+      trade,
+      p5: percentile(sorted, 5),
+      p25: percentile(sorted, 25),
+      p50: percentile(sorted, 50),
+      p75: percentile(sorted, 75),
+      p95: percentile(sorted, 95)
+    };
+  });
+
+  const sortedFinals = [...finals].sort((a, b) => a - b);
+  const toPercent = (count: number) => (count / settings.paths) * 100;
+
+  return {
+    bands,
+    riskOfRuin: toPercent(ruined),
+    drawdownProbability: toPercent(drawdownHits),
+    medianMaxDrawdown: percentile([...maxDrawdowns].sort((a, b) => a - b), 50),
+    medianFinalEquity: percentile(sortedFinals, 50),
+    meanFinalEquity: finals.reduce((sum, value) => sum + value, 0) / finals.length,
+    probabilityOfProfit: toPercent(finals.filter(value => value > start).length),
+    milestones: settings.milestones.map((target, i) => ({
+      target,
+      probability: toPercent(milestoneTrades[i].length),
+      medianTrades: milestoneTrades[i].length > 0
+        ? Math.round(percentile([...milestoneTrades[i]].sort((a, b) => a - b), 50))
+        : null
+    }))
+  };
+}
+
+/** Average closed trades per month between the first and last trade, to turn trades into time */
+export function getTradesPerMonth(dates: string[]): number {
+  const times = dates.map(date => new Date(date).getTime()).filter(time => !isNaN(time));
+  if (times.length === 0) return 0;
+  const months = (Math.max(...times) - Math.min(...times)) / (30.44 * 24 * 60 * 60 * 1000);
+  return times.length / Math.max(months, 1);
+}
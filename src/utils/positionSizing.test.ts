@@ -0,0 +1,56 @@
+import { calcPositionSizing } from './positionSizing';
+
+const base = {
+  portfolioSize: 1000000,
+  riskPercent: 1,
+  entry: 500,
+  sl: 480,
+  buySell: 'Buy' as const
+};
+
+describe('positionSizing', () => {
+  it('sizes the position so the stop loses the risk budget', () => {
+    const result = calcPositionSizing(base)!;
+    expect(result.riskBudget).toBe(10000);
+    expect(result.riskPerUnit).toBe(20);
+    expect(result.quantity).toBe(500);
+    expect(result.allocation).toBe(25);
+    expect(result.tradeHeat).toBe(1);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('sizes shorts and F&O lots', () => {
+    expect(calcPositionSizing({ ...base, buySell: 'Sell', sl: 530 })!.quantity).toBe(333);
+    // 50 units per lot: ₹1,000 of risk per lot
+    expect(calcPositionSizing({ ...base, multiplier: 50 })!.quantity).toBe(10);
+  });
+
+  it('returns null without a usable stop', () => {
+    expect(calcPositionSizing({ ...base, sl: 0 })).toBeNull();
+    expect(calcPositionSizing({ ...base, sl: 520 })).toBeNull();
+    expect(calcPositionSizing({ ...base, portfolioSize: 0 })).toBeNull();
+  });
+
+  it('warns when the limits are breached and caps the quantity', () => {
+    const result = calcPositionSizing({
+      ...base,
+      riskPercent: 2,
+      currentOpenHeat: 5.5,
+      limits: { maxAllocation: 40, maxOpenHeat: 6 }
+    })!;
+    expect(result.quantity).toBe(1000);
+    expect(result.totalOpenHeat).toBe(7.5);
+    expect(result.warnings).toEqual([
+      'Allocation 50.0% exceeds the 40% limit',
+      'Open heat after entry 7.50% exceeds the 6% limit'
+    ]);
+    // 0.5% of heat left: ₹5,000 / ₹20 per share
+    expect(result.maxQuantityWithinLimits).toBe(250);
+  });
+
+  it('evaluates an entered quantity against the risk budget', () => {
+    const result = calcPositionSizing({ ...base, quantity: 600 })!;
+    expect(result.quantity).toBe(600);
+    expect(result.warnings).toEqual(['Risk ₹12000 exceeds the 1% budget of ₹10000']);
+  });
+});
@@ -0,0 +1,125 @@
+// Risk-based position sizing
+//
+// The quantity is the risk budget (a % of the portfolio) divided by the loss per unit if the
+// stop is hit. Allocation and open heat after the entry are checked against the user's limits.
+
+export interface PositionSizingSettings {
+  riskPercent: number; // Risk budget per trade, % of portfolio
+  maxOpenHeat: number; // Max total open heat after the entry, % of portfolio (0 = no limit)
+  maxAllocation: number; // Max position size, % of portfolio (0 = no limit)
+}
+
+export interface PositionSizingInput {
+  portfolioSize: number;
+  riskPercent: number;
+  entry: number;
+  sl: number;
+  buySell: 'Buy' | 'Sell';
+  /** Units per quantity: the lot size for F&O, 1 for equity */
+  multiplier?: number;
+  /** Open heat of the other open positions, % of portfolio */
+  currentOpenHeat?: number;
+  limits?: Pick<PositionSizingSettings, 'maxOpenHeat' | 'maxAllocation'>;
+  /** Quantity to evaluate instead of the one proposed from the risk budget */
+  quantity?: number;
+}
+
+export interface PositionSizingResult {
+  riskBudget: number; // ₹
+  riskPerUnit: number; // ₹ lost per unit if the stop is hit
+  quantity: number; // Whole quantity (lots for F&O) within the risk budget, or the evaluated quantity
+  positionSize: number; // ₹
+  allocation: number; // % of portfolio
+  risk: number; // ₹ at risk with the quantity
+  tradeHeat: number; // % of portfolio at risk with the quantity
+  totalOpenHeat: number; // % of portfolio at risk across open positions after the entry
+  /** Largest quantity that keeps the allocation and open heat within the limits */
+  maxQuantityWithinLimits: number | null;
+  warnings: string[];
+}
+
+export const DEFAULT_POSITION_SIZING_SETTINGS: PositionSizingSettings = {
+  riskPercent: 1,
+  maxOpenHeat: 6,
+  maxAllocation: 25
+};
+
+const STORAGE_KEY = 'positionSizingSettings';
+
+/** Sizing settings saved in localStorage */
+export function loadPositionSizingSettings(): PositionSizingSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_POSITION_SIZING_SETTINGS;
+    return { ...DEFAULT_POSITION_SIZING_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Error loading position sizing settings from localStorage:', error);
+    return DEFAULT_POSITION_SIZING_SETTINGS;
+  }
+}
+
+export function savePositionSizingSettings(settings: PositionSizingSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving position sizing settings to localStorage:', error);
+  }
+}
+
+/**
+ * Propose a quantity for a new position from the risk budget, entry and stop loss
+ * @returns null when the portfolio size, entry or SL is missing, or the SL is on the wrong side of the entry
+ */
+export function calcPositionSizing(input: PositionSizingInput): PositionSizingResult | null {
+  const { portfolioSize, riskPercent, entry, sl, buySell } = input;
+  const multiplier = input.multiplier && input.multiplier > 0 ? input.multiplier : 1;
+  const currentOpenHeat = input.currentOpenHeat || 0;
+  const maxOpenHeat = input.limits?.maxOpenHeat || 0;
+  const maxAllocation = input.limits?.maxAllocation || 0;
+
+  if (!(portfolioSize > 0) || !(entry > 0) || !(sl > 0) || !(riskPercent > 0)) return null;
+  const riskPerUnit = buySell === 'Sell' ? sl - entry : entry - sl;
+  if (riskPerUnit <= 0) return null;
+
+  const riskBudget = (portfolioSize * riskPercent) / 100;
+  const riskPerQty = riskPerUnit * multiplier;
+  const quantity = input.quantity !== undefined ? Math.max(0, input.quantity) : Math.floor(riskBudget / riskPerQty);
+
+  const positionSize = entry * quantity * multiplier;
+  const allocation = (positionSize / portfolioSize) * 100;
+  const risk = riskPerQty * quantity;
+  const tradeHeat = (risk / portfolioSize) * 100;
+  const totalOpenHeat = currentOpenHeat + tradeHeat;
+
+  const caps: number[] = [];
+  if (maxAllocation > 0) caps.push(Math.floor((portfolioSize * maxAllocation) / 100 / (entry * multiplier)));
+  if (maxOpenHeat > 0) caps.push(Math.max(0, Math.floor((portfolioSize * (maxOpenHeat - currentOpenHeat)) / 100 / riskPerQty)));
+  const maxQuantityWithinLimits = caps.length ? Math.min(...caps) : null;
+
+  const warnings: string[] = [];
+  if (quantity === 0 && input.quantity === undefined) {
+    warnings.push(`The risk budget of ₹${riskBudget.toFixed(0)} is smaller than the risk of one ${multiplier > 1 ? 'lot' : 'share'}`);
+  }
+  if (input.quantity !== undefined && risk > riskBudget) {
+    warnings.push(`Risk ₹${risk.toFixed(0)} exceeds the ${riskPercent}% budget of ₹${riskBudget.toFixed(0)}`);
+  }
+  if (maxAllocation > 0 && allocation > maxAllocation) {
+    warnings.push(`Allocation ${allocation.toFixed(1)}% exceeds the ${maxAllocation}% limit`);
+  }
+  if (maxOpenHeat > 0 && totalOpenHeat > maxOpenHeat) {
+    warnings.push(`Open heat after entry ${totalOpenHeat.toFixed(2)}% exceeds the ${maxOpenHeat}% limit`);
+  }
+
+  return {
+    riskBudget,
+    riskPerUnit,
+    quantity,
+    positionSize,
+    allocation,
+    risk,
+    tradeHeat,
+    totalOpenHeat,
+    maxQuantityWithinLimits,
+    warnings
+  };
+}
@@ -0,0 +1,62 @@
+import { toPriceTicksResponse } from './priceTickApi';
+import { normalizeCandle, parseCandlesCsv, parseOhlcResponse } from './priceProviders';
+
+describe('priceProviders', () => {
+  describe('normalizeCandle', () => {
+    it('reads array candles with epoch seconds', () => {
+      const candle = normalizeCandle([1718682300, 100, 105, 99, 104, 1200]);
+      expect(candle).toEqual({
+        dateTime: '2024-06-18T03:45:00.000Z',
+        open: 100,
+        high: 105,
+        low: 99,
+        close: 104,
+        volume: 1200,
+        dayVolume: 1200
+      });
+    });
+
+    it('reads object candles with short or long field names', () => {
+      const short = normalizeCandle({ t: 1718682300000, o: 100, h: 105, l: 99, c: 104, v: 10 });
+      const long = normalizeCandle({ Timestamp: '2024-06-18T03:45:00Z', Open: '100', High: '105', Low: '99', Close: '104' });
+      expect(short?.dateTime).toBe('2024-06-18T03:45:00.000Z');
+      expect(long?.close).toBe(104);
+      expect(long?.volume).toBe(0);
+    });
+
+    it('skips candles without a date or close', () => {
+      expect(normalizeCandle({ open: 100, close: 104 })).toBeNull();
+      expect(normalizeCandle({ date: '2024-06-18', close: 0 })).toBeNull();
+      expect(normalizeCandle('2024-06-18')).toBeNull();
+    });
+  });
+
+  describe('parseOhlcResponse', () => {
+    it('finds candles in common response shapes, oldest first', () => {
+      const rows = [
+        { date: '2024-06-19', close: 110 },
+        { date: '2024-06-18', close: 104 }
+      ];
+      expect(parseOhlcResponse(rows, 'RELIANCE').map(c => c.close)).toEqual([104, 110]);
+      expect(parseOhlcResponse({ candles: rows }, 'RELIANCE')).toHaveLength(2);
+      expect(parseOhlcResponse({ data: { candles: rows } }, 'RELIANCE')).toHaveLength(2);
+      expect(parseOhlcResponse(toPriceTicksResponse('reliance', parseOhlcResponse(rows, 'RELIANCE')), 'RELIANCE')).toHaveLength(2);
+      expect(parseOhlcResponse({ status: 'ok' }, 'RELIANCE')).toEqual([]);
+    });
+  });
+
+  describe('parseCandlesCsv', () => {
+    it('parses exported daily candles with thousands separators', () => {
+      const csv = [
+        'Date,Open,High,Low,Close,Volume',
+        '2024-06-19,"2,950.00","2,990.50","2,940.00","2,980.25",120000',
+        '2024-06-18,2900,2960,2890,2950,98000',
+        ',,,,,'
+      ].join('\n');
+      const candles = parseCandlesCsv(csv);
+      expect(candles).toHaveLength(2);
+      expect(candles[0].close).toBe(2950);
+      expect(candles[1].high).toBe(2990.5);
+    });
+  });
+});
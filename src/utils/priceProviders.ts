@@ -0,0 +1,310 @@
+import Papa from 'papaparse';
+import { DatabaseService, LocalCandle } from '../db/database';
+import {
+  PriceTick,
+  PriceTicksResponse,
+  fetchPriceTicks,
+  fetchPriceTicksSmart,
+  fetchPriceTicksWithFallback,
+  toPriceTicksResponse
+} from './priceTickApi';
+import { fetchTicksWithCache } from './candleCache';
+
+// Pluggable sources of OHLC candles.
+//
+// Every provider answers in the Strike `PriceTicksResponse` shape, so CMP refresh and
+// `usePriceTicks` work the same whichever source is selected in Settings → Prices:
+// - strike: the Strike API with its fallback hosts (default)
+// - ohlc: any REST endpoint returning candles as JSON, e.g. a self-hosted proxy
+// - local: candles imported from CSV into IndexedDB, for offline use
+
+export type PriceProviderId = 'strike' | 'ohlc' | 'local';
+
+export interface PriceProvider {
+  id: PriceProviderId;
+  label: string;
+  fetchTicks: (symbol: string, fromDate?: Date, toDate?: Date, interval?: string) => Promise<PriceTicksResponse>;
+}
+
+export interface OhlcEndpointSettings {
+  /** URL with {symbol}, {from}, {to} and {interval} placeholders; dates are ISO timestamps */
+  urlTemplate: string;
+  /** Optional header carrying an API key, e.g. "X-API-Key" or "Authorization" */
+  apiKeyHeader: string;
+  apiKey: string;
+}
+
+export interface PriceProviderSettings {
+  providerId: PriceProviderId;
+  ohlc: OhlcEndpointSettings;
+  /** Serve imported candles when the online provider fails */
+  localFallback: boolean;
+}
+
+export const PRICE_PROVIDER_LABELS: Record<PriceProviderId, string> = {
+  strike: 'Strike (online)',
+  ohlc: 'Custom OHLC endpoint',
+  local: 'Imported candles (offline)'
+};
+
+export const DEFAULT_PRICE_PROVIDER_SETTINGS: PriceProviderSettings = {
+  providerId: 'strike',
+  ohlc: {
+    urlTemplate: '',
+    apiKeyHeader: '',
+    apiKey: ''
+  },
+  localFallback: true
+};
+
+const STORAGE_KEY = 'priceProviderSettings';
+
+/** Provider settings saved in localStorage (read on every fetch, so changes apply immediately) */
+export function loadPriceProviderSettings(): PriceProviderSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_PRICE_PROVIDER_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return {
+      ...DEFAULT_PRICE_PROVIDER_SETTINGS,
+      ...parsed,
+      ohlc: { ...DEFAULT_PRICE_PROVIDER_SETTINGS.ohlc, ...(parsed.ohlc || {}) }
+    };
+  } catch (error) {
+    console.error('Error loading price provider settings from localStorage:', error);
+    return DEFAULT_PRICE_PROVIDER_SETTINGS;
+  }
+}
+
+export function savePriceProviderSettings(settings: PriceProviderSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving price provider settings to localStorage:', error);
+  }
+}
+
+const toNumber = (value: unknown): number => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/,/g, ''));
+  return isNaN(n) ? 0 : n;
+};
+
+// Epoch seconds, epoch milliseconds or a date string
+const toIsoDateTime = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const numeric = typeof value === 'number' ? value : /^\d+$/.test(String(value)) ? Number(value) : NaN;
+  const date = !isNaN(numeric)
+    ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+    : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const pick = (row: Record<string, unknown>, keys: string[]): unknown => {
+  const found = Object.keys(row).find(key => keys.includes(key.trim().toLowerCase()));
+  return found !== undefined ? row[found] : undefined;
+};
+
+/** Read one candle from an object ({ time, open, ... }) or an array ([time, o, h, l, c, v]) */
+export function normalizeCandle(row: unknown): PriceTick | null {
+  let dateTime: string | null;
+  let values: unknown[];
+  if (Array.isArray(row)) {
+    dateTime = toIsoDateTime(row[0]);
+    values = row.slice(1, 6);
+  } else if (row && typeof row === 'object') {
+    const record = row as Record<string, unknown>;
+    dateTime = toIsoDateTime(pick(record, ['datetime', 'date', 'time', 'timestamp', 't']));
+    values = [
+      pick(record, ['open', 'o']),
+      pick(record, ['high', 'h']),
+      pick(record, ['low', 'l']),
+      pick(record, ['close', 'c', 'ltp', 'price']),
+      pick(record, ['volume', 'v'])
+    ];
+  } else {
+    return null;
+  }
+
+  const [open, high, low, close, volume] = values.map(toNumber);
+  if (!dateTime || close <= 0) return null;
+  return {
+    dateTime,
+    open: open || close,
+    high: high || close,
+    low: low || close,
+    close,
+    volume,
+    dayVolume: volume
+  };
+}
+
+/**
+ * Candles of a JSON response: an array of candles, or an object holding one under
+ * `candles`, `data`, `data.candles` or `ticks[symbol]`. Sorted oldest first.
+ */
+export function parseOhlcResponse(json: any, symbol: string): PriceTick[] {
+  const rows = Array.isArray(json) ? json
+    : Array.isArray(json?.candles) ? json.candles
+    : Array.isArray(json?.data) ? json.data
+    : Array.isArray(json?.data?.candles) ? json.data.candles
+    : Array.isArray(json?.data?.ticks?.[symbol.toUpperCase()]) ? json.data.ticks[symbol.toUpperCase()]
+    : [];
+  return rows
+    .map(normalizeCandle)
+    .filter((candle): candle is PriceTick => candle !== null)
+    .sort((a, b) => a.dateTime.localeCompare(b.dateTime));
+}
+
+/**
+ * Candles of a CSV export (Date/Time, Open, High, Low, Close, Volume columns; any order).
+ * Rows without a date or a close price are skipped.
+ */
+export function parseCandlesCsv(csv: string): PriceTick[] {
+  const parsed = Papa.parse<Record<string, string>>(csv.trim(), { header: true, skipEmptyLines: true });
+  return parsed.data
+    .map(normalizeCandle)
+    .filter((candle): candle is PriceTick => candle !== null)
+    .sort((a, b) => a.dateTime.localeCompare(b.dateTime));
+}
+
+const strikeProvider: PriceProvider = {
+  id: 'strike',
+  label: PRICE_PROVIDER_LABELS.strike,
+  fetchTicks: async (symbol, fromDate, toDate, interval) => {
+    // The night-hours historical fallback returns daily candles whatever the range, so it only
+    // answers requests for the latest price
+    if (!fromDate && !toDate) {
+      return fetchPriceTicksSmart(symbol, fromDate, toDate, interval);
+    }
+    try {
+      return await fetchPriceTicks(symbol, fromDate, toDate, interval);
+    } catch (primaryError) {
+      console.warn(`[strikeProvider] Primary API failed for ${symbol}, trying secondary fallback:`, primaryError);
+      return await fetchPriceTicksWithFallback(symbol, fromDate, toDate, interval);
+    }
+  }
+};
+
+const createOhlcProvider = (endpoint: OhlcEndpointSettings): PriceProvider => ({
+  id: 'ohlc',
+  label: PRICE_PROVIDER_LABELS.ohlc,
+  fetchTicks: async (symbol, fromDate, toDate, interval = '1d') => {
+    if (!endpoint.urlTemplate) {
+      throw new Error('No OHLC endpoint configured');
+    }
+    const to = toDate || new Date();
+    const from = fromDate || new Date(to.getTime() - 60 * 24 * 60 * 60 * 1000);
+    const url = endpoint.urlTemplate
+      .replace(/\{symbol\}/g, encodeURIComponent(symbol.toUpperCase()))
+      .replace(/\{from\}/g, encodeURIComponent(from.toISOString()))
+      .replace(/\{to\}/g, encodeURIComponent(to.toISOString()))
+      .replace(/\{interval\}/g, encodeURIComponent(interval));
+
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (endpoint.apiKeyHeader && endpoint.apiKey) {
+      headers[endpoint.apiKeyHeader] = endpoint.apiKey;
+    }
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers,
+      cache: 'no-cache',
+      signal: AbortSignal.timeout(15000)
+    });
+    if (!response.ok) {
+      throw new Error(`OHLC endpoint failed with status ${response.status}: ${await response.text()}`);
+    }
+
+    const candles = parseOhlcResponse(await response.json(), symbol);
+    if (candles.length === 0) {
+      throw new Error(`No candles returned for ${symbol}`);
+    }
+    return toPriceTicksResponse(symbol, candles);
+  }
+});
+
+const fromLocalCandle = (candle: LocalCandle): PriceTick => ({
+  dateTime: candle.dateTime,
+  open: candle.open,
+  high: candle.high,
+  low: candle.low,
+  close: candle.close,
+  volume: candle.volume,
+  dayVolume: candle.volume
+});
+
+const localProvider: PriceProvider = {
+  id: 'local',
+  label: PRICE_PROVIDER_LABELS.local,
+  fetchTicks: async (symbol, fromDate, toDate, interval = '1d') => {
+    // Imports are usually daily candles; use them when the requested interval was not imported
+    let candles = await DatabaseService.getLocalCandles(symbol, interval, fromDate, toDate);
+    if (candles.length === 0 && interval !== '1d') {
+      candles = await DatabaseService.getLocalCandles(symbol, '1d', fromDate, toDate);
+    }
+    // Nothing imported for the range (e.g. today's CMP): the latest candle before it stands in
+    if (candles.length === 0 && (fromDate || toDate)) {
+      candles = (await DatabaseService.getLocalCandles(symbol, '1d', undefined, toDate)).slice(-1);
+    }
+    if (candles.length === 0) {
+      throw new Error(`No imported candles for ${symbol}`);
+    }
+    return toPriceTicksResponse(symbol, candles.map(fromLocalCandle));
+  }
+};
+
+/** The provider selected in the settings */
+export function getPriceProvider(settings: PriceProviderSettings = loadPriceProviderSettings()): PriceProvider {
+  switch (settings.providerId) {
+    case 'ohlc':
+      return createOhlcProvider(settings.ohlc);
+    case 'local':
+      return localProvider;
+    default:
+      return strikeProvider;
+  }
+}
+
+/**
+ * Fetch candles from the selected provider through the candle cache, falling back to imported
+ * candles when it fails and the fallback is enabled
+ */
+export async function fetchPriceTicksFromProvider(
+  symbol: string,
+  fromDate?: Date,
+  toDate?: Date,
+  interval?: string
+): Promise<PriceTicksResponse> {
+  const settings = loadPriceProviderSettings();
+  const provider = getPriceProvider(settings);
+  try {
+    // Imported candles are already stored locally
+    if (provider.id === 'local') {
+      return await provider.fetchTicks(symbol, fromDate, toDate, interval);
+    }
+    return await fetchTicksWithCache(symbol, provider.fetchTicks, fromDate, toDate, interval);
+  } catch (error) {
+    if (provider.id === 'local' || !settings.localFallback) throw error;
+    console.warn(`[fetchPriceTicksFromProvider] ${provider.label} failed for ${symbol}, using imported candles:`, error);
+    return await localProvider.fetchTicks(symbol, fromDate, toDate, interval);
+  }
+}
+
+/**
+ * Import candles of one symbol into the local store
+ * @returns Number of candles stored
+ */
+export async function importLocalCandles(symbol: string, interval: string, candles: PriceTick[]): Promise<number> {
+  const records: LocalCandle[] = candles.map(candle => ({
+    symbol: symbol.trim().toUpperCase(),
+    interval,
+    dateTime: candle.dateTime,
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    volume: candle.volume
+  }));
+  const success = await DatabaseService.saveLocalCandles(records);
+  return success ? records.length : 0;
+}
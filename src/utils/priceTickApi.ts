@@ -1,4 +1,5 @@
 import { format, subDays, parseISO, isWeekend, isFriday, isSameDay } from 'date-fns';
+import { getPreviousTradingDay as getPreviousCalendarTradingDay, isTradingDay } from './marketCalendar';
 
 export interface PriceTick {
   dateTime: string;
@@ -21,6 +22,28 @@ export interface PriceTicksResponse {
   };
 }
 
+/** Wrap candles in the response shape the price consumers read */
+export function toPriceTicksResponse(symbol: string, candles: PriceTick[]): PriceTicksResponse {
+  return {
+    data: {
+      statistic: 0,
+      count: candles.length,
+      fields: ['dateTime', 'open', 'high', 'low', 'close', 'volume', 'dayVolume'],
+      ticks: {
+        [symbol.toUpperCase()]: candles.map(candle => [
+          candle.dateTime,
+          candle.open,
+          candle.high,
+          candle.low,
+          candle.close,
+          candle.volume,
+          candle.dayVolume
+        ])
+      }
+    }
+  };
+}
+
 /**
  * Gets today's market open time (9:08 AM IST)
  * @returns Date object set to today's market open
@@ -51,10 +74,9 @@ export const getTodayMarketClose = (): Date => {
  */
 export const isMarketOpen = (): boolean => {
   const now = new Date();
-  const day = now.getDay();
-  
-  // Market is open Monday (1) to Friday (5)
-  if (day === 0 || day === 6) return false; // Sunday (0) or Saturday (6) are always closed
+
+  // Weekends and exchange holidays are always closed
+  if (!isTradingDay(now)) return false;
   
   const hours = now.getHours();
   const minutes = now.getMinutes();
@@ -84,15 +106,15 @@ const getCurrentISTDate = (): Date => {
 };
 
 /**
- * Gets the last working day (Friday or earlier if there are holidays)
+ * Gets the last working day (the given day, or the last trading day before a weekend or holiday)
  * @param fromDate Optional starting date, defaults to current IST date
  * @returns Date object set to the last working day
  */
 const getLastWorkingDay = (fromDate?: Date): Date => {
   const date = fromDate ? new Date(fromDate) : getCurrentISTDate();
 
-  // If it's Saturday (6) or Sunday (0), go back to Friday
-  while (date.getDay() === 0 || date.getDay() === 6) {
+  // On weekends and exchange holidays, go back to the last trading day
+  while (!isTradingDay(date)) {
     date.setDate(date.getDate() - 1);
   }
 
@@ -100,12 +122,10 @@ const getLastWorkingDay = (fromDate?: Date): Date => {
 };
 
 /**
- * Checks if current date is weekend (Saturday or Sunday) in IST
+ * Checks if the market is closed all day today in IST (weekend or exchange holiday)
  */
-const isWeekendIST = (): boolean => {
-  const now = getCurrentISTDate();
-  const day = now.getDay();
-  return day === 0 || day === 6; // Sunday (0) or Saturday (6)
+const isMarketClosedDayIST = (): boolean => {
+  return !isTradingDay(getCurrentISTDate());
 };
 
 /**
@@ -114,12 +134,11 @@ const isWeekendIST = (): boolean => {
  */
 const isAfterHoursWeekday = (): boolean => {
   const now = getCurrentISTDate();
-  const day = now.getDay();
   const hours = now.getHours();
   const minutes = now.getMinutes();
 
-  // Only applies to weekdays (Monday=1 to Friday=5)
-  if (day === 0 || day === 6) return false;
+  // Only applies to trading days (weekends and holidays use the last trading day's daily candles)
+  if (!isTradingDay(now)) return false;
 
   // Check if time is between 12:00 AM (00:00) and 9:15 AM (09:15)
   if (hours < 9 || (hours === 9 && minutes < 15)) {
@@ -135,12 +154,11 @@ const isAfterHoursWeekday = (): boolean => {
  */
 const isProblematicNightHours = (): boolean => {
   const now = getCurrentISTDate();
-  const day = now.getDay();
   const hours = now.getHours();
   const minutes = now.getMinutes();
 
-  // Only applies to weekdays (Monday=1 to Friday=5)
-  if (day === 0 || day === 6) return false;
+  // Only applies to trading days
+  if (!isTradingDay(now)) return false;
 
   // Check if time is between 3:55 AM (03:55) and 9:15 AM (09:15)
   if (hours > 3 && hours < 9) {
@@ -162,18 +180,8 @@ const isProblematicNightHours = (): boolean => {
  * but we need previous day's market data
  */
 const getPreviousTradingDay = (): Date => {
-  const now = getCurrentISTDate();
-  const previousDay = new Date(now);
-
-  // Go back one day
-  previousDay.setDate(now.getDate() - 1);
-
-  // If the previous day is weekend, keep going back to Friday
-  while (previousDay.getDay() === 0 || previousDay.getDay() === 6) {
-    previousDay.setDate(previousDay.getDate() - 1);
-  }
-
-  return previousDay;
+  // Skips weekends and exchange holidays
+  return getPreviousCalendarTradingDay(getCurrentISTDate());
 };
 
 /**
@@ -235,6 +243,80 @@ const retryWithBackoff = async <T>(
   throw lastError;
 };
 
+/**
+ * Resolves the candle range and interval of a price request. Without explicit dates this is the
+ * current session, the previous trading day before the open, or ~45 days of daily candles on
+ * weekends and exchange holidays.
+ * @param fromDate Start date (default: today's market open)
+ * @param toDate End date (default: current time)
+ * @param interval Candle interval (default: '1m', or '1d' when the market is closed all day)
+ */
+export const resolveTickRange = (
+  fromDate?: Date,
+  toDate?: Date,
+  interval?: string
+): { from: Date; to: Date; interval: string } => {
+  const now = getCurrentISTDate();
+  const isClosedDay = isMarketClosedDayIST();
+  const isAfterHours = isAfterHoursWeekday();
+  let from: Date, to: Date;
+  let actualInterval: string;
+
+  // Determine interval and date range based on market status
+  if (isClosedDay && !fromDate && !toDate) {
+    // Weekend or exchange holiday: Use daily candles and get data from last working days
+    actualInterval = interval || '1d';
+
+    // Get last working day (Friday or earlier)
+    const lastWorkingDay = getLastWorkingDay();
+
+    // Set 'to' date to end of last working day
+    to = new Date(lastWorkingDay);
+    to.setHours(23, 59, 59, 999);
+
+    // Set 'from' date to cover sufficient historical data (e.g., last 30 working days)
+    from = new Date(lastWorkingDay);
+    from.setDate(from.getDate() - 45); // Go back ~45 days to ensure we get 30 working days
+    from.setHours(9, 15, 59, 0); // Market open time
+
+    console.log(`[resolveTickRange] Weekend/holiday mode: Using ${actualInterval} interval from ${from.toISOString()} to ${to.toISOString()}`);
+  } else if (isAfterHours && !fromDate && !toDate) {
+    // After-hours weekday (12:00 AM to 9:15 AM): Use previous trading day's data
+    actualInterval = interval || '1m';
+
+    // Get previous trading day (even if system date changed at midnight)
+    const previousTradingDay = getPreviousTradingDay();
+
+    // Set 'from' to previous trading day market open
+    from = new Date(previousTradingDay);
+    from.setHours(9, 15, 59, 0);
+
+    // Set 'to' to previous trading day end (or market close)
+    to = new Date(previousTradingDay);
+    to.setHours(23, 59, 59, 999); // Full day data
+    // Alternative: to.setHours(15, 30, 0, 0); // Market close only
+
+    console.log(`[resolveTickRange] After-hours weekday mode: Using ${actualInterval} interval from ${from.toISOString()} to ${to.toISOString()}`);
+    console.log(`[resolveTickRange] System date: ${now.toDateString()}, Using trading day: ${previousTradingDay.toDateString()}`);
+  } else if (!fromDate && !toDate) {
+    // Normal weekday during/after market hours: Use current day
+    actualInterval = interval || '1m';
+    from = getTodayMarketOpen();
+    to = new Date();
+
+    console.log(`[resolveTickRange] Normal weekday mode: Using ${actualInterval} interval from ${from.toISOString()} to ${to.toISOString()}`);
+  } else {
+    // Explicit dates provided
+    actualInterval = interval || '1m';
+    from = fromDate || getTodayMarketOpen();
+    to = toDate || new Date();
+
+    console.log(`[resolveTickRange] Custom date mode: Using ${actualInterval} interval from ${from.toISOString()} to ${to.toISOString()}`);
+  }
+
+  return { from, to, interval: actualInterval };
+};
+
 /**
  * Fetches price ticks for a given symbol and date range
  * @param symbol The stock symbol (e.g., 'TAJGVK')
@@ -251,62 +333,7 @@ export const fetchPriceTicks = async (
 ): Promise<PriceTicksResponse> => {
   return retryWithBackoff(async () => {
     const now = getCurrentISTDate();
-    const isWeekend = isWeekendIST();
-    const isAfterHours = isAfterHoursWeekday();
-    let from: Date, to: Date;
-    let actualInterval: string;
-
-    // Determine interval and date range based on market status
-    if (isWeekend && !fromDate && !toDate) {
-      // Weekend: Use daily candles and get data from last working days
-      actualInterval = interval || '1d';
-
-      // Get last working day (Friday or earlier)
-      const lastWorkingDay = getLastWorkingDay();
-
-      // Set 'to' date to end of last working day
-      to = new Date(lastWorkingDay);
-      to.setHours(23, 59, 59, 999);
-
-      // Set 'from' date to cover sufficient historical data (e.g., last 30 working days)
-      from = new Date(lastWorkingDay);
-      from.setDate(from.getDate() - 45); // Go back ~45 days to ensure we get 30 working days
-      from.setHours(9, 15, 59, 0); // Market open time
-
-      console.log(`[fetchPriceTicks] Weekend mode: Using ${actualInterval} interval from ${from.toISOString()} to ${to.toISOString()}`);
-    } else if (isAfterHours && !fromDate && !toDate) {
-      // After-hours weekday (12:00 AM to 9:15 AM): Use previous trading day's data
-      actualInterval = interval || '1m';
-
-      // Get previous trading day (even if system date changed at midnight)
-      const previousTradingDay = getPreviousTradingDay();
-
-      // Set 'from' to previous trading day market open
-      from = new Date(previousTradingDay);
-      from.setHours(9, 15, 59, 0);
-
-      // Set 'to' to previous trading day end (or market close)
-      to = new Date(previousTradingDay);
-      to.setHours(23, 59, 59, 999); // Full day data
-      // Alternative: to.setHours(15, 30, 0, 0); // Market close only
-
-      console.log(`[fetchPriceTicks] After-hours weekday mode: Using ${actualInterval} interval from ${from.toISOString()} to ${to.toISOString()}`);
-      console.log(`[fetchPriceTicks] System date: ${now.toDateString()}, Using trading day: ${previousTradingDay.toDateString()}`);
-    } else if (!fromDate && !toDate) {
-      // Normal weekday during/after market hours: Use current day
-      actualInterval = interval || '1m';
-      from = getTodayMarketOpen();
-      to = new Date();
-
-      console.log(`[fetchPriceTicks] Normal weekday mode: Using ${actualInterval} interval from ${from.toISOString()} to ${to.toISOString()}`);
-    } else {
-      // Explicit dates provided
-      actualInterval = interval || '1m';
-      from = fromDate || getTodayMarketOpen();
-      to = toDate || new Date();
-
-      console.log(`[fetchPriceTicks] Custom date mode: Using ${actualInterval} interval from ${from.toISOString()} to ${to.toISOString()}`);
-    }
+    const { from, to, interval: actualInterval } = resolveTickRange(fromDate, toDate, interval);
 
     // Format dates to match the required API format (YYYY-MM-DDTHH:mm:ss+05:30)
     const formatForApi = (date: Date) => {
@@ -399,37 +426,7 @@ export const fetchPriceTicksWithFallback = async (
     try {
       console.log(`[fetchPriceTicksWithFallback] Trying ${baseUrl}...`);
 
-      const now = getCurrentISTDate();
-      const isWeekend = isWeekendIST();
-      const isAfterHours = isAfterHoursWeekday();
-      let from: Date, to: Date;
-      let actualInterval: string;
-
-      // Use same logic as main function
-      if (isWeekend && !fromDate && !toDate) {
-        actualInterval = interval || '1d';
-        const lastWorkingDay = getLastWorkingDay();
-        to = new Date(lastWorkingDay);
-        to.setHours(23, 59, 59, 999);
-        from = new Date(lastWorkingDay);
-        from.setDate(from.getDate() - 45);
-        from.setHours(9, 15, 59, 0);
-      } else if (isAfterHours && !fromDate && !toDate) {
-        actualInterval = interval || '1m';
-        const previousTradingDay = getPreviousTradingDay();
-        from = new Date(previousTradingDay);
-        from.setHours(9, 15, 59, 0);
-        to = new Date(previousTradingDay);
-        to.setHours(23, 59, 59, 999);
-      } else if (!fromDate && !toDate) {
-        actualInterval = interval || '1m';
-        from = getTodayMarketOpen();
-        to = new Date();
-      } else {
-        actualInterval = interval || '1m';
-        from = fromDate || getTodayMarketOpen();
-        to = toDate || new Date();
-      }
+      const { from, to, interval: actualInterval } = resolveTickRange(fromDate, toDate, interval);
 
       const formatForApi = (date: Date) => {
         const pad = (num: number) => num.toString().padStart(2, '0');
@@ -538,7 +535,7 @@ export const fetchPriceTicksWithHistoricalFallback = async (
   const currentDate = new Date(now);
 
   // Set 'to' date to current system date (or previous working day if weekend)
-  const to = isWeekendIST() ? getLastWorkingDay() : currentDate;
+  const to = isMarketClosedDayIST() ? getLastWorkingDay() : currentDate;
   to.setHours(23, 59, 59, 999);
 
   // Set 'from' date to go back significantly to ensure we get data
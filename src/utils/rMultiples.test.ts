@@ -0,0 +1,92 @@
+import { Trade } from '../types/trade';
+import {
+  buildRHistogram,
+  calcRMultipleStats,
+  calcRollingExpectancy,
+  getRMultipleTrades,
+  summariseRMultiplesBySetup
+} from './rMultiples';
+
+// 10 shares at 100 with the SL at 95: ₹50 of initial risk
+const closedTrade = (id: string, setup: string, plRs: number, exitDate: string) => ({
+  id,
+  name: `STOCK${id}`,
+  setup,
+  buySell: 'Buy',
+  sl: 95,
+  positionStatus: 'Closed',
+  plRs,
+  date: '2024-06-01',
+  legs: [
+    { id: 'e0', side: 'entry', date: '2024-06-01', price: 100, qty: 10 },
+    { id: 'x0', side: 'exit', date: exitDate, price: 100 + plRs / 10, qty: 10 }
+  ]
+} as Trade);
+
+const trades = [
+  closedTrade('T3', 'VCP', -50, '2024-06-20'), // -1R
+  closedTrade('T1', 'VCP', 100, '2024-06-05'), // 2R
+  closedTrade('T2', 'Breakout', -25, '2024-06-10'), // -0.5R
+  closedTrade('T4', 'VCP', 150, '2024-06-25') // 3R
+];
+
+describe('rMultiples', () => {
+  it('takes the realised R of closed trades with a stop, in exit order', () => {
+    const rTrades = getRMultipleTrades([
+      ...trades,
+      // The cash basis row of T1's exit, a trade without a stop and an open trade
+      { ...trades[1], id: 'T1_exit_0' },
+      { ...closedTrade('T5', 'VCP', 80, '2024-06-26'), sl: 0 },
+      { ...closedTrade('T6', 'VCP', 80, '2024-06-26'), positionStatus: 'Open' }
+    ]);
+    expect(rTrades.map(trade => trade.tradeId)).toEqual(['T1', 'T2', 'T3', 'T4']);
+    expect(rTrades.map(trade => trade.r)).toEqual([2, -0.5, -1, 3]);
+    expect(rTrades[0].risk).toBe(50);
+  });
+
+  it('computes expectancy in R and ₹ and the SQN', () => {
+    const stats = calcRMultipleStats(getRMultipleTrades(trades));
+    expect(stats.trades).toBe(4);
+    expect(stats.winRate).toBe(50);
+    expect(stats.avgWinR).toBe(2.5);
+    expect(stats.avgLossR).toBe(-0.75);
+    expect(stats.expectancyR).toBe(0.875);
+    expect(stats.expectancyRs).toBe(43.75);
+    expect(stats.totalR).toBe(3.5);
+    // Sample standard deviation of [2, -0.5, -1, 3] around 0.875
+    const stdDev = Math.sqrt((1.125 ** 2 + 1.375 ** 2 + 1.875 ** 2 + 2.125 ** 2) / 3);
+    expect(stats.stdDevR).toBeCloseTo(stdDev, 10);
+    expect(stats.sqn!).toBeCloseTo(2 * 0.875 / stdDev, 10);
+    expect(calcRMultipleStats([]).sqn).toBeNull();
+  });
+
+  it('splits the statistics by setup, largest first', () => {
+    const bySetup = summariseRMultiplesBySetup(getRMultipleTrades(trades));
+    expect(bySetup.map(row => [row.setup, row.trades])).toEqual([['VCP', 3], ['Breakout', 1]]);
+    expect(bySetup[0].expectancyR).toBeCloseTo(4 / 3, 10);
+  });
+
+  it('buckets R-multiples and folds outliers into the outer buckets', () => {
+    const bins = buildRHistogram([-0.5, -0.4, 0, 0.7, 9], 0.5, -3, 2);
+    expect(bins.map(bin => bin.from)).toEqual([-0.5, 0, 0.5, 1, 1.5, 2]);
+    expect(bins.map(bin => bin.count)).toEqual([2, 1, 1, 0, 0, 1]);
+    expect(bins[5].label).toBe('≥2R');
+    expect(buildRHistogram([])).toHaveLength(0);
+  });
+
+  it('keeps a single bucket when every R lies beyond one end', () => {
+    const below = buildRHistogram([-4], 0.5, -3, 6);
+    expect(below.map(bin => [bin.from, bin.count, bin.label])).toEqual([[-3, 1, '≤-3R']]);
+    expect(buildRHistogram([-4, -3.5]).map(bin => bin.count)).toEqual([2]);
+
+    const above = buildRHistogram([8], 0.5, -3, 6);
+    expect(above.map(bin => [bin.from, bin.count, bin.label])).toEqual([[6, 1, '≥6R']]);
+  });
+
+  it('averages R over the last N trades from the first full window', () => {
+    const rolling = calcRollingExpectancy(getRMultipleTrades(trades), 2);
+    expect(rolling.map(point => point.index)).toEqual([2, 3, 4]);
+    expect(rolling.map(point => point.expectancyR)).toEqual([0.75, -0.75, 1]);
+    expect(calcRollingExpectancy(getRMultipleTrades(trades), 5)).toHaveLength(0);
+  });
+});
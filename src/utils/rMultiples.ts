@@ -0,0 +1,165 @@
+import { Trade } from '../types/trade';
+import { calcRMultiple, calcTradeInitialRisk } from './tradeCalculations';
+import { getLatestExitDate, getTradeLegs } from './tradeLegs';
+
+// Realised R-multiples of closed trades
+//
+// R is the trade's realised P/L divided by its initial risk (`calcTradeInitialRisk`: every
+// entry leg stopped out at the SL). Trades without a risk-defining SL have no R and are left
+// out of every statistic here, including the ₹ expectancy, so R and ₹ describe the same trades.
+// Trades are ordered by their final exit, the day the R became known.
+
+export interface RMultipleTrade {
+  tradeId: string;
+  name: string;
+  setup: string;
+  exitDate: string;
+  r: number;
+  pl: number; // ₹ realised
+  risk: number; // ₹ initial risk
+}
+
+export interface RMultipleStats {
+  trades: number;
+  winRate: number; // %
+  avgWinR: number;
+  avgLossR: number; // Negative
+  expectancyR: number; // Average R per trade
+  expectancyRs: number; // Average ₹ per trade
+  stdDevR: number;
+  /** System quality number: sqrt(trades, capped at 100) × expectancy ÷ standard deviation of R */
+  sqn: number | null;
+  totalR: number;
+  bestR: number;
+  worstR: number;
+}
+
+export interface RMultipleSetupStats extends RMultipleStats {
+  setup: string;
+}
+
+export interface RHistogramBin {
+  from: number;
+  to: number;
+  label: string;
+  count: number;
+}
+
+export interface RollingExpectancyPoint {
+  index: number; // 1-based trade number
+  exitDate: string;
+  expectancyR: number;
+}
+
+const SQN_TRADE_CAP = 100;
+
+const average = (values: number[]): number =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Closed trades with a realised R, oldest exit first.
+ * Cash basis rows of the same trade (`<id>_exit_<n>`) count once.
+ */
+export function getRMultipleTrades(trades: Trade[]): RMultipleTrade[] {
+  const seen = new Set<string>();
+  const result: RMultipleTrade[] = [];
+
+  trades.forEach(trade => {
+    const tradeId = trade.id.split('_exit_')[0];
+    if (trade.positionStatus !== 'Closed' || seen.has(tradeId)) return;
+    seen.add(tradeId);
+
+    const r = calcRMultiple(trade);
+    if (r === null || !isFinite(r)) return;
+    result.push({
+      tradeId,
+      name: trade.name,
+      setup: trade.setup?.trim() || 'No setup',
+      exitDate: getLatestExitDate(getTradeLegs(trade)) || trade.date,
+      r,
+      pl: Number(trade.plRs) || 0,
+      risk: calcTradeInitialRisk(trade)
+    });
+  });
+
+  return result.sort((a, b) => new Date(a.exitDate).getTime() - new Date(b.exitDate).getTime());
+}
+
+/** Win rate, expectancy and SQN of a set of R-multiple trades */
+export function calcRMultipleStats(rTrades: RMultipleTrade[]): RMultipleStats {
+  const values = rTrades.map(trade => trade.r);
+  const wins = values.filter(r => r > 0);
+  const losses = values.filter(r => r < 0);
+  const expectancyR = average(values);
+  // Sample standard deviation
+  const stdDevR = values.length > 1
+    ? Math.sqrt(values.reduce((sum, r) => sum + (r - expectancyR) ** 2, 0) / (values.length - 1))
+    : 0;
+
+  return {
+    trades: values.length,
+    winRate: values.length ? (wins.length / values.length) * 100 : 0,
+    avgWinR: average(wins),
+    avgLossR: average(losses),
+    expectancyR,
+    expectancyRs: average(rTrades.map(trade => trade.pl)),
+    stdDevR,
+    sqn: stdDevR > 0 ? Math.sqrt(Math.min(values.length, SQN_TRADE_CAP)) * expectancyR / stdDevR : null,
+    totalR: values.reduce((sum, r) => sum + r, 0),
+    bestR: values.length ? Math.max(...values) : 0,
+    worstR: values.length ? Math.min(...values) : 0
+  };
+}
+
+/** R-multiple statistics per setup, largest setups first */
+export function summariseRMultiplesBySetup(rTrades: RMultipleTrade[]): RMultipleSetupStats[] {
+  const bySetup = new Map<string, RMultipleTrade[]>();
+  rTrades.forEach(trade => bySetup.set(trade.setup, [...(bySetup.get(trade.setup) || []), trade]));
+
+  return Array.from(bySetup.entries())
+    .map(([setup, setupTrades]) => ({ setup, ...calcRMultipleStats(setupTrades) }))
+    .sort((a, b) => b.trades - a.trades || a.setup.localeCompare(b.setup));
+}
+
+/**
+ * Count of trades per R bucket. Buckets are `binSize` wide and aligned to whole multiples of it;
+ * results beyond `min`/`max` are counted in the outermost bucket so one outlier cannot stretch the chart.
+ */
+export function buildRHistogram(values: number[], binSize: number = 0.5, min: number = -3, max: number = 6): RHistogramBin[] {
+  if (values.length === 0 || binSize <= 0) return [];
+  const floorToBin = (value: number) => Math.floor(value / binSize) * binSize;
+  // Kept inside [min, max] even when every value lies beyond one end
+  const clamp = (value: number) => Math.min(Math.max(value, floorToBin(min)), floorToBin(max));
+  const lower = clamp(floorToBin(Math.min(...values)));
+  const upper = clamp(floorToBin(Math.max(...values)));
+  const count = Math.round((upper - lower) / binSize) + 1;
+
+  const bins: RHistogramBin[] = Array.from({ length: count }, (_, i) => {
+    const from = lower + i * binSize;
+    return { from, to: from + binSize, label: `${Number(from.toFixed(2))}R`, count: 0 };
+  });
+  if (values.some(value => value < lower)) bins[0].label = `≤${bins[0].label}`;
+  if (values.some(value => value >= upper + binSize)) bins[count - 1].label = `≥${bins[count - 1].label}`;
+
+  values.forEach(value => {
+    const i = Math.floor((value - lower) / binSize + 1e-9);
+    bins[Math.min(count - 1, Math.max(0, i))].count++;
+  });
+  return bins;
+}
+
+/** Average R of the last `window` trades after each trade, from the first full window on */
+export function calcRollingExpectancy(rTrades: RMultipleTrade[], window: number): RollingExpectancyPoint[] {
+  if (window <= 0) return [];
+  const points: RollingExpectancyPoint[] = [];
+  let sum = 0;
+
+  rTrades.forEach((trade, i) => {
+    sum += trade.r;
+    if (i >= window) sum -= rTrades[i - window].r;
+    if (i >= window - 1) {
+      points.push({ index: i + 1, exitDate: trade.exitDate, expectancyR: sum / window });
+    }
+  });
+  return points;
+}
@@ -0,0 +1,47 @@
+import { Trade } from '../types/trade';
+import { buildReturnsTimeline, calcPeriodReturn, calcReturnsReport, getCapitalFlowsByDate, getFinancialQuarter, getRealisedPLByDate } from './returns';
+
+const day = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+// ₹1L from 1 April, +10% by the 10th, ₹1.1L added on the 20th and -10% the same day
+const timeline = buildReturnsTimeline(
+  100000,
+  new Date(2024, 3, 1),
+  new Map([[day('2024-04-10'), 10000], [day('2024-04-20'), -22000]]),
+  getCapitalFlowsByDate([{ date: '2024-04-20', amount: 110000, type: 'deposit' }])
+);
+
+describe('returns', () => {
+  it('chain-links daily returns across deposits', () => {
+    const april = calcPeriodReturn(timeline, new Date(2024, 3, 1), new Date(2024, 3, 30), 'Apr 2024', 'month', new Date(2024, 4, 15));
+    expect(april.startValue).toBe(100000);
+    expect(april.netFlows).toBe(110000);
+    expect(april.pl).toBe(-12000);
+    expect(april.endValue).toBe(198000);
+    // 1.10 x 0.90
+    expect(april.twr).toBeCloseTo(-1);
+    // Most of the money arrived before the loss
+    expect(april.mwr).toBeLessThan(april.twr);
+    expect(april.xirr).toBeLessThan(0);
+  });
+
+  it('reports months, FY quarters and financial years newest first', () => {
+    const report = calcReturnsReport(timeline, new Date(2024, 4, 15));
+    expect(report.months.map(m => m.label)).toEqual(['May 2024', 'Apr 2024']);
+    expect(report.months[0].twr).toBe(0);
+    expect(report.months[0].startValue).toBe(198000);
+    expect(report.quarters.map(q => q.label)).toEqual(['Q1 FY 2024-25']);
+    expect(report.financialYears.map(fy => fy.label)).toEqual(['FY 2024-25']);
+    expect(report.inception!.twr).toBeCloseTo(-1);
+    expect(getFinancialQuarter(new Date(2025, 1, 10))).toBe('Q4 FY 2024-25');
+  });
+
+  it('books accrual P/L on the entry date once per trade', () => {
+    const trades = [
+      { id: 'T1', date: '2024-04-10', plRs: 500, positionStatus: 'Closed' },
+      { id: 'T2', date: '2024-04-10', plRs: -200, positionStatus: 'Closed' },
+      { id: 'T2', date: '2024-04-10', plRs: -200, positionStatus: 'Closed' }
+    ] as Trade[];
+    expect(getRealisedPLByDate(trades, false).get(day('2024-04-10'))).toBe(300);
+  });
+});
@@ -0,0 +1,247 @@
+import { Trade } from '../types/trade';
+import { calcXIRR } from './tradeCalculations';
+import { getExitPLsWithFallback } from './accountingUtils';
+import { getFinancialYear } from './capitalGains';
+
+// Time-weighted vs money-weighted returns
+//
+// The portfolio is valued at the end of every day with P/L or a deposit/withdrawal, starting
+// from the true portfolio's starting capital. Flows are booked at the start of their day, the
+// same convention the monthly true portfolio uses for the month's flows; benchmarks.ts and
+// drawdowns.ts chain their daily returns with the same `calcFlowAdjustedReturn`.
+// - TWR chain-links the daily returns, so deposits and withdrawals do not move it; this is the
+//   figure comparable with mutual funds and indices.
+// - MWR is the XIRR of the period's cash flows (opening value, deposits, withdrawals, closing
+//   value) de-annualised to the period, so it rewards adding money before good months.
+
+export type ReturnPeriodType = 'month' | 'quarter' | 'fy' | 'inception';
+
+export interface ReturnDay {
+  date: number; // Local midnight
+  flow: number; // Deposits minus withdrawals
+  pl: number;
+  value: number; // End of day
+}
+
+export interface ReturnsTimeline {
+  startDate: number;
+  startValue: number;
+  days: ReturnDay[];
+}
+
+export interface PeriodReturn {
+  key: string;
+  label: string;
+  type: ReturnPeriodType;
+  start: Date;
+  end: Date;
+  startValue: number;
+  netFlows: number;
+  pl: number;
+  endValue: number;
+  twr: number; // %
+  mwr: number; // %, over the period
+  xirr: number; // %, annualised
+}
+
+export interface ReturnsReport {
+  months: PeriodReturn[];
+  quarters: PeriodReturn[];
+  financialYears: PeriodReturn[];
+  inception: PeriodReturn | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Local midnight of a date, the key of every per-day map here */
+export const toDay = (value: string | number | Date): number => {
+  const d = new Date(value);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+/**
+ * Return of one day with the day's flow invested at its start: the closing value over the
+ * previous close plus the flow. 0 when nothing was invested.
+ */
+export function calcFlowAdjustedReturn(prevValue: number, value: number, flow: number): number {
+  const invested = prevValue + flow;
+  return invested > 0 ? value / invested - 1 : 0;
+}
+
+const addToDate = (map: Map<number, number>, date: string | Date, amount: number) => {
+  const day = toDay(date);
+  if (isNaN(day) || !amount) return;
+  map.set(day, (map.get(day) || 0) + amount);
+};
+
+/**
+ * Realised P/L per day with the attribution of the true portfolio: each exit's FIFO P/L on its
+ * date for cash basis, the trade's P/L on its entry date for accrual
+ */
+export function getRealisedPLByDate(trades: Trade[], useCashBasis: boolean): Map<number, number> {
+  const plByDate = new Map<number, number>();
+  const seenTradeIds = new Set<string>();
+  trades.forEach(trade => {
+    // Cash basis views contain one row per exit of the same trade
+    const originalId = String(trade.id).split('_exit_')[0];
+    if (seenTradeIds.has(originalId)) return;
+    seenTradeIds.add(originalId);
+
+    if (useCashBasis) {
+      if (trade.positionStatus !== 'Closed' && trade.positionStatus !== 'Partial') return;
+      getExitPLsWithFallback(trade).forEach(exit => addToDate(plByDate, exit.date, exit.pl));
+    } else if (trade.date) {
+      addToDate(plByDate, trade.date, trade.plRs || 0);
+    }
+  });
+  return plByDate;
+}
+
+/** Net capital flow per day: deposits positive, withdrawals negative */
+export function getCapitalFlowsByDate(capitalChanges: Array<{ date: string | Date; amount: number; type: 'deposit' | 'withdrawal' }>): Map<number, number> {
+  const flows = new Map<number, number>();
+  capitalChanges.forEach(change => {
+    addToDate(flows, change.date, change.type === 'deposit' ? Math.abs(change.amount) : -Math.abs(change.amount));
+  });
+  return flows;
+}
+
+/**
+ * End-of-day values from a starting capital, daily P/L and daily flows
+ * @param startDate Start of the first month; events before it are left out
+ */
+export function buildReturnsTimeline(
+  startingCapital: number,
+  startDate: Date,
+  plByDate: Map<number, number>,
+  flowsByDate: Map<number, number>
+): ReturnsTimeline {
+  const start = toDay(startDate);
+  const dates = Array.from(new Set([...plByDate.keys(), ...flowsByDate.keys()]))
+    .filter(date => date >= start)
+    .sort((a, b) => a - b);
+
+  let value = startingCapital;
+  const days = dates.map(date => {
+    const flow = flowsByDate.get(date) || 0;
+    const pl = plByDate.get(date) || 0;
+    value += flow + pl;
+    return { date, flow, pl, value };
+  });
+  return { startDate: start, startValue: startingCapital, days };
+}
+
+// Value at the end of a day (the last event on or before it)
+const getValueAt = (timeline: ReturnsTimeline, date: number): number => {
+  let value = timeline.startValue;
+  for (const day of timeline.days) {
+    if (day.date > date) break;
+    value = day.value;
+  }
+  return value;
+};
+
+/** Returns of [start, end]; `end` is clipped to `now` for the running period */
+export function calcPeriodReturn(
+  timeline: ReturnsTimeline,
+  start: Date,
+  end: Date,
+  label: string,
+  type: ReturnPeriodType,
+  now: Date = new Date()
+): PeriodReturn {
+  const from = Math.max(toDay(start), timeline.startDate);
+  const to = Math.min(toDay(end), toDay(now));
+  const startValue = getValueAt(timeline, from - DAY_MS);
+  const days = timeline.days.filter(day => day.date >= from && day.date <= to);
+
+  let growth = 1;
+  let prevValue = startValue;
+  days.forEach(day => {
+    growth *= 1 + calcFlowAdjustedReturn(prevValue, day.value, day.flow);
+    prevValue = day.value;
+  });
+
+  const endValue = prevValue;
+  const netFlows = days.reduce((sum, day) => sum + day.flow, 0);
+  const pl = days.reduce((sum, day) => sum + day.pl, 0);
+
+  // Deposits are paid in by the investor (negative), withdrawals paid out (positive)
+  const periodEnd = new Date(to);
+  const rawXirr = calcXIRR(new Date(from), startValue, periodEnd, endValue, days
+    .filter(day => day.flow !== 0)
+    .map(day => ({ date: new Date(day.date), amount: -day.flow })));
+  const xirr = Number.isFinite(rawXirr) && rawXirr > -100 ? rawXirr : 0;
+  const years = Math.max(to - from, DAY_MS) / (365 * DAY_MS);
+  const mwr = xirr !== 0 ? (Math.pow(1 + xirr / 100, years) - 1) * 100 : 0;
+
+  return {
+    key: `${type}-${from}`,
+    label,
+    type,
+    start: new Date(from),
+    end: periodEnd,
+    startValue,
+    netFlows,
+    pl,
+    endValue,
+    twr: (growth - 1) * 100,
+    mwr,
+    xirr
+  };
+}
+
+/** Quarter of the Indian financial year, e.g. "Q1 FY 2024-25" for April-June 2024 */
+export function getFinancialQuarter(date: Date): string {
+  return `Q${Math.floor(((date.getMonth() + 9) % 12) / 3) + 1} ${getFinancialYear(date)}`;
+}
+
+/**
+ * Monthly, quarterly (FY quarters), financial year and since inception returns, newest first
+ */
+export function calcReturnsReport(timeline: ReturnsTimeline, now: Date = new Date()): ReturnsReport {
+  const first = new Date(timeline.startDate);
+  if (timeline.startDate > now.getTime()) {
+    return { months: [], quarters: [], financialYears: [], inception: null };
+  }
+
+  const months: PeriodReturn[] = [];
+  const quarters: PeriodReturn[] = [];
+  const financialYears: PeriodReturn[] = [];
+  const lastMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+
+  for (let d = new Date(first.getFullYear(), first.getMonth(), 1); d <= lastMonth; d = new Date(d.getFullYear(), d.getMonth() + 1, 1)) {
+    const monthEnd = new Date(d.getFullYear(), d.getMonth() + 1, 0);
+    months.push(calcPeriodReturn(timeline, d, monthEnd, `${MONTH_NAMES[d.getMonth()]} ${d.getFullYear()}`, 'month', now));
+
+    // Quarters start in April, July, October and January
+    const isQuarterStart = d.getMonth() % 3 === 0 || d.getTime() === new Date(first.getFullYear(), first.getMonth(), 1).getTime();
+    if (isQuarterStart) {
+      const quarterStart = new Date(d.getFullYear(), d.getMonth() - (d.getMonth() % 3), 1);
+      const quarterEnd = new Date(quarterStart.getFullYear(), quarterStart.getMonth() + 3, 0);
+      quarters.push(calcPeriodReturn(timeline, quarterStart, quarterEnd, getFinancialQuarter(d), 'quarter', now));
+    }
+
+    const isYearStart = d.getMonth() === 3 || d.getTime() === new Date(first.getFullYear(), first.getMonth(), 1).getTime();
+    if (isYearStart) {
+      const fyStartYear = d.getMonth() >= 3 ? d.getFullYear() : d.getFullYear() - 1;
+      financialYears.push(calcPeriodReturn(
+        timeline,
+        new Date(fyStartYear, 3, 1),
+        new Date(fyStartYear + 1, 2, 31),
+        getFinancialYear(d),
+        'fy',
+        now
+      ));
+    }
+  }
+
+  return {
+    months: months.reverse(),
+    quarters: quarters.reverse(),
+    financialYears: financialYears.reverse(),
+    inception: calcPeriodReturn(timeline, first, now, 'Since inception', 'inception', now)
+  };
+}
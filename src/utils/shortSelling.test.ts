@@ -0,0 +1,228 @@
+import { Trade, TradeLeg } from '../types/trade';
+import {
+  calcAvgEntry,
+  calcAvgExitPrice,
+  calcPLRs,
+  calcPositionSize,
+  calcRealisedAmount,
+  calcRealizedPL_FIFO,
+  calcStockMove,
+  calcTradeOpenHeat,
+  calcOpenHeat,
+  calcTradeInitialRisk,
+  calcRMultiple,
+  calcUnrealizedPL,
+  calculateDailyPortfolioValues
+} from './tradeCalculations';
+import { calculateTradePL, getExitPLsWithFallback, groupTradesByMonth } from './accountingUtils';
+
+// Short 100 @ 500, add 50 @ 520, cover 80 @ 480, cover the remaining 70 @ 510.
+// FIFO: 80 × (500 − 480) = 1600 on the first cover; 20 × (500 − 510) + 50 × (520 − 510) = 300 on the second.
+const SHORT_LEGS: TradeLeg[] = [
+  { id: 'short-1-entry-0', side: 'entry', date: '2024-01-10', price: 500, qty: 100 },
+  { id: 'short-1-entry-1', side: 'entry', date: '2024-01-15', price: 520, qty: 50 },
+  { id: 'short-1-exit-0', side: 'exit', date: '2024-02-05', price: 480, qty: 80 },
+  { id: 'short-1-exit-1', side: 'exit', date: '2024-03-01', price: 510, qty: 70 }
+];
+
+const AVG_ENTRY = (100 * 500 + 50 * 520) / 150;
+
+const makeTrade = (overrides: Partial<Trade>): Trade => ({
+  id: 'short-1',
+  tradeNo: '1',
+  date: '2024-01-10',
+  name: 'TESTSHORT',
+  entry: 500,
+  avgEntry: AVG_ENTRY,
+  sl: 530,
+  tsl: 0,
+  buySell: 'Sell',
+  cmp: 490,
+  setup: '',
+  baseDuration: '',
+  initialQty: 100,
+  pyramid1Price: 520,
+  pyramid1Qty: 50,
+  pyramid1Date: '2024-01-15',
+  pyramid2Price: 0,
+  pyramid2Qty: 0,
+  pyramid2Date: '',
+  positionSize: 76000,
+  allocation: 0,
+  slPercent: 6,
+  exit1Price: 480,
+  exit1Qty: 80,
+  exit1Date: '2024-02-05',
+  exit2Price: 510,
+  exit2Qty: 70,
+  exit2Date: '2024-03-01',
+  exit3Price: 0,
+  exit3Qty: 0,
+  exit3Date: '',
+  openQty: 0,
+  exitedQty: 150,
+  avgExitPrice: 494,
+  stockMove: 0,
+  openHeat: 0,
+  rewardRisk: 0,
+  holdingDays: 0,
+  positionStatus: 'Closed',
+  realisedAmount: 74100,
+  plRs: 1900,
+  pfImpact: 0,
+  cummPf: 0,
+  planFollowed: true,
+  exitTrigger: '',
+  proficiencyGrowthAreas: '',
+  sector: '',
+  openHeatRisk: 0,
+  notes: '',
+  legs: SHORT_LEGS,
+  ...overrides
+} as Trade);
+
+const closedShort = makeTrade({});
+
+// Same short after the first cover only: 70 still open
+const partialShort = makeTrade({
+  id: 'short-2',
+  legs: SHORT_LEGS.slice(0, 3),
+  exit2Price: 0,
+  exit2Qty: 0,
+  exit2Date: '',
+  openQty: 70,
+  exitedQty: 80,
+  avgExitPrice: 480,
+  positionStatus: 'Partial',
+  plRs: 1600
+});
+
+const dayKey = (date: string) => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+describe('short selling', () => {
+  describe('P/L', () => {
+    it('matches covers FIFO against short entries', () => {
+      expect(calcRealizedPL_FIFO(SHORT_LEGS, 'Sell')).toBeCloseTo(1900, 6);
+      expect(calcRealizedPL_FIFO(SHORT_LEGS.slice(0, 3), 'Sell')).toBeCloseTo(1600, 6);
+    });
+
+    it('treats a cover above the short price as a loss', () => {
+      const legs: TradeLeg[] = [
+        { id: 'a', side: 'entry', date: '2024-01-01', price: 100, qty: 10 },
+        { id: 'b', side: 'exit', date: '2024-01-02', price: 110, qty: 10 }
+      ];
+      expect(calcRealizedPL_FIFO(legs, 'Sell')).toBeCloseTo(-100, 6);
+      expect(calcRealizedPL_FIFO(legs, 'Buy')).toBeCloseTo(100, 6);
+    });
+
+    it('computes P/L from realised amount and cost in the trade direction', () => {
+      expect(calcPLRs(900, 1000, 'Sell')).toBe(100);
+      expect(calcPLRs(900, 1000, 'Buy')).toBe(-100);
+      expect(calcPLRs(900, 1000)).toBe(-100);
+      // 2 lots of 50 shorted at 100 and covered at 90
+      expect(calcPLRs(calcRealisedAmount(2, 90, 50), calcPositionSize(100, 2, 50), 'Sell')).toBe(1000);
+    });
+
+    it('computes unrealized P/L of the open short quantity', () => {
+      expect(calcUnrealizedPL(AVG_ENTRY, 490, 70, 'Sell')).toBeCloseTo((AVG_ENTRY - 490) * 70, 6);
+    });
+  });
+
+  describe('stock move', () => {
+    it('is positive when a closed short was covered below its average entry', () => {
+      const avgExit = calcAvgExitPrice(SHORT_LEGS);
+      expect(avgExit).toBeCloseTo(494, 6);
+      const move = calcStockMove(calcAvgEntry(SHORT_LEGS), avgExit, 0, 0, 150, 'Closed', 'Sell');
+      expect(move).toBeCloseTo(((AVG_ENTRY - 494) / AVG_ENTRY) * 100, 6);
+      expect(move).toBeGreaterThan(0);
+    });
+
+    it('weights realized and unrealized moves for a partial cover', () => {
+      const move = calcStockMove(AVG_ENTRY, 480, 490, 70, 80, 'Partial', 'Sell');
+      const expected = -(((480 - AVG_ENTRY) / AVG_ENTRY) * 100 * 80 + ((490 - AVG_ENTRY) / AVG_ENTRY) * 100 * 70) / 150;
+      expect(move).toBeCloseTo(expected, 6);
+    });
+  });
+
+  describe('open heat', () => {
+    const portfolioSize = () => 100000;
+
+    it('measures risk to a stop above the entry', () => {
+      const heat = calcTradeOpenHeat(partialShort, 100000, portfolioSize);
+      expect(heat).toBeCloseTo(((530 - AVG_ENTRY) * 70 / 100000) * 100, 6);
+    });
+
+    it('has no heat once the stop trails below the short entry', () => {
+      expect(calcTradeOpenHeat({ ...partialShort, tsl: 500 }, 100000, portfolioSize)).toBe(0);
+    });
+
+    it('ignores closed shorts when summing portfolio heat', () => {
+      expect(calcOpenHeat([closedShort, partialShort], 100000, portfolioSize))
+        .toBeCloseTo(calcTradeOpenHeat(partialShort, 100000, portfolioSize), 6);
+    });
+  });
+
+  describe('R-multiple', () => {
+    it('uses the distance from each short entry up to the SL as risk', () => {
+      expect(calcTradeInitialRisk(closedShort)).toBeCloseTo(30 * 100 + 10 * 50, 6);
+    });
+
+    it('is positive for a winning short and includes unrealized P/L while open', () => {
+      expect(calcRMultiple(closedShort)).toBeCloseTo(1900 / 3500, 6);
+      expect(calcRMultiple(partialShort)).toBeCloseTo((1600 + (AVG_ENTRY - 490) * 70) / 3500, 6);
+    });
+
+    it('is negative for a losing short and undefined without a valid SL', () => {
+      expect(calcRMultiple({ ...closedShort, plRs: -700 })).toBeCloseTo(-0.2, 6);
+      expect(calcRMultiple({ ...closedShort, sl: 450 })).toBeNull();
+    });
+  });
+
+  describe('accounting methods', () => {
+    it('attributes FIFO P/L to each cover', () => {
+      expect(getExitPLsWithFallback(closedShort).map(exit => exit.pl)).toEqual([1600, 300]);
+    });
+
+    it('books the whole P/L under accrual and per-cover P/L under cash basis', () => {
+      expect(calculateTradePL(closedShort, false)).toBe(1900);
+
+      const byMonth = groupTradesByMonth([closedShort], true);
+      const feb = byMonth[Object.keys(byMonth).find(key => key.endsWith('2024') && byMonth[key][0]._cashBasisExit?.date === '2024-02-05')!];
+      const mar = byMonth[Object.keys(byMonth).find(key => key.endsWith('2024') && byMonth[key][0]._cashBasisExit?.date === '2024-03-01')!];
+      expect(calculateTradePL(feb[0], true)).toBeCloseTo(1600, 6);
+      expect(calculateTradePL(mar[0], true)).toBeCloseTo(300, 6);
+    });
+
+    it('counts only covered quantity for a partial short under cash basis', () => {
+      expect(calculateTradePL(partialShort, true)).toBeCloseTo(1600, 6);
+      expect(calculateTradePL(partialShort, false)).toBe(1600);
+    });
+
+    it('grows the portfolio on the cover dates under cash basis and on the final cover under accrual', () => {
+      const deposit = [{ date: '2024-01-01', amount: 100000, type: 'deposit' }];
+
+      const cash = calculateDailyPortfolioValues([closedShort], deposit, true);
+      expect(cash.get(dayKey('2024-01-15'))).toBe(100000);
+      expect(cash.get(dayKey('2024-02-05'))).toBeCloseTo(101600, 6);
+      expect(cash.get(dayKey('2024-03-01'))).toBeCloseTo(101900, 6);
+
+      const accrual = calculateDailyPortfolioValues([closedShort], deposit, false);
+      expect(accrual.get(dayKey('2024-02-05'))).toBe(100000);
+      expect(accrual.get(dayKey('2024-03-01'))).toBe(101900);
+    });
+
+    it('does not double count expanded cash basis rows of the same short', () => {
+      const deposit = [{ date: '2024-01-01', amount: 100000, type: 'deposit' }];
+      const rows = [
+        { ...closedShort, id: 'short-1_exit_0', _cashBasisExit: { date: '2024-02-05', qty: 80, price: 480 } },
+        { ...closedShort, id: 'short-1_exit_1', _cashBasisExit: { date: '2024-03-01', qty: 70, price: 510 } }
+      ];
+      const cash = calculateDailyPortfolioValues(rows, deposit, true);
+      expect(cash.get(dayKey('2024-03-01'))).toBeCloseTo(101900, 6);
+    });
+  });
+});
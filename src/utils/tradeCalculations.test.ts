@@ -0,0 +1,222 @@
+import { TradeLeg } from '../types/trade';
+import { buildMockTradeFixtures, getMockTradeFixture } from '../data/mock-trade-fixtures';
+import {
+  calcAvgEntry,
+  calcAvgExitPrice,
+  calcPositionSize,
+  calcAllocation,
+  calcSLPercent,
+  calcStockMove,
+  calcRewardRisk,
+  calcHoldingDays,
+  calcRealizedPL_FIFO,
+  matchLotsFIFO,
+  calcUnrealizedPL,
+  calcXIRR,
+  calculateDailyPortfolioValues,
+  calculateDailyReturns,
+  calculateStandardDeviation,
+  calculateMaxDrawdown,
+  calculateDownsideDeviation,
+  calculateSharpeRatio,
+  calculateSortinoRatio,
+  calculateCalmarRatio,
+  annualizeMetric
+} from './tradeCalculations';
+
+const dayKey = (date: string) => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+const DEPOSIT = [{ date: '2024-05-01', amount: 100000, type: 'deposit' }];
+
+describe('tradeCalculations', () => {
+  describe('prices and sizes', () => {
+    it('weights the average entry by quantity across pyramids', () => {
+      const t001 = getMockTradeFixture('T001');
+      expect(calcAvgEntry(t001.legs)).toBeCloseTo((10 * 1650.75 + 5 * 1670) / 15, 10);
+      expect(calcAvgEntry(getMockTradeFixture('T002').legs)).toBeCloseTo(2869.25, 10);
+    });
+
+    it('ignores exit legs in the entry average and entry legs in the exit average', () => {
+      const t005 = getMockTradeFixture('T005');
+      expect(calcAvgEntry(t005.legs)).toBeCloseTo(956.15, 10);
+      expect(calcAvgExitPrice(t005.legs)).toBeCloseTo(980.375, 10);
+      expect(calcAvgExitPrice(getMockTradeFixture('T004').legs)).toBe(0);
+    });
+
+    it('rounds the position size and derives allocation and SL %', () => {
+      expect(calcPositionSize(2869.25, 10)).toBe(28693);
+      expect(calcAllocation(28693, 100000)).toBeCloseTo(28.693, 10);
+      expect(calcAllocation(28693, 0)).toBe(0);
+      expect(calcSLPercent(2780, 2850.5)).toBeCloseTo(2.4732503, 6);
+      expect(calcSLPercent(0, 2850.5)).toBe(0);
+    });
+  });
+
+  describe('FIFO realized P/L', () => {
+    const golden: Record<string, number> = {
+      T001: 197.5,
+      T002: 810,
+      T003: -196,
+      T004: 0,
+      T005: 484.5
+    };
+
+    Object.entries(golden).forEach(([tradeNo, pl]) => {
+      it(`matches the golden value for ${tradeNo}`, () => {
+        const trade = getMockTradeFixture(tradeNo);
+        expect(calcRealizedPL_FIFO(trade.legs, trade.buySell as 'Buy' | 'Sell')).toBeCloseTo(pl, 6);
+      });
+    });
+
+    it('consumes entry lots in order across exits', () => {
+      const matches = matchLotsFIFO(getMockTradeFixture('T005').legs, 'Buy');
+      expect(matches.map(m => [m.entry.price, m.exit.price, m.qty])).toEqual([
+        [950.25, 975.5, 10],
+        [950.25, 985.25, 2],
+        [965, 985.25, 8]
+      ]);
+      expect(matches.map(m => m.pl)).toEqual([252.5, 70, 162]);
+    });
+
+    it('stops matching when exits exceed entries', () => {
+      const legs: TradeLeg[] = [
+        { id: 'e', side: 'entry', date: '2024-01-01', price: 100, qty: 5 },
+        { id: 'x', side: 'exit', date: '2024-01-02', price: 110, qty: 8 }
+      ];
+      expect(calcRealizedPL_FIFO(legs, 'Buy')).toBe(50);
+    });
+  });
+
+  describe('moves and reward:risk', () => {
+    it('computes stock move for closed, open and partial positions', () => {
+      expect(calcStockMove(1450.25, 1425.75, 0, 0, 8, 'Closed')).toBeCloseTo(-1.6893639, 6);
+      expect(calcStockMove(3750.5, 0, 3780.25, 3, 0, 'Open')).toBeCloseTo(0.7932276, 6);
+      const t001 = getMockTradeFixture('T001');
+      expect(calcStockMove(t001.avgEntry, 1690.25, 1680.5, 10, 5, 'Partial'))
+        .toBeCloseTo(((1690.25 - t001.avgEntry) * 5 + (1680.5 - t001.avgEntry) * 10) / t001.avgEntry / 15 * 100, 6);
+    });
+
+    it('returns zero stock move for missing prices', () => {
+      expect(calcStockMove(0, 100, 100, 1, 0, 'Open')).toBe(0);
+      expect(calcStockMove(100, 0, 0, 0, 1, 'Closed')).toBe(0);
+    });
+
+    it('computes reward:risk against the SL distance', () => {
+      expect(calcRewardRisk(0, 1450.25, 1420, 'Closed', 1425.75, 0, 8)).toBeCloseTo(24.5 / 30.25, 6);
+      expect(calcRewardRisk(3800, 3750.5, 3700, 'Open', 0, 3, 0)).toBeCloseTo(49.5 / 50.5, 6);
+      expect(calcRewardRisk(3800, 3750.5, 3750.5, 'Open', 0, 3, 0)).toBe(0);
+    });
+
+    it('computes unrealized P/L on the open quantity', () => {
+      expect(calcUnrealizedPL(3750.5, 3780.25, 3, 'Buy')).toBeCloseTo(89.25, 6);
+      expect(calcUnrealizedPL(3750.5, 3780.25, 0, 'Buy')).toBe(0);
+    });
+  });
+
+  describe('weighted holding days', () => {
+    it('weights FIFO-matched periods by quantity', () => {
+      // T002: 5 held 7 days, 3 held 5 days, 2 held 3 days -> 5.6
+      expect(calcHoldingDays(getMockTradeFixture('T002').legs, 'calendar')).toBe(6);
+      // T005: 10 held 8 days, 2 held 12 days, 8 held 10 days -> 9.2
+      expect(calcHoldingDays(getMockTradeFixture('T005').legs, 'calendar')).toBe(9);
+    });
+
+    it('counts trading sessions by default', () => {
+      // T002: 28 May -> 4 Jun is 5 sessions, 30 May -> 4 Jun 3, 1 Jun (Sat) -> 4 Jun 2 -> 3.8
+      expect(calcHoldingDays(getMockTradeFixture('T002').legs)).toBe(4);
+      // T005: 10 held 20 -> 28 May (6 sessions), 2 held 20 May -> 1 Jun (9), 8 held 22 May -> 1 Jun (7) -> 6.7
+      expect(calcHoldingDays(getMockTradeFixture('T005').legs)).toBe(7);
+    });
+
+    it('counts a same-day round trip as one day', () => {
+      const legs: TradeLeg[] = [
+        { id: 'e', side: 'entry', date: '2024-01-01', price: 100, qty: 5 },
+        { id: 'x', side: 'exit', date: '2024-01-01', price: 101, qty: 5 }
+      ];
+      expect(calcHoldingDays(legs)).toBe(1);
+    });
+
+    it('returns zero without dated entries', () => {
+      expect(calcHoldingDays([])).toBe(0);
+    });
+  });
+
+  describe('XIRR', () => {
+    it('annualizes a single-period return over a 366-day year', () => {
+      expect(calcXIRR(new Date('2024-01-01'), 1000, new Date('2025-01-01'), 1100, [])).toBeCloseTo(9.9713586, 5);
+    });
+
+    it('accounts for intermediate capital changes', () => {
+      const xirr = calcXIRR(new Date('2024-01-01'), 1000, new Date('2025-01-01'), 1150, [
+        { date: new Date('2024-07-01'), amount: -100 }
+      ]);
+      expect(xirr).toBeCloseTo(4.7499851, 5);
+    });
+
+    it('solves large short-period losses where Newton steps past -100%', () => {
+      const xirr = calcXIRR(new Date('2024-04-01'), 100000, new Date('2024-04-30'), 198000, [
+        { date: new Date('2024-04-20'), amount: -110000 }
+      ]);
+      expect(xirr).toBeGreaterThan(-100);
+      expect(xirr).toBeLessThan(-50);
+    });
+
+    it('returns zero when there is no sign change in cash flows', () => {
+      expect(calcXIRR(new Date('2024-01-01'), 0, new Date('2025-01-01'), 1100, [])).toBe(0);
+    });
+  });
+
+  describe('portfolio series and risk ratios', () => {
+    const trades = buildMockTradeFixtures();
+    const values = calculateDailyPortfolioValues(trades, DEPOSIT, false);
+    const returns = Array.from(calculateDailyReturns(values).values());
+
+    it('books realized P/L on the last exit date under accrual', () => {
+      expect(values.get(dayKey('2024-05-01'))).toBe(100000);
+      expect(values.get(dayKey('2024-05-27'))).toBe(99804);
+      expect(values.get(dayKey('2024-05-28'))).toBe(99804);
+      expect(values.get(dayKey('2024-06-01'))).toBeCloseTo(100288.5, 6);
+      expect(values.get(dayKey('2024-06-05'))).toBeCloseTo(101296, 6);
+    });
+
+    it('books each exit on its own date under cash basis', () => {
+      const cash = calculateDailyPortfolioValues(trades, DEPOSIT, true);
+      expect(cash.get(dayKey('2024-05-28'))).toBeCloseTo(100056.5, 6);
+      expect(cash.get(dayKey('2024-06-05'))).toBeCloseTo(101296, 6);
+    });
+
+    it('derives daily returns, volatility and drawdown', () => {
+      expect(returns).toHaveLength(11);
+      expect(returns[3]).toBeCloseTo(-0.00196, 10);
+      expect(calculateStandardDeviation(returns)).toBeCloseTo(0.0028508069, 9);
+      expect(calculateDownsideDeviation(returns)).toBeCloseTo(0.0005909622, 9);
+      expect(calculateMaxDrawdown(values)).toBeCloseTo(0.00196, 10);
+    });
+
+    it('handles degenerate inputs', () => {
+      expect(calculateStandardDeviation([0.01])).toBe(0);
+      expect(calculateDownsideDeviation([])).toBe(0);
+      expect(calculateMaxDrawdown(new Map())).toBe(0);
+      expect(calculateDailyReturns(new Map([[1, 100]])).size).toBe(0);
+    });
+
+    it('computes Sharpe, Sortino and Calmar ratios', () => {
+      expect(calculateSharpeRatio(0.2, 0.06, 0.14)).toBeCloseTo(1, 10);
+      expect(calculateSharpeRatio(0.2, 0.06, 0)).toBe(0);
+      expect(calculateSortinoRatio(0.2, 0.06, 0.07)).toBeCloseTo(2, 10);
+      expect(calculateSortinoRatio(0.2, 0.06, 0)).toBe(0);
+      expect(calculateCalmarRatio(0.3, 0.15)).toBeCloseTo(2, 10);
+      expect(calculateCalmarRatio(0.3, 0)).toBe(999);
+      expect(calculateCalmarRatio(-0.1, 0)).toBe(0);
+    });
+
+    it('annualizes daily volatility by the square root of trading days', () => {
+      expect(annualizeMetric(0.01)).toBeCloseTo(0.01 * Math.sqrt(252), 12);
+      expect(annualizeMetric(0.01, 12)).toBeCloseTo(0.01 * Math.sqrt(12), 12);
+    });
+  });
+});
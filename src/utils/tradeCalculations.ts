@@ -1,13 +1,29 @@
 // Trade calculation utilities
+import { Trade, TradeLeg } from '../types/trade';
+import { getTradeLegs, getEntryLegs, entryLegLabel } from './tradeLegs';
+import { getContractMultiplier } from './derivatives';
+import { HoldingDaysBasis, countTradingDays, loadMarketCalendarSettings } from './marketCalendar';
 
-export function calcAvgEntry(entries: { price: number, qty: number }[]) {
+// A priced quantity, optionally tagged with the leg side it came from
+export type PricedLot = { price: number; qty: number; side?: TradeLeg['side'] };
+
+/**
+ * Weighted average entry price
+ * @param legs - Trade legs (exit legs are ignored) or plain { price, qty } entry lots
+ */
+export function calcAvgEntry(legs: PricedLot[]) {
+  const entries = legs.filter(e => e.side !== 'exit' && e.qty > 0 && e.price > 0);
   const totalQty = entries.reduce((sum, e) => sum + e.qty, 0);
   const totalValue = entries.reduce((sum, e) => sum + e.price * e.qty, 0);
   return totalQty ? totalValue / totalQty : 0;
 }
 
-export function calcPositionSize(avgEntry: number, totalQty: number) {
-  return Math.round(avgEntry * totalQty);
+/**
+ * Position size in ₹
+ * @param multiplier - Contract multiplier (lot size) when the quantity is in F&O lots
+ */
+export function calcPositionSize(avgEntry: number, totalQty: number, multiplier: number = 1) {
+  return Math.round(avgEntry * totalQty * multiplier);
 }
 
 export function calcAllocation(positionSize: number, portfolioSize: number) {
@@ -27,7 +43,12 @@ export function calcExitedQty(...exitQtys: number[]) {
   return exitQtys.reduce((sum, qty) => sum + qty, 0);
 }
 
-export function calcAvgExitPrice(exits: { price: number, qty: number }[]) {
+/**
+ * Weighted average exit price
+ * @param legs - Trade legs (entry legs are ignored) or plain { price, qty } exit lots
+ */
+export function calcAvgExitPrice(legs: PricedLot[]) {
+  const exits = legs.filter(e => e.side !== 'entry' && e.qty > 0 && e.price > 0);
   const totalQty = exits.reduce((sum, e) => sum + e.qty, 0);
   const totalValue = exits.reduce((sum, e) => sum + e.price * e.qty, 0);
   return totalQty ? totalValue / totalQty : 0;
@@ -119,120 +140,113 @@ export function calcRewardRisk(
   return Math.abs(reward / risk);
 }
 
-interface TradeLeg {
+interface HoldingPeriod {
   entryDate: string;
   exitDate?: string | null;
   quantity: number;
 }
 
 /**
- * Calculate weighted average holding days for a trade with multiple entries and exits
- * @param trades - Array of trade legs with entryDate, exitDate, and quantity
- * @returns Weighted average holding days across all legs
+ * Calculate weighted average holding days for a set of matched entry/exit quantities
+ * @param periods - Array of holding periods with entryDate, exitDate, and quantity
+ * @param basis - Count trading sessions (skipping weekends and exchange holidays) or calendar days
+ * @returns Weighted average holding days across all periods
  */
-function calculateWeightedHoldingDays(trades: TradeLeg[]): number {
-  if (!trades.length) return 0;
+function calculateWeightedHoldingDays(periods: HoldingPeriod[], basis: HoldingDaysBasis): number {
+  if (!periods.length) return 0;
   
   let totalDays = 0;
   let totalQuantity = 0;
   
-  for (const trade of trades) {
-    if (!trade.entryDate) continue;
+  for (const period of periods) {
+    if (!period.entryDate) continue;
     
-    const entryDate = new Date(trade.entryDate);
+    const entryDate = new Date(period.entryDate);
     if (isNaN(entryDate.getTime())) continue;
     
-    const exitDate = trade.exitDate ? new Date(trade.exitDate) : new Date();
-    if (trade.exitDate && isNaN(exitDate.getTime())) continue;
+    const exitDate = period.exitDate ? new Date(period.exitDate) : new Date();
+    if (period.exitDate && isNaN(exitDate.getTime())) continue;
     
     // Normalize dates to start of day
     entryDate.setHours(0, 0, 0, 0);
     exitDate.setHours(0, 0, 0, 0);
     
-    const daysHeld = Math.max(1, Math.ceil((exitDate.getTime() - entryDate.getTime()) / (1000 * 60 * 60 * 24)));
-    totalDays += daysHeld * trade.quantity;
-    totalQuantity += trade.quantity;
+    const daysHeld = Math.max(1, basis === 'trading'
+      ? countTradingDays(period.entryDate, period.exitDate || exitDate)
+      : Math.ceil((exitDate.getTime() - entryDate.getTime()) / (1000 * 60 * 60 * 24)));
+    totalDays += daysHeld * period.quantity;
+    totalQuantity += period.quantity;
   }
   
   return totalQuantity > 0 ? Math.round(totalDays / totalQuantity) : 0;
 }
 
 /**
- * Calculate holding days between entry and exit dates, supporting multiple entries and exits
- * @param entryDate - Initial entry date in ISO format (YYYY-MM-DD)
- * @param exitDate - Final exit date in ISO format (YYYY-MM-DD) or null/undefined for open positions
- * @param pyramidDates - Array of additional entry dates (P1, P2, etc.) with quantities
- * @param exitDates - Array of exit dates (E1, E2, etc.) with quantities
- * @returns Weighted average holding days across all positions
+ * Calculate quantity-weighted holding days across all legs of a trade.
+ * Exits are matched to entries FIFO; quantity that is still open is held until today.
+ * Exit legs without a date reduce the open quantity but do not contribute a period.
+ * @param legs - Trade legs with side, date and qty
+ * @param basis - Trading or calendar days; defaults to the market calendar setting
+ * @returns Weighted average holding days across all matched quantities
  */
 export function calcHoldingDays(
-  entryDate: string, 
-  exitDate?: string | null,
-  pyramidDates: {date: string, qty: number}[] = [],
-  exitDates: {date: string, qty: number}[] = []
+  legs: Array<Pick<TradeLeg, 'side' | 'date' | 'qty'>>,
+  basis: HoldingDaysBasis = loadMarketCalendarSettings().holdingDaysBasis
 ): number {
   try {
-    if (!entryDate) return 0;
-    
-    // Create trade legs for initial entry
-    const tradeLegs: TradeLeg[] = [];
-    
-    // Add initial entry
-    tradeLegs.push({
-      entryDate,
-      exitDate: exitDate || null,
-      quantity: 1 // Base quantity, will be adjusted by pyramid entries
-    });
-    
-    // Add pyramid entries
-    for (const p of pyramidDates) {
-      if (!p.date) continue;
-      tradeLegs.push({
-        entryDate: p.date,
-        exitDate: exitDate || null,
-        quantity: p.qty || 1
-      });
-    }
-    
-    // If we have exit dates, distribute them across the trade legs
-    if (exitDates.length > 0) {
-      // Sort exits by date to process first exit first
-      const sortedExits = [...exitDates].sort((a, b) => 
-        new Date(a.date).getTime() - new Date(b.date).getTime()
-      );
-      
-      // Distribute exits to trade legs (FIFO - First In First Out)
-      let remainingExits = [...sortedExits];
-      
-      for (const leg of tradeLegs) {
-        if (remainingExits.length === 0) break;
-        
-        const exit = remainingExits[0];
-        leg.exitDate = exit.date;
-        
-        // Reduce the exit quantity from this leg's quantity
-        const exitQty = Math.min(leg.quantity, exit.qty);
-        exit.qty -= exitQty;
-        
-        // If this exit is fully used, remove it
-        if (exit.qty <= 0) {
-          remainingExits.shift();
+    const byDate = (a: { date: string }, b: { date: string }) =>
+      new Date(a.date).getTime() - new Date(b.date).getTime();
+
+    const lots = legs
+      .filter(l => l.side === 'entry' && l.date && Number(l.qty) > 0)
+      .map(l => ({ date: l.date, qty: Number(l.qty) }))
+      .sort(byDate);
+    if (lots.length === 0) return 0;
+
+    const datedExits = legs
+      .filter(l => l.side === 'exit' && l.date && Number(l.qty) > 0)
+      .sort(byDate);
+    const undatedExits = legs.filter(l => l.side === 'exit' && !l.date && Number(l.qty) > 0);
+
+    const periods: HoldingPeriod[] = [];
+
+    // Distribute exits to entry lots (FIFO - First In First Out)
+    for (const exit of [...datedExits, ...undatedExits]) {
+      let remaining = Number(exit.qty);
+      while (remaining > 0 && lots.length > 0) {
+        const lot = lots[0];
+        const matchedQty = Math.min(lot.qty, remaining);
+        if (exit.date) {
+          periods.push({ entryDate: lot.date, exitDate: exit.date, quantity: matchedQty });
         }
+        lot.qty -= matchedQty;
+        remaining -= matchedQty;
+        if (lot.qty <= 0) lots.shift();
       }
     }
-    
-    return calculateWeightedHoldingDays(tradeLegs);
+
+    // Whatever is still open is held until today
+    for (const lot of lots) {
+      periods.push({ entryDate: lot.date, exitDate: null, quantity: lot.qty });
+    }
+
+    return calculateWeightedHoldingDays(periods, basis);
   } catch (error) {
     return 0;
   }
 }
 
-export function calcRealisedAmount(exitedQty: number, avgExit: number) {
-  return exitedQty * avgExit;
+export function calcRealisedAmount(exitedQty: number, avgExit: number, multiplier: number = 1) {
+  return exitedQty * avgExit * multiplier;
 }
 
-export function calcPLRs(realisedAmount: number, positionSize: number) {
-  return realisedAmount - positionSize;
+/**
+ * P/L from the realised (exit) value and the cost of the same quantity.
+ * Both amounts must already include the contract multiplier of F&O trades.
+ * @param buySell - Shorts profit when they buy back for less than they sold
+ */
+export function calcPLRs(realisedAmount: number, positionSize: number, buySell: 'Buy' | 'Sell' = 'Buy') {
+  return buySell === 'Sell' ? positionSize - realisedAmount : realisedAmount - positionSize;
 }
 
 export function calcPFImpact(plRs: number, portfolioValue: number) {
@@ -278,7 +292,7 @@ export function calcTradeOpenHeat(trade, defaultPortfolioSize, getPortfolioSize)
   const entryPrice = trade.avgEntry || trade.entry || 0;
   const sl = trade.sl || 0;
   const tsl = trade.tsl || 0;
-  const qty = trade.openQty || 0;
+  const qty = (trade.openQty || 0) * getContractMultiplier(trade);
   let stop = 0;
   if (tsl > 0 && sl > 0) {
     stop = tsl; // Both entered, use TSL
@@ -367,6 +381,11 @@ function calculateXIRR(dates: Date[], cashFlows: number[], guess = 0.1): number
     if (Math.abs(newRate - rate) < EPSILON) {
       return newRate;
     }
+
+    // Steps below -100% (large losses over short periods) cannot recover
+    if (!isFinite(newRate) || newRate <= -1) {
+      return calculateXIRRByBisection(dates, cashFlows);
+    }
     
     rate = newRate;
   }
@@ -374,6 +393,33 @@ function calculateXIRR(dates: Date[], cashFlows: number[], guess = 0.1): number
   return rate;
 }
 
+// Fallback when Newton's method diverges: the rate lies between -100% and a growing upper bound
+function calculateXIRRByBisection(dates: Date[], cashFlows: number[]): number {
+  let low = -0.999999;
+  let high = 1;
+  const npvLow = calculateNPV(low, dates, cashFlows);
+  while (high < 1e6 && Math.sign(calculateNPV(high, dates, cashFlows)) === Math.sign(npvLow)) {
+    high *= 10;
+  }
+  if (Math.sign(calculateNPV(high, dates, cashFlows)) === Math.sign(npvLow)) {
+    return 0;
+  }
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = calculateNPV(mid, dates, cashFlows);
+    if (Math.abs(npvMid) < 0.0000001 || high - low < 1e-10) {
+      return mid;
+    }
+    if (Math.sign(npvMid) === Math.sign(npvLow)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
 export function calcXIRR(
   startDate: Date,
   startingCapital: number,
@@ -400,47 +446,73 @@ export function calcXIRR(
  * @param cmp - current market price
  * @param openQty - open quantity
  * @param buySell - 'Buy' or 'Sell'
+ * @param multiplier - Contract multiplier (lot size) when the quantity is in F&O lots
  * @returns Unrealized P/L for the open quantity
  */
-export function calcUnrealizedPL(avgEntry: number, cmp: number, openQty: number, buySell: 'Buy' | 'Sell'): number {
+export function calcUnrealizedPL(avgEntry: number, cmp: number, openQty: number, buySell: 'Buy' | 'Sell', multiplier: number = 1): number {
   if (!openQty || !avgEntry || !cmp) return 0;
   if (buySell === 'Buy') {
-    return (cmp - avgEntry) * openQty;
+    return (cmp - avgEntry) * openQty * multiplier;
   } else {
-    return (avgEntry - cmp) * openQty;
+    return (avgEntry - cmp) * openQty * multiplier;
   }
 }
 
+/** One exit quantity matched against one entry lot */
+export interface MatchedLot<T extends PricedLot = PricedLot> {
+  entry: T;
+  exit: T;
+  qty: number;
+  pl: number;
+}
+
 /**
- * Calculate realized P/L using FIFO logic for multiple entries and exits.
- * @param entries - Array of { price, qty } for each entry lot (in order)
- * @param exits - Array of { price, qty } for each exit lot (in order)
+ * Match exit legs against entry lots using FIFO.
+ * @param legs - Trade legs; entry legs are consumed in stored order by exit legs in stored order
  * @param buySell - 'Buy' or 'Sell'
- * @returns Realized P/L for all exited quantity using FIFO
+ * @param multiplier - Contract multiplier (lot size) when the quantities are in F&O lots
+ * @returns Every (entry, exit) pair with the matched quantity and its P/L
  */
-export function calcRealizedPL_FIFO(
-  entries: { price: number, qty: number }[],
-  exits: { price: number, qty: number }[],
-  buySell: 'Buy' | 'Sell'
-): number {
-  let entryLots = entries.map(e => ({ ...e })); // clone to avoid mutation
-  let totalPL = 0;
+export function matchLotsFIFO<T extends PricedLot>(
+  legs: T[],
+  buySell: 'Buy' | 'Sell',
+  multiplier: number = 1
+): MatchedLot<T>[] {
+  const entryLots = legs
+    .filter(l => l.side === 'entry' && l.qty > 0 && l.price > 0)
+    .map(l => ({ leg: l, qty: l.qty })); // track remaining qty without mutating legs
+  const exits = legs.filter(l => l.side === 'exit' && l.qty > 0 && l.price > 0);
+  const matches: MatchedLot<T>[] = [];
   for (const exit of exits) {
     let remainingExitQty = exit.qty;
     while (remainingExitQty > 0 && entryLots.length > 0) {
       const lot = entryLots[0];
       const qtyToUse = Math.min(lot.qty, remainingExitQty);
-      if (buySell === 'Buy') {
-        totalPL += qtyToUse * (exit.price - lot.price);
-      } else {
-        totalPL += qtyToUse * (lot.price - exit.price);
-      }
+      const pl = (buySell === 'Buy'
+        ? qtyToUse * (exit.price - lot.leg.price)
+        : qtyToUse * (lot.leg.price - exit.price)) * multiplier;
+      matches.push({ entry: lot.leg, exit, qty: qtyToUse, pl });
       lot.qty -= qtyToUse;
       remainingExitQty -= qtyToUse;
       if (lot.qty === 0) entryLots.shift();
     }
   }
-  return totalPL;
+  return matches;
+}
+
+/**
+ * Calculate realized P/L using FIFO logic for multiple entries and exits.
+ * @param legs - Trade legs; entry legs are consumed in stored order by exit legs in stored order
+ * @param buySell - 'Buy' or 'Sell'
+ * @param multiplier - Contract multiplier (lot size) when the quantities are in F&O lots
+ * @returns Realized P/L for all exited quantity using FIFO
+ */
+export function calcRealizedPL_FIFO(
+  legs: PricedLot[],
+  buySell: 'Buy' | 'Sell',
+  multiplier: number = 1
+): number {
+  return matchLotsFIFO(legs, buySell, multiplier).reduce((total, match) => total + match.pl, 0);
 }
 
 interface EntryMove {
@@ -489,8 +561,7 @@ interface EntryMove {
  * Calculate the weighted average Reward:Risk (R:R) for a trade, using per-entry breakdown and TSL/SL logic.
  * This matches the logic in trade-journal.tsx for consistency across analytics.
  */
-import { Trade } from '../types/trade';
-import { calculateTradePL } from './accountingUtils';
+import { calculateTradePL, getExitDatesWithFallback, getExitPLsWithFallback } from './accountingUtils';
 export function calcWeightedRewardRisk(trade: Trade): number {
   const entry = Number(trade.entry);
   const sl = Number(trade.sl);
@@ -502,11 +573,9 @@ export function calcWeightedRewardRisk(trade: Trade): number {
   const exitedQty = Number(trade.exitedQty);
   const openQty = Number(trade.openQty);
   // Gather all entry lots
-  const entries = [
-    { label: 'Initial Entry', price: Number(trade.entry), qty: Number(trade.initialQty) },
-    { label: 'Pyramid 1', price: Number(trade.pyramid1Price), qty: Number(trade.pyramid1Qty) },
-    { label: 'Pyramid 2', price: Number(trade.pyramid2Price), qty: Number(trade.pyramid2Qty) }
-  ].filter(e => e.price > 0 && e.qty > 0);
+  const entries = getEntryLegs(getTradeLegs(trade))
+    .map((leg, i) => ({ label: entryLegLabel(i), price: Number(leg.price), qty: Number(leg.qty) }))
+    .filter(e => e.price > 0 && e.qty > 0);
   const totalQtyAll = entries.reduce((sum, e) => sum + (e.qty || 0), 0);
   const entryBreakdown = entries.map(e => {
     // For initial entry, always use SL; for pyramids, use TSL if set and > 0, otherwise SL
@@ -516,7 +585,7 @@ export function calcWeightedRewardRisk(trade: Trade): number {
     } else {
       stop = tsl > 0 ? tsl : sl;
     }
-    const rawRisk = e.price - stop; // For Buy
+    const rawRisk = buySell === 'Sell' ? stop - e.price : e.price - stop;
     const risk = Math.abs(rawRisk); // For R:R calculation
     let reward = 0;
     if (positionStatus === 'Open') {
@@ -540,6 +609,41 @@ export function calcWeightedRewardRisk(trade: Trade): number {
   return weightedRR;
 }
 
+/**
+ * Initial risk of a trade in ₹: the loss if every entry leg were stopped out at the SL.
+ * Legs whose SL is on the wrong side of the entry (above it for longs, below it for shorts) carry no risk.
+ */
+export function calcTradeInitialRisk(trade: Trade): number {
+  const sl = Number(trade.sl) || 0;
+  if (sl <= 0) return 0;
+  const isShort = trade.buySell === 'Sell';
+  const multiplier = getContractMultiplier(trade);
+
+  return getEntryLegs(getTradeLegs(trade)).reduce((sum, leg) => {
+    const price = Number(leg.price) || 0;
+    const qty = Number(leg.qty) || 0;
+    if (price <= 0 || qty <= 0) return sum;
+    const perShare = isShort ? sl - price : price - sl;
+    return sum + Math.max(0, perShare) * qty * multiplier;
+  }, 0);
+}
+
+/**
+ * R-multiple of a trade: realized P/L plus unrealized P/L on the open quantity at CMP,
+ * divided by the initial risk. Negative for losers, in either direction.
+ * @returns null when the trade has no defined risk
+ */
+export function calcRMultiple(trade: Trade): number | null {
+  const risk = calcTradeInitialRisk(trade);
+  if (risk <= 0) return null;
+  const buySell = trade.buySell === 'Sell' ? 'Sell' : 'Buy';
+  const realized = Number(trade.plRs) || 0;
+  const unrealized = trade.positionStatus === 'Closed'
+    ? 0
+    : calcUnrealizedPL(Number(trade.avgEntry) || 0, Number(trade.cmp) || 0, Number(trade.openQty) || 0, buySell, getContractMultiplier(trade));
+  return (realized + unrealized) / risk;
+}
+
 // Function to get a sorted list of unique dates from trades
 export function getUniqueSortedDates(trades: any[]): Date[] {
   const dates = new Set<number>(); // Use Set to store unique timestamps
@@ -552,34 +656,13 @@ export function getUniqueSortedDates(trades: any[]): Date[] {
       dates.add(d.getTime());
     }
 
-    // Add pyramid dates
-    if (trade.pyramid1Date) {
-      const d = new Date(trade.pyramid1Date);
-      d.setHours(0, 0, 0, 0);
-      dates.add(d.getTime());
-    }
-    if (trade.pyramid2Date) {
-      const d = new Date(trade.pyramid2Date);
-      d.setHours(0, 0, 0, 0);
-      dates.add(d.getTime());
-    }
-
-    // Add exit dates
-    if (trade.exit1Date) {
-      const d = new Date(trade.exit1Date);
-      d.setHours(0, 0, 0, 0);
-      dates.add(d.getTime());
-    }
-    if (trade.exit2Date) {
-      const d = new Date(trade.exit2Date);
-      d.setHours(0, 0, 0, 0);
-      dates.add(d.getTime());
-    }
-    if (trade.exit3Date) {
-      const d = new Date(trade.exit3Date);
+    // Add every leg date (pyramids and exits)
+    getTradeLegs(trade).forEach(leg => {
+      if (!leg.date) return;
+      const d = new Date(leg.date);
       d.setHours(0, 0, 0, 0);
       dates.add(d.getTime());
-    }
+    });
   });
 
   // Convert timestamps back to Date objects and sort them
@@ -590,6 +673,47 @@ export function getUniqueSortedDates(trades: any[]): Date[] {
   return sortedDates;
 }
 
+export interface RealizedPLEvent {
+  tradeId: string; // Original trade id
+  name: string;
+  date: number; // Local midnight
+  pl: number;
+}
+
+/**
+ * Realized P/L of closed and partial trades by day. Accrual books a trade's P/L on its last
+ * exit; cash basis books each exit's FIFO P/L on its own date. Both sum to the same
+ * direction-aware total.
+ */
+export function getRealizedPLEvents(trades: any[], useCashBasis: boolean = false): RealizedPLEvent[] {
+  const events: RealizedPLEvent[] = [];
+  const bookPL = (trade: any, originalId: string, date: string, pl: number) => {
+    const d = new Date(date);
+    if (isNaN(d.getTime())) return;
+    d.setHours(0, 0, 0, 0);
+    events.push({ tradeId: originalId, name: trade.name, date: d.getTime(), pl });
+  };
+  const seenTradeIds = new Set<string>();
+  trades.forEach(trade => {
+    if (trade.positionStatus !== 'Closed' && trade.positionStatus !== 'Partial') return;
+    // Cash basis views contain one row per exit of the same trade
+    const originalId = String(trade.id).split('_exit_')[0];
+    if (seenTradeIds.has(originalId)) return;
+    seenTradeIds.add(originalId);
+
+    if (useCashBasis) {
+      getExitPLsWithFallback(trade).forEach(exit => bookPL(trade, originalId, exit.date, exit.pl));
+    } else {
+      const exitDates = getExitDatesWithFallback(trade).map(exit => exit.date);
+      const exitDate = exitDates.length > 0
+        ? exitDates.sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0]
+        : trade.date; // Fallback to trade date
+      bookPL(trade, originalId, exitDate, calculateTradePL(trade, false));
+    }
+  });
+  return events;
+}
+
 // Function to calculate daily portfolio values
 export function calculateDailyPortfolioValues(trades: any[], capitalChanges: any[], useCashBasis: boolean = false): Map<number, number> {
   const dailyValues = new Map<number, number>(); // Map: timestamp -> portfolio value
@@ -606,21 +730,25 @@ export function calculateDailyPortfolioValues(trades: any[], capitalChanges: any
 
   let currentCashComponent = 0; // Represents the cash portion of the portfolio (cash + realized P/L)
 
-  // Determine initial cash component from the earliest capital change or a default base
+  // Start from the capital changes of the earliest date (applied in the loop below) or a default base
   const initialDate = allRelevantDates[0];
   const initialChange = capitalChanges.find(cc => {
     const d = new Date(cc.date);
     d.setHours(0,0,0,0);
     return d.getTime() === initialDate.getTime();
   });
-  if (initialChange) {
-    currentCashComponent = initialChange.type === 'deposit' ? initialChange.amount : -initialChange.amount;
-  } else {
+  if (!initialChange) {
     // If no initial capital change on the first date, assume a sensible starting point.
     // This helps avoid zero division issues in later calculations if no explicit starting capital is provided.
     currentCashComponent = 1000; 
   }
 
+  // Realized P/L per day
+  const realizedPLByDate = new Map<number, number>();
+  getRealizedPLEvents(trades, useCashBasis).forEach(event => {
+    realizedPLByDate.set(event.date, (realizedPLByDate.get(event.date) || 0) + event.pl);
+  });
+
   // Process each date in chronological order
   for (const date of allRelevantDates) {
     const timestamp = date.getTime();
@@ -634,44 +762,8 @@ export function calculateDailyPortfolioValues(trades: any[], capitalChanges: any
       currentCashComponent += cc.type === 'deposit' ? cc.amount : -cc.amount;
     });
 
-    // Apply P/L from closed and partially closed trades on this date
-    const tradesOnDate = trades.filter(trade => {
-      if (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial') {
-        // Use the same fallback logic as other parts of the app
-        const exitDates = [
-          trade.exit1Date,
-          trade.exit2Date,
-          trade.exit3Date
-        ].filter(date => date && date.trim() !== '');
-
-        const exitDate = exitDates.length > 0
-          ? exitDates.sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0]
-          : trade.date; // Fallback to trade date
-
-        const d = new Date(exitDate);
-        d.setHours(0,0,0,0);
-        return d.getTime() === timestamp;
-      }
-      return false;
-    });
-
-    // For cash basis, deduplicate trades to avoid double counting
-    let uniqueTradesForDate = tradesOnDate;
-    if (useCashBasis) {
-      const seenTradeIds = new Set();
-      uniqueTradesForDate = tradesOnDate.filter(trade => {
-        const originalId = trade.id.split('_exit_')[0];
-        if (seenTradeIds.has(originalId)) return false;
-        seenTradeIds.add(originalId);
-        return true;
-      });
-    }
-
-    uniqueTradesForDate.forEach(trade => {
-      // Use accounting-aware P/L calculation instead of direct plRs
-      const accountingPL = calculateTradePL(trade, useCashBasis);
-      currentCashComponent += accountingPL;
-    });
+    // Apply P/L realized on this date
+    currentCashComponent += realizedPLByDate.get(timestamp) || 0;
 
     // Calculate the total market value of *all open positions* on this date
     dailyValues.set(timestamp, currentCashComponent);
@@ -0,0 +1,79 @@
+import { Trade } from '../types/trade';
+import {
+  buildTradeLevels,
+  buildTradeMarkers,
+  getTradeChartDomain,
+  getTradeChartRange,
+  toTradeChartCandles
+} from './tradeChartData';
+
+const candle = (day: string, open: number, high: number, low: number, close: number) => ({
+  dateTime: new Date(2024, 5, Number(day)).toISOString(),
+  open,
+  high,
+  low,
+  close,
+  volume: 1000,
+  dayVolume: 1000
+});
+
+const trade: Partial<Trade> = {
+  id: 'T1',
+  name: 'TCS',
+  sl: 95,
+  tsl: 104,
+  positionStatus: 'Closed',
+  legs: [
+    { id: 'e0', side: 'entry', date: '2024-06-14', price: 100, qty: 10 },
+    { id: 'e1', side: 'entry', date: '2024-06-17', price: 103, qty: 5 },
+    { id: 'x0', side: 'exit', date: '2024-06-19', price: 110, qty: 15 }
+  ]
+};
+
+describe('tradeChartData', () => {
+  const candles = toTradeChartCandles([
+    candle('19', 108, 112, 107, 111),
+    candle('14', 99, 101, 98, 100),
+    candle('18', 103, 106, 102, 105)
+  ]);
+
+  it('sorts candles oldest first with their [low, high] range', () => {
+    expect(candles.map(c => c.dateKey)).toEqual(['2024-06-14', '2024-06-18', '2024-06-19']);
+    expect(candles[0].range).toEqual([98, 101]);
+  });
+
+  it('pins executions to the first candle on or after their day', () => {
+    const markers = buildTradeMarkers(trade, candles);
+    expect(markers.map(m => [m.kind, m.label, m.candleKey])).toEqual([
+      ['entry', 'Initial Entry', candles[0].key],
+      // 17 Jun 2024 was a holiday: the pyramid is drawn on the next session
+      ['pyramid', 'Pyramid 1', candles[1].key],
+      ['exit', 'Exit 1', candles[2].key]
+    ]);
+  });
+
+  it('draws the stop loss and a distinct trailing stop', () => {
+    expect(buildTradeLevels(trade)).toEqual([
+      { kind: 'sl', label: 'SL', price: 95 },
+      { kind: 'tsl', label: 'TSL', price: 104 }
+    ]);
+    expect(buildTradeLevels({ sl: 95, tsl: 95 })).toHaveLength(1);
+  });
+
+  it('keeps stops and markers inside the price domain', () => {
+    const [min, max] = getTradeChartDomain(candles, buildTradeMarkers(trade, candles), buildTradeLevels(trade))!;
+    expect(min).toBeLessThan(95);
+    expect(max).toBeGreaterThan(112);
+  });
+
+  it('pads the range around the executions and stops at now', () => {
+    const range = getTradeChartRange(trade, '1d', new Date(2024, 11, 31))!;
+    expect(range.from).toEqual(new Date(2024, 3, 30));
+    expect(range.to.getDate()).toBe(4);
+    expect(range.to.getMonth()).toBe(6);
+
+    const now = new Date(2024, 5, 20, 12);
+    expect(getTradeChartRange({ ...trade, positionStatus: 'Open' }, '1d', now)!.to).toEqual(now);
+    expect(getTradeChartRange({ legs: [] })).toBeUndefined();
+  });
+});
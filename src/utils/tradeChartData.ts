@@ -0,0 +1,177 @@
+import { Trade } from '../types/trade';
+import { PriceTick } from './priceTickApi';
+import { toDateKey } from './marketCalendar';
+import { entryLegLabel, getEntryLegs, getExitLegs, getTradeLegs } from './tradeLegs';
+
+// Candles and execution markers of the built-in trade chart.
+//
+// Leg dates are trading days without a time, so markers are pinned to the first candle of
+// their day (the daily candle itself, or the first intraday candle of the session).
+
+export type TradeChartInterval = '1d' | '1h' | '15m';
+
+export const TRADE_CHART_INTERVAL_LABELS: Record<TradeChartInterval, string> = {
+  '1d': 'Daily',
+  '1h': 'Hourly',
+  '15m': '15 min'
+};
+
+export interface TradeChartCandle {
+  key: string; // ISO time of the candle, the x-axis category
+  dateKey: string; // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  /** [low, high], the extent the candle shape is drawn over */
+  range: [number, number];
+}
+
+export type TradeChartMarkerKind = 'entry' | 'pyramid' | 'exit';
+
+export interface TradeChartMarker {
+  id: string;
+  kind: TradeChartMarkerKind;
+  label: string;
+  date: string;
+  price: number;
+  qty: number;
+  /** Key of the candle the marker is drawn on; undefined when no candle covers its day */
+  candleKey?: string;
+}
+
+export interface TradeChartLevel {
+  kind: 'sl' | 'tsl';
+  label: string;
+  price: number;
+}
+
+// Candles shown before the first entry and after the last exit
+const PADDING_DAYS: Record<TradeChartInterval, { before: number; after: number }> = {
+  '1d': { before: 45, after: 15 },
+  '1h': { before: 7, after: 3 },
+  '15m': { before: 2, after: 1 }
+};
+
+const dayStart = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Date range of the candles to load for a trade: padding around its executions, up to now
+ * for open positions. Undefined when the trade has no dated legs.
+ */
+export function getTradeChartRange(
+  trade: Partial<Trade>,
+  interval: TradeChartInterval = '1d',
+  now: Date = new Date()
+): { from: Date; to: Date } | undefined {
+  const dates = getTradeLegs(trade)
+    .map(leg => leg.date)
+    .filter(date => date && !isNaN(new Date(date).getTime()))
+    .map(date => toDateKey(date))
+    .sort();
+  if (dates.length === 0) return undefined;
+
+  const padding = PADDING_DAYS[interval];
+  const from = dayStart(dates[0]);
+  from.setDate(from.getDate() - padding.before);
+
+  let to: Date;
+  if (trade.positionStatus === 'Closed') {
+    to = dayStart(dates[dates.length - 1]);
+    to.setDate(to.getDate() + padding.after);
+    to.setHours(23, 59, 59, 999);
+  } else {
+    to = new Date(now);
+  }
+  if (to.getTime() > now.getTime()) to = new Date(now);
+  if (from.getTime() > to.getTime()) return undefined;
+
+  return { from, to };
+}
+
+/** Chart rows of candles, oldest first */
+export function toTradeChartCandles(candles: PriceTick[]): TradeChartCandle[] {
+  return candles
+    .filter(candle => !isNaN(new Date(candle.dateTime).getTime()) && candle.high > 0)
+    .map(candle => {
+      const time = new Date(candle.dateTime);
+      return {
+        key: time.toISOString(),
+        dateKey: toDateKey(time),
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+        range: [candle.low, candle.high] as [number, number]
+      };
+    })
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Entry, pyramid and exit markers of a trade, pinned to the first candle on or after their day
+ */
+export function buildTradeMarkers(trade: Partial<Trade>, candles: TradeChartCandle[] = []): TradeChartMarker[] {
+  const legs = getTradeLegs(trade);
+
+  const pin = (date: string): string | undefined => {
+    if (!date || isNaN(new Date(date).getTime())) return undefined;
+    const dateKey = toDateKey(date);
+    return candles.find(candle => candle.dateKey >= dateKey)?.key;
+  };
+
+  const entries: TradeChartMarker[] = getEntryLegs(legs).map((leg, index) => ({
+    id: leg.id,
+    kind: index === 0 ? 'entry' : 'pyramid',
+    label: entryLegLabel(index),
+    date: leg.date,
+    price: Number(leg.price || 0),
+    qty: Number(leg.qty || 0),
+    candleKey: pin(leg.date)
+  }));
+  const exits: TradeChartMarker[] = getExitLegs(legs).map((leg, index) => ({
+    id: leg.id,
+    kind: 'exit',
+    label: `Exit ${index + 1}`,
+    date: leg.date,
+    price: Number(leg.price || 0),
+    qty: Number(leg.qty || 0),
+    candleKey: pin(leg.date)
+  }));
+
+  return [...entries, ...exits].filter(marker => marker.price > 0);
+}
+
+/** Stop loss and trailing stop lines; a TSL equal to the SL is drawn once */
+export function buildTradeLevels(trade: Partial<Trade>): TradeChartLevel[] {
+  const levels: TradeChartLevel[] = [];
+  const sl = Number(trade.sl || 0);
+  const tsl = Number(trade.tsl || 0);
+  if (sl > 0) levels.push({ kind: 'sl', label: 'SL', price: sl });
+  if (tsl > 0 && tsl !== sl) levels.push({ kind: 'tsl', label: 'TSL', price: tsl });
+  return levels;
+}
+
+/** Price extent of the chart: every candle, marker and stop line stays visible */
+export function getTradeChartDomain(
+  candles: TradeChartCandle[],
+  markers: TradeChartMarker[],
+  levels: TradeChartLevel[]
+): [number, number] | undefined {
+  const prices = [
+    ...candles.flatMap(candle => [candle.low, candle.high]),
+    ...markers.map(marker => marker.price),
+    ...levels.map(level => level.price)
+  ].filter(price => price > 0);
+  if (prices.length === 0) return undefined;
+
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const pad = (max - min) * 0.05 || max * 0.01;
+  return [Math.max(0, min - pad), max + pad];
+}
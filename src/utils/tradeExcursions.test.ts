@@ -0,0 +1,98 @@
+import { Trade } from '../types/trade';
+import { calcTradeExcursions, getExcursionWindow, needsExcursions, summariseExcursionsBySetup } from './tradeExcursions';
+
+const candle = (day: number, high: number, low: number) => ({
+  dateTime: new Date(2024, 5, day).toISOString(),
+  open: low,
+  high,
+  low,
+  close: high,
+  volume: 0,
+  dayVolume: 0
+});
+
+const candles = [
+  candle(13, 130, 80), // before the entry
+  candle(14, 102, 96),
+  candle(18, 108, 97),
+  candle(19, 115, 106),
+  candle(20, 140, 60) // after the exit
+];
+
+const longTrade = {
+  id: 'T1',
+  name: 'TCS',
+  setup: 'VCP',
+  buySell: 'Buy',
+  sl: 95,
+  positionStatus: 'Closed',
+  plRs: 100,
+  legs: [
+    { id: 'e0', side: 'entry', date: '2024-06-14', price: 100, qty: 10 },
+    { id: 'x0', side: 'exit', date: '2024-06-19', price: 110, qty: 10 }
+  ]
+} as Trade;
+
+describe('tradeExcursions', () => {
+  it('measures a long trade from the entry day to the exit day', () => {
+    const excursions = calcTradeExcursions(longTrade, candles)!;
+    expect(excursions.maePrice).toBe(96);
+    expect(excursions.mfePrice).toBe(115);
+    expect(excursions.maeRs).toBe(40);
+    expect(excursions.mfeRs).toBe(150);
+    expect(excursions.maePercent).toBe(4);
+    expect(excursions.maeR).toBe(0.8);
+    expect(excursions.mfeR).toBe(3);
+    // 10 of the 15 points available were kept
+    expect(excursions.exitEfficiency).toBe(66.7);
+  });
+
+  it('mirrors the excursions of a short trade', () => {
+    const shortTrade = {
+      ...longTrade,
+      buySell: 'Sell',
+      sl: 110,
+      plRs: -80,
+      legs: [
+        { id: 'e0', side: 'entry', date: '2024-06-14', price: 100, qty: 10 },
+        { id: 'x0', side: 'exit', date: '2024-06-19', price: 108, qty: 10 }
+      ]
+    } as Trade;
+    const excursions = calcTradeExcursions(shortTrade, candles)!;
+    expect(excursions.maePrice).toBe(115);
+    expect(excursions.maeR).toBe(1.5);
+    expect(excursions.mfeRs).toBe(40);
+    expect(excursions.exitEfficiency).toBe(-200);
+  });
+
+  it('only measures closed equity trades and re-measures when the window moves', () => {
+    expect(getExcursionWindow(longTrade)).toEqual({ from: '2024-06-14', to: '2024-06-19' });
+    expect(getExcursionWindow({ ...longTrade, positionStatus: 'Partial' })).toBeUndefined();
+    expect(getExcursionWindow({ ...longTrade, instrumentType: 'OPT', lotSize: 50 })).toBeUndefined();
+
+    const measured = { ...longTrade, excursions: calcTradeExcursions(longTrade, candles)! };
+    expect(needsExcursions(longTrade)).toBe(true);
+    expect(needsExcursions(measured)).toBe(false);
+    expect(needsExcursions({
+      ...measured,
+      legs: [measured.legs![0], { ...measured.legs![1], date: '2024-06-20' }]
+    })).toBe(true);
+  });
+
+  it('summarises excursions per setup', () => {
+    const winner = { ...longTrade, excursions: calcTradeExcursions(longTrade, candles)! };
+    const loser = {
+      ...winner,
+      id: 'T2',
+      plRs: -60,
+      excursions: { ...winner.excursions, maeR: 1.2, mfeR: 0.4, exitEfficiency: null }
+    };
+    const [summary] = summariseExcursionsBySetup([winner, loser, { ...longTrade, id: 'T3' }]);
+    expect(summary.setup).toBe('VCP');
+    expect(summary.trades).toBe(2);
+    expect(summary.avgMaeR).toBeCloseTo(1);
+    expect(summary.avgExitEfficiency).toBe(66.7);
+    expect(summary.winnersAvgMaeR).toBe(0.8);
+    expect(summary.losersBeyondStop).toBe(100);
+  });
+});
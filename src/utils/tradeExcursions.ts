@@ -0,0 +1,161 @@
+import { Trade, TradeExcursions } from '../types/trade';
+import { PriceTick } from './priceTickApi';
+import { fetchPriceTicksFromProvider } from './priceProviders';
+import { ticksToCandles } from './candleCache';
+import { toDateKey } from './marketCalendar';
+import { isDerivative, getContractMultiplier } from './derivatives';
+import { getEntryLegs, getLatestExitDate, getTradeLegs } from './tradeLegs';
+import { calcAvgEntry, calcAvgExitPrice, calcTradeInitialRisk } from './tradeCalculations';
+
+// MAE / MFE (maximum adverse / favourable excursion) of closed trades.
+//
+// Excursions are measured on daily candles from the first entry day through the final exit
+// day, against the average entry on the full entered quantity. Daily candles include the part
+// of the entry and exit sessions outside the position, so excursions are an upper bound.
+// F&O trades are skipped: the price provider only has the underlying, not the contract.
+
+export interface ExcursionSetupSummary {
+  setup: string;
+  trades: number;
+  avgMaeR: number | null;
+  avgMfeR: number | null;
+  avgExitEfficiency: number | null;
+  /** Average MAE of the winners: the heat a winning trade needed before working */
+  winnersAvgMaeR: number | null;
+  /** Share of losers whose MAE went beyond 1R, i.e. past the initial stop */
+  losersBeyondStop: number | null;
+}
+
+const average = (values: number[]): number | null =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+/**
+ * Days the excursions of a trade are measured over: first entry through final exit.
+ * Undefined for trades that are not closed, have undated legs, or are F&O contracts.
+ */
+export function getExcursionWindow(trade: Partial<Trade>): { from: string; to: string } | undefined {
+  if (trade.positionStatus !== 'Closed' || isDerivative(trade)) return undefined;
+  const legs = getTradeLegs(trade);
+  const entryDates = getEntryLegs(legs)
+    .map(leg => leg.date)
+    .filter(date => date && !isNaN(new Date(date).getTime()))
+    .map(date => toDateKey(date))
+    .sort();
+  const exitDate = getLatestExitDate(legs);
+  if (entryDates.length === 0 || !exitDate || isNaN(new Date(exitDate).getTime())) return undefined;
+
+  const from = entryDates[0];
+  const to = toDateKey(exitDate);
+  return to >= from ? { from, to } : undefined;
+}
+
+/** Whether a trade has no excursions yet, or they were measured over a different window */
+export function needsExcursions(trade: Partial<Trade>): boolean {
+  const window = getExcursionWindow(trade);
+  if (!window) return false;
+  return !trade.excursions || trade.excursions.from !== window.from || trade.excursions.to !== window.to;
+}
+
+/**
+ * MAE / MFE of a closed trade from its daily candles
+ * @returns null when the trade has no excursion window or no candle falls inside it
+ */
+export function calcTradeExcursions(trade: Trade, candles: PriceTick[], now: Date = new Date()): TradeExcursions | null {
+  const window = getExcursionWindow(trade);
+  if (!window) return null;
+
+  const inWindow = candles.filter(candle => {
+    const time = new Date(candle.dateTime);
+    if (isNaN(time.getTime()) || !(candle.high > 0) || !(candle.low > 0)) return false;
+    const key = toDateKey(time);
+    return key >= window.from && key <= window.to;
+  });
+  if (inWindow.length === 0) return null;
+
+  const legs = getTradeLegs(trade);
+  const avgEntry = calcAvgEntry(legs);
+  const avgExit = calcAvgExitPrice(legs);
+  if (avgEntry <= 0) return null;
+
+  const isShort = trade.buySell === 'Sell';
+  const lowest = Math.min(...inWindow.map(candle => candle.low));
+  const highest = Math.max(...inWindow.map(candle => candle.high));
+  const maePrice = isShort ? highest : lowest;
+  const mfePrice = isShort ? lowest : highest;
+  // An excursion cannot be smaller than the move to the actual exit
+  const exitMove = avgExit > 0 ? (isShort ? avgEntry - avgExit : avgExit - avgEntry) : 0;
+  const maePerUnit = Math.max(0, isShort ? maePrice - avgEntry : avgEntry - maePrice, -exitMove);
+  const mfePerUnit = Math.max(0, isShort ? avgEntry - mfePrice : mfePrice - avgEntry, exitMove);
+
+  const enteredQty = getEntryLegs(legs).reduce((sum, leg) => sum + (Number(leg.qty) || 0), 0);
+  const multiplier = getContractMultiplier(trade);
+  const maeRs = maePerUnit * enteredQty * multiplier;
+  const mfeRs = mfePerUnit * enteredQty * multiplier;
+  const risk = calcTradeInitialRisk(trade);
+
+  return {
+    maePrice,
+    mfePrice,
+    maeRs: round(maeRs),
+    mfeRs: round(mfeRs),
+    maePercent: round((maePerUnit / avgEntry) * 100),
+    mfePercent: round((mfePerUnit / avgEntry) * 100),
+    maeR: risk > 0 ? round(maeRs / risk) : null,
+    mfeR: risk > 0 ? round(mfeRs / risk) : null,
+    exitEfficiency: mfePerUnit > 0 && avgExit > 0 ? round((exitMove / mfePerUnit) * 100, 1) : null,
+    from: window.from,
+    to: window.to,
+    computedAt: now.toISOString()
+  };
+}
+
+/**
+ * Load the daily candles of a closed trade from the price provider and measure its excursions
+ */
+export async function fetchTradeExcursions(trade: Trade): Promise<TradeExcursions | null> {
+  const window = getExcursionWindow(trade);
+  if (!window || !trade.name) return null;
+
+  const [fromYear, fromMonth, fromDay] = window.from.split('-').map(Number);
+  const [toYear, toMonth, toDay] = window.to.split('-').map(Number);
+  const from = new Date(fromYear, fromMonth - 1, fromDay);
+  const to = new Date(toYear, toMonth - 1, toDay, 23, 59, 59, 999);
+
+  const response = await fetchPriceTicksFromProvider(trade.name, from, to, '1d');
+  return calcTradeExcursions(trade, ticksToCandles(trade.name, response));
+}
+
+/** Excursion averages per setup, largest setups first */
+export function summariseExcursionsBySetup(trades: Trade[]): ExcursionSetupSummary[] {
+  const bySetup = new Map<string, Trade[]>();
+  trades.forEach(trade => {
+    if (!trade.excursions) return;
+    const setup = trade.setup?.trim() || 'No setup';
+    bySetup.set(setup, [...(bySetup.get(setup) || []), trade]);
+  });
+
+  return Array.from(bySetup.entries())
+    .map(([setup, setupTrades]) => {
+      const rValues = (key: 'maeR' | 'mfeR', list: Trade[]) =>
+        list.map(trade => trade.excursions![key]).filter((value): value is number => value !== null && value !== undefined);
+      const winners = setupTrades.filter(trade => (Number(trade.plRs) || 0) > 0);
+      const losersMaeR = rValues('maeR', setupTrades.filter(trade => (Number(trade.plRs) || 0) < 0));
+
+      return {
+        setup,
+        trades: setupTrades.length,
+        avgMaeR: average(rValues('maeR', setupTrades)),
+        avgMfeR: average(rValues('mfeR', setupTrades)),
+        avgExitEfficiency: average(setupTrades
+          .map(trade => trade.excursions!.exitEfficiency)
+          .filter((value): value is number => value !== null && value !== undefined)),
+        winnersAvgMaeR: average(rValues('maeR', winners)),
+        losersBeyondStop: losersMaeR.length
+          ? (losersMaeR.filter(value => value > 1).length / losersMaeR.length) * 100
+          : null
+      };
+    })
+    .sort((a, b) => b.trades - a.trades || a.setup.localeCompare(b.setup));
+}
@@ -0,0 +1,173 @@
+import { Trade, TradeLeg } from '../types/trade';
+
+// Trade leg utilities
+//
+// `Trade.legs` holds every execution of a position. The older fixed slot fields
+// (entry/initialQty/date, pyramid1*, pyramid2*, exit1*..exit3*) are kept as a mirror
+// of the first legs so the journal columns and existing spreadsheets keep working.
+
+type LegacyEntrySlot = { price: keyof Trade; qty: keyof Trade; date: keyof Trade };
+
+const ENTRY_SLOTS: LegacyEntrySlot[] = [
+  { price: 'entry', qty: 'initialQty', date: 'date' },
+  { price: 'pyramid1Price', qty: 'pyramid1Qty', date: 'pyramid1Date' },
+  { price: 'pyramid2Price', qty: 'pyramid2Qty', date: 'pyramid2Date' }
+];
+
+const EXIT_SLOTS: LegacyEntrySlot[] = [
+  { price: 'exit1Price', qty: 'exit1Qty', date: 'exit1Date' },
+  { price: 'exit2Price', qty: 'exit2Qty', date: 'exit2Date' },
+  { price: 'exit3Price', qty: 'exit3Qty', date: 'exit3Date' }
+];
+
+/** Number of entry / exit legs that have a matching legacy slot field */
+export const LEGACY_SLOT_COUNT = 3;
+
+function legIdFor(trade: Partial<Trade>, side: TradeLeg['side'], index: number): string {
+  return `${trade.id || 'trade'}-${side}-${index}`;
+}
+
+function slotLeg(
+  trade: Partial<Trade>,
+  side: TradeLeg['side'],
+  slot: LegacyEntrySlot,
+  index: number,
+  existing?: TradeLeg
+): TradeLeg | null {
+  const qty = Number(trade[slot.qty] || 0);
+  if (qty <= 0) return null;
+
+  return {
+    ...existing,
+    id: existing?.id || legIdFor(trade, side, index),
+    side,
+    date: (trade[slot.date] as string) || '',
+    price: Number(trade[slot.price] || 0),
+    qty
+  };
+}
+
+function slotMatchesLeg(trade: Partial<Trade>, slot: LegacyEntrySlot, leg: TradeLeg): boolean {
+  return Number(trade[slot.qty] || 0) === Number(leg.qty || 0) &&
+    Number(trade[slot.price] || 0) === Number(leg.price || 0) &&
+    ((trade[slot.date] as string) || '') === (leg.date || '');
+}
+
+/**
+ * Build legs from the legacy slot fields of a trade
+ * @param trade - Trade (or partial trade) with entry/pyramid/exit slot fields
+ * @returns Entry legs followed by exit legs
+ */
+export function legsFromLegacyFields(trade: Partial<Trade>): TradeLeg[] {
+  const entries = ENTRY_SLOTS
+    .map((slot, i) => slotLeg(trade, 'entry', slot, i))
+    .filter(Boolean) as TradeLeg[];
+  const exits = EXIT_SLOTS
+    .map((slot, i) => slotLeg(trade, 'exit', slot, i))
+    .filter(Boolean) as TradeLeg[];
+  return [...entries, ...exits];
+}
+
+/**
+ * Get the legs of a trade, deriving them from legacy fields for trades saved before legs existed
+ */
+export function getTradeLegs(trade: Partial<Trade>): TradeLeg[] {
+  if (Array.isArray(trade.legs) && trade.legs.length > 0) {
+    return trade.legs;
+  }
+  return legsFromLegacyFields(trade);
+}
+
+/** Entry legs with a positive quantity, in stored order */
+export function getEntryLegs(legs: TradeLeg[]): TradeLeg[] {
+  return legs.filter(leg => leg.side === 'entry' && Number(leg.qty) > 0);
+}
+
+/** Exit legs with a positive quantity, in stored order */
+export function getExitLegs(legs: TradeLeg[]): TradeLeg[] {
+  return legs.filter(leg => leg.side === 'exit' && Number(leg.qty) > 0);
+}
+
+/**
+ * Reconcile a trade's legs with its legacy slot fields.
+ * Slot fields win for the legs they mirror (they are what inline journal edits change);
+ * legs beyond the third entry/exit are kept untouched.
+ */
+export function mergeLegacyFieldsIntoLegs(trade: Partial<Trade>): TradeLeg[] {
+  const existing = Array.isArray(trade.legs) ? trade.legs : [];
+  if (existing.length === 0) {
+    return legsFromLegacyFields(trade);
+  }
+
+  const mergeSide = (side: TradeLeg['side'], slots: LegacyEntrySlot[]) => {
+    const sideLegs = existing.filter(leg => leg.side === side);
+    const merged: TradeLeg[] = [];
+    slots.forEach((slot, i) => {
+      const current = sideLegs[i];
+      // An untouched (undefined) slot field means the caller only maintains legs;
+      // a slot that still matches its leg keeps draft legs (no qty yet) alive
+      if (trade[slot.qty] === undefined || (current && slotMatchesLeg(trade, slot, current))) {
+        if (current) merged.push(current);
+        return;
+      }
+      const leg = slotLeg(trade, side, slot, i, current);
+      if (leg) merged.push(leg);
+    });
+    return [...merged, ...sideLegs.slice(slots.length)];
+  };
+
+  return [...mergeSide('entry', ENTRY_SLOTS), ...mergeSide('exit', EXIT_SLOTS)];
+}
+
+/**
+ * Derive the legacy slot fields from a list of legs
+ * @returns Partial trade with entry/initialQty/date, pyramid and exit slot fields
+ */
+export function legacyFieldsFromLegs(legs: TradeLeg[]): Partial<Trade> {
+  const fields: Record<string, any> = {};
+  const entries = legs.filter(leg => leg.side === 'entry');
+  const exits = legs.filter(leg => leg.side === 'exit');
+
+  ENTRY_SLOTS.forEach((slot, i) => {
+    const leg = entries[i];
+    fields[slot.price] = leg ? Number(leg.price) || 0 : 0;
+    fields[slot.qty] = leg ? Number(leg.qty) || 0 : 0;
+    // Never blank out the trade date just because the first entry leg has no date yet
+    if (i === 0 && !leg?.date) return;
+    fields[slot.date] = leg ? leg.date || '' : '';
+  });
+
+  EXIT_SLOTS.forEach((slot, i) => {
+    const leg = exits[i];
+    fields[slot.price] = leg ? Number(leg.price) || 0 : 0;
+    fields[slot.qty] = leg ? Number(leg.qty) || 0 : 0;
+    fields[slot.date] = leg ? leg.date || '' : '';
+  });
+
+  return fields as Partial<Trade>;
+}
+
+/**
+ * Return a copy of the trade with the given legs and matching legacy slot fields
+ */
+export function applyLegs<T extends Partial<Trade>>(trade: T, legs: TradeLeg[]): T {
+  return {
+    ...trade,
+    ...legacyFieldsFromLegs(legs),
+    legs
+  };
+}
+
+/** Display label for the n-th entry leg ("Initial Entry", "Pyramid 1", ...) */
+export function entryLegLabel(index: number): string {
+  return index === 0 ? 'Initial Entry' : `Pyramid ${index}`;
+}
+
+/** Latest dated exit leg, or undefined when no exit has a date */
+export function getLatestExitDate(legs: TradeLeg[]): string | undefined {
+  const dates = legs
+    .filter(leg => leg.side === 'exit' && leg.date && leg.date.trim() !== '')
+    .map(leg => leg.date);
+  if (dates.length === 0) return undefined;
+  return dates.sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0];
+}
@@ -0,0 +1,93 @@
+import { Trade } from '../types/trade';
+import { DEFAULT_RISK_RULES_SETTINGS, RiskRulesSettings, evaluateTradeRules, summariseRuleViolations } from './tradeRules';
+
+const makeTrade = (id: string, tradeNo: number, date: string, overrides: Partial<Trade> = {}) => ({
+  id,
+  tradeNo: String(tradeNo),
+  name: `STOCK${id}`,
+  date,
+  buySell: 'Buy',
+  sl: 95,
+  positionStatus: 'Open',
+  legs: [{ id: `${id}e0`, side: 'entry', date, price: 100, qty: 100 }],
+  ...overrides
+}) as Trade;
+
+const only = (...ids: (keyof RiskRulesSettings)[]): RiskRulesSettings => Object.fromEntries(
+  Object.entries(DEFAULT_RISK_RULES_SETTINGS).map(([id, config]) => [id, { ...config, enabled: ids.includes(id as keyof RiskRulesSettings) }])
+) as RiskRulesSettings;
+
+// ₹500 of risk per trade on a ₹1,00,000 portfolio: 0.5% each
+const context = { portfolioSize: 100000 };
+
+describe('tradeRules', () => {
+  it('flags missing stops and oversized risk', () => {
+    const trades = [
+      makeTrade('A', 1, '2024-06-03', { sl: 0 }),
+      makeTrade('B', 2, '2024-06-03', { sl: 80 }), // ₹2,000 of risk: 2%
+      makeTrade('C', 3, '2024-06-03')
+    ];
+    const result = evaluateTradeRules(trades, context, only('mandatorySl', 'maxRiskPerTrade'));
+    expect(result.get('A')!.map(v => v.ruleId)).toEqual(['mandatorySl']);
+    expect(result.get('B')!.map(v => v.ruleId)).toEqual(['maxRiskPerTrade']);
+    expect(result.has('C')).toBe(false);
+  });
+
+  it('counts open heat of the positions still open on the entry day', () => {
+    const settings = only('maxOpenHeat');
+    settings.maxOpenHeat.value = 1;
+    const closed = makeTrade('A', 1, '2024-06-03', {
+      positionStatus: 'Closed',
+      legs: [
+        { id: 'Ae0', side: 'entry', date: '2024-06-03', price: 100, qty: 100 },
+        { id: 'Ax0', side: 'exit', date: '2024-06-04', price: 105, qty: 100 }
+      ]
+    } as Partial<Trade>);
+    const trades = [closed, makeTrade('B', 2, '2024-06-03'), makeTrade('C', 3, '2024-06-05'), makeTrade('D', 4, '2024-06-05')];
+    const result = evaluateTradeRules(trades, context, settings);
+    expect(result.has('B')).toBe(false); // A + B = 1%
+    expect(result.has('C')).toBe(false); // A closed before: B + C = 1%
+    expect(result.get('D')![0].message).toContain('1.50%');
+  });
+
+  it('limits positions per sector and trades per day', () => {
+    const settings = only('maxPositionsPerSector', 'maxTradesPerDay');
+    settings.maxPositionsPerSector.value = 1;
+    settings.maxTradesPerDay.value = 2;
+    const trades = [
+      makeTrade('A', 1, '2024-06-03', { sector: 'IT' }),
+      makeTrade('B', 2, '2024-06-03', { sector: 'Banks' }),
+      makeTrade('C', 3, '2024-06-03', { sector: 'IT' })
+    ];
+    const result = evaluateTradeRules(trades, context, settings);
+    expect(result.has('A')).toBe(false);
+    expect(result.has('B')).toBe(false);
+    expect(result.get('C')!.map(v => v.ruleId)).toEqual(['maxPositionsPerSector', 'maxTradesPerDay']);
+  });
+
+  it('flags pyramids below a long entry and above a short entry', () => {
+    const pyramid = (price: number) => ({ id: 'p1', side: 'entry', date: '2024-06-04', price, qty: 50 });
+    const trades = [
+      makeTrade('A', 1, '2024-06-03', { legs: [{ id: 'e0', side: 'entry', date: '2024-06-03', price: 100, qty: 100 }, pyramid(97)] } as Partial<Trade>),
+      makeTrade('B', 2, '2024-06-03', { legs: [{ id: 'e0', side: 'entry', date: '2024-06-03', price: 100, qty: 100 }, pyramid(104)] } as Partial<Trade>),
+      makeTrade('C', 3, '2024-06-03', { buySell: 'Sell', sl: 105, legs: [{ id: 'e0', side: 'entry', date: '2024-06-03', price: 100, qty: 100 }, pyramid(102)] } as Partial<Trade>)
+    ];
+    const result = evaluateTradeRules(trades, context, only('noAveragingDown'));
+    expect(result.has('A')).toBe(true);
+    expect(result.has('B')).toBe(false);
+    expect(result.get('C')![0].message).toBe('Added above the initial entry');
+  });
+
+  it('summarises P/L per broken rule against trades that broke none', () => {
+    const trades = [
+      makeTrade('A', 1, '2024-06-03', { plRs: -1000, pfImpact: -1 }),
+      makeTrade('B', 2, '2024-06-03', { plRs: 500, pfImpact: 0.5 }),
+      makeTrade('C', 3, '2024-06-03', { plRs: 2000, pfImpact: 2 })
+    ];
+    const violations = new Map([['A', [{ ruleId: 'mandatorySl' as const, message: 'No stop loss' }]]]);
+    const rows = summariseRuleViolations(trades, violations);
+    expect(rows.map(row => row.key)).toEqual(['mandatorySl', 'clean']);
+    expect(rows[0]).toMatchObject({ trades: 1, winRate: 0, totalPl: -1000, totalPfImpact: -1 });
+    expect(rows[1]).toMatchObject({ trades: 2, winRate: 100, totalPl: 2500, avgPl: 1250 });
+  });
+});
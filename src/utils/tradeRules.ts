@@ -0,0 +1,254 @@
+import { Trade } from '../types/trade';
+import { getEntryLegs, getLatestExitDate, getTradeLegs } from './tradeLegs';
+import { calcTradeInitialRisk } from './tradeCalculations';
+import { toDateKey } from './marketCalendar';
+
+// Trading rules checked against each trade as it stood when it was entered.
+//
+// Unlike `validateTrade` (data consistency of one trade), rules look at the rest of the book:
+// open heat and sector concentration count the positions open on the entry day, and the
+// trades-per-day limit counts the trades entered that day in trade number order.
+
+export type RiskRuleId =
+  | 'mandatorySl'
+  | 'maxRiskPerTrade'
+  | 'maxOpenHeat'
+  | 'maxPositionsPerSector'
+  | 'noAveragingDown'
+  | 'maxTradesPerDay';
+
+export interface RiskRuleConfig {
+  enabled: boolean;
+  value: number; // Limit of the rule; unused by yes/no rules
+}
+
+export type RiskRulesSettings = Record<RiskRuleId, RiskRuleConfig>;
+
+export interface RiskRuleDefinition {
+  id: RiskRuleId;
+  label: string;
+  description: string;
+  unit?: '%' | 'positions' | 'trades';
+}
+
+export interface RuleViolation {
+  ruleId: RiskRuleId;
+  message: string;
+}
+
+export interface RuleEvaluationContext {
+  /** Portfolio size for the month of a trade, as from `useTruePortfolioWithTrades` */
+  getPortfolioSize?: (month: string, year: number) => number;
+  portfolioSize: number;
+  /** Sector of a trade; trades without a known sector are not counted by the sector rule */
+  getSector?: (trade: Trade) => string | undefined;
+}
+
+export interface RuleViolationSummary {
+  key: RiskRuleId | 'clean';
+  label: string;
+  trades: number;
+  winRate: number;
+  totalPl: number;
+  avgPl: number;
+  totalPfImpact: number;
+}
+
+export const RISK_RULE_DEFINITIONS: RiskRuleDefinition[] = [
+  { id: 'mandatorySl', label: 'Stop loss is mandatory', description: 'Every trade has a stop loss' },
+  { id: 'maxRiskPerTrade', label: 'Max risk per trade', description: 'Initial risk to the SL, % of portfolio', unit: '%' },
+  { id: 'maxOpenHeat', label: 'Max open heat', description: 'Risk of all open positions after the entry, % of portfolio', unit: '%' },
+  { id: 'maxPositionsPerSector', label: 'Max positions per sector', description: 'Open positions in the same sector after the entry', unit: 'positions' },
+  { id: 'noAveragingDown', label: 'No averaging down', description: 'Pyramids only add at a better price than the initial entry' },
+  { id: 'maxTradesPerDay', label: 'Max trades per day', description: 'New trades entered on the same day', unit: 'trades' }
+];
+
+export const DEFAULT_RISK_RULES_SETTINGS: RiskRulesSettings = {
+  mandatorySl: { enabled: true, value: 0 },
+  maxRiskPerTrade: { enabled: true, value: 1 },
+  maxOpenHeat: { enabled: true, value: 6 },
+  maxPositionsPerSector: { enabled: false, value: 2 },
+  noAveragingDown: { enabled: true, value: 0 },
+  maxTradesPerDay: { enabled: false, value: 3 }
+};
+
+const STORAGE_KEY = 'riskRulesSettings';
+
+/** Rule settings saved in localStorage */
+export function loadRiskRulesSettings(): RiskRulesSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_RISK_RULES_SETTINGS;
+    const parsed = JSON.parse(stored);
+    // Rules added after the settings were saved keep their defaults
+    return RISK_RULE_DEFINITIONS.reduce((settings, { id }) => ({
+      ...settings,
+      [id]: { ...DEFAULT_RISK_RULES_SETTINGS[id], ...(parsed[id] || {}) }
+    }), {} as RiskRulesSettings);
+  } catch (error) {
+    console.error('Error loading risk rules from localStorage:', error);
+    return DEFAULT_RISK_RULES_SETTINGS;
+  }
+}
+
+export function saveRiskRulesSettings(settings: RiskRulesSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving risk rules to localStorage:', error);
+  }
+}
+
+export const getRuleLabel = (ruleId: RiskRuleId): string =>
+  RISK_RULE_DEFINITIONS.find(rule => rule.id === ruleId)?.label || ruleId;
+
+// Entry day, exit day and entry order of a trade
+interface TradeSpan {
+  trade: Trade;
+  entryDay: string;
+  exitDay: string | null; // null while the position is open
+  order: number;
+}
+
+const toSpan = (trade: Trade): TradeSpan | null => {
+  if (!trade.date || isNaN(new Date(trade.date).getTime())) return null;
+  const exitDate = trade.positionStatus === 'Closed' ? getLatestExitDate(getTradeLegs(trade)) : undefined;
+  return {
+    trade,
+    entryDay: toDateKey(trade.date),
+    exitDay: exitDate && !isNaN(new Date(exitDate).getTime()) ? toDateKey(exitDate) : null,
+    order: Number(trade.tradeNo) || 0
+  };
+};
+
+// Entered before the other trade (same day: lower trade number) and not yet closed on its entry day
+const isOpenAtEntryOf = (span: TradeSpan, entry: TradeSpan): boolean => {
+  if (span.trade.id === entry.trade.id) return false;
+  const enteredBefore = span.entryDay < entry.entryDay || (span.entryDay === entry.entryDay && span.order < entry.order);
+  return enteredBefore && (span.exitDay === null || span.exitDay >= entry.entryDay);
+};
+
+const portfolioSizeOn = (day: string, context: RuleEvaluationContext): number => {
+  const [year, month] = day.split('-').map(Number);
+  const monthName = new Date(year, month - 1, 1).toLocaleString('default', { month: 'short' });
+  return context.getPortfolioSize?.(monthName, year) || context.portfolioSize || 0;
+};
+
+/**
+ * Rules each trade broke when it was entered
+ * @param trades - Every trade of the book (one entry per trade, not cash-basis exit rows)
+ * @returns Violations by trade id; trades without violations are not in the map
+ */
+export function evaluateTradeRules(
+  trades: Trade[],
+  context: RuleEvaluationContext,
+  settings: RiskRulesSettings = loadRiskRulesSettings()
+): Map<string, RuleViolation[]> {
+  const spans = trades.map(toSpan).filter(Boolean) as TradeSpan[];
+  const risks = new Map(spans.map(span => [span.trade.id, calcTradeInitialRisk(span.trade)]));
+  const sectors = new Map(spans.map(span => [span.trade.id, context.getSector?.(span.trade) ?? span.trade.sector]));
+  const violationsById = new Map<string, RuleViolation[]>();
+
+  spans.forEach(span => {
+    const { trade } = span;
+    const violations: RuleViolation[] = [];
+    const portfolioSize = portfolioSizeOn(span.entryDay, context);
+    const risk = risks.get(trade.id) || 0;
+    const openBefore = spans.filter(other => isOpenAtEntryOf(other, span));
+
+    if (settings.mandatorySl.enabled && !(Number(trade.sl) > 0)) {
+      violations.push({ ruleId: 'mandatorySl', message: 'No stop loss' });
+    }
+
+    if (settings.maxRiskPerTrade.enabled && portfolioSize > 0 && Number(trade.sl) > 0) {
+      const riskPercent = (risk / portfolioSize) * 100;
+      if (riskPercent > settings.maxRiskPerTrade.value) {
+        violations.push({
+          ruleId: 'maxRiskPerTrade',
+          message: `Risk ${riskPercent.toFixed(2)}% of portfolio (max ${settings.maxRiskPerTrade.value}%)`
+        });
+      }
+    }
+
+    if (settings.maxOpenHeat.enabled && portfolioSize > 0) {
+      const openRisk = openBefore.reduce((sum, other) => sum + (risks.get(other.trade.id) || 0), risk);
+      const heat = (openRisk / portfolioSize) * 100;
+      if (heat > settings.maxOpenHeat.value) {
+        violations.push({
+          ruleId: 'maxOpenHeat',
+          message: `Open heat ${heat.toFixed(2)}% after entry (max ${settings.maxOpenHeat.value}%)`
+        });
+      }
+    }
+
+    const sector = sectors.get(trade.id);
+    if (settings.maxPositionsPerSector.enabled && sector && sector !== 'Unknown') {
+      const positions = openBefore.filter(other => sectors.get(other.trade.id) === sector).length + 1;
+      if (positions > settings.maxPositionsPerSector.value) {
+        violations.push({
+          ruleId: 'maxPositionsPerSector',
+          message: `${positions} open positions in ${sector} (max ${settings.maxPositionsPerSector.value})`
+        });
+      }
+    }
+
+    if (settings.noAveragingDown.enabled) {
+      const [initial, ...pyramids] = getEntryLegs(getTradeLegs(trade));
+      const isShort = trade.buySell === 'Sell';
+      const averagedDown = initial && pyramids.some(leg => Number(leg.price) > 0 &&
+        (isShort ? Number(leg.price) > Number(initial.price) : Number(leg.price) < Number(initial.price)));
+      if (averagedDown) {
+        violations.push({ ruleId: 'noAveragingDown', message: `Added ${isShort ? 'above' : 'below'} the initial entry` });
+      }
+    }
+
+    if (settings.maxTradesPerDay.enabled) {
+      const tradesThatDay = spans.filter(other => other.entryDay === span.entryDay &&
+        (other.order < span.order || (other.order === span.order && other.trade.id <= trade.id))).length;
+      if (tradesThatDay > settings.maxTradesPerDay.value) {
+        violations.push({
+          ruleId: 'maxTradesPerDay',
+          message: `Trade ${tradesThatDay} of the day (max ${settings.maxTradesPerDay.value})`
+        });
+      }
+    }
+
+    if (violations.length > 0) violationsById.set(trade.id, violations);
+  });
+
+  return violationsById;
+}
+
+/**
+ * P/L of the trades that broke each rule, next to the trades that broke none
+ * @param getPl - Realized P/L of a trade under the accounting method in use
+ */
+export function summariseRuleViolations(
+  trades: Trade[],
+  violationsById: Map<string, RuleViolation[]>,
+  getPl: (trade: Trade) => number = trade => Number(trade.plRs) || 0
+): RuleViolationSummary[] {
+  const summarise = (key: RuleViolationSummary['key'], label: string, group: Trade[]): RuleViolationSummary => {
+    const pls = group.map(getPl);
+    const totalPl = pls.reduce((sum, pl) => sum + pl, 0);
+    return {
+      key,
+      label,
+      trades: group.length,
+      winRate: group.length ? (pls.filter(pl => pl > 0).length / group.length) * 100 : 0,
+      totalPl,
+      avgPl: group.length ? totalPl / group.length : 0,
+      totalPfImpact: group.reduce((sum, trade) => sum + (Number(trade.pfImpact) || 0), 0)
+    };
+  };
+
+  const rows = RISK_RULE_DEFINITIONS
+    .map(rule => summarise(
+      rule.id,
+      rule.label,
+      trades.filter(trade => violationsById.get(trade.id)?.some(violation => violation.ruleId === rule.id))
+    ))
+    .filter(row => row.trades > 0);
+
+  return [...rows, summarise('clean', 'No rule broken', trades.filter(trade => !violationsById.has(trade.id)))];
+}
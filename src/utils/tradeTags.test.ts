@@ -0,0 +1,44 @@
+import { Trade } from '../types/trade';
+import { DEFAULT_TRADE_TAGS, TradeTag, getTradeTags, matchesTagFilter, summariseTradeTags } from './tradeTags';
+
+const tags: TradeTag[] = [
+  { id: 'fomo', name: 'FOMO', category: 'emotion' },
+  { id: 'earnings', name: 'Earnings', category: 'catalyst' },
+  { id: 'moved-sl', name: 'Moved SL', category: 'mistake' }
+];
+
+const makeTrade = (id: string, tradeTags: string[], plRs: number, pfImpact: number) =>
+  ({ id, tags: tradeTags, plRs, pfImpact }) as Trade;
+
+describe('tradeTags', () => {
+  it('gives the default tags unique ids', () => {
+    expect(new Set(DEFAULT_TRADE_TAGS.map(tag => tag.id)).size).toBe(DEFAULT_TRADE_TAGS.length);
+    expect(DEFAULT_TRADE_TAGS.find(tag => tag.name === 'Moved SL')!.id).toBe('mistake-moved-sl');
+  });
+
+  it('matches any or all of the selected tags', () => {
+    const trade = makeTrade('A', ['fomo', 'earnings'], 0, 0);
+    expect(matchesTagFilter(trade, [])).toBe(true);
+    expect(matchesTagFilter(trade, ['fomo', 'moved-sl'])).toBe(true);
+    expect(matchesTagFilter(trade, ['fomo', 'moved-sl'], 'all')).toBe(false);
+    expect(matchesTagFilter(trade, ['fomo', 'earnings'], 'all')).toBe(true);
+    expect(matchesTagFilter({ tags: undefined }, ['fomo'])).toBe(false);
+  });
+
+  it('skips tags that were deleted', () => {
+    expect(getTradeTags(makeTrade('A', ['earnings', 'gone', 'fomo'], 0, 0), tags).map(tag => tag.id)).toEqual(['fomo', 'earnings']);
+  });
+
+  it('summarises win rate, expectancy and PF impact per tag', () => {
+    const trades = [
+      makeTrade('A', ['fomo'], -1000, -1),
+      makeTrade('B', ['fomo', 'earnings'], 3000, 3),
+      makeTrade('C', ['earnings'], 1000, 1),
+      makeTrade('D', [], 500, 0.5)
+    ];
+    const rows = summariseTradeTags(trades, tags);
+    expect(rows.map(row => row.tag.id)).toEqual(['fomo', 'earnings']);
+    expect(rows[0]).toMatchObject({ trades: 2, winRate: 50, avgWin: 3000, avgLoss: -1000, expectancy: 1000, totalPfImpact: 2 });
+    expect(rows[1]).toMatchObject({ trades: 2, winRate: 100, avgLoss: 0, expectancy: 2000, totalPl: 4000 });
+  });
+});
@@ -0,0 +1,103 @@
+import { Trade } from '../types/trade';
+
+// First-class trade tags. Unlike the free-text `setup`, `exitTrigger` and
+// `proficiencyGrowthAreas` fields, a trade can carry any number of tags; trades store
+// tag ids so renaming a tag does not touch the trades.
+
+export type TradeTagCategory = 'mistake' | 'market' | 'emotion' | 'catalyst';
+
+export interface TradeTag {
+  id: string;
+  name: string;
+  category: TradeTagCategory;
+}
+
+export type TagFilterMode = 'any' | 'all';
+
+export interface TradeTagSummary {
+  tag: TradeTag;
+  trades: number;
+  winRate: number;
+  avgWin: number;
+  avgLoss: number;
+  expectancy: number; // Average P/L per trade
+  totalPl: number;
+  totalPfImpact: number;
+}
+
+export const TRADE_TAG_CATEGORIES: Array<{ id: TradeTagCategory; label: string; icon: string; color: 'danger' | 'primary' | 'warning' | 'success' }> = [
+  { id: 'mistake', label: 'Mistakes', icon: 'lucide:circle-x', color: 'danger' },
+  { id: 'market', label: 'Market Condition', icon: 'lucide:cloud-sun', color: 'primary' },
+  { id: 'emotion', label: 'Emotions', icon: 'lucide:heart-pulse', color: 'warning' },
+  { id: 'catalyst', label: 'Catalysts', icon: 'lucide:zap', color: 'success' }
+];
+
+const defaultTag = (category: TradeTagCategory, name: string): TradeTag => ({
+  id: `${category}-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+  name,
+  category
+});
+
+export const DEFAULT_TRADE_TAGS: TradeTag[] = [
+  ...['Chased Entry', 'Moved SL', 'Oversized', 'Early Exit', 'Ignored Exit Signal'].map(name => defaultTag('mistake', name)),
+  ...['Uptrend', 'Sideways', 'Correction', 'High Volatility'].map(name => defaultTag('market', name)),
+  ...['FOMO', 'Fear', 'Revenge', 'Confident'].map(name => defaultTag('emotion', name)),
+  ...['Earnings', 'News', 'Sector Rotation', 'Order Win'].map(name => defaultTag('catalyst', name))
+];
+
+/** Misc data key of the tag list */
+export const TRADE_TAGS_STORAGE_KEY = 'tradeTags';
+
+export const createTradeTag = (name: string, category: TradeTagCategory): TradeTag => ({
+  id: `tag_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim(),
+  category
+});
+
+/** Tags of a trade that still exist, in the order of the tag list */
+export const getTradeTags = (trade: Pick<Trade, 'tags'>, tags: TradeTag[]): TradeTag[] => {
+  const ids = new Set(trade.tags || []);
+  return tags.filter(tag => ids.has(tag.id));
+};
+
+/**
+ * Whether a trade passes the journal's tag filter
+ * @param mode - 'any' keeps trades with at least one of the tags, 'all' only trades with every tag
+ */
+export function matchesTagFilter(trade: Pick<Trade, 'tags'>, tagIds: string[], mode: TagFilterMode = 'any'): boolean {
+  if (tagIds.length === 0) return true;
+  const tradeTags = new Set(trade.tags || []);
+  return mode === 'all'
+    ? tagIds.every(id => tradeTags.has(id))
+    : tagIds.some(id => tradeTags.has(id));
+}
+
+/**
+ * Win rate, expectancy and PF impact of the trades carrying each tag. Tags on no trade are left out.
+ * @param getPl - Realized P/L of a trade under the accounting method in use
+ */
+export function summariseTradeTags(
+  trades: Trade[],
+  tags: TradeTag[],
+  getPl: (trade: Trade) => number = trade => Number(trade.plRs) || 0
+): TradeTagSummary[] {
+  return tags
+    .map(tag => {
+      const tagged = trades.filter(trade => trade.tags?.includes(tag.id));
+      const pls = tagged.map(getPl);
+      const wins = pls.filter(pl => pl > 0);
+      const losses = pls.filter(pl => pl < 0);
+      const totalPl = pls.reduce((sum, pl) => sum + pl, 0);
+      return {
+        tag,
+        trades: tagged.length,
+        winRate: tagged.length ? (wins.length / tagged.length) * 100 : 0,
+        avgWin: wins.length ? wins.reduce((sum, pl) => sum + pl, 0) / wins.length : 0,
+        avgLoss: losses.length ? losses.reduce((sum, pl) => sum + pl, 0) / losses.length : 0,
+        expectancy: tagged.length ? totalPl / tagged.length : 0,
+        totalPl,
+        totalPfImpact: tagged.reduce((sum, trade) => sum + (Number(trade.pfImpact) || 0), 0)
+      };
+    })
+    .filter(row => row.trades > 0);
+}
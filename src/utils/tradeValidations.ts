@@ -1,4 +1,5 @@
 import { Trade } from "../types/trade";
+import { mergeLegacyFieldsIntoLegs, getEntryLegs, getExitLegs } from "./tradeLegs";
 
 export interface TradeIssue {
   type: 'error' | 'warning';
@@ -8,15 +9,15 @@ export interface TradeIssue {
 export function validateTrade(trade: Trade): TradeIssue[] {
   const issues: TradeIssue[] = [];
 
+  const legs = mergeLegacyFieldsIntoLegs(trade);
+  const entryLegs = getEntryLegs(legs);
+  const exitLegs = getExitLegs(legs);
+
   // Calculate total bought quantity
-  const totalBoughtQty = (trade.initialQty || 0) +
-    (trade.pyramid1Qty || 0) +
-    (trade.pyramid2Qty || 0);
+  const totalBoughtQty = entryLegs.reduce((sum, leg) => sum + (Number(leg.qty) || 0), 0);
 
   // Calculate total exit quantity
-  const totalExitQty = (trade.exit1Qty || 0) +
-    (trade.exit2Qty || 0) +
-    (trade.exit3Qty || 0);
+  const totalExitQty = exitLegs.reduce((sum, leg) => sum + (Number(leg.qty) || 0), 0);
 
   // 1. Exit qty > Bought qty (ERROR) - but only if there are actual exits
   if (totalExitQty > 0 && totalExitQty > totalBoughtQty) {
@@ -27,45 +28,28 @@ export function validateTrade(trade: Trade): TradeIssue[] {
   }
 
   // 2. Pyramid quantities without prices (WARNING)
-  if ((trade.pyramid1Qty || 0) > 0 && !(trade.pyramid1Price || 0) > 0) {
-    issues.push({
-      type: 'warning',
-      message: 'Pyramid 1 has quantity but no price specified'
-    });
-  }
-
-  if ((trade.pyramid2Qty || 0) > 0 && !(trade.pyramid2Price || 0) > 0) {
-    issues.push({
-      type: 'warning',
-      message: 'Pyramid 2 has quantity but no price specified'
-    });
-  }
+  entryLegs.forEach((leg, i) => {
+    if (i > 0 && !(Number(leg.price) > 0)) {
+      issues.push({
+        type: 'warning',
+        message: `Pyramid ${i} has quantity but no price specified`
+      });
+    }
+  });
 
   // 3. Exit quantities without prices (WARNING)
-  if ((trade.exit1Qty || 0) > 0 && !(trade.exit1Price || 0) > 0) {
-    issues.push({
-      type: 'warning',
-      message: 'Exit 1 has quantity but no price specified'
-    });
-  }
-
-  if ((trade.exit2Qty || 0) > 0 && !(trade.exit2Price || 0) > 0) {
-    issues.push({
-      type: 'warning',
-      message: 'Exit 2 has quantity but no price specified'
-    });
-  }
-
-  if ((trade.exit3Qty || 0) > 0 && !(trade.exit3Price || 0) > 0) {
-    issues.push({
-      type: 'warning',
-      message: 'Exit 3 has quantity but no price specified'
-    });
-  }
+  exitLegs.forEach((leg, i) => {
+    if (!(Number(leg.price) > 0)) {
+      issues.push({
+        type: 'warning',
+        message: `Exit ${i + 1} has quantity but no price specified`
+      });
+    }
+  });
 
   // 2. Open qty but no exit details (WARNING)
   const hasOpenQty = trade.openQty > 0;
-  const noExitDetails = !trade.exit1Qty && !trade.exit2Qty && !trade.exit3Qty;
+  const noExitDetails = exitLegs.length === 0;
   if (hasOpenQty && noExitDetails) {
     issues.push({
       type: 'warning',
@@ -0,0 +1,13 @@
+import {defineConfig} from "vitest/config";
+
+// Dates in the fixtures are local IST days
+process.env.TZ = "Asia/Kolkata";
+
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: "node",
+    // Component tests opt into jsdom with a `@vitest-environment jsdom` comment
+    include: ["src/**/*.test.{ts,tsx}"],
+  },
+});